@@ -0,0 +1,65 @@
+import { createS3Client, type S3ClientWrapper } from '@monorepo-fem/s3-client'
+import { MockS3Client } from '@monorepo-fem/s3-client/testing'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { ImageDownloaderService } from './scryfall-image-downloader.service.js'
+
+vi.mock('@monorepo-fem/s3-client', async (importOriginal) => {
+  const actual = await importOriginal<{ createS3Client: typeof createS3Client }>()
+  return { ...actual, createS3Client: vi.fn(actual.createS3Client) }
+})
+
+const BUCKET = 'scryscraper-cache'
+
+describe('ImageDownloaderService', () => {
+  let s3Client: MockS3Client
+  let downloader: ImageDownloaderService
+
+  beforeEach(() => {
+    vi.mocked(createS3Client).mockClear()
+    s3Client = new MockS3Client({ bucketName: BUCKET })
+    downloader = new ImageDownloaderService(
+      BUCKET,
+      'images',
+      s3Client as unknown as S3ClientWrapper
+    )
+  })
+
+  describe('getImageUrl', () => {
+    it('should presign a GET URL valid for an hour by default', async () => {
+      const url = await downloader.getImageUrl('images/card-id/normal.jpg')
+
+      expect(url).toBe(
+        `https://${BUCKET}.s3.amazonaws.com/images/card-id/normal.jpg?X-Amz-Expires=3600`
+      )
+      expect(s3Client.getOperationsByType('presignGet')).toHaveLength(1)
+    })
+
+    it('should pass a custom expiry to the presigner', async () => {
+      await downloader.getImageUrl('images/card-id/normal.jpg', 300)
+
+      expect(s3Client.getOperationsByType('presignGet')[0]?.params).toEqual({
+        expiresInSeconds: 300,
+      })
+    })
+  })
+
+  describe('S3 client', () => {
+    it('should use the injected client without creating one', async () => {
+      await downloader.getImageUrl('images/card-id/normal.jpg')
+
+      expect(createS3Client).not.toHaveBeenCalled()
+    })
+
+    it('should only create a client once S3 is needed', async () => {
+      vi.mocked(createS3Client).mockReturnValueOnce(s3Client as unknown as S3ClientWrapper)
+      const lazy = new ImageDownloaderService(BUCKET)
+      expect(createS3Client).not.toHaveBeenCalled()
+
+      await lazy.getImageUrl('images/card-id/normal.jpg')
+      await lazy.getImageUrl('images/card-id/large.jpg')
+
+      expect(createS3Client).toHaveBeenCalledTimes(1)
+      expect(createS3Client).toHaveBeenCalledWith({ bucketName: BUCKET })
+    })
+  })
+})
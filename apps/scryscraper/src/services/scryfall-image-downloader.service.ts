@@ -6,9 +6,8 @@
  *
  * NOTE: This service is ready for S3 integration but currently contains
  * placeholder implementations. To fully activate:
- * 1. Uncomment S3Client initialisation in constructor
- * 2. Uncomment actual download and upload logic in methods
- * 3. Set SCRYSCRAPER_CACHE_BUCKET environment variable
+ * 1. Uncomment actual download and upload logic in methods
+ * 2. Set SCRYSCRAPER_CACHE_BUCKET environment variable
  *
  * Scryfall Image Formats:
  * - png: High-resolution PNG (best quality)
@@ -19,6 +18,13 @@
  * - small: Thumbnail size
  */
 
+import { createS3Client, type S3ClientWrapper } from '@monorepo-fem/s3-client'
+
+/**
+ * How long image URLs stay valid by default (1 hour)
+ */
+const DEFAULT_IMAGE_URL_EXPIRY_SECONDS = 3600
+
 export interface ImageDownloadOptions {
   /**
    * The image format to download
@@ -98,9 +104,16 @@ export interface CardImageUris {
 export class ImageDownloaderService {
   private bucketName: string
   private bucketPrefix: string
-  // private s3Client: S3Client // Uncomment when AWS SDK is added
+  private s3Client: S3ClientWrapper | undefined
 
-  constructor(bucketName?: string, bucketPrefix: string = 'images') {
+  /**
+   * @param s3Client - Client for the image bucket, created on first use when omitted
+   */
+  constructor(
+    bucketName?: string,
+    bucketPrefix: string = 'images',
+    s3Client?: S3ClientWrapper
+  ) {
     this.bucketName = bucketName || process.env.SCRYSCRAPER_CACHE_BUCKET || ''
     this.bucketPrefix = bucketPrefix
 
@@ -110,10 +123,15 @@ export class ImageDownloaderService {
       )
     }
 
-    // TODO: Initialize S3 client when AWS SDK is added
-    // import { S3Client } from '@aws-sdk/client-s3'
-    //
-    // this.s3Client = new S3Client({})
+    this.s3Client = s3Client
+  }
+
+  /**
+   * Gets the S3 client, creating it the first time an image needs S3
+   */
+  private getS3Client(): S3ClientWrapper {
+    this.s3Client ??= createS3Client({ bucketName: this.bucketName })
+    return this.s3Client
   }
 
   /**
@@ -316,23 +334,20 @@ export class ImageDownloaderService {
   }
 
   /**
-   * Generates a public URL for an image stored in S3
+   * Generates a time-limited URL for an image stored in S3
+   *
+   * The bucket blocks public access, so plain object URLs never work. The
+   * presigned URL carries the Lambda's credentials until it expires.
    *
    * @param s3Key - The S3 key of the image
-   * @returns The public URL (if bucket is public) or signed URL
+   * @param expiresInSeconds - How long the URL stays valid
+   * @returns Promise that resolves to the presigned URL
    */
-  getImageUrl(s3Key: string): string {
-    // TODO: For private buckets, generate a signed URL instead:
-    // import { GetObjectCommand } from '@aws-sdk/client-s3'
-    // import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
-    //
-    // const command = new GetObjectCommand({
-    //   Bucket: this.bucketName,
-    //   Key: s3Key,
-    // })
-    // return await getSignedUrl(this.s3Client, command, { expiresIn: 3600 })
-
-    return `https://${this.bucketName}.s3.amazonaws.com/${s3Key}`
+  async getImageUrl(
+    s3Key: string,
+    expiresInSeconds: number = DEFAULT_IMAGE_URL_EXPIRY_SECONDS
+  ): Promise<string> {
+    return this.getS3Client().getPresignedGetUrl(s3Key, { expiresInSeconds })
   }
 }
 
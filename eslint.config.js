@@ -54,6 +54,9 @@ export default tseslint.config(
         Buffer: "readonly",
         __dirname: "readonly",
         __filename: "readonly",
+        setTimeout: "readonly",
+        clearTimeout: "readonly",
+        structuredClone: "readonly",
       },
     },
     plugins: {
@@ -61,6 +64,10 @@ export default tseslint.config(
       import: importPlugin,
     },
     rules: {
+      // The base rule doesn't understand parameter names in function types
+      "no-unused-vars": "off",
+      "@typescript-eslint/no-unused-vars": "error",
+
       // Enforce consistent type imports
       "@typescript-eslint/consistent-type-imports": [
         "error",
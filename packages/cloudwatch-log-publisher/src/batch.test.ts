@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chunkLogEvents,
+  getEventSize,
+  EVENT_OVERHEAD_BYTES,
+  MAX_BATCH_EVENT_COUNT,
+  MAX_BATCH_SIZE_BYTES,
+  MAX_BATCH_SPAN_MS,
+} from './batch.js';
+
+describe('batch', () => {
+  describe('getEventSize', () => {
+    it('should count UTF-8 bytes plus the per-event overhead', () => {
+      expect(getEventSize({ message: 'abc', timestamp: 0 })).toBe(
+        3 + EVENT_OVERHEAD_BYTES
+      );
+      // 'é' is two bytes in UTF-8
+      expect(getEventSize({ message: 'é', timestamp: 0 })).toBe(
+        2 + EVENT_OVERHEAD_BYTES
+      );
+    });
+  });
+
+  describe('chunkLogEvents', () => {
+    it('should return no batches for no events', () => {
+      expect(chunkLogEvents([])).toEqual([]);
+    });
+
+    it('should sort events chronologically', () => {
+      const batches = chunkLogEvents([
+        { message: 'third', timestamp: 3 },
+        { message: 'first', timestamp: 1 },
+        { message: 'second', timestamp: 2 },
+      ]);
+
+      expect(batches).toHaveLength(1);
+      expect(batches[0].map((event) => event.message)).toEqual([
+        'first',
+        'second',
+        'third',
+      ]);
+    });
+
+    it('should split batches at the event count limit', () => {
+      const events = Array.from({ length: MAX_BATCH_EVENT_COUNT + 5 }, (_, i) => ({
+        message: `event ${i}`,
+        timestamp: i,
+      }));
+
+      const batches = chunkLogEvents(events);
+
+      expect(batches).toHaveLength(2);
+      expect(batches[0]).toHaveLength(MAX_BATCH_EVENT_COUNT);
+      expect(batches[1]).toHaveLength(5);
+    });
+
+    it('should split batches at the payload size limit', () => {
+      // Four events of ~300 KB can't share a 1 MB batch
+      const message = 'x'.repeat(300 * 1024);
+      const events = Array.from({ length: 4 }, (_, i) => ({ message, timestamp: i }));
+
+      const batches = chunkLogEvents(events);
+
+      expect(batches).toHaveLength(2);
+      expect(batches[0]).toHaveLength(3);
+      expect(batches[1]).toHaveLength(1);
+      for (const batch of batches) {
+        const size = batch.reduce((total, event) => total + getEventSize(event), 0);
+        expect(size).toBeLessThanOrEqual(MAX_BATCH_SIZE_BYTES);
+      }
+    });
+
+    it('should split batches that would span 24 hours or more', () => {
+      const batches = chunkLogEvents([
+        { message: 'start', timestamp: 0 },
+        { message: 'almost a day later', timestamp: MAX_BATCH_SPAN_MS - 1 },
+        { message: 'a day later', timestamp: MAX_BATCH_SPAN_MS },
+      ]);
+
+      expect(batches).toHaveLength(2);
+      expect(batches[0].map((event) => event.message)).toEqual([
+        'start',
+        'almost a day later',
+      ]);
+      expect(batches[1].map((event) => event.message)).toEqual(['a day later']);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { type InputLogEvent } from '@aws-sdk/client-cloudwatch-logs';
+
+/**
+ * Maximum number of events accepted by a single PutLogEvents call
+ */
+export const MAX_BATCH_EVENT_COUNT = 10_000;
+
+/**
+ * Maximum payload size of a single PutLogEvents call in bytes
+ */
+export const MAX_BATCH_SIZE_BYTES = 1_048_576;
+
+/**
+ * Bytes CloudWatch adds to each event when calculating the payload size
+ */
+export const EVENT_OVERHEAD_BYTES = 26;
+
+/**
+ * Maximum span between the first and last event of a single PutLogEvents call
+ */
+export const MAX_BATCH_SPAN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A log event ready to be sent, with a timestamp in milliseconds since epoch
+ */
+export type TimestampedLogEvent = InputLogEvent & {
+  message: string;
+  timestamp: number;
+};
+
+/**
+ * Calculates the size an event contributes to a PutLogEvents payload
+ * Size is the UTF-8 byte length of the message plus the per-event overhead
+ */
+export function getEventSize(event: TimestampedLogEvent): number {
+  return Buffer.byteLength(event.message, 'utf-8') + EVENT_OVERHEAD_BYTES;
+}
+
+/**
+ * Splits events into batches that each satisfy the PutLogEvents limits
+ * Events are sorted chronologically first, as CloudWatch requires
+ * A new batch starts when the event count, payload size or time span would be exceeded
+ */
+export function chunkLogEvents(
+  events: TimestampedLogEvent[]
+): TimestampedLogEvent[][] {
+  // Array.prototype.sort is stable, so events with equal timestamps keep their order
+  const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+
+  const batches: TimestampedLogEvent[][] = [];
+  let batch: TimestampedLogEvent[] = [];
+  let batchSize = 0;
+
+  for (const event of sorted) {
+    const eventSize = getEventSize(event);
+    const exceedsCount = batch.length >= MAX_BATCH_EVENT_COUNT;
+    const exceedsSize = batchSize + eventSize > MAX_BATCH_SIZE_BYTES;
+    const exceedsSpan =
+      batch.length > 0 && event.timestamp - batch[0].timestamp >= MAX_BATCH_SPAN_MS;
+
+    if (batch.length > 0 && (exceedsCount || exceedsSize || exceedsSpan)) {
+      batches.push(batch);
+      batch = [];
+      batchSize = 0;
+    }
+
+    batch.push(event);
+    batchSize += eventSize;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+
+  return batches;
+}
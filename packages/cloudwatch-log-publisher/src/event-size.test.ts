@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeLogEvent,
+  isLogEventChunk,
+  joinLogEventChunks,
+  LogEventTooLargeError,
+  MAX_EVENT_MESSAGE_BYTES,
+  TRUNCATION_MARKER,
+  type LogEventChunk,
+} from './event-size.js';
+
+function byteLength(value: string): number {
+  return Buffer.byteLength(value, 'utf-8');
+}
+
+describe('event-size', () => {
+  describe('encodeLogEvent', () => {
+    it('should return events that fit unchanged, whatever the policy', () => {
+      const logEvent = { message: 'small', type: 'test' };
+
+      for (const policy of ['truncate', 'split', 'reject'] as const) {
+        expect(encodeLogEvent(logEvent, policy)).toEqual([JSON.stringify(logEvent)]);
+      }
+    });
+
+    it('should reject oversized events with a typed error', () => {
+      const logEvent = { message: 'x'.repeat(MAX_EVENT_MESSAGE_BYTES) };
+
+      expect(() => encodeLogEvent(logEvent, 'reject')).toThrow(LogEventTooLargeError);
+
+      try {
+        encodeLogEvent(logEvent, 'reject');
+      } catch (error) {
+        expect(error).toMatchObject({
+          name: 'LogEventTooLargeError',
+          maxSizeBytes: MAX_EVENT_MESSAGE_BYTES,
+          sizeBytes: expect.any(Number),
+        });
+      }
+    });
+
+    it('should truncate the longest string fields with a marker', () => {
+      const logEvent = {
+        message: 'keep me',
+        payload: { body: 'x'.repeat(500), tags: ['short', 'y'.repeat(300)] },
+      };
+
+      const [message] = encodeLogEvent(logEvent, 'truncate', 400);
+      const truncated = JSON.parse(message);
+
+      expect(byteLength(message)).toBeLessThanOrEqual(400);
+      expect(truncated.message).toBe('keep me');
+      expect(truncated.payload.body.endsWith(TRUNCATION_MARKER)).toBe(true);
+      expect(truncated.payload.tags[0]).toBe('short');
+      // The caller's event is left alone
+      expect(logEvent.payload.body).toHaveLength(500);
+    });
+
+    it('should not split multi-byte characters when truncating', () => {
+      const logEvent = { message: '🦘'.repeat(200) };
+
+      const [message] = encodeLogEvent(logEvent, 'truncate', 300);
+
+      expect(byteLength(message)).toBeLessThanOrEqual(300);
+      expect(JSON.parse(message).message).not.toContain('�');
+    });
+
+    it('should reject events that truncation cannot shrink enough', () => {
+      const logEvent = {
+        message: 'm',
+        values: Array.from({ length: 200 }, (_, i) => i),
+      };
+
+      expect(() => encodeLogEvent(logEvent, 'truncate', 100)).toThrow(
+        LogEventTooLargeError
+      );
+    });
+
+    it('should split oversized events into linked chunks that rejoin', () => {
+      const logEvent = {
+        message: 'big "quoted" event',
+        source: 'scryscraper',
+        type: 'set',
+        data: 'é"'.repeat(1000),
+      };
+
+      const messages = encodeLogEvent(logEvent, 'split', 1000);
+      const chunks = messages.map((message) => JSON.parse(message) as LogEventChunk);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const message of messages) {
+        expect(byteLength(message)).toBeLessThanOrEqual(1000);
+      }
+      for (const chunk of chunks) {
+        expect(isLogEventChunk(chunk)).toBe(true);
+        expect(chunk.chunk.correlationId).toBe(chunks[0].chunk.correlationId);
+        expect(chunk.chunk.total).toBe(chunks.length);
+        expect(chunk).toMatchObject({ source: 'scryscraper', type: 'set' });
+      }
+
+      expect(joinLogEventChunks([...chunks].reverse())).toEqual(logEvent);
+    });
+  });
+
+  describe('joinLogEventChunks', () => {
+    it('should refuse to join an incomplete set of chunks', () => {
+      const messages = encodeLogEvent({ message: 'x'.repeat(2000) }, 'split', 1000);
+      const chunks = messages.map((message) => JSON.parse(message) as LogEventChunk);
+
+      expect(() => joinLogEventChunks(chunks.slice(1))).toThrow(/Incomplete/);
+      expect(() => joinLogEventChunks([])).toThrow(/No log event chunks/);
+    });
+  });
+
+  describe('isLogEventChunk', () => {
+    it('should not treat ordinary events as chunks', () => {
+      expect(isLogEventChunk({ message: 'plain' })).toBe(false);
+      expect(isLogEventChunk({ message: 'odd', chunk: 'nope' })).toBe(false);
+    });
+  });
+});
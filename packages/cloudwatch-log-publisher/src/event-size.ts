@@ -0,0 +1,251 @@
+import { randomUUID } from 'crypto';
+import { EVENT_OVERHEAD_BYTES } from './batch.js';
+import type { LogEvent } from './index.js';
+
+/**
+ * Maximum size of a single CloudWatch log event in bytes, including the per-event overhead
+ */
+export const MAX_EVENT_SIZE_BYTES = 262_144;
+
+/**
+ * Maximum size of a single serialised log event message in bytes
+ */
+export const MAX_EVENT_MESSAGE_BYTES = MAX_EVENT_SIZE_BYTES - EVENT_OVERHEAD_BYTES;
+
+/**
+ * Appended to string fields shortened by the truncate policy
+ */
+export const TRUNCATION_MARKER = '...[truncated]';
+
+/**
+ * What to do with a log event too large for CloudWatch
+ * - truncate: shorten the longest string fields, marking each with TRUNCATION_MARKER
+ * - split: spread the serialised event across linked chunk events sharing a correlation id
+ * - reject: throw LogEventTooLargeError without calling AWS
+ */
+export type OversizedEventPolicy = 'truncate' | 'split' | 'reject';
+
+/**
+ * One piece of a log event split by the split policy
+ * Rejoin the pieces with joinLogEventChunks()
+ */
+export interface LogEventChunk extends LogEvent {
+  chunk: {
+    correlationId: string;
+    index: number;
+    total: number;
+    data: string;
+  };
+}
+
+/**
+ * Thrown when a log event is too large for CloudWatch and can't be made to fit
+ */
+export class LogEventTooLargeError extends Error {
+  readonly sizeBytes: number;
+  readonly maxSizeBytes: number;
+
+  constructor(sizeBytes: number, maxSizeBytes: number) {
+    super(`Log event is ${sizeBytes} bytes, exceeding the ${maxSizeBytes} byte limit`);
+    this.name = 'LogEventTooLargeError';
+    this.sizeBytes = sizeBytes;
+    this.maxSizeBytes = maxSizeBytes;
+  }
+}
+
+interface StringField {
+  parent: Record<string, unknown> | unknown[];
+  key: string | number;
+  value: string;
+}
+
+function byteLength(value: string): number {
+  return Buffer.byteLength(value, 'utf-8');
+}
+
+/**
+ * Shortens a string to at most maxBytes of UTF-8 without splitting a multi-byte character
+ */
+function truncateToBytes(value: string, maxBytes: number): string {
+  const bytes = Buffer.from(value, 'utf-8');
+
+  if (bytes.length <= maxBytes) {
+    return value;
+  }
+
+  let end = Math.max(0, maxBytes);
+  // Step back over continuation bytes (10xxxxxx) to land on a character boundary
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) {
+    end--;
+  }
+
+  return bytes.subarray(0, end).toString('utf-8');
+}
+
+/**
+ * Finds every string value in a JSON structure, at any depth
+ */
+function collectStringFields(node: unknown, fields: StringField[] = []): StringField[] {
+  if (Array.isArray(node)) {
+    node.forEach((value, index) => {
+      if (typeof value === 'string') {
+        fields.push({ parent: node, key: index, value });
+      } else {
+        collectStringFields(value, fields);
+      }
+    });
+  } else if (node && typeof node === 'object') {
+    const record = node as Record<string, unknown>;
+    for (const [key, value] of Object.entries(record)) {
+      if (typeof value === 'string') {
+        fields.push({ parent: record, key, value });
+      } else {
+        collectStringFields(value, fields);
+      }
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Shortens the longest string fields until the serialised event fits
+ */
+function truncateLogEvent(logEvent: LogEvent, maxBytes: number): string {
+  // A JSON round trip gives a plain copy that can be edited without touching the caller's event
+  const copy = JSON.parse(JSON.stringify(logEvent)) as LogEvent;
+  const markerBytes = byteLength(TRUNCATION_MARKER);
+  let serialised = JSON.stringify(copy);
+  let size = byteLength(serialised);
+
+  while (size > maxBytes) {
+    const candidates = collectStringFields(copy).filter(
+      (field) => byteLength(field.value) > markerBytes
+    );
+
+    if (candidates.length === 0) {
+      throw new LogEventTooLargeError(size, maxBytes);
+    }
+
+    const longest = candidates.reduce((a, b) =>
+      byteLength(b.value) > byteLength(a.value) ? b : a
+    );
+    const keepBytes = byteLength(longest.value) - (size - maxBytes) - markerBytes;
+    const truncated = truncateToBytes(longest.value, keepBytes) + TRUNCATION_MARKER;
+
+    (longest.parent as Record<string | number, unknown>)[longest.key] = truncated;
+    serialised = JSON.stringify(copy);
+    size = byteLength(serialised);
+  }
+
+  return serialised;
+}
+
+/**
+ * Splits a serialised event into chunk events that each fit
+ */
+function splitLogEvent(logEvent: LogEvent, serialised: string, maxBytes: number): string[] {
+  const correlationId = randomUUID();
+  const envelope = (index: number, total: number, data: string): LogEventChunk => ({
+    message: `Log event chunk ${index + 1} of ${total} (${correlationId})`,
+    ...(logEvent.source !== undefined ? { source: logEvent.source } : {}),
+    ...(logEvent.type !== undefined ? { type: logEvent.type } : {}),
+    chunk: { correlationId, index, total, data },
+  });
+
+  // Size the envelope with generous counters so the real ones always fit
+  const envelopeBytes = byteLength(JSON.stringify(envelope(999_998, 999_999, '')));
+  const dataBudget = maxBytes - envelopeBytes;
+
+  if (dataBudget <= 0) {
+    throw new LogEventTooLargeError(byteLength(serialised), maxBytes);
+  }
+
+  const parts: string[] = [];
+  let rest = serialised;
+
+  while (rest.length > 0) {
+    let part = truncateToBytes(rest, dataBudget);
+
+    // Escaping inside the envelope can grow the data, so shrink until the escaped form fits
+    let escapedBytes = byteLength(JSON.stringify(part)) - 2;
+    while (escapedBytes > dataBudget) {
+      part = truncateToBytes(part, byteLength(part) - (escapedBytes - dataBudget));
+      escapedBytes = byteLength(JSON.stringify(part)) - 2;
+    }
+
+    if (part.length === 0) {
+      throw new LogEventTooLargeError(byteLength(serialised), maxBytes);
+    }
+
+    parts.push(part);
+    rest = rest.slice(part.length);
+  }
+
+  return parts.map((data, index) => JSON.stringify(envelope(index, parts.length, data)));
+}
+
+/**
+ * Serialises a log event into one or more CloudWatch messages that fit the event size limit
+ * Events that already fit are returned as a single message, whatever the policy
+ */
+export function encodeLogEvent(
+  logEvent: LogEvent,
+  policy: OversizedEventPolicy,
+  maxBytes: number = MAX_EVENT_MESSAGE_BYTES
+): string[] {
+  const serialised = JSON.stringify(logEvent);
+  const size = byteLength(serialised);
+
+  if (size <= maxBytes) {
+    return [serialised];
+  }
+
+  switch (policy) {
+    case 'truncate':
+      return [truncateLogEvent(logEvent, maxBytes)];
+    case 'split':
+      return splitLogEvent(logEvent, serialised, maxBytes);
+    case 'reject':
+      throw new LogEventTooLargeError(size, maxBytes);
+  }
+}
+
+/**
+ * Checks whether a log event is a chunk produced by the split policy
+ */
+export function isLogEventChunk(logEvent: LogEvent): logEvent is LogEventChunk {
+  const chunk = (logEvent as Partial<LogEventChunk>).chunk;
+  return (
+    !!chunk &&
+    typeof chunk.correlationId === 'string' &&
+    typeof chunk.index === 'number' &&
+    typeof chunk.total === 'number' &&
+    typeof chunk.data === 'string'
+  );
+}
+
+/**
+ * Rebuilds the original log event from all of its chunks, in any order
+ */
+export function joinLogEventChunks(chunks: LogEventChunk[]): LogEvent {
+  if (chunks.length === 0) {
+    throw new Error('No log event chunks to join');
+  }
+
+  const { correlationId, total } = chunks[0].chunk;
+  const ordered = [...chunks].sort((a, b) => a.chunk.index - b.chunk.index);
+
+  const isComplete =
+    ordered.length === total &&
+    ordered.every(
+      (chunk, index) =>
+        chunk.chunk.correlationId === correlationId && chunk.chunk.index === index
+    );
+
+  if (!isComplete) {
+    throw new Error(`Incomplete log event chunks for ${correlationId}`);
+  }
+
+  return JSON.parse(ordered.map((chunk) => chunk.chunk.data).join('')) as LogEvent;
+}
@@ -3,12 +3,17 @@ import {
   CreateLogStreamCommand,
   PutLogEventsCommand,
   ResourceAlreadyExistsException,
+  ResourceNotFoundException,
 } from '@aws-sdk/client-cloudwatch-logs';
+import { HttpRequest } from '@smithy/protocol-http';
 import { mockClient } from 'aws-sdk-client-mock';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   CloudWatchLogPublisher,
+  createMetrics,
   generateLogStreamName,
+  LogEventTooLargeError,
+  withLogFlush,
   createLogStream,
   publishLog,
 } from './index.js';
@@ -218,4 +223,728 @@ describe('CloudWatch Log Publisher', () => {
       await expect(publisher.publish({ message: 'test' })).rejects.toThrow('Service error');
     });
   });
+
+  describe('CloudWatchLogPublisher buffering', () => {
+    function createPublisher(
+      overrides: Partial<ConstructorParameters<typeof CloudWatchLogPublisher>[0]> = {}
+    ): CloudWatchLogPublisher {
+      return new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        ...overrides,
+      });
+    }
+
+    it('should not call AWS until flushed', async () => {
+      const publisher = createPublisher();
+
+      await publisher.enqueue({ message: 'first' });
+      await publisher.enqueue({ message: 'second' });
+
+      expect(cwLogsMock.calls()).toHaveLength(0);
+      expect(publisher.getBufferedEventCount()).toBe(2);
+    });
+
+    it('should send buffered events in a single stream and call', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+      const publisher = createPublisher();
+
+      for (let i = 0; i < 200; i++) {
+        await publisher.enqueue({ message: `event ${i}` });
+      }
+      await publisher.flush();
+
+      expect(cwLogsMock.commandCalls(CreateLogStreamCommand)).toHaveLength(1);
+      const putCalls = cwLogsMock.commandCalls(PutLogEventsCommand);
+      expect(putCalls).toHaveLength(1);
+      expect(putCalls[0].args[0].input.logEvents).toHaveLength(200);
+      expect(JSON.parse(putCalls[0].args[0].input.logEvents![0].message!)).toEqual({
+        message: 'event 0',
+      });
+      expect(publisher.getBufferedEventCount()).toBe(0);
+    });
+
+    it('should do nothing when flushing an empty buffer', async () => {
+      const publisher = createPublisher();
+
+      await publisher.flush();
+
+      expect(cwLogsMock.calls()).toHaveLength(0);
+    });
+
+    it('should flush automatically at the event count threshold', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+      const publisher = createPublisher({ maxBufferedEvents: 3 });
+
+      await publisher.enqueue({ message: 'one' });
+      await publisher.enqueue({ message: 'two' });
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(0);
+
+      await publisher.enqueue({ message: 'three' });
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(1);
+      expect(publisher.getBufferedEventCount()).toBe(0);
+    });
+
+    it('should flush automatically at the payload size threshold', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+      const publisher = createPublisher({ maxBufferedBytes: 100 });
+
+      await publisher.enqueue({ message: 'x'.repeat(100) });
+
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(1);
+    });
+
+    it('should flush automatically after the flush interval', async () => {
+      vi.useFakeTimers();
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+      const publisher = createPublisher({ flushIntervalMs: 1000 });
+
+      await publisher.enqueue({ message: 'timed' });
+      await vi.advanceTimersByTimeAsync(999);
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(0);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(1);
+
+      vi.useRealTimers();
+    });
+
+    function awsError(name: string, message: string): Error {
+      const error = new Error(message);
+      error.name = name;
+      return error;
+    }
+
+    it('should keep unsent events buffered when a flush fails with a retryable error', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock
+        .on(PutLogEventsCommand)
+        .rejectsOnce(awsError('ServiceUnavailableException', 'Service error'))
+        .resolves({});
+      const publisher = createPublisher();
+
+      await publisher.enqueue({ message: 'retry me' });
+      await expect(publisher.flush()).rejects.toThrow('Service error');
+      expect(publisher.getBufferedEventCount()).toBe(1);
+
+      await publisher.flush();
+
+      expect(publisher.getBufferedEventCount()).toBe(0);
+      const putCalls = cwLogsMock.commandCalls(PutLogEventsCommand);
+      expect(putCalls).toHaveLength(2);
+      // The retry goes to the stream the failed flush created
+      expect(cwLogsMock.commandCalls(CreateLogStreamCommand)).toHaveLength(1);
+      expect(putCalls[1].args[0].input.logStreamName).toBe(
+        putCalls[0].args[0].input.logStreamName
+      );
+    });
+
+    it('should drop a batch rejected with a non-retryable error', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock
+        .on(PutLogEventsCommand)
+        .rejectsOnce(awsError('InvalidParameterException', 'Log event too old'))
+        .resolves({});
+      const publisher = createPublisher();
+
+      await publisher.enqueue({ message: 'rejected' });
+      await expect(publisher.flush()).rejects.toThrow('Log event too old');
+      expect(publisher.getBufferedEventCount()).toBe(0);
+
+      await publisher.enqueue({ message: 'next' });
+      await publisher.flush();
+
+      const putCalls = cwLogsMock.commandCalls(PutLogEventsCommand);
+      expect(putCalls).toHaveLength(2);
+      expect(putCalls[1].args[0].input.logEvents).toHaveLength(1);
+      expect(JSON.parse(putCalls[1].args[0].input.logEvents![0].message!)).toEqual({
+        message: 'next',
+      });
+    });
+
+    it('should keep the batches after a dropped batch', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock
+        .on(PutLogEventsCommand)
+        .rejectsOnce(awsError('InvalidParameterException', 'Invalid batch'))
+        .resolves({});
+      const publisher = createPublisher({ maxBufferedEvents: 20000 });
+
+      for (let i = 0; i < 10001; i++) {
+        await publisher.enqueue({ message: `event ${i}` });
+      }
+      await expect(publisher.flush()).rejects.toThrow('Invalid batch');
+
+      expect(publisher.getBufferedEventCount()).toBe(1);
+    });
+
+    it('should report a dropped batch to onError in best-effort mode', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock
+        .on(PutLogEventsCommand)
+        .rejects(awsError('InvalidParameterException', 'Log event too old'));
+      const onError = vi.fn();
+      const publisher = createPublisher({ bestEffort: true, onError });
+
+      await publisher.enqueue({ message: 'rejected' });
+      await publisher.flush();
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'InvalidParameterException' }),
+        'flush'
+      );
+      expect(publisher.getBufferedEventCount()).toBe(0);
+    });
+
+    it('should classify flush failures with the retry policy', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).rejects(new Error('Custom failure'));
+      const publisher = createPublisher({
+        retry: { maxAttempts: 1, isRetryable: () => true },
+      });
+
+      await publisher.enqueue({ message: 'keep me' });
+      await expect(publisher.flush()).rejects.toThrow('Custom failure');
+
+      expect(publisher.getBufferedEventCount()).toBe(1);
+    });
+  });
+
+  describe('withLogFlush', () => {
+    it('should flush after the handler resolves', async () => {
+      const flush = vi.fn().mockResolvedValue(undefined);
+      const handler = withLogFlush({ flush }, async (value: number) => value * 2);
+
+      await expect(handler(21)).resolves.toBe(42);
+      expect(flush).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flush and rethrow when the handler fails', async () => {
+      const flush = vi.fn().mockResolvedValue(undefined);
+      const handler = withLogFlush({ flush }, async () => {
+        throw new Error('Handler error');
+      });
+
+      await expect(handler()).rejects.toThrow('Handler error');
+      expect(flush).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not mask a handler error with a flush error', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const flush = vi.fn().mockRejectedValue(new Error('Flush error'));
+      const handler = withLogFlush({ flush }, async () => {
+        throw new Error('Handler error');
+      });
+
+      await expect(handler()).rejects.toThrow('Handler error');
+      expect(consoleErrorSpy).toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should surface a flush error when the handler succeeds', async () => {
+      const flush = vi.fn().mockRejectedValue(new Error('Flush error'));
+      const handler = withLogFlush({ flush }, async () => 'done');
+
+      await expect(handler()).rejects.toThrow('Flush error');
+    });
+
+    it('should wait for a scheduled flush still in progress when the handler returns', async () => {
+      vi.useFakeTimers();
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock
+        .on(PutLogEventsCommand)
+        .callsFake(() => new Promise((resolve) => setTimeout(() => resolve({}), 500)));
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        flushIntervalMs: 1000,
+      });
+      let finished = false;
+
+      await publisher.enqueue({ message: 'scheduled' });
+      // The interval flush starts, and is still sending when the handler returns
+      await vi.advanceTimersByTimeAsync(1000);
+      const invocation = withLogFlush(publisher, async () => 'done')().then(() => {
+        finished = true;
+      });
+
+      await vi.advanceTimersByTimeAsync(499);
+      expect(finished).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1);
+      await invocation;
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(1);
+      expect(publisher.getBufferedEventCount()).toBe(0);
+
+      vi.useRealTimers();
+    });
+
+    it('should resend events from a failed scheduled flush before the handler returns', async () => {
+      vi.useFakeTimers();
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const throttlingError = new Error('Rate exceeded');
+      throttlingError.name = 'ThrottlingException';
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock
+        .on(PutLogEventsCommand)
+        .callsFakeOnce(
+          () => new Promise((_, reject) => setTimeout(() => reject(throttlingError), 500))
+        )
+        .resolves({});
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        flushIntervalMs: 1000,
+      });
+
+      await publisher.enqueue({ message: 'scheduled' });
+      await vi.advanceTimersByTimeAsync(1000);
+      const invocation = withLogFlush(publisher, async () => 'done')();
+
+      await vi.advanceTimersByTimeAsync(500);
+      await invocation;
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(2);
+      expect(publisher.getBufferedEventCount()).toBe(0);
+
+      consoleErrorSpy.mockRestore();
+      vi.useRealTimers();
+    });
+  });
+
+  describe('CloudWatchLogPublisher log stream strategy', () => {
+    beforeEach(() => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+    });
+
+    it('should reuse the stream for the lifetime of the container', async () => {
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        logStreamStrategy: 'per-container',
+      });
+
+      await publisher.publish({ message: 'first' });
+      await publisher.publish({ message: 'second' });
+      await publisher.enqueue({ message: 'third' });
+      await publisher.flush();
+
+      expect(cwLogsMock.commandCalls(CreateLogStreamCommand)).toHaveLength(1);
+      const streamNames = cwLogsMock
+        .commandCalls(PutLogEventsCommand)
+        .map((call) => call.args[0].input.logStreamName);
+      expect(new Set(streamNames).size).toBe(1);
+    });
+
+    it('should only create a new stream when an hourly stream rotates', async () => {
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        logStreamStrategy: 'hourly',
+      });
+
+      vi.setSystemTime(new Date('2025-01-01T12:00:00.000Z'));
+      await publisher.publish({ message: 'first' });
+      vi.setSystemTime(new Date('2025-01-01T12:59:59.000Z'));
+      await publisher.publish({ message: 'second' });
+      vi.setSystemTime(new Date('2025-01-01T13:00:00.000Z'));
+      await publisher.publish({ message: 'third' });
+      vi.useRealTimers();
+
+      const calls = cwLogsMock.commandCalls(CreateLogStreamCommand);
+      expect(calls.map((call) => call.args[0].input.logStreamName)).toEqual([
+        'test-prefix-2025-01-01-12',
+        'test-prefix-2025-01-01-13',
+      ]);
+    });
+
+    it('should use a custom naming function', async () => {
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        logStreamStrategy: (prefix) => `${prefix}/fixed`,
+      });
+
+      await publisher.publish({ message: 'first' });
+      await publisher.publish({ message: 'second' });
+
+      const calls = cwLogsMock.commandCalls(CreateLogStreamCommand);
+      expect(calls).toHaveLength(1);
+      expect(calls[0].args[0].input.logStreamName).toBe('test-prefix/fixed');
+    });
+
+    it('should recreate a cached stream that has been deleted', async () => {
+      cwLogsMock
+        .on(PutLogEventsCommand)
+        .resolvesOnce({})
+        .rejectsOnce(
+          new ResourceNotFoundException({
+            message: 'The specified log stream does not exist.',
+            $metadata: {},
+          })
+        )
+        .resolves({});
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        logStreamStrategy: 'daily',
+      });
+
+      await publisher.publish({ message: 'first' });
+      await publisher.publish({ message: 'second' });
+
+      expect(cwLogsMock.commandCalls(CreateLogStreamCommand)).toHaveLength(2);
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(3);
+    });
+  });
+
+  describe('CloudWatchLogPublisher publishMetric', () => {
+    it('should publish an EMF event with the EMF log format header', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+      });
+
+      await publisher.publishMetric(
+        createMetrics('MonorepoFem/Heartbeat')
+          .putDimensions({ Service: 'heartbeat-publisher' })
+          .putMetric('Heartbeats', 1, 'Count')
+          .setTimestamp(1735689600000),
+        { message: 'Heartbeat sent', type: 'heartbeat' }
+      );
+
+      const putCalls = cwLogsMock.commandCalls(PutLogEventsCommand);
+      expect(putCalls).toHaveLength(1);
+
+      const command = putCalls[0].args[0];
+      expect(command.middlewareStack.identify()).toContainEqual(
+        expect.stringContaining('emfLogFormatHeader')
+      );
+
+      const logEvent = command.input.logEvents![0];
+      expect(logEvent.timestamp).toBe(1735689600000);
+      expect(JSON.parse(logEvent.message!)).toMatchObject({
+        message: 'Heartbeat sent',
+        type: 'heartbeat',
+        Service: 'heartbeat-publisher',
+        Heartbeats: 1,
+        _aws: {
+          CloudWatchMetrics: [{ Namespace: 'MonorepoFem/Heartbeat' }],
+        },
+      });
+    });
+
+    it('should set the EMF header on the HTTP request', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+      });
+
+      await publisher.publishMetric(
+        createMetrics('MonorepoFem/Heartbeat').putMetric('Heartbeats', 1, 'Count')
+      );
+
+      const command = cwLogsMock.commandCalls(PutLogEventsCommand)[0].args[0];
+      const handler = command.middlewareStack.resolve(async () => ({ output: {} }), {});
+      const request = new HttpRequest({ headers: { 'content-type': 'application/json' } });
+      await handler({ input: command.input, request });
+
+      expect(request.headers).toEqual({
+        'content-type': 'application/json',
+        'x-amzn-logs-format': 'json/emf',
+      });
+    });
+
+    it('should not call AWS for invalid metrics', async () => {
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+      });
+
+      await expect(publisher.publishMetric(createMetrics('Test'))).rejects.toThrow(
+        'At least one metric is required'
+      );
+      expect(cwLogsMock.calls()).toHaveLength(0);
+    });
+  });
+
+  describe('CloudWatchLogPublisher retries and best-effort mode', () => {
+    function throttlingError(): Error {
+      const error = new Error('Rate exceeded');
+      error.name = 'ThrottlingException';
+      return error;
+    }
+
+    it('should retry throttled calls with the configured policy', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).rejectsOnce(throttlingError()).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).rejectsOnce(throttlingError()).resolves({});
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        retry: { maxAttempts: 3, baseDelayMs: 1 },
+      });
+
+      await publisher.publish({ message: 'retried' });
+
+      expect(cwLogsMock.commandCalls(CreateLogStreamCommand)).toHaveLength(2);
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(2);
+    });
+
+    it('should not retry without a retry policy', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).rejects(throttlingError());
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+      });
+
+      await expect(publisher.publish({ message: 'fails' })).rejects.toThrow('Rate exceeded');
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(1);
+    });
+
+    it('should report failures to onError instead of throwing in best-effort mode', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).rejects(throttlingError());
+      const onError = vi.fn();
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        bestEffort: true,
+        onError,
+      });
+
+      await expect(publisher.publish({ message: 'lost' })).resolves.toBeUndefined();
+      await publisher.enqueue({ message: 'buffered' });
+      await expect(publisher.flush()).resolves.toBeUndefined();
+
+      expect(onError).toHaveBeenCalledTimes(2);
+      expect(onError).toHaveBeenNthCalledWith(1, expect.any(Error), 'publish');
+      expect(onError).toHaveBeenNthCalledWith(2, expect.any(Error), 'flush');
+      // Failed events stay buffered for the next flush
+      expect(publisher.getBufferedEventCount()).toBe(1);
+    });
+
+    it('should log failures to the console in best-effort mode by default', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      cwLogsMock.on(CreateLogStreamCommand).rejects(new Error('Service error'));
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        bestEffort: true,
+      });
+
+      await publisher.publish({ message: 'lost' });
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Failed to publish log events:',
+        expect.any(Error)
+      );
+      consoleErrorSpy.mockRestore();
+    });
+  });
+
+  describe('CloudWatchLogPublisher oversized events', () => {
+    const oversizedEvent = { message: 'big', body: 'x'.repeat(300 * 1024) };
+
+    beforeEach(() => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+    });
+
+    it('should reject oversized events without calling AWS by default', async () => {
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+      });
+
+      await expect(publisher.publish(oversizedEvent)).rejects.toBeInstanceOf(
+        LogEventTooLargeError
+      );
+      await expect(publisher.enqueue(oversizedEvent)).rejects.toBeInstanceOf(
+        LogEventTooLargeError
+      );
+      expect(cwLogsMock.calls()).toHaveLength(0);
+      expect(publisher.getBufferedEventCount()).toBe(0);
+    });
+
+    it('should reject oversized events in publishLog', async () => {
+      const client = new CloudWatchLogsClient({});
+
+      await expect(
+        publishLog(client, '/test/logs', 'test-stream', oversizedEvent)
+      ).rejects.toBeInstanceOf(LogEventTooLargeError);
+      expect(cwLogsMock.calls()).toHaveLength(0);
+    });
+
+    it('should truncate oversized events to fit', async () => {
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        oversizedEventPolicy: 'truncate',
+      });
+
+      await publisher.publish(oversizedEvent);
+
+      const logEvents = cwLogsMock.commandCalls(PutLogEventsCommand)[0].args[0].input
+        .logEvents!;
+      expect(logEvents).toHaveLength(1);
+      expect(Buffer.byteLength(logEvents[0].message!)).toBeLessThanOrEqual(262_144 - 26);
+      expect(JSON.parse(logEvents[0].message!).body).toMatch(/\.\.\.\[truncated\]$/);
+    });
+
+    it('should split oversized events into chunks', async () => {
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        oversizedEventPolicy: 'split',
+      });
+
+      await publisher.enqueue(oversizedEvent);
+      expect(publisher.getBufferedEventCount()).toBe(2);
+      await publisher.flush();
+
+      const logEvents = cwLogsMock.commandCalls(PutLogEventsCommand)[0].args[0].input
+        .logEvents!;
+      expect(logEvents).toHaveLength(2);
+      const chunks = logEvents.map((event) => JSON.parse(event.message!));
+      expect(chunks[0].chunk.correlationId).toBe(chunks[1].chunk.correlationId);
+    });
+
+    it('should report rejected events to onError in best-effort mode', async () => {
+      const onError = vi.fn();
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        bestEffort: true,
+        onError,
+      });
+
+      await publisher.enqueue(oversizedEvent);
+
+      expect(onError).toHaveBeenCalledWith(expect.any(LogEventTooLargeError), 'enqueue');
+      expect(publisher.getBufferedEventCount()).toBe(0);
+    });
+  });
+
+  describe('CloudWatchLogPublisher redaction', () => {
+    const sensitiveEvent = {
+      message: 'Signed in as sam@example.com',
+      headers: { authorization: 'Bearer abc.def.ghi' },
+    };
+
+    beforeEach(() => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+    });
+
+    it('should redact both the console output and the CloudWatch payload', async () => {
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        redaction: {},
+      });
+
+      await publisher.publish(sensitiveEvent);
+
+      const printed = JSON.stringify(consoleLogSpy.mock.calls);
+      expect(printed).not.toContain('sam@example.com');
+      expect(printed).not.toContain('abc.def.ghi');
+
+      const message = cwLogsMock.commandCalls(PutLogEventsCommand)[0].args[0].input
+        .logEvents![0].message!;
+      expect(JSON.parse(message)).toEqual({
+        message: 'Signed in as [REDACTED]',
+        headers: { authorization: '[REDACTED]' },
+      });
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should redact buffered events and metric context', async () => {
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        redaction: {},
+      });
+
+      await publisher.enqueue(sensitiveEvent);
+      await publisher.flush();
+      await publisher.publishMetric(createMetrics('Test').putMetric('Logins', 1, 'Count'), {
+        message: 'Login',
+        apiKey: 'key-123',
+      });
+
+      const messages = cwLogsMock
+        .commandCalls(PutLogEventsCommand)
+        .flatMap((call) => call.args[0].input.logEvents!.map((event) => event.message!));
+      expect(messages.join('\n')).not.toMatch(/sam@example\.com|abc\.def\.ghi|key-123/);
+    });
+
+    it('should redact metric properties but not metric values or dimensions', async () => {
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+        redaction: {},
+      });
+
+      await publisher.publishMetric(
+        createMetrics('Test')
+          .putDimensions({ Service: 'auth' })
+          .putMetric('TokenRefreshes', 1, 'Count')
+          .putProperty('requestHeaders', { authorization: 'Bearer abc.def.ghi' })
+      );
+
+      const message = cwLogsMock.commandCalls(PutLogEventsCommand)[0].args[0].input
+        .logEvents![0].message!;
+      expect(JSON.parse(message)).toMatchObject({
+        Service: 'auth',
+        TokenRefreshes: 1,
+        requestHeaders: { authorization: '[REDACTED]' },
+        _aws: { CloudWatchMetrics: [{ Metrics: [{ Name: 'TokenRefreshes', Unit: 'Count' }] }] },
+      });
+    });
+
+    it('should redact events published with publishLog', async () => {
+      const consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await publishLog(
+        new CloudWatchLogsClient({}),
+        '/test/logs',
+        'test-stream',
+        sensitiveEvent,
+        undefined,
+        {}
+      );
+
+      expect(JSON.stringify(consoleLogSpy.mock.calls)).not.toMatch(/sam@example\.com|abc\.def/);
+      const message = cwLogsMock.commandCalls(PutLogEventsCommand)[0].args[0].input
+        .logEvents![0].message!;
+      expect(JSON.parse(message)).toEqual({
+        message: 'Signed in as [REDACTED]',
+        headers: { authorization: '[REDACTED]' },
+      });
+      consoleLogSpy.mockRestore();
+    });
+
+    it('should not redact unless configured', async () => {
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: '/test/logs',
+        logStreamPrefix: 'test-prefix',
+      });
+
+      await publisher.publish(sensitiveEvent);
+
+      const message = cwLogsMock.commandCalls(PutLogEventsCommand)[0].args[0].input
+        .logEvents![0].message!;
+      expect(JSON.parse(message)).toEqual(sensitiveEvent);
+    });
+  });
 });
@@ -1,18 +1,131 @@
-import {
-  CloudWatchLogsClient,
-  CreateLogStreamCommand,
-  PutLogEventsCommand,
-  ResourceAlreadyExistsException,
-} from '@aws-sdk/client-cloudwatch-logs';
+export {
+  chunkLogEvents,
+  getEventSize,
+  EVENT_OVERHEAD_BYTES,
+  MAX_BATCH_EVENT_COUNT,
+  MAX_BATCH_SIZE_BYTES,
+  MAX_BATCH_SPAN_MS,
+  type TimestampedLogEvent,
+} from './batch.js';
 
-/**
- * Configuration options for CloudWatch Log Publisher
- */
-export interface CloudWatchLogPublisherConfig {
-  logGroupName: string;
-  logStreamPrefix: string;
-  client?: CloudWatchLogsClient;
-}
+export {
+  encodeLogEvent,
+  isLogEventChunk,
+  joinLogEventChunks,
+  LogEventTooLargeError,
+  MAX_EVENT_MESSAGE_BYTES,
+  MAX_EVENT_SIZE_BYTES,
+  TRUNCATION_MARKER,
+  type LogEventChunk,
+  type OversizedEventPolicy,
+} from './event-size.js';
+
+export {
+  createLogGroup,
+  ensureLogGroup,
+  forgetLogGroup,
+  LOG_RETENTION_DAYS,
+  type LogGroupOptions,
+  type LogRetentionDays,
+} from './log-group.js';
+
+export {
+  generateLogStreamName,
+  resolveLogStreamName,
+  type LogStreamNameFunction,
+  type LogStreamStrategy,
+} from './log-stream.js';
+
+export {
+  CloudWatchLogSink,
+  ConsoleLogSink,
+  createLogger,
+  isLogLevel,
+  LOG_LEVELS,
+  Logger,
+  resolveLogLevel,
+  serialiseError,
+  type BufferedLogPublisher,
+  type LogContext,
+  type LoggerOptions,
+  type LogLevel,
+  type LogRecord,
+  type LogSink,
+  type SerialisedError,
+} from './logger.js';
+
+export {
+  createMetrics,
+  EmfValidationError,
+  MAX_DIMENSIONS_PER_SET,
+  MAX_METRICS_PER_EVENT,
+  MAX_VALUES_PER_METRIC,
+  MetricsBuilder,
+  type EmfLogEvent,
+  type EmfMetadata,
+  type EmfMetricDefinition,
+  type MetricUnit,
+  type StorageResolution,
+} from './metrics.js';
+
+export {
+  CloudWatchLogPublisher,
+  publishLog,
+  withLogFlush,
+  type CloudWatchLogPublisherConfig,
+  type FlushableLogPublisher,
+  type PublishOperation,
+} from './publisher.js';
+
+export {
+  CloudWatchLogReader,
+  filterLogEvents,
+  getLogEvents,
+  InsightsQueryError,
+  parseLogEventMessage,
+  runInsightsQuery,
+  type CloudWatchLogReaderConfig,
+  type FilterLogEventsOptions,
+  type GetLogEventsOptions,
+  type InsightsQueryOptions,
+  type InsightsQueryResult,
+  type InsightsQueryRow,
+  type ReadLogEvent,
+} from './reader.js';
+
+export {
+  createRedactor,
+  DEFAULT_REDACTED_KEYS,
+  redact,
+  REDACTED,
+  REDACTION_PATTERNS,
+  type RedactionConfig,
+  type Redactor,
+} from './redaction.js';
+
+export {
+  calculateBackoffDelay,
+  isRetryableError,
+  withRetry,
+  type RetryPolicy,
+} from './retry.js';
+
+export {
+  CloudWatchLogTransport,
+  createLogStream,
+  FileLogTransport,
+  MemoryLogTransport,
+  putLogEvents,
+  StdoutLogTransport,
+  type CloudWatchLogTransportConfig,
+  type FileLogTransportConfig,
+  type LineWriter,
+  type LogTransport,
+  type LogTransportBatch,
+  type PutLogEventsOptions,
+  type StdoutLogTransportConfig,
+  type TransportedLogEvent,
+} from './transports.js';
 
 /**
  * A log event to be published to CloudWatch
@@ -25,112 +138,3 @@ export interface LogEvent {
   [key: string]: unknown;
 }
 
-/**
- * Generates a timestamped log stream name
- * Format: {prefix}-YYYY-MM-DD-HH-MM-SS
- */
-export function generateLogStreamName(prefix: string): string {
-  const now = new Date();
-  const timestamp = now
-    .toISOString()
-    .replace(/T/, '-')
-    .replace(/\..+/, '')
-    .replace(/:/g, '-');
-  return `${prefix}-${timestamp}`;
-}
-
-/**
- * Creates a CloudWatch log stream if it doesn't already exist
- * Idempotent - ignores ResourceAlreadyExistsException
- */
-export async function createLogStream(
-  client: CloudWatchLogsClient,
-  logGroupName: string,
-  logStreamName: string
-): Promise<void> {
-  try {
-    await client.send(
-      new CreateLogStreamCommand({
-        logGroupName,
-        logStreamName,
-      })
-    );
-    console.log(`Created log stream: ${logStreamName}`);
-  } catch (error) {
-    // If the stream already exists, that's fine - this function is idempotent
-    if (error instanceof ResourceAlreadyExistsException) {
-      console.log(`Log stream already exists: ${logStreamName}`);
-      return;
-    }
-    throw error;
-  }
-}
-
-/**
- * Publishes a log event to CloudWatch Logs
- */
-export async function publishLog(
-  client: CloudWatchLogsClient,
-  logGroupName: string,
-  logStreamName: string,
-  logEvent: LogEvent
-): Promise<void> {
-  const timestamp = Date.now();
-
-  console.log(`Publishing log event to ${logGroupName}/${logStreamName}:`, logEvent);
-
-  await client.send(
-    new PutLogEventsCommand({
-      logGroupName,
-      logStreamName,
-      logEvents: [
-        {
-          message: JSON.stringify(logEvent),
-          timestamp,
-        },
-      ],
-    })
-  );
-
-  console.log('Successfully published log event');
-}
-
-/**
- * CloudWatch Log Publisher class that encapsulates log publishing functionality
- */
-export class CloudWatchLogPublisher {
-  private client: CloudWatchLogsClient;
-  private logGroupName: string;
-  private logStreamPrefix: string;
-
-  constructor(config: CloudWatchLogPublisherConfig) {
-    this.logGroupName = config.logGroupName;
-    this.logStreamPrefix = config.logStreamPrefix;
-    this.client = config.client ?? new CloudWatchLogsClient({});
-  }
-
-  /**
-   * Publishes a log event to CloudWatch Logs
-   * Creates a new log stream with timestamp for each invocation
-   */
-  async publish(logEvent: LogEvent): Promise<void> {
-    const logStreamName = generateLogStreamName(this.logStreamPrefix);
-
-    await createLogStream(this.client, this.logGroupName, logStreamName);
-    await publishLog(this.client, this.logGroupName, logStreamName, logEvent);
-  }
-
-  /**
-   * Gets the log group name
-   */
-  getLogGroupName(): string {
-    return this.logGroupName;
-  }
-
-  /**
-   * Gets the log stream prefix
-   */
-  getLogStreamPrefix(): string {
-    return this.logStreamPrefix;
-  }
-}
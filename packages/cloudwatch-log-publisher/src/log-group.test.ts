@@ -0,0 +1,264 @@
+import {
+  CloudWatchLogsClient,
+  CreateLogGroupCommand,
+  CreateLogStreamCommand,
+  DescribeLogGroupsCommand,
+  PutLogEventsCommand,
+  PutRetentionPolicyCommand,
+  ResourceAlreadyExistsException,
+  ResourceNotFoundException,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { mockClient } from 'aws-sdk-client-mock';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLogGroup, ensureLogGroup, forgetLogGroup } from './log-group.js';
+import { CloudWatchLogPublisher } from './publisher.js';
+import { CloudWatchLogTransport } from './transports.js';
+
+const cwLogsMock = mockClient(CloudWatchLogsClient);
+
+// The ensured group cache lives for the whole module, so every test uses its own group
+let groupCounter = 0;
+function uniqueLogGroupName(): string {
+  groupCounter++;
+  return `/test/log-group-${groupCounter}`;
+}
+
+describe('log group provisioning', () => {
+  beforeEach(() => {
+    cwLogsMock.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createLogGroup', () => {
+    it('should create the group with its KMS key and tags, then apply retention', async () => {
+      cwLogsMock.on(CreateLogGroupCommand).resolves({});
+      cwLogsMock.on(PutRetentionPolicyCommand).resolves({});
+
+      await createLogGroup(new CloudWatchLogsClient({}), '/test/logs', {
+        retentionInDays: 30,
+        kmsKeyId: 'arn:aws:kms:ap-southeast-2:123456789012:key/abc',
+        tags: { project: 'monorepo-fem' },
+      });
+
+      expect(cwLogsMock.commandCalls(CreateLogGroupCommand)[0].args[0].input).toEqual({
+        logGroupName: '/test/logs',
+        kmsKeyId: 'arn:aws:kms:ap-southeast-2:123456789012:key/abc',
+        tags: { project: 'monorepo-fem' },
+      });
+      expect(cwLogsMock.commandCalls(PutRetentionPolicyCommand)[0].args[0].input).toEqual({
+        logGroupName: '/test/logs',
+        retentionInDays: 30,
+      });
+    });
+
+    it('should update retention when an existing group has a different one', async () => {
+      cwLogsMock
+        .on(CreateLogGroupCommand)
+        .rejects(new ResourceAlreadyExistsException({ message: 'Exists', $metadata: {} }));
+      cwLogsMock.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [{ logGroupName: '/test/logs', retentionInDays: 30 }],
+      });
+      cwLogsMock.on(PutRetentionPolicyCommand).resolves({});
+
+      await createLogGroup(new CloudWatchLogsClient({}), '/test/logs', { retentionInDays: 7 });
+
+      expect(cwLogsMock.commandCalls(DescribeLogGroupsCommand)[0].args[0].input).toEqual({
+        logGroupNamePrefix: '/test/logs',
+        limit: 1,
+      });
+      expect(cwLogsMock.commandCalls(PutRetentionPolicyCommand)[0].args[0].input).toEqual({
+        logGroupName: '/test/logs',
+        retentionInDays: 7,
+      });
+    });
+
+    it('should not update retention an existing group already has', async () => {
+      cwLogsMock
+        .on(CreateLogGroupCommand)
+        .rejects(new ResourceAlreadyExistsException({ message: 'Exists', $metadata: {} }));
+      cwLogsMock.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [{ logGroupName: '/test/logs', retentionInDays: 7 }],
+      });
+
+      await createLogGroup(new CloudWatchLogsClient({}), '/test/logs', { retentionInDays: 7 });
+
+      expect(cwLogsMock.commandCalls(PutRetentionPolicyCommand)).toHaveLength(0);
+    });
+
+    it('should set retention on an existing group that keeps events forever', async () => {
+      cwLogsMock
+        .on(CreateLogGroupCommand)
+        .rejects(new ResourceAlreadyExistsException({ message: 'Exists', $metadata: {} }));
+      cwLogsMock.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [{ logGroupName: '/test/logs' }],
+      });
+      cwLogsMock.on(PutRetentionPolicyCommand).resolves({});
+
+      await createLogGroup(new CloudWatchLogsClient({}), '/test/logs', { retentionInDays: 7 });
+
+      expect(cwLogsMock.commandCalls(PutRetentionPolicyCommand)).toHaveLength(1);
+    });
+
+    it('should not set retention unless configured', async () => {
+      cwLogsMock.on(CreateLogGroupCommand).resolves({});
+
+      await createLogGroup(new CloudWatchLogsClient({}), '/test/logs');
+
+      expect(cwLogsMock.commandCalls(PutRetentionPolicyCommand)).toHaveLength(0);
+      expect(cwLogsMock.commandCalls(DescribeLogGroupsCommand)).toHaveLength(0);
+    });
+
+    it('should throw other errors', async () => {
+      cwLogsMock.on(CreateLogGroupCommand).rejects(new Error('Access denied'));
+
+      await expect(createLogGroup(new CloudWatchLogsClient({}), '/test/logs')).rejects.toThrow(
+        'Access denied'
+      );
+    });
+  });
+
+  describe('ensureLogGroup', () => {
+    it('should only create each group once, including for concurrent callers', async () => {
+      cwLogsMock.on(CreateLogGroupCommand).resolves({});
+      const client = new CloudWatchLogsClient({});
+      const logGroupName = uniqueLogGroupName();
+
+      await Promise.all([
+        ensureLogGroup(client, logGroupName),
+        ensureLogGroup(client, logGroupName),
+      ]);
+      await ensureLogGroup(client, logGroupName);
+
+      expect(cwLogsMock.commandCalls(CreateLogGroupCommand)).toHaveLength(1);
+    });
+
+    it('should try again after a failure', async () => {
+      cwLogsMock
+        .on(CreateLogGroupCommand)
+        .rejectsOnce(new Error('Access denied'))
+        .resolves({});
+      const client = new CloudWatchLogsClient({});
+      const logGroupName = uniqueLogGroupName();
+
+      await expect(ensureLogGroup(client, logGroupName)).rejects.toThrow('Access denied');
+      await ensureLogGroup(client, logGroupName);
+
+      expect(cwLogsMock.commandCalls(CreateLogGroupCommand)).toHaveLength(2);
+    });
+
+    it('should create the group again once forgotten', async () => {
+      cwLogsMock.on(CreateLogGroupCommand).resolves({});
+      const client = new CloudWatchLogsClient({});
+      const logGroupName = uniqueLogGroupName();
+
+      await ensureLogGroup(client, logGroupName);
+      forgetLogGroup(client, logGroupName);
+      await ensureLogGroup(client, logGroupName);
+
+      expect(cwLogsMock.commandCalls(CreateLogGroupCommand)).toHaveLength(2);
+    });
+
+    it('should ensure the same group separately for each client', async () => {
+      cwLogsMock.on(CreateLogGroupCommand).resolves({});
+      const client = new CloudWatchLogsClient({});
+      const otherClient = new CloudWatchLogsClient({});
+      const logGroupName = uniqueLogGroupName();
+
+      await ensureLogGroup(client, logGroupName);
+      await ensureLogGroup(otherClient, logGroupName);
+      forgetLogGroup(otherClient, logGroupName);
+      await ensureLogGroup(client, logGroupName);
+
+      expect(cwLogsMock.commandCalls(CreateLogGroupCommand)).toHaveLength(2);
+    });
+  });
+
+  describe('CloudWatchLogTransport ensureLogGroup', () => {
+    it('should share the ensured group between transports created without a client', async () => {
+      cwLogsMock.on(CreateLogGroupCommand).resolves({});
+      cwLogsMock.on(DescribeLogGroupsCommand).resolves({
+        logGroups: [{ logGroupName: '/test/logs', retentionInDays: 14 }],
+      });
+      cwLogsMock.on(PutRetentionPolicyCommand).resolves({});
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+      const logGroupName = uniqueLogGroupName();
+
+      // As in a Lambda that builds its publisher inside the handler
+      for (const message of ['first invocation', 'second invocation']) {
+        const transport = new CloudWatchLogTransport({ ensureLogGroup: { retentionInDays: 14 } });
+        await transport.write({
+          logGroupName,
+          logStreamName: 'test-stream',
+          events: [{ message, timestamp: Date.now() }],
+        });
+      }
+
+      expect(cwLogsMock.commandCalls(CreateLogGroupCommand)).toHaveLength(1);
+      expect(cwLogsMock.commandCalls(PutRetentionPolicyCommand)).toHaveLength(1);
+    });
+  });
+
+  describe('CloudWatchLogPublisher ensureLogGroup', () => {
+    it('should create the group before its first stream', async () => {
+      cwLogsMock.on(CreateLogGroupCommand).resolves({});
+      cwLogsMock.on(PutRetentionPolicyCommand).resolves({});
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+      const logGroupName = uniqueLogGroupName();
+
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName,
+        logStreamPrefix: 'test-prefix',
+        ensureLogGroup: { retentionInDays: 14 },
+      });
+      await publisher.publish({ message: 'first' });
+      await publisher.publish({ message: 'second' });
+
+      expect(cwLogsMock.commandCalls(CreateLogGroupCommand)).toHaveLength(1);
+      expect(cwLogsMock.commandCalls(PutRetentionPolicyCommand)).toHaveLength(1);
+      expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(2);
+    });
+
+    it('should not touch the log group unless enabled', async () => {
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock.on(PutLogEventsCommand).resolves({});
+
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: uniqueLogGroupName(),
+        logStreamPrefix: 'test-prefix',
+      });
+      await publisher.publish({ message: 'first' });
+
+      expect(cwLogsMock.commandCalls(CreateLogGroupCommand)).toHaveLength(0);
+    });
+
+    it('should recreate a deleted log group when a write reports it missing', async () => {
+      cwLogsMock.on(CreateLogGroupCommand).resolves({});
+      cwLogsMock.on(CreateLogStreamCommand).resolves({});
+      cwLogsMock
+        .on(PutLogEventsCommand)
+        .resolvesOnce({})
+        .rejectsOnce(
+          new ResourceNotFoundException({ message: 'Group not found', $metadata: {} })
+        )
+        .resolves({});
+
+      const publisher = new CloudWatchLogPublisher({
+        logGroupName: uniqueLogGroupName(),
+        logStreamPrefix: 'test-prefix',
+        logStreamStrategy: 'per-container',
+        ensureLogGroup: true,
+      });
+      await publisher.publish({ message: 'first' });
+      await publisher.publish({ message: 'second' });
+
+      expect(cwLogsMock.commandCalls(CreateLogGroupCommand)).toHaveLength(2);
+      expect(cwLogsMock.commandCalls(CreateLogStreamCommand)).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  CreateLogGroupCommand,
+  DescribeLogGroupsCommand,
+  PutRetentionPolicyCommand,
+  ResourceAlreadyExistsException,
+  type CloudWatchLogsClient,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { NO_RETRY, withRetry, type RetryPolicy } from './retry.js';
+
+/**
+ * Retention periods CloudWatch Logs accepts, in days
+ */
+export const LOG_RETENTION_DAYS = [
+  1, 3, 5, 7, 14, 30, 60, 90, 120, 150, 180, 365, 400, 545, 731, 1096, 1827, 2192, 2557, 2922,
+  3288, 3653,
+] as const;
+
+export type LogRetentionDays = (typeof LOG_RETENTION_DAYS)[number];
+
+/**
+ * How a log group is provisioned when the publisher creates it
+ */
+export interface LogGroupOptions {
+  /**
+   * Applied whether or not the group already existed, so changing it updates the group
+   * An existing group's retention is only updated when it differs, which needs logs:DescribeLogGroups
+   * Events are kept forever when not set
+   */
+  retentionInDays?: LogRetentionDays;
+  /**
+   * ARN of the KMS key used to encrypt the group
+   * Only applied when the group is created
+   */
+  kmsKeyId?: string;
+  /**
+   * Only applied when the group is created
+   */
+  tags?: Record<string, string>;
+}
+
+// Module scope survives across invocations in a warm Lambda container
+// Keyed by client, as clients for different accounts or regions can share group names
+const ensuredLogGroups = new WeakMap<CloudWatchLogsClient, Map<string, Promise<void>>>();
+
+/**
+ * Creates a log group if it doesn't already exist and applies its retention policy
+ * Idempotent - ignores ResourceAlreadyExistsException, then only updates retention if it differs
+ */
+export async function createLogGroup(
+  client: CloudWatchLogsClient,
+  logGroupName: string,
+  options: LogGroupOptions = {},
+  retryPolicy: RetryPolicy = NO_RETRY
+): Promise<void> {
+  let created = false;
+
+  try {
+    await withRetry(
+      () =>
+        client.send(
+          new CreateLogGroupCommand({
+            logGroupName,
+            kmsKeyId: options.kmsKeyId,
+            tags: options.tags,
+          })
+        ),
+      retryPolicy
+    );
+    created = true;
+    console.log(`Created log group: ${logGroupName}`);
+  } catch (error) {
+    if (!(error instanceof ResourceAlreadyExistsException)) {
+      throw error;
+    }
+  }
+
+  const retentionInDays = options.retentionInDays;
+
+  if (retentionInDays === undefined) {
+    return;
+  }
+
+  if (
+    !created &&
+    (await getRetentionInDays(client, logGroupName, retryPolicy)) === retentionInDays
+  ) {
+    return;
+  }
+
+  await withRetry(
+    () => client.send(new PutRetentionPolicyCommand({ logGroupName, retentionInDays })),
+    retryPolicy
+  );
+}
+
+/**
+ * Creates and configures a log group once per container
+ * Concurrent callers share the same request; a failure is not cached, so the next call tries again
+ */
+export async function ensureLogGroup(
+  client: CloudWatchLogsClient,
+  logGroupName: string,
+  options: LogGroupOptions = {},
+  retryPolicy: RetryPolicy = NO_RETRY
+): Promise<void> {
+  let clientLogGroups = ensuredLogGroups.get(client);
+
+  if (!clientLogGroups) {
+    clientLogGroups = new Map();
+    ensuredLogGroups.set(client, clientLogGroups);
+  }
+
+  const existing = clientLogGroups.get(logGroupName);
+
+  if (existing) {
+    return existing;
+  }
+
+  const ensured = createLogGroup(client, logGroupName, options, retryPolicy);
+  clientLogGroups.set(logGroupName, ensured);
+
+  try {
+    await ensured;
+  } catch (error) {
+    if (clientLogGroups.get(logGroupName) === ensured) {
+      clientLogGroups.delete(logGroupName);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Forgets that a log group was ensured with a client, so the next ensureLogGroup() creates it again
+ * Used when the group turns out to have been deleted
+ */
+export function forgetLogGroup(client: CloudWatchLogsClient, logGroupName: string): void {
+  ensuredLogGroups.get(client)?.delete(logGroupName);
+}
+
+/**
+ * Gets an existing log group's retention, or undefined when its events are kept forever
+ */
+async function getRetentionInDays(
+  client: CloudWatchLogsClient,
+  logGroupName: string,
+  retryPolicy: RetryPolicy
+): Promise<number | undefined> {
+  // Groups are listed by name, so the group itself comes before any other with it as a prefix
+  const response = await withRetry(
+    () =>
+      client.send(
+        new DescribeLogGroupsCommand({ logGroupNamePrefix: logGroupName, limit: 1 })
+      ),
+    retryPolicy
+  );
+
+  return response.logGroups?.find((logGroup) => logGroup.logGroupName === logGroupName)
+    ?.retentionInDays;
+}
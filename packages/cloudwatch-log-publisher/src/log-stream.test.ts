@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { resolveLogStreamName } from './log-stream.js';
+
+describe('log-stream', () => {
+  describe('resolveLogStreamName', () => {
+    const now = new Date('2025-01-01T12:34:56.789Z');
+
+    it('should use a per-second timestamp for per-invocation streams', () => {
+      expect(resolveLogStreamName('per-invocation', 'test', now)).toBe(
+        'test-2025-01-01-12-34-56'
+      );
+    });
+
+    it('should use the hour for hourly streams', () => {
+      expect(resolveLogStreamName('hourly', 'test', now)).toBe('test-2025-01-01-12');
+    });
+
+    it('should use the day for daily streams', () => {
+      expect(resolveLogStreamName('daily', 'test', now)).toBe('test-2025-01-01');
+    });
+
+    it('should keep the same per-container name over time', () => {
+      const first = resolveLogStreamName('per-container', 'test', now);
+      const later = resolveLogStreamName(
+        'per-container',
+        'test',
+        new Date('2025-01-02T00:00:00.000Z')
+      );
+
+      expect(first).toMatch(/^test-\d{4}-\d{2}-\d{2}-\d{2}-\d{2}-\d{2}-[0-9a-f]{8}$/);
+      expect(later).toBe(first);
+    });
+
+    it('should call a custom naming function with the prefix and time', () => {
+      const name = resolveLogStreamName(
+        (prefix, date) => `${prefix}/${date.getUTCFullYear()}`,
+        'test',
+        now
+      );
+
+      expect(name).toBe('test/2025');
+    });
+  });
+});
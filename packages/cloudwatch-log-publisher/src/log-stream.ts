@@ -0,0 +1,72 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Builds a log stream name from the configured prefix and the current time
+ */
+export type LogStreamNameFunction = (prefix: string, now: Date) => string;
+
+/**
+ * How the publisher names log streams, and therefore how often it rotates to a new one
+ * - per-invocation: a new timestamped stream for every publish() or flush()
+ * - per-container: one stream for the lifetime of the Lambda container
+ * - hourly / daily: one stream per UTC hour or day
+ * - a function: a custom name, with a new stream created whenever the name changes
+ */
+export type LogStreamStrategy =
+  | 'per-invocation'
+  | 'per-container'
+  | 'hourly'
+  | 'daily'
+  | LogStreamNameFunction;
+
+// Module scope survives across invocations in a warm Lambda container
+const containerStartedAt = new Date();
+const containerId = randomUUID().slice(0, 8);
+
+/**
+ * Formats a date as YYYY-MM-DD-HH-MM-SS in UTC
+ */
+function formatTimestamp(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/T/, '-')
+    .replace(/\..+/, '')
+    .replace(/:/g, '-');
+}
+
+/**
+ * Generates a timestamped log stream name
+ * Format: {prefix}-YYYY-MM-DD-HH-MM-SS
+ */
+export function generateLogStreamName(prefix: string): string {
+  return `${prefix}-${formatTimestamp(new Date())}`;
+}
+
+/**
+ * Resolves the log stream name a strategy wants to write to right now
+ * Formats:
+ * - per-invocation: {prefix}-YYYY-MM-DD-HH-MM-SS
+ * - per-container: {prefix}-YYYY-MM-DD-HH-MM-SS-{containerId}, using the container start time
+ * - hourly: {prefix}-YYYY-MM-DD-HH
+ * - daily: {prefix}-YYYY-MM-DD
+ */
+export function resolveLogStreamName(
+  strategy: LogStreamStrategy,
+  prefix: string,
+  now: Date = new Date()
+): string {
+  if (typeof strategy === 'function') {
+    return strategy(prefix, now);
+  }
+
+  switch (strategy) {
+    case 'per-invocation':
+      return `${prefix}-${formatTimestamp(now)}`;
+    case 'per-container':
+      return `${prefix}-${formatTimestamp(containerStartedAt)}-${containerId}`;
+    case 'hourly':
+      return `${prefix}-${formatTimestamp(now).slice(0, 13)}`;
+    case 'daily':
+      return `${prefix}-${formatTimestamp(now).slice(0, 10)}`;
+  }
+}
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  CloudWatchLogSink,
+  ConsoleLogSink,
+  Logger,
+  resolveLogLevel,
+  serialiseError,
+} from './logger.js';
+import { MemoryLogSink } from './testing.js';
+
+describe('logger', () => {
+  describe('resolveLogLevel', () => {
+    it('should resolve known levels case-insensitively', () => {
+      expect(resolveLogLevel('DEBUG')).toBe('debug');
+      expect(resolveLogLevel(' warn ')).toBe('warn');
+    });
+
+    it('should fall back for missing or unknown levels', () => {
+      expect(resolveLogLevel(undefined)).toBe('info');
+      expect(resolveLogLevel('verbose')).toBe('info');
+      expect(resolveLogLevel('verbose', 'error')).toBe('error');
+    });
+  });
+
+  describe('serialiseError', () => {
+    it('should serialise name, message, stack and cause', () => {
+      const cause = new TypeError('Root cause');
+      const error = new Error('Outer failure', { cause });
+
+      const serialised = serialiseError(error);
+
+      expect(serialised).toMatchObject({
+        name: 'Error',
+        message: 'Outer failure',
+        stack: expect.stringContaining('Outer failure'),
+        cause: {
+          name: 'TypeError',
+          message: 'Root cause',
+        },
+      });
+    });
+
+    it('should wrap non-Error values', () => {
+      expect(serialiseError('oops')).toEqual({ name: 'NonError', message: 'oops' });
+    });
+
+    it('should stop following cyclic causes', () => {
+      const error = new Error('Cyclic');
+      error.cause = error;
+
+      expect(() => JSON.stringify(serialiseError(error))).not.toThrow();
+    });
+  });
+
+  describe('Logger', () => {
+    let sink: MemoryLogSink;
+
+    beforeEach(() => {
+      sink = new MemoryLogSink();
+    });
+
+    it('should write structured records with level, message and timestamp', () => {
+      const logger = new Logger({ level: 'debug', sinks: [sink] });
+
+      logger.info('Scrape started', { setCode: 'tla' });
+
+      expect(sink.getLastRecord()).toEqual({
+        level: 'info',
+        message: 'Scrape started',
+        timestamp: expect.any(String),
+        setCode: 'tla',
+      });
+    });
+
+    it('should drop records below the minimum level', () => {
+      const logger = new Logger({ level: 'warn', sinks: [sink] });
+
+      logger.debug('debug');
+      logger.info('info');
+      logger.warn('warn');
+      logger.error('error');
+
+      expect(sink.getRecords().map((record) => record.level)).toEqual(['warn', 'error']);
+    });
+
+    describe('minimum level from environment', () => {
+      const originalLogLevel = process.env.LOG_LEVEL;
+
+      afterEach(() => {
+        if (originalLogLevel === undefined) {
+          delete process.env.LOG_LEVEL;
+        } else {
+          process.env.LOG_LEVEL = originalLogLevel;
+        }
+      });
+
+      it('should read the minimum level from LOG_LEVEL', () => {
+        process.env.LOG_LEVEL = 'error';
+
+        expect(new Logger({ sinks: [sink] }).getLevel()).toBe('error');
+      });
+
+      it('should default to info', () => {
+        delete process.env.LOG_LEVEL;
+
+        expect(new Logger({ sinks: [sink] }).getLevel()).toBe('info');
+      });
+    });
+
+    it('should bind context in child loggers', () => {
+      const logger = new Logger({
+        level: 'info',
+        sinks: [sink],
+        context: { service: 'scryscraper' },
+      });
+      const child = logger.child({ requestId: 'req-1' }).child({ setCode: 'tla' });
+
+      child.info('Processing');
+
+      expect(sink.getLastRecord()).toMatchObject({
+        service: 'scryscraper',
+        requestId: 'req-1',
+        setCode: 'tla',
+      });
+      expect(logger.getContext()).toEqual({ service: 'scryscraper' });
+    });
+
+    it('should serialise error fields', () => {
+      const logger = new Logger({ level: 'info', sinks: [sink] });
+
+      logger.error('Failed', { error: new Error('Boom') });
+
+      expect(sink.getLastRecord()?.error).toMatchObject({
+        name: 'Error',
+        message: 'Boom',
+      });
+      expect(JSON.parse(JSON.stringify(sink.getLastRecord())).error.message).toBe('Boom');
+    });
+
+    it('should not let fields override the level or message', () => {
+      const logger = new Logger({ level: 'info', sinks: [sink] });
+
+      logger.info('Real message', { level: 'error', message: 'Fake message' });
+
+      expect(sink.getLastRecord()).toMatchObject({ level: 'info', message: 'Real message' });
+    });
+
+    it('should redact records before they reach any sink', () => {
+      const logger = new Logger({ level: 'info', sinks: [sink], redaction: {} });
+
+      logger.child({ sessionToken: 'abc' }).info('Emailed sam@example.com');
+
+      expect(sink.getLastRecord()).toMatchObject({
+        sessionToken: '[REDACTED]',
+        message: 'Emailed [REDACTED]',
+      });
+    });
+
+    it('should report sink failures without throwing', async () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const failingSink = {
+        write: vi.fn().mockRejectedValue(new Error('Sink down')),
+      };
+      const logger = new Logger({ level: 'info', sinks: [failingSink, sink] });
+
+      expect(() => logger.info('Still logged')).not.toThrow();
+      await logger.flush();
+
+      expect(sink.getRecords()).toHaveLength(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        'Log sink failed to write record:',
+        expect.any(Error)
+      );
+      consoleErrorSpy.mockRestore();
+    });
+
+    it('should wait for pending writes and flush sinks', async () => {
+      const publisher = {
+        enqueue: vi.fn().mockResolvedValue(undefined),
+        flush: vi.fn().mockResolvedValue(undefined),
+      };
+      const logger = new Logger({
+        level: 'info',
+        sinks: [new CloudWatchLogSink(publisher)],
+      });
+
+      logger.child({ requestId: 'req-1' }).info('Buffered');
+      await logger.flush();
+
+      expect(publisher.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Buffered', requestId: 'req-1' })
+      );
+      expect(publisher.flush).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ConsoleLogSink', () => {
+    it('should write JSON lines using the console method for the level', () => {
+      const logSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const logger = new Logger({ level: 'debug', sinks: [new ConsoleLogSink()] });
+
+      logger.debug('debug');
+      logger.info('info');
+      logger.warn('warn');
+      logger.error('error');
+
+      expect(logSpy).toHaveBeenCalledTimes(2);
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+      expect(errorSpy).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(errorSpy.mock.calls[0][0] as string)).toMatchObject({
+        level: 'error',
+        message: 'error',
+      });
+
+      logSpy.mockRestore();
+      warnSpy.mockRestore();
+      errorSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import { createRedactor, type RedactionConfig, type Redactor } from './redaction.js';
+import type { LogEvent } from './index.js';
+
+/**
+ * Log levels in increasing order of severity
+ */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Context bound to a logger and included in every record it writes
+ */
+export interface LogContext {
+  service?: string;
+  requestId?: string;
+  setCode?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A structured log record as written to sinks
+ */
+export interface LogRecord extends LogEvent {
+  level: LogLevel;
+  timestamp: string;
+}
+
+/**
+ * An error flattened into plain JSON-serialisable fields
+ */
+export interface SerialisedError {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: SerialisedError | unknown;
+}
+
+/**
+ * Destination for log records
+ * Sinks may write asynchronously - the logger tracks pending writes until flush()
+ */
+export interface LogSink {
+  write(record: LogRecord): void | Promise<void>;
+  flush?(): Promise<void>;
+}
+
+/**
+ * Options for creating a logger
+ */
+export interface LoggerOptions {
+  /**
+   * Minimum level to write
+   * @default process.env.LOG_LEVEL, falling back to 'info'
+   */
+  level?: LogLevel;
+  /**
+   * Where records are written
+   * @default [new ConsoleLogSink()]
+   */
+  sinks?: LogSink[];
+  context?: LogContext;
+  /**
+   * Redacts sensitive keys and values before records reach any sink
+   * Disabled when not set - pass {} to use the default key and value patterns
+   */
+  redaction?: RedactionConfig;
+}
+
+/**
+ * The parts of a publisher the CloudWatch sink needs
+ */
+export interface BufferedLogPublisher {
+  enqueue(logEvent: LogEvent): Promise<void>;
+  flush(): Promise<void>;
+}
+
+// Guards against cyclic or very deep cause chains
+const MAX_CAUSE_DEPTH = 5;
+
+/**
+ * Checks whether a value is a known log level
+ */
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolves a log level from an environment variable value
+ * Matching is case-insensitive; unknown or missing values fall back to the default
+ */
+export function resolveLogLevel(value: string | undefined, fallback: LogLevel = 'info'): LogLevel {
+  const normalised = value?.trim().toLowerCase();
+  return isLogLevel(normalised) ? normalised : fallback;
+}
+
+/**
+ * Flattens an error into name, message, stack and cause so it survives JSON.stringify
+ * Non-Error values are wrapped so callers can throw anything
+ */
+export function serialiseError(error: unknown, depth = 0): SerialisedError {
+  if (!(error instanceof Error)) {
+    return { name: 'NonError', message: String(error) };
+  }
+
+  const serialised: SerialisedError = {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+
+  if (error.cause !== undefined) {
+    serialised.cause =
+      depth < MAX_CAUSE_DEPTH ? serialiseError(error.cause, depth + 1) : '[Truncated]';
+  }
+
+  return serialised;
+}
+
+/**
+ * Writes each record as a single JSON line, using the console method matching its level
+ * Lambda picks the level up from console.warn and console.error
+ */
+export class ConsoleLogSink implements LogSink {
+  write(record: LogRecord): void {
+    const line = JSON.stringify(record);
+
+    switch (record.level) {
+      case 'error':
+        console.error(line);
+        break;
+      case 'warn':
+        console.warn(line);
+        break;
+      default:
+        console.log(line);
+    }
+  }
+}
+
+/**
+ * Buffers records in a CloudWatch log publisher, sending them when the logger is flushed
+ */
+export class CloudWatchLogSink implements LogSink {
+  private publisher: BufferedLogPublisher;
+
+  constructor(publisher: BufferedLogPublisher) {
+    this.publisher = publisher;
+  }
+
+  async write(record: LogRecord): Promise<void> {
+    await this.publisher.enqueue(record);
+  }
+
+  async flush(): Promise<void> {
+    await this.publisher.flush();
+  }
+}
+
+/**
+ * Structured, leveled logger with bound context and pluggable sinks
+ *
+ * @example
+ * const logger = new Logger({ context: { service: 'scryscraper' } });
+ * const requestLogger = logger.child({ requestId: context.awsRequestId });
+ * requestLogger.info('Scraping set', { setCode: 'tla' });
+ * requestLogger.error('Scrape failed', { error });
+ */
+export class Logger {
+  private level: LogLevel;
+  private sinks: LogSink[];
+  private context: LogContext;
+  private pendingWrites: Set<Promise<void>>;
+  private redaction: RedactionConfig | undefined;
+  private redact: Redactor;
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? resolveLogLevel(process.env.LOG_LEVEL);
+    this.sinks = options.sinks ?? [new ConsoleLogSink()];
+    this.context = options.context ?? {};
+    this.pendingWrites = new Set();
+    this.redaction = options.redaction;
+    this.redact = options.redaction ? createRedactor(options.redaction) : (value) => value;
+  }
+
+  /**
+   * Creates a logger that writes to the same sinks with additional bound context
+   * Child loggers share pending writes with their parent, so flushing either waits for both
+   */
+  child(context: LogContext): Logger {
+    const child = new Logger({
+      level: this.level,
+      sinks: this.sinks,
+      context: { ...this.context, ...context },
+      redaction: this.redaction,
+    });
+    child.pendingWrites = this.pendingWrites;
+    return child;
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+
+  /**
+   * Checks whether records at the given level would be written
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.level);
+  }
+
+  /**
+   * Gets the minimum level this logger writes
+   */
+  getLevel(): LogLevel {
+    return this.level;
+  }
+
+  /**
+   * Gets the context bound to this logger
+   */
+  getContext(): LogContext {
+    return { ...this.context };
+  }
+
+  /**
+   * Waits for pending writes, then flushes every sink that buffers
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.pendingWrites);
+    await Promise.all(this.sinks.map((sink) => sink.flush?.()));
+  }
+
+  /**
+   * Builds a record and hands it to every sink
+   * Sink failures are reported to the console rather than thrown at the caller
+   */
+  log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const record: LogRecord = this.redact({
+      ...this.context,
+      ...this.serialiseFields(fields),
+      level,
+      message,
+      timestamp: new Date().toISOString(),
+    });
+
+    for (const sink of this.sinks) {
+      try {
+        const result = sink.write(record);
+        if (result) {
+          this.trackWrite(result);
+        }
+      } catch (error) {
+        console.error('Log sink failed to write record:', error);
+      }
+    }
+  }
+
+  private serialiseFields(fields: Record<string, unknown>): Record<string, unknown> {
+    const serialised: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(fields)) {
+      serialised[key] = value instanceof Error ? serialiseError(value) : value;
+    }
+
+    return serialised;
+  }
+
+  private trackWrite(write: Promise<void>): void {
+    const tracked = write
+      .catch((error: unknown) => {
+        console.error('Log sink failed to write record:', error);
+      })
+      .finally(() => {
+        this.pendingWrites.delete(tracked);
+      });
+    this.pendingWrites.add(tracked);
+  }
+}
+
+/**
+ * Creates a logger with the given options
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  return new Logger(options);
+}
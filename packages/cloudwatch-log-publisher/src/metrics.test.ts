@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createMetrics,
+  EmfValidationError,
+  MAX_DIMENSIONS_PER_SET,
+  MAX_METRICS_PER_EVENT,
+  MetricsBuilder,
+} from './metrics.js';
+
+describe('metrics', () => {
+  describe('MetricsBuilder', () => {
+    it('should build an EMF event with namespace, dimensions and metrics', () => {
+      const event = new MetricsBuilder('MonorepoFem/Heartbeat')
+        .putDimensions({ Service: 'heartbeat-publisher' })
+        .putMetric('Heartbeats', 1, 'Count')
+        .setTimestamp(new Date('2025-01-01T00:00:00.000Z'))
+        .build();
+
+      expect(event).toEqual({
+        message: 'MonorepoFem/Heartbeat metrics',
+        Service: 'heartbeat-publisher',
+        Heartbeats: 1,
+        _aws: {
+          Timestamp: 1735689600000,
+          CloudWatchMetrics: [
+            {
+              Namespace: 'MonorepoFem/Heartbeat',
+              Dimensions: [['Service']],
+              Metrics: [{ Name: 'Heartbeats', Unit: 'Count' }],
+            },
+          ],
+        },
+      });
+    });
+
+    it('should carry the context log event on the same line', () => {
+      const event = createMetrics('MonorepoFem/Pulse')
+        .putMetric('Latency', 42, 'Milliseconds')
+        .putProperty('requestId', 'abc-123')
+        .build({ message: 'Pulse sent', source: 'pulse-publisher', type: 'pulse' });
+
+      expect(event).toMatchObject({
+        message: 'Pulse sent',
+        source: 'pulse-publisher',
+        type: 'pulse',
+        requestId: 'abc-123',
+        Latency: 42,
+      });
+    });
+
+    it('should declare high resolution storage only when requested', () => {
+      const event = createMetrics('Test')
+        .putMetric('Fast', 1, 'Count', 1)
+        .putMetric('Slow', 1, 'Count', 60)
+        .build();
+
+      expect(event._aws.CloudWatchMetrics[0].Metrics).toEqual([
+        { Name: 'Fast', Unit: 'Count', StorageResolution: 1 },
+        { Name: 'Slow', Unit: 'Count' },
+      ]);
+    });
+
+    it('should record repeated metrics as an array of values', () => {
+      const event = createMetrics('Test')
+        .putMetric('Latency', 10, 'Milliseconds')
+        .putMetric('Latency', 20, 'Milliseconds')
+        .build();
+
+      expect(event.Latency).toEqual([10, 20]);
+      expect(event._aws.CloudWatchMetrics[0].Metrics).toHaveLength(1);
+    });
+
+    it('should reject a repeated metric with a different unit', () => {
+      const metrics = createMetrics('Test').putMetric('Latency', 10, 'Milliseconds');
+
+      expect(() => metrics.putMetric('Latency', 1, 'Seconds')).toThrow(EmfValidationError);
+    });
+
+    it('should reject more than the maximum number of metrics', () => {
+      const metrics = createMetrics('Test');
+      for (let i = 0; i <= MAX_METRICS_PER_EVENT; i++) {
+        metrics.putMetric(`Metric${i}`, i);
+      }
+
+      expect(() => metrics.build()).toThrow(/Too many metrics/);
+    });
+
+    it('should reject more than the maximum number of dimensions in a set', () => {
+      const dimensions = Object.fromEntries(
+        Array.from({ length: MAX_DIMENSIONS_PER_SET + 1 }, (_, i) => [`Dim${i}`, 'value'])
+      );
+      const metrics = createMetrics('Test').putDimensions(dimensions).putMetric('Count', 1);
+
+      expect(() => metrics.build()).toThrow(/Too many dimensions/);
+    });
+
+    it('should reject events without metrics', () => {
+      expect(() => createMetrics('Test').build()).toThrow(EmfValidationError);
+    });
+
+    it('should reject an empty namespace', () => {
+      expect(() => createMetrics('').putMetric('Count', 1).build()).toThrow(/Namespace/);
+    });
+
+    it('should reject non-finite metric values', () => {
+      expect(() => createMetrics('Test').putMetric('Bad', NaN).build()).toThrow(/finite/);
+    });
+
+    it('should reject names used as both a metric and a dimension', () => {
+      const metrics = createMetrics('Test')
+        .putDimensions({ Service: 'svc' })
+        .putMetric('Service', 1);
+
+      expect(() => metrics.build()).toThrow(/both a metric and a dimension/);
+    });
+
+    it('should reject context fields that clash with metrics', () => {
+      const metrics = createMetrics('Test').putMetric('type', 1);
+
+      expect(() => metrics.build({ message: 'clash', type: 'heartbeat' })).toThrow(
+        EmfValidationError
+      );
+    });
+  });
+});
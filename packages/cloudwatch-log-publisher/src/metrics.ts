@@ -0,0 +1,278 @@
+import type { LogEvent } from './index.js';
+
+/**
+ * Maximum number of metrics in a single EMF directive
+ */
+export const MAX_METRICS_PER_EVENT = 100;
+
+/**
+ * Maximum number of dimensions in a single EMF dimension set
+ */
+export const MAX_DIMENSIONS_PER_SET = 30;
+
+/**
+ * Maximum number of values recorded against a single metric in one event
+ */
+export const MAX_VALUES_PER_METRIC = 100;
+
+/**
+ * Units accepted by CloudWatch metrics
+ */
+export type MetricUnit =
+  | 'Seconds'
+  | 'Microseconds'
+  | 'Milliseconds'
+  | 'Bytes'
+  | 'Kilobytes'
+  | 'Megabytes'
+  | 'Gigabytes'
+  | 'Terabytes'
+  | 'Bits'
+  | 'Kilobits'
+  | 'Megabits'
+  | 'Gigabits'
+  | 'Terabits'
+  | 'Percent'
+  | 'Count'
+  | 'Bytes/Second'
+  | 'Kilobytes/Second'
+  | 'Megabytes/Second'
+  | 'Gigabytes/Second'
+  | 'Terabytes/Second'
+  | 'Bits/Second'
+  | 'Kilobits/Second'
+  | 'Megabits/Second'
+  | 'Gigabits/Second'
+  | 'Terabits/Second'
+  | 'Count/Second'
+  | 'None';
+
+/**
+ * Storage resolution in seconds - 1 for high resolution, 60 for standard
+ */
+export type StorageResolution = 1 | 60;
+
+/**
+ * A metric definition inside an EMF directive
+ */
+export interface EmfMetricDefinition {
+  Name: string;
+  Unit?: MetricUnit;
+  StorageResolution?: StorageResolution;
+}
+
+/**
+ * The _aws metadata block that makes a log event an EMF event
+ * @see https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/CloudWatch_Embedded_Metric_Format_Specification.html
+ */
+export interface EmfMetadata {
+  Timestamp: number;
+  CloudWatchMetrics: {
+    Namespace: string;
+    Dimensions: string[][];
+    Metrics: EmfMetricDefinition[];
+  }[];
+}
+
+/**
+ * A log event carrying EMF metadata alongside its metric values, dimensions and context
+ */
+export interface EmfLogEvent extends LogEvent {
+  _aws: EmfMetadata;
+}
+
+/**
+ * Thrown when metrics would produce an EMF event CloudWatch rejects or silently ignores
+ */
+export class EmfValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmfValidationError';
+  }
+}
+
+interface RecordedMetric {
+  values: number[];
+  unit: MetricUnit;
+  storageResolution: StorageResolution;
+}
+
+/**
+ * Builds an EMF log event from metrics, dimensions and properties
+ *
+ * @example
+ * const metrics = new MetricsBuilder('MonorepoFem/Heartbeat')
+ *   .putDimensions({ Service: 'heartbeat-publisher' })
+ *   .putMetric('Heartbeats', 1, 'Count');
+ * await publisher.publishMetric(metrics, { message: 'Heartbeat sent' });
+ */
+export class MetricsBuilder {
+  private namespace: string;
+  private dimensionSets: string[][] = [];
+  private dimensionValues: Record<string, string> = {};
+  private metrics: Map<string, RecordedMetric> = new Map();
+  private properties: Record<string, unknown> = {};
+  private timestamp: number | undefined;
+
+  constructor(namespace: string) {
+    this.namespace = namespace;
+  }
+
+  /**
+   * Adds a dimension set - every metric is aggregated across each set added
+   */
+  putDimensions(dimensions: Record<string, string>): this {
+    this.dimensionSets.push(Object.keys(dimensions));
+    Object.assign(this.dimensionValues, dimensions);
+    return this;
+  }
+
+  /**
+   * Records a metric value
+   * Recording the same metric again adds another value rather than replacing it
+   */
+  putMetric(
+    name: string,
+    value: number,
+    unit: MetricUnit = 'None',
+    storageResolution: StorageResolution = 60
+  ): this {
+    const existing = this.metrics.get(name);
+
+    if (!existing) {
+      this.metrics.set(name, { values: [value], unit, storageResolution });
+      return this;
+    }
+
+    if (existing.unit !== unit || existing.storageResolution !== storageResolution) {
+      throw new EmfValidationError(
+        `Metric "${name}" was already recorded with a different unit or storage resolution`
+      );
+    }
+
+    existing.values.push(value);
+    return this;
+  }
+
+  /**
+   * Adds a property that is searchable in Logs Insights but doesn't become a metric or dimension
+   */
+  putProperty(key: string, value: unknown): this {
+    this.properties[key] = value;
+    return this;
+  }
+
+  /**
+   * Sets the metric timestamp, which defaults to the time build() is called
+   */
+  setTimestamp(timestamp: Date | number): this {
+    this.timestamp = timestamp instanceof Date ? timestamp.getTime() : timestamp;
+    return this;
+  }
+
+  /**
+   * Validates the metrics and builds the EMF log event
+   * Fields from the optional context event are carried on the same line as the metrics
+   */
+  build(context?: LogEvent): EmfLogEvent {
+    this.validate(context);
+
+    const metricValues: Record<string, number | number[]> = {};
+    const definitions: EmfMetricDefinition[] = [];
+
+    for (const [name, metric] of this.metrics) {
+      metricValues[name] = metric.values.length === 1 ? metric.values[0] : metric.values;
+      definitions.push({
+        Name: name,
+        Unit: metric.unit,
+        // Standard resolution is the default, so only high resolution needs declaring
+        ...(metric.storageResolution === 1 ? { StorageResolution: 1 } : {}),
+      });
+    }
+
+    return {
+      message: `${this.namespace} metrics`,
+      ...context,
+      ...this.properties,
+      ...this.dimensionValues,
+      ...metricValues,
+      _aws: {
+        Timestamp: this.timestamp ?? Date.now(),
+        CloudWatchMetrics: [
+          {
+            Namespace: this.namespace,
+            Dimensions: this.dimensionSets,
+            Metrics: definitions,
+          },
+        ],
+      },
+    };
+  }
+
+  /**
+   * Checks the EMF specification limits that CloudWatch would otherwise reject or ignore
+   */
+  private validate(context?: LogEvent): void {
+    if (this.namespace.length === 0 || this.namespace.length > 256) {
+      throw new EmfValidationError('Namespace must be between 1 and 256 characters');
+    }
+
+    if (this.metrics.size === 0) {
+      throw new EmfValidationError('At least one metric is required');
+    }
+
+    if (this.metrics.size > MAX_METRICS_PER_EVENT) {
+      throw new EmfValidationError(
+        `Too many metrics: ${this.metrics.size} (maximum ${MAX_METRICS_PER_EVENT})`
+      );
+    }
+
+    for (const dimensionSet of this.dimensionSets) {
+      if (dimensionSet.length > MAX_DIMENSIONS_PER_SET) {
+        throw new EmfValidationError(
+          `Too many dimensions in a dimension set: ${dimensionSet.length} (maximum ${MAX_DIMENSIONS_PER_SET})`
+        );
+      }
+    }
+
+    for (const [name, value] of Object.entries(this.dimensionValues)) {
+      if (value.length === 0 || value.length > 1024) {
+        throw new EmfValidationError(
+          `Dimension "${name}" value must be between 1 and 1024 characters`
+        );
+      }
+    }
+
+    for (const [name, metric] of this.metrics) {
+      if (name in this.dimensionValues) {
+        throw new EmfValidationError(`"${name}" is used as both a metric and a dimension`);
+      }
+
+      if (metric.values.length > MAX_VALUES_PER_METRIC) {
+        throw new EmfValidationError(
+          `Too many values for metric "${name}": ${metric.values.length} (maximum ${MAX_VALUES_PER_METRIC})`
+        );
+      }
+
+      if (metric.values.some((value) => !Number.isFinite(value))) {
+        throw new EmfValidationError(`Metric "${name}" values must be finite numbers`);
+      }
+    }
+
+    const reservedKeys = [...this.metrics.keys(), ...Object.keys(this.dimensionValues)];
+    for (const key of reservedKeys) {
+      if (context && key in context) {
+        throw new EmfValidationError(
+          `"${key}" is set on the log event and as a metric or dimension`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Creates a metrics builder for the given namespace
+ */
+export function createMetrics(namespace: string): MetricsBuilder {
+  return new MetricsBuilder(namespace);
+}
@@ -0,0 +1,490 @@
+import type { CloudWatchLogsClient } from '@aws-sdk/client-cloudwatch-logs';
+import {
+  chunkLogEvents,
+  getEventSize,
+  MAX_BATCH_EVENT_COUNT,
+  MAX_BATCH_SIZE_BYTES,
+  type TimestampedLogEvent,
+} from './batch.js';
+import { encodeLogEvent, type OversizedEventPolicy } from './event-size.js';
+import { type LogGroupOptions } from './log-group.js';
+import { resolveLogStreamName, type LogStreamStrategy } from './log-stream.js';
+import { type EmfLogEvent, type MetricsBuilder } from './metrics.js';
+import { createRedactor, redact, type RedactionConfig, type Redactor } from './redaction.js';
+import { isRetryableError, NO_RETRY, type RetryPolicy } from './retry.js';
+import { CloudWatchLogTransport, putLogEvents, type LogTransport } from './transports.js';
+import type { LogEvent } from './index.js';
+
+/**
+ * Publisher operations that can fail, as reported to onError in best-effort mode
+ */
+export type PublishOperation = 'publish' | 'publishMetric' | 'enqueue' | 'flush';
+
+/**
+ * Configuration options for CloudWatch Log Publisher
+ */
+export interface CloudWatchLogPublisherConfig {
+  logGroupName: string;
+  logStreamPrefix: string;
+  /**
+   * Client for the default CloudWatch transport
+   * Ignored when transport is set
+   */
+  client?: CloudWatchLogsClient;
+  /**
+   * Where encoded batches are written
+   * @default a CloudWatchLogTransport using client and retry
+   */
+  transport?: LogTransport;
+  /**
+   * How log streams are named and rotated
+   * @default 'per-invocation'
+   */
+  logStreamStrategy?: LogStreamStrategy;
+  /**
+   * Buffered events that trigger an automatic flush from enqueue()
+   * @default 10000
+   */
+  maxBufferedEvents?: number;
+  /**
+   * Buffered payload size in bytes that triggers an automatic flush from enqueue()
+   * @default 1048576
+   */
+  maxBufferedBytes?: number;
+  /**
+   * Flushes buffered events this many milliseconds after the first enqueue()
+   * Disabled when not set
+   */
+  flushIntervalMs?: number;
+  /**
+   * What to do with events larger than CloudWatch's 256 KB event limit
+   * EMF events from publishMetric() are always rejected, as changing them would corrupt the metrics
+   * @default 'reject'
+   */
+  oversizedEventPolicy?: OversizedEventPolicy;
+  /**
+   * Redacts sensitive keys and values before events are printed or sent
+   * Disabled when not set - pass {} to use the default key and value patterns
+   */
+  redaction?: RedactionConfig;
+  /**
+   * Retries failed CreateLogStream and PutLogEvents calls in the default CloudWatch transport
+   * Only the AWS SDK's built-in retries apply when not set. Ignored when transport is set, apart
+   * from isRetryable, which also decides whether a failed flush keeps its events buffered
+   */
+  retry?: RetryPolicy;
+  /**
+   * Creates the log group on first use in the default CloudWatch transport, once per container
+   * Pass options to set retention, a KMS key and tags. Disabled when not set
+   * Needs logs:CreateLogGroup, plus logs:DescribeLogGroups and logs:PutRetentionPolicy for retention
+   */
+  ensureLogGroup?: boolean | LogGroupOptions;
+  /**
+   * Reports publishing failures to onError instead of throwing them
+   * Use when losing a log line is better than failing the Lambda
+   * @default false
+   */
+  bestEffort?: boolean;
+  /**
+   * Called with publishing failures in best-effort mode
+   * @default logs the failure with console.error
+   */
+  onError?: (error: unknown, operation: PublishOperation) => void;
+}
+
+/**
+ * Publishes a log event to CloudWatch Logs
+ * Throws LogEventTooLargeError without calling AWS if the event exceeds the event size limit
+ *
+ * @param redaction - Redacts the event before it's printed or sent, as in CloudWatchLogPublisher
+ */
+export async function publishLog(
+  client: CloudWatchLogsClient,
+  logGroupName: string,
+  logStreamName: string,
+  logEvent: LogEvent,
+  retryPolicy: RetryPolicy = NO_RETRY,
+  redaction?: RedactionConfig
+): Promise<void> {
+  const timestamp = Date.now();
+  const redactedEvent = redaction ? redact(logEvent, redaction) : logEvent;
+  const [message] = encodeLogEvent(redactedEvent, 'reject');
+
+  console.log(`Publishing log event to ${logGroupName}/${logStreamName}:`, redactedEvent);
+
+  await putLogEvents(
+    client,
+    logGroupName,
+    logStreamName,
+    [
+      {
+        message,
+        timestamp,
+      },
+    ],
+    { retry: retryPolicy }
+  );
+
+  console.log('Successfully published log event');
+}
+
+/**
+ * CloudWatch Log Publisher class that encapsulates log publishing functionality
+ */
+export class CloudWatchLogPublisher {
+  private transport: LogTransport;
+  private logGroupName: string;
+  private logStreamPrefix: string;
+  private maxBufferedEvents: number;
+  private maxBufferedBytes: number;
+  private flushIntervalMs: number | undefined;
+  private buffer: TimestampedLogEvent[] = [];
+  private bufferedBytes = 0;
+  private flushTimer: ReturnType<typeof setTimeout> | undefined;
+  // Flushes run one at a time, so a flush never returns while an earlier one is still sending
+  private pendingFlush: Promise<void> = Promise.resolve();
+  private logStreamStrategy: LogStreamStrategy;
+  private pinnedLogStreamName: string | undefined;
+  private bestEffort: boolean;
+  private onError: (error: unknown, operation: PublishOperation) => void;
+  private oversizedEventPolicy: OversizedEventPolicy;
+  private redact: Redactor;
+  private isRetryable: (error: unknown) => boolean;
+
+  constructor(config: CloudWatchLogPublisherConfig) {
+    this.logGroupName = config.logGroupName;
+    this.logStreamPrefix = config.logStreamPrefix;
+    this.transport =
+      config.transport ??
+      new CloudWatchLogTransport({
+        client: config.client,
+        retry: config.retry ?? NO_RETRY,
+        ensureLogGroup: config.ensureLogGroup,
+      });
+    this.logStreamStrategy = config.logStreamStrategy ?? 'per-invocation';
+    this.maxBufferedEvents = config.maxBufferedEvents ?? MAX_BATCH_EVENT_COUNT;
+    this.maxBufferedBytes = config.maxBufferedBytes ?? MAX_BATCH_SIZE_BYTES;
+    this.flushIntervalMs = config.flushIntervalMs;
+    this.bestEffort = config.bestEffort ?? false;
+    this.oversizedEventPolicy = config.oversizedEventPolicy ?? 'reject';
+    this.redact = config.redaction ? createRedactor(config.redaction) : (value) => value;
+    this.isRetryable = config.retry?.isRetryable ?? isRetryableError;
+    this.onError =
+      config.onError ??
+      ((error, operation) => console.error(`Failed to ${operation} log events:`, error));
+  }
+
+  /**
+   * Publishes a log event to CloudWatch Logs
+   * Writes to the stream chosen by the log stream strategy through the configured transport
+   * Oversized events are handled according to the oversized event policy
+   */
+  async publish(logEvent: LogEvent): Promise<void> {
+    // Redact once up front so the console and CloudWatch both only ever see the redacted event
+    const redactedEvent = this.redact(logEvent);
+
+    await this.reportFailures('publish', async () => {
+      const events = this.encode(redactedEvent);
+
+      console.log(`Publishing log event to ${this.logGroupName}:`, redactedEvent);
+
+      try {
+        for (const batch of chunkLogEvents(events)) {
+          await this.writeBatch(batch);
+        }
+      } finally {
+        this.pinnedLogStreamName = undefined;
+      }
+
+      console.log('Successfully published log event');
+    });
+  }
+
+  /**
+   * Publishes metrics to CloudWatch Logs in Embedded Metric Format
+   * Fields from the optional context event are written on the same line as the metrics
+   */
+  async publishMetric(metrics: MetricsBuilder, context?: LogEvent): Promise<void> {
+    const emfEvent = this.redactEmfEvent(metrics.build(context));
+
+    await this.reportFailures('publishMetric', async () => {
+      const [message] = encodeLogEvent(emfEvent, 'reject');
+
+      try {
+        await this.writeBatch([{ message, timestamp: emfEvent._aws.Timestamp }], true);
+      } finally {
+        this.pinnedLogStreamName = undefined;
+      }
+    });
+  }
+
+  /**
+   * Buffers a log event to be sent by the next flush
+   * Flushes automatically once the buffered event count or payload size threshold is reached
+   */
+  async enqueue(logEvent: LogEvent): Promise<void> {
+    let events: TimestampedLogEvent[] = [];
+    await this.reportFailures('enqueue', async () => {
+      events = this.encode(this.redact(logEvent));
+    });
+
+    if (events.length === 0) {
+      return;
+    }
+
+    for (const event of events) {
+      this.buffer.push(event);
+      this.bufferedBytes += getEventSize(event);
+    }
+
+    if (
+      this.buffer.length >= this.maxBufferedEvents ||
+      this.bufferedBytes >= this.maxBufferedBytes
+    ) {
+      await this.flush();
+      return;
+    }
+
+    this.scheduleFlush();
+  }
+
+  /**
+   * Sends all buffered events to the stream chosen by the log stream strategy
+   * Events are split into as many batches as the PutLogEvents limits require
+   * If a call fails with a retryable error, the unsent events are returned to the buffer so a later
+   * flush retries them. Otherwise the rejected batch is dropped and only the batches after it are kept
+   * A flush already in progress, e.g. from the flush interval, is waited for before the rest is sent
+   */
+  async flush(): Promise<void> {
+    await this.reportFailures('flush', () => this.flushBuffer());
+  }
+
+  /**
+   * Gets the number of events waiting to be flushed
+   */
+  getBufferedEventCount(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Gets the log group name
+   */
+  getLogGroupName(): string {
+    return this.logGroupName;
+  }
+
+  /**
+   * Gets the log stream prefix
+   */
+  getLogStreamPrefix(): string {
+    return this.logStreamPrefix;
+  }
+
+  /**
+   * Drops buffered events without sending them
+   */
+  protected clearBuffer(): void {
+    this.clearFlushTimer();
+    this.buffer = [];
+    this.bufferedBytes = 0;
+  }
+
+  /**
+   * Queues a flush behind any flush still in progress
+   */
+  private flushBuffer(): Promise<void> {
+    const flush = this.pendingFlush.then(() => this.sendBuffer());
+    // A failed flush shouldn't block the ones queued after it
+    this.pendingFlush = flush.catch(() => undefined);
+    return flush;
+  }
+
+  /**
+   * Sends all buffered events, requeueing whatever couldn't be sent
+   * A batch rejected with a non-retryable error is dropped, so it can't block the buffer forever
+   */
+  private async sendBuffer(): Promise<void> {
+    this.clearFlushTimer();
+
+    if (this.buffer.length === 0) {
+      return;
+    }
+
+    const events = this.buffer;
+    this.buffer = [];
+    this.bufferedBytes = 0;
+
+    const batches = chunkLogEvents(events);
+
+    let sentBatches = 0;
+
+    try {
+      for (const batch of batches) {
+        await this.writeBatch(batch);
+        sentBatches++;
+      }
+    } catch (error) {
+      // Keep the pinned stream so the retry writes to the same place
+      const unsentBatches = this.isRetryable(error)
+        ? batches.slice(sentBatches)
+        : batches.slice(sentBatches + 1);
+      this.requeue(unsentBatches.flat());
+      throw error;
+    }
+
+    this.pinnedLogStreamName = undefined;
+  }
+
+  /**
+   * Serialises a log event into timestamped messages, applying the oversized event policy
+   */
+  private encode(logEvent: LogEvent): TimestampedLogEvent[] {
+    const timestamp = Date.now();
+    return encodeLogEvent(logEvent, this.oversizedEventPolicy).map((message) => ({
+      message,
+      timestamp,
+    }));
+  }
+
+  /**
+   * Redacts the context and properties of an EMF event
+   * The _aws metadata, metric values and dimensions are kept as they are, so the metrics still
+   * match their definitions
+   */
+  private redactEmfEvent(emfEvent: EmfLogEvent): EmfLogEvent {
+    const { _aws, ...fields } = emfEvent;
+    const kept = new Set(
+      _aws.CloudWatchMetrics.flatMap((directive) => [
+        ...directive.Metrics.map((metric) => metric.Name),
+        ...directive.Dimensions.flat(),
+      ])
+    );
+    const metricFields: Record<string, unknown> = {};
+    const otherFields: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(fields)) {
+      (kept.has(key) ? metricFields : otherFields)[key] = value;
+    }
+
+    return { ...(this.redact(otherFields) as LogEvent), ...metricFields, _aws };
+  }
+
+  /**
+   * Runs a publishing operation, reporting failures to onError instead of throwing in best-effort mode
+   */
+  private async reportFailures(
+    operation: PublishOperation,
+    run: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await run();
+    } catch (error) {
+      if (!this.bestEffort) {
+        throw error;
+      }
+
+      this.onError(error, operation);
+    }
+  }
+
+  /**
+   * Gets the stream to write to
+   * Per-invocation names are pinned until the current publish or flush completes
+   */
+  private getLogStreamName(): string {
+    if (this.logStreamStrategy !== 'per-invocation') {
+      return resolveLogStreamName(this.logStreamStrategy, this.logStreamPrefix);
+    }
+
+    this.pinnedLogStreamName ??= resolveLogStreamName(
+      this.logStreamStrategy,
+      this.logStreamPrefix
+    );
+    return this.pinnedLogStreamName;
+  }
+
+  /**
+   * Hands a batch for the current log stream to the transport
+   */
+  private async writeBatch(events: TimestampedLogEvent[], emf = false): Promise<void> {
+    await this.transport.write({
+      logGroupName: this.logGroupName,
+      logStreamName: this.getLogStreamName(),
+      events,
+      emf,
+    });
+  }
+
+  /**
+   * Puts unsent events back at the front of the buffer
+   */
+  private requeue(events: TimestampedLogEvent[]): void {
+    this.buffer = [...events, ...this.buffer];
+    this.bufferedBytes = this.buffer.reduce(
+      (total, event) => total + getEventSize(event),
+      0
+    );
+  }
+
+  /**
+   * Starts the interval timer if one is configured and not already running
+   */
+  private scheduleFlush(): void {
+    if (!this.flushIntervalMs || this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      // Events that failed with a retryable error stay buffered for the next flush
+      this.flush().catch((error) => {
+        console.error('Failed to flush buffered log events:', error);
+      });
+    }, this.flushIntervalMs);
+
+    // Don't keep the process alive just to flush logs
+    this.flushTimer.unref?.();
+  }
+
+  /**
+   * Stops the interval timer if it is running
+   */
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+}
+
+/**
+ * Anything that can flush buffered log events
+ */
+export interface FlushableLogPublisher {
+  flush(): Promise<void>;
+}
+
+/**
+ * Wraps a Lambda handler so buffered log events are always flushed before the invocation ends
+ * A flush failure after a handler error is logged rather than masking the original error
+ */
+export function withLogFlush<TArgs extends unknown[], TResult>(
+  publisher: FlushableLogPublisher,
+  handler: (...args: TArgs) => Promise<TResult>
+): (...args: TArgs) => Promise<TResult> {
+  return async (...args: TArgs): Promise<TResult> => {
+    let result: TResult;
+
+    try {
+      result = await handler(...args);
+    } catch (error) {
+      await publisher.flush().catch((flushError: unknown) => {
+        console.error('Failed to flush log events:', flushError);
+      });
+      throw error;
+    }
+
+    await publisher.flush();
+    return result;
+  };
+}
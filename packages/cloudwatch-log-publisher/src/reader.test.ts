@@ -0,0 +1,210 @@
+import {
+  CloudWatchLogsClient,
+  FilterLogEventsCommand,
+  GetLogEventsCommand,
+  GetQueryResultsCommand,
+  StartQueryCommand,
+  StopQueryCommand,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { mockClient } from 'aws-sdk-client-mock';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CloudWatchLogReader,
+  filterLogEvents,
+  getLogEvents,
+  InsightsQueryError,
+  parseLogEventMessage,
+} from './reader.js';
+
+const cwLogsMock = mockClient(CloudWatchLogsClient);
+
+describe('reader', () => {
+  beforeEach(() => {
+    cwLogsMock.reset();
+  });
+
+  describe('parseLogEventMessage', () => {
+    it('should parse JSON log events', () => {
+      expect(parseLogEventMessage('{"message":"heartbeat","type":"heartbeat"}')).toEqual({
+        message: 'heartbeat',
+        type: 'heartbeat',
+      });
+    });
+
+    it('should return null for plain text and non-LogEvent JSON', () => {
+      expect(parseLogEventMessage('START RequestId: abc')).toBeNull();
+      expect(parseLogEventMessage('[1, 2, 3]')).toBeNull();
+      expect(parseLogEventMessage('{"level":"info"}')).toBeNull();
+      expect(parseLogEventMessage(undefined)).toBeNull();
+    });
+  });
+
+  describe('getLogEvents', () => {
+    it('should follow forward tokens until the stream is exhausted', async () => {
+      cwLogsMock
+        .on(GetLogEventsCommand)
+        .resolvesOnce({
+          events: [{ message: '{"message":"first"}', timestamp: 1 }],
+          nextForwardToken: 'f/1',
+        })
+        .resolvesOnce({
+          events: [{ message: 'plain text', timestamp: 2 }],
+          nextForwardToken: 'f/2',
+        })
+        .resolvesOnce({ events: [], nextForwardToken: 'f/2' });
+
+      const client = new CloudWatchLogsClient({});
+      const events = await getLogEvents(client, '/test/logs', 'test-stream', {
+        startTime: new Date(0),
+      });
+
+      expect(events).toEqual([
+        expect.objectContaining({
+          message: '{"message":"first"}',
+          timestamp: 1,
+          logStreamName: 'test-stream',
+          logEvent: { message: 'first' },
+        }),
+        expect.objectContaining({ message: 'plain text', logEvent: null }),
+      ]);
+
+      const calls = cwLogsMock.commandCalls(GetLogEventsCommand);
+      expect(calls).toHaveLength(3);
+      expect(calls[0].args[0].input).toMatchObject({ startFromHead: true, startTime: 0 });
+      expect(calls[2].args[0].input.nextToken).toBe('f/2');
+    });
+
+    it('should stop at maxEvents', async () => {
+      cwLogsMock.on(GetLogEventsCommand).resolves({
+        events: [
+          { message: 'a', timestamp: 1 },
+          { message: 'b', timestamp: 2 },
+        ],
+        nextForwardToken: 'always-more',
+      });
+
+      const client = new CloudWatchLogsClient({});
+      const events = await getLogEvents(client, '/test/logs', 'test-stream', {
+        maxEvents: 3,
+      });
+
+      expect(events.map((event) => event.message)).toEqual(['a', 'b', 'a']);
+      expect(cwLogsMock.commandCalls(GetLogEventsCommand)).toHaveLength(2);
+    });
+  });
+
+  describe('filterLogEvents', () => {
+    it('should pass the filter and follow next tokens', async () => {
+      cwLogsMock
+        .on(FilterLogEventsCommand)
+        .resolvesOnce({
+          events: [
+            {
+              message: '{"message":"beat","type":"heartbeat"}',
+              logStreamName: 'stream-1',
+              eventId: 'e1',
+            },
+          ],
+          nextToken: 'page-2',
+        })
+        .resolvesOnce({
+          events: [{ message: '{"message":"beat 2"}', logStreamName: 'stream-2' }],
+        });
+
+      const client = new CloudWatchLogsClient({});
+      const events = await filterLogEvents(client, '/test/logs', {
+        filterPattern: '{ $.type = "heartbeat" }',
+        logStreamNamePrefix: 'heartbeat',
+      });
+
+      expect(events).toHaveLength(2);
+      expect(events[0]).toMatchObject({
+        logStreamName: 'stream-1',
+        eventId: 'e1',
+        logEvent: { message: 'beat', type: 'heartbeat' },
+      });
+
+      const calls = cwLogsMock.commandCalls(FilterLogEventsCommand);
+      expect(calls[0].args[0].input).toMatchObject({
+        logGroupName: '/test/logs',
+        filterPattern: '{ $.type = "heartbeat" }',
+        logStreamNamePrefix: 'heartbeat',
+      });
+      expect(calls[1].args[0].input.nextToken).toBe('page-2');
+    });
+  });
+
+  describe('CloudWatchLogReader query', () => {
+    it('should poll until complete and parse rows', async () => {
+      cwLogsMock.on(StartQueryCommand).resolves({ queryId: 'query-1' });
+      cwLogsMock
+        .on(GetQueryResultsCommand)
+        .resolvesOnce({ status: 'Running' })
+        .resolvesOnce({
+          status: 'Complete',
+          statistics: { recordsMatched: 1 },
+          results: [
+            [
+              { field: '@timestamp', value: '2025-01-01 00:00:00.000' },
+              { field: '@message', value: '{"message":"heartbeat"}' },
+            ],
+          ],
+        });
+
+      const reader = new CloudWatchLogReader({ logGroupName: '/test/logs' });
+      const result = await reader.query('fields @timestamp, @message', {
+        startTime: new Date('2025-01-01T00:00:00.000Z'),
+        endTime: new Date('2025-01-01T01:00:00.000Z'),
+        pollIntervalMs: 1,
+      });
+
+      expect(result).toEqual({
+        queryId: 'query-1',
+        statistics: { recordsMatched: 1 },
+        rows: [
+          {
+            fields: {
+              '@timestamp': '2025-01-01 00:00:00.000',
+              '@message': '{"message":"heartbeat"}',
+            },
+            logEvent: { message: 'heartbeat' },
+          },
+        ],
+      });
+      expect(cwLogsMock.commandCalls(StartQueryCommand)[0].args[0].input).toMatchObject({
+        logGroupNames: ['/test/logs'],
+        startTime: 1735689600,
+        endTime: 1735693200,
+      });
+      expect(cwLogsMock.commandCalls(GetQueryResultsCommand)).toHaveLength(2);
+    });
+
+    it('should throw a typed error when the query fails', async () => {
+      cwLogsMock.on(StartQueryCommand).resolves({ queryId: 'query-1' });
+      cwLogsMock.on(GetQueryResultsCommand).resolves({ status: 'Failed' });
+
+      const reader = new CloudWatchLogReader({ logGroupName: '/test/logs' });
+
+      await expect(
+        reader.query('fields @message', { startTime: 0, pollIntervalMs: 1 })
+      ).rejects.toMatchObject({
+        name: 'InsightsQueryError',
+        queryId: 'query-1',
+        status: 'Failed',
+      });
+    });
+
+    it('should stop the query once the timeout is reached', async () => {
+      cwLogsMock.on(StartQueryCommand).resolves({ queryId: 'query-1' });
+      cwLogsMock.on(GetQueryResultsCommand).resolves({ status: 'Running' });
+      cwLogsMock.on(StopQueryCommand).resolves({ success: true });
+
+      const reader = new CloudWatchLogReader({ logGroupName: '/test/logs' });
+
+      await expect(
+        reader.query('fields @message', { startTime: 0, pollIntervalMs: 5, timeoutMs: 20 })
+      ).rejects.toBeInstanceOf(InsightsQueryError);
+      expect(cwLogsMock.commandCalls(StopQueryCommand)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  CloudWatchLogsClient,
+  FilterLogEventsCommand,
+  GetLogEventsCommand,
+  GetQueryResultsCommand,
+  StartQueryCommand,
+  StopQueryCommand,
+  type QueryStatistics,
+  type QueryStatus,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { sleep } from './retry.js';
+import type { LogEvent } from './index.js';
+
+/**
+ * A log event read back from CloudWatch
+ * logEvent holds the parsed message when it is a JSON LogEvent, and null otherwise
+ */
+export interface ReadLogEvent<T extends LogEvent = LogEvent> {
+  message: string;
+  timestamp: number | undefined;
+  ingestionTime: number | undefined;
+  logStreamName: string | undefined;
+  eventId: string | undefined;
+  logEvent: T | null;
+}
+
+/**
+ * Options for reading a single log stream
+ */
+export interface GetLogEventsOptions {
+  startTime?: Date | number;
+  endTime?: Date | number;
+  /**
+   * Reads oldest events first
+   * @default true
+   */
+  startFromHead?: boolean;
+  /**
+   * Stops paging once this many events have been read
+   */
+  maxEvents?: number;
+}
+
+/**
+ * Options for searching across the streams of a log group
+ */
+export interface FilterLogEventsOptions {
+  /**
+   * CloudWatch filter pattern, e.g. '{ $.type = "heartbeat" }'
+   * @see https://docs.aws.amazon.com/AmazonCloudWatch/latest/logs/FilterAndPatternSyntax.html
+   */
+  filterPattern?: string;
+  logStreamNames?: string[];
+  logStreamNamePrefix?: string;
+  startTime?: Date | number;
+  endTime?: Date | number;
+  /**
+   * Stops paging once this many events have been read
+   */
+  maxEvents?: number;
+}
+
+/**
+ * Options for running a Logs Insights query
+ */
+export interface InsightsQueryOptions {
+  startTime: Date | number;
+  endTime?: Date | number;
+  /**
+   * Maximum rows returned by the query
+   */
+  limit?: number;
+  /**
+   * @default 1000
+   */
+  pollIntervalMs?: number;
+  /**
+   * Stops the query and throws InsightsQueryError once exceeded
+   * @default 60000
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * A row of Logs Insights results
+ * logEvent holds the parsed @message when it is a JSON LogEvent, and null otherwise
+ */
+export interface InsightsQueryRow<T extends LogEvent = LogEvent> {
+  fields: Record<string, string>;
+  logEvent: T | null;
+}
+
+/**
+ * The results of a completed Logs Insights query
+ */
+export interface InsightsQueryResult<T extends LogEvent = LogEvent> {
+  queryId: string;
+  rows: InsightsQueryRow<T>[];
+  statistics: QueryStatistics | undefined;
+}
+
+/**
+ * Thrown when a Logs Insights query fails, is cancelled or takes too long
+ */
+export class InsightsQueryError extends Error {
+  readonly queryId: string;
+  readonly status: QueryStatus | 'ClientTimeout';
+
+  constructor(queryId: string, status: QueryStatus | 'ClientTimeout') {
+    super(`Logs Insights query ${queryId} ended with status ${status}`);
+    this.name = 'InsightsQueryError';
+    this.queryId = queryId;
+    this.status = status;
+  }
+}
+
+/**
+ * Configuration options for CloudWatch Log Reader
+ */
+export interface CloudWatchLogReaderConfig {
+  logGroupName: string;
+  client?: CloudWatchLogsClient;
+}
+
+function toEpochMs(value: Date | number | undefined): number | undefined {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function toEpochSeconds(value: Date | number): number {
+  return Math.floor((toEpochMs(value) as number) / 1000);
+}
+
+/**
+ * Parses a CloudWatch message as a LogEvent
+ * Returns null for messages that aren't JSON objects with a string message field
+ */
+export function parseLogEventMessage<T extends LogEvent = LogEvent>(
+  message: string | undefined
+): T | null {
+  if (!message) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(message);
+    if (
+      parsed &&
+      typeof parsed === 'object' &&
+      !Array.isArray(parsed) &&
+      typeof (parsed as LogEvent).message === 'string'
+    ) {
+      return parsed as T;
+    }
+  } catch {
+    // Plain text messages are expected, e.g. Lambda's own START and END lines
+  }
+
+  return null;
+}
+
+/**
+ * Reads events from a single log stream, following pagination
+ */
+export async function getLogEvents<T extends LogEvent = LogEvent>(
+  client: CloudWatchLogsClient,
+  logGroupName: string,
+  logStreamName: string,
+  options: GetLogEventsOptions = {}
+): Promise<ReadLogEvent<T>[]> {
+  const startFromHead = options.startFromHead ?? true;
+  const events: ReadLogEvent<T>[] = [];
+  let nextToken: string | undefined;
+
+  while (options.maxEvents === undefined || events.length < options.maxEvents) {
+    const result = await client.send(
+      new GetLogEventsCommand({
+        logGroupName,
+        logStreamName,
+        startTime: toEpochMs(options.startTime),
+        endTime: toEpochMs(options.endTime),
+        startFromHead,
+        nextToken,
+      })
+    );
+
+    for (const event of result.events ?? []) {
+      events.push({
+        message: event.message ?? '',
+        timestamp: event.timestamp,
+        ingestionTime: event.ingestionTime,
+        logStreamName,
+        eventId: undefined,
+        logEvent: parseLogEventMessage<T>(event.message),
+      });
+    }
+
+    const token = startFromHead ? result.nextForwardToken : result.nextBackwardToken;
+
+    // GetLogEvents signals the end of the stream by returning the token it was given
+    if (!token || token === nextToken) {
+      break;
+    }
+
+    nextToken = token;
+  }
+
+  return options.maxEvents === undefined ? events : events.slice(0, options.maxEvents);
+}
+
+/**
+ * Searches events across the streams of a log group, following pagination
+ */
+export async function filterLogEvents<T extends LogEvent = LogEvent>(
+  client: CloudWatchLogsClient,
+  logGroupName: string,
+  options: FilterLogEventsOptions = {}
+): Promise<ReadLogEvent<T>[]> {
+  const events: ReadLogEvent<T>[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const result = await client.send(
+      new FilterLogEventsCommand({
+        logGroupName,
+        filterPattern: options.filterPattern,
+        logStreamNames: options.logStreamNames,
+        logStreamNamePrefix: options.logStreamNamePrefix,
+        startTime: toEpochMs(options.startTime),
+        endTime: toEpochMs(options.endTime),
+        nextToken,
+      })
+    );
+
+    for (const event of result.events ?? []) {
+      events.push({
+        message: event.message ?? '',
+        timestamp: event.timestamp,
+        ingestionTime: event.ingestionTime,
+        logStreamName: event.logStreamName,
+        eventId: event.eventId,
+        logEvent: parseLogEventMessage<T>(event.message),
+      });
+    }
+
+    nextToken = result.nextToken;
+  } while (nextToken && (options.maxEvents === undefined || events.length < options.maxEvents));
+
+  return options.maxEvents === undefined ? events : events.slice(0, options.maxEvents);
+}
+
+/**
+ * Runs a Logs Insights query and polls until it completes
+ * Throws InsightsQueryError if the query fails, is cancelled, or exceeds the timeout
+ */
+export async function runInsightsQuery<T extends LogEvent = LogEvent>(
+  client: CloudWatchLogsClient,
+  logGroupNames: string[],
+  queryString: string,
+  options: InsightsQueryOptions
+): Promise<InsightsQueryResult<T>> {
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+  const timeoutMs = options.timeoutMs ?? 60_000;
+  const startedAt = Date.now();
+
+  const { queryId } = await client.send(
+    new StartQueryCommand({
+      logGroupNames,
+      queryString,
+      startTime: toEpochSeconds(options.startTime),
+      endTime: toEpochSeconds(options.endTime ?? Date.now()),
+      limit: options.limit,
+    })
+  );
+
+  if (!queryId) {
+    throw new Error('StartQuery did not return a query id');
+  }
+
+  for (;;) {
+    const result = await client.send(new GetQueryResultsCommand({ queryId }));
+    const status = result.status;
+
+    if (status === 'Complete') {
+      return {
+        queryId,
+        statistics: result.statistics,
+        rows: (result.results ?? []).map((row) => {
+          const fields: Record<string, string> = {};
+          for (const { field, value } of row) {
+            if (field !== undefined && value !== undefined) {
+              fields[field] = value;
+            }
+          }
+          return { fields, logEvent: parseLogEventMessage<T>(fields['@message']) };
+        }),
+      };
+    }
+
+    if (status === 'Failed' || status === 'Cancelled' || status === 'Timeout') {
+      throw new InsightsQueryError(queryId, status);
+    }
+
+    if (Date.now() - startedAt + pollIntervalMs > timeoutMs) {
+      // Don't leave the query running and counting against the concurrency limit
+      await client.send(new StopQueryCommand({ queryId })).catch(() => undefined);
+      throw new InsightsQueryError(queryId, 'ClientTimeout');
+    }
+
+    await sleep(pollIntervalMs);
+  }
+}
+
+/**
+ * CloudWatch Log Reader class for reading back events from a log group
+ * Useful for health checks and integration assertions
+ */
+export class CloudWatchLogReader {
+  private client: CloudWatchLogsClient;
+  private logGroupName: string;
+
+  constructor(config: CloudWatchLogReaderConfig) {
+    this.logGroupName = config.logGroupName;
+    this.client = config.client ?? new CloudWatchLogsClient({});
+  }
+
+  /**
+   * Reads events from a single log stream in the log group
+   */
+  async getLogEvents<T extends LogEvent = LogEvent>(
+    logStreamName: string,
+    options: GetLogEventsOptions = {}
+  ): Promise<ReadLogEvent<T>[]> {
+    return getLogEvents<T>(this.client, this.logGroupName, logStreamName, options);
+  }
+
+  /**
+   * Searches events across the streams of the log group
+   */
+  async filterLogEvents<T extends LogEvent = LogEvent>(
+    options: FilterLogEventsOptions = {}
+  ): Promise<ReadLogEvent<T>[]> {
+    return filterLogEvents<T>(this.client, this.logGroupName, options);
+  }
+
+  /**
+   * Runs a Logs Insights query against the log group
+   */
+  async query<T extends LogEvent = LogEvent>(
+    queryString: string,
+    options: InsightsQueryOptions
+  ): Promise<InsightsQueryResult<T>> {
+    return runInsightsQuery<T>(this.client, [this.logGroupName], queryString, options);
+  }
+
+  /**
+   * Gets the log group name
+   */
+  getLogGroupName(): string {
+    return this.logGroupName;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Built-in matchers for sensitive values that can appear anywhere in a string
+ */
+export const REDACTION_PATTERNS = {
+  awsAccessKeyId: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g,
+  bearerToken: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+} as const;
+
+/**
+ * Matches keys whose values are redacted outright, wherever they appear
+ */
+export const DEFAULT_REDACTED_KEYS: RegExp[] = [
+  /passw(or)?d/i,
+  /^pass$/i,
+  /secret/i,
+  /token/i,
+  /authori[sz]ation/i,
+  /api[-_]?key/i,
+  /cookie/i,
+  /credential/i,
+];
+
+/**
+ * Replacement used for redacted keys and values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * How sensitive fields are found and replaced
+ */
+export interface RedactionConfig {
+  /**
+   * Keys whose values are replaced entirely
+   * Strings match a key exactly, ignoring case
+   * @default DEFAULT_REDACTED_KEYS
+   */
+  keys?: (string | RegExp)[];
+  /**
+   * Patterns replaced wherever they appear inside string values
+   * @default every pattern in REDACTION_PATTERNS
+   */
+  valuePatterns?: RegExp[];
+  /**
+   * @default '[REDACTED]'
+   */
+  replacement?: string;
+}
+
+/**
+ * Returns a redacted copy of a value
+ */
+export type Redactor = <T>(value: T) => T;
+
+/**
+ * Creates a redactor that walks nested objects and arrays, leaving the original untouched
+ * Circular references are replaced with '[Circular]' so the result is always serialisable.
+ * Errors and other class instances come back as plain objects of what they'd serialise to
+ */
+export function createRedactor(config: RedactionConfig = {}): Redactor {
+  const replacement = config.replacement ?? REDACTED;
+  const keyMatchers = (config.keys ?? DEFAULT_REDACTED_KEYS).map((key) =>
+    typeof key === 'string' ? new RegExp(`^${escapeRegExp(key)}$`, 'i') : key
+  );
+  // replace() only swaps every match when the pattern is global
+  const valuePatterns = (config.valuePatterns ?? Object.values(REDACTION_PATTERNS)).map(
+    (pattern) =>
+      pattern.flags.includes('g') ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)
+  );
+
+  const isSensitiveKey = (key: string): boolean =>
+    keyMatchers.some((matcher) => {
+      // Reset in case a global pattern was passed in
+      matcher.lastIndex = 0;
+      return matcher.test(key);
+    });
+
+  const redactString = (value: string): string =>
+    valuePatterns.reduce((result, pattern) => result.replace(pattern, replacement), value);
+
+  const visit = (value: unknown, seen: WeakSet<object>): unknown => {
+    if (typeof value === 'string') {
+      return redactString(value);
+    }
+
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+
+    if (Array.isArray(value)) {
+      seen.add(value);
+      const result = value.map((item) => visit(item, seen));
+      seen.delete(value);
+      return result;
+    }
+
+    // Dates and binary data can't hold secrets under a key, so leave them alone
+    if (value instanceof Date || ArrayBuffer.isView(value)) {
+      return value;
+    }
+
+    seen.add(value);
+
+    // Redact what JSON.stringify would write, e.g. an axios error's config and headers
+    const serialise = (value as { toJSON?: unknown }).toJSON;
+    if (typeof serialise === 'function') {
+      const serialised = visit(serialise.call(value), seen);
+      seen.delete(value);
+      return serialised;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(toFields(value))) {
+      result[key] = isSensitiveKey(key) ? replacement : visit(child, seen);
+    }
+    seen.delete(value);
+
+    return result;
+  };
+
+  return <T>(value: T): T => visit(value, new WeakSet()) as T;
+}
+
+/**
+ * Redacts a value using the given configuration
+ */
+export function redact<T>(value: T, config: RedactionConfig = {}): T {
+  return createRedactor(config)(value);
+}
+
+/**
+ * Gets the fields of an object to redact
+ * Errors keep their name, message, stack and cause, which aren't enumerable
+ */
+function toFields(value: object): Record<string, unknown> {
+  if (value instanceof Error) {
+    return {
+      ...value,
+      name: value.name,
+      message: value.message,
+      stack: value.stack,
+      ...(value.cause !== undefined ? { cause: value.cause } : {}),
+    };
+  }
+
+  return { ...value };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
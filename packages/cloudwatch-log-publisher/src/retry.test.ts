@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { calculateBackoffDelay, isRetryableError, withRetry } from './retry.js';
+
+function awsError(name: string, httpStatusCode?: number): Error {
+  const error = new Error(name) as Error & { $metadata: { httpStatusCode?: number } };
+  error.name = name;
+  error.$metadata = { httpStatusCode };
+  return error;
+}
+
+describe('retry', () => {
+  describe('isRetryableError', () => {
+    it('should retry throttling and service errors', () => {
+      expect(isRetryableError(awsError('ThrottlingException'))).toBe(true);
+      expect(isRetryableError(awsError('ServiceUnavailableException'))).toBe(true);
+      expect(isRetryableError(awsError('SomethingElse', 503))).toBe(true);
+      expect(isRetryableError(awsError('SomethingElse', 429))).toBe(true);
+    });
+
+    it('should retry network errors', () => {
+      const error = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+      expect(isRetryableError(error)).toBe(true);
+    });
+
+    it('should not retry validation or permission errors', () => {
+      expect(isRetryableError(awsError('InvalidParameterException', 400))).toBe(false);
+      expect(isRetryableError(awsError('AccessDeniedException', 403))).toBe(false);
+      expect(isRetryableError(new Error('Plain error'))).toBe(false);
+      expect(isRetryableError(undefined)).toBe(false);
+    });
+  });
+
+  describe('calculateBackoffDelay', () => {
+    it('should double the delay for each attempt up to the maximum', () => {
+      const policy = { baseDelayMs: 100, maxDelayMs: 500, jitter: 'none' as const };
+
+      expect(calculateBackoffDelay(1, policy)).toBe(100);
+      expect(calculateBackoffDelay(2, policy)).toBe(200);
+      expect(calculateBackoffDelay(3, policy)).toBe(400);
+      expect(calculateBackoffDelay(4, policy)).toBe(500);
+    });
+
+    it('should pick a random delay up to the backoff with full jitter', () => {
+      const policy = { baseDelayMs: 100 };
+
+      expect(calculateBackoffDelay(2, policy, () => 0.5)).toBe(100);
+      expect(calculateBackoffDelay(2, policy, () => 0)).toBe(0);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should return the result without retrying on success', async () => {
+      const operation = vi.fn().mockResolvedValue('ok');
+
+      await expect(withRetry(operation)).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry retryable errors until success', async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(awsError('ThrottlingException'))
+        .mockRejectedValueOnce(awsError('ThrottlingException'))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry(operation, { baseDelayMs: 1 })).resolves.toBe('ok');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should throw the last error once attempts run out', async () => {
+      const operation = vi.fn().mockRejectedValue(awsError('ThrottlingException'));
+
+      await expect(withRetry(operation, { maxAttempts: 2, baseDelayMs: 1 })).rejects.toThrow(
+        'ThrottlingException'
+      );
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry errors that are not retryable', async () => {
+      const operation = vi.fn().mockRejectedValue(new Error('Validation failed'));
+
+      await expect(withRetry(operation, { baseDelayMs: 1 })).rejects.toThrow(
+        'Validation failed'
+      );
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use a custom retryable classification', async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Flaky'))
+        .mockResolvedValue('ok');
+
+      await expect(
+        withRetry(operation, { baseDelayMs: 1, isRetryable: () => true })
+      ).resolves.toBe('ok');
+    });
+
+    it('should give up when a retry would pass the deadline', async () => {
+      const operation = vi.fn().mockRejectedValue(awsError('ThrottlingException'));
+
+      await expect(
+        withRetry(operation, {
+          maxAttempts: 10,
+          baseDelayMs: 1000,
+          jitter: 'none',
+          deadlineMs: 500,
+        })
+      ).rejects.toThrow('ThrottlingException');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * How failed AWS calls are retried
+ */
+export interface RetryPolicy {
+  /**
+   * Total attempts including the first
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry, doubled for each retry after that
+   * @default 100
+   */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for a single delay
+   * @default 5000
+   */
+  maxDelayMs?: number;
+  /**
+   * 'full' picks a random delay up to the backoff, spreading retries from concurrent Lambdas
+   * @default 'full'
+   */
+  jitter?: 'full' | 'none';
+  /**
+   * Gives up once another retry would finish after this many milliseconds from the first attempt
+   */
+  deadlineMs?: number;
+  /**
+   * Decides whether an error is worth retrying
+   * @default isRetryableError
+   */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * A single attempt, leaving retries to the AWS SDK's defaults
+ */
+export const NO_RETRY: RetryPolicy = { maxAttempts: 1 };
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 100;
+const DEFAULT_MAX_DELAY_MS = 5000;
+
+const RETRYABLE_ERROR_NAMES = new Set([
+  'ThrottlingException',
+  'Throttling',
+  'TooManyRequestsException',
+  'ServiceUnavailableException',
+  'ServiceUnavailable',
+  'InternalFailure',
+  'InternalServerError',
+  'RequestTimeout',
+  'RequestTimeoutException',
+  'TimeoutError',
+]);
+
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE']);
+
+const RETRYABLE_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
+
+/**
+ * Classifies throttling, server-side and network errors as retryable
+ * Validation and permission errors are not, as retrying them can't succeed
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const candidate = error as {
+    name?: string;
+    code?: string;
+    $retryable?: unknown;
+    $metadata?: { httpStatusCode?: number };
+  };
+
+  if (candidate.$retryable) {
+    return true;
+  }
+
+  if (candidate.name && RETRYABLE_ERROR_NAMES.has(candidate.name)) {
+    return true;
+  }
+
+  if (candidate.code && RETRYABLE_ERROR_CODES.has(candidate.code)) {
+    return true;
+  }
+
+  const statusCode = candidate.$metadata?.httpStatusCode;
+  return statusCode !== undefined && RETRYABLE_STATUS_CODES.has(statusCode);
+}
+
+/**
+ * Calculates the exponential backoff delay before a retry
+ * Attempt is the number of attempts already made, starting at 1
+ */
+export function calculateBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy = {},
+  random: () => number = Math.random
+): number {
+  const baseDelayMs = policy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+
+  return policy.jitter === 'none' ? backoff : Math.floor(random() * backoff);
+}
+
+/**
+ * Resolves after the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs an operation, retrying retryable failures with exponential backoff
+ * The last error is thrown once attempts run out, the deadline would be passed, or an error isn't retryable
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy = {}
+): Promise<T> {
+  const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const isRetryable = policy.isRetryable ?? isRetryableError;
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= maxAttempts || !isRetryable(error)) {
+        throw error;
+      }
+
+      const delayMs = calculateBackoffDelay(attempt, policy);
+
+      if (
+        policy.deadlineMs !== undefined &&
+        Date.now() - startedAt + delayMs >= policy.deadlineMs
+      ) {
+        throw error;
+      }
+
+      await sleep(delayMs);
+    }
+  }
+}
@@ -3,7 +3,15 @@
  * Provides mocks and test helpers for packages that depend on this library
  */
 
-import type { CloudWatchLogPublisherConfig, LogEvent } from './index.js';
+import { CloudWatchLogPublisher } from './publisher.js';
+import { MemoryLogTransport } from './transports.js';
+import type {
+  CloudWatchLogPublisherConfig,
+  LogEvent,
+  LogLevel,
+  LogRecord,
+  LogSink,
+} from './index.js';
 
 /**
  * A captured log event from the mock publisher
@@ -15,87 +23,73 @@ export interface CapturedLogEvent {
 
 /**
  * Mock implementation of CloudWatchLogPublisher for testing
- * Captures all published events without making actual AWS calls
+ * Runs the real publisher against a MemoryLogTransport, so buffering, redaction, size limits and
+ * best-effort handling behave exactly as they do against AWS
  */
-export class MockCloudWatchLogPublisher {
-  private logGroupName: string;
-  private logStreamPrefix: string;
-  private publishedEvents: CapturedLogEvent[] = [];
-  private publishShouldFail: Error | null = null;
-
-  constructor(config: CloudWatchLogPublisherConfig) {
-    this.logGroupName = config.logGroupName;
-    this.logStreamPrefix = config.logStreamPrefix;
-  }
-
-  /**
-   * Mock publish method that captures events instead of sending to AWS
-   */
-  async publish(logEvent: LogEvent): Promise<void> {
-    if (this.publishShouldFail) {
-      throw this.publishShouldFail;
-    }
-
-    this.publishedEvents.push({
-      logEvent,
-      timestamp: Date.now(),
-    });
-  }
+export class MockCloudWatchLogPublisher extends CloudWatchLogPublisher {
+  private memoryTransport: MemoryLogTransport;
 
   /**
-   * Gets the log group name
+   * Any transport in the config is replaced with the in-memory one
    */
-  getLogGroupName(): string {
-    return this.logGroupName;
+  constructor(config: CloudWatchLogPublisherConfig) {
+    const transport = new MemoryLogTransport();
+    super({ ...config, transport });
+    this.memoryTransport = transport;
   }
 
   /**
-   * Gets the log stream prefix
+   * Test helper: Get the transport events are written to
    */
-  getLogStreamPrefix(): string {
-    return this.logStreamPrefix;
+  getTransport(): MemoryLogTransport {
+    return this.memoryTransport;
   }
 
   /**
    * Test helper: Get all published events
    */
   getPublishedEvents(): CapturedLogEvent[] {
-    return [...this.publishedEvents];
+    return this.memoryTransport.getEvents().map((event) => ({
+      logEvent: JSON.parse(event.message) as LogEvent,
+      timestamp: event.timestamp,
+    }));
   }
 
   /**
    * Test helper: Get the most recently published event
    */
   getLastPublishedEvent(): CapturedLogEvent | undefined {
-    return this.publishedEvents[this.publishedEvents.length - 1];
+    const events = this.getPublishedEvents();
+    return events[events.length - 1];
   }
 
   /**
-   * Test helper: Clear all captured events
+   * Test helper: Clear all captured and buffered events
    */
   clearPublishedEvents(): void {
-    this.publishedEvents = [];
+    this.memoryTransport.clear();
+    this.clearBuffer();
   }
 
   /**
-   * Test helper: Make the next publish call fail with the given error
+   * Test helper: Make publish and flush calls fail with the given error until cleared
    */
   setPublishError(error: Error): void {
-    this.publishShouldFail = error;
+    this.memoryTransport.setWriteError(error);
   }
 
   /**
    * Test helper: Clear any configured errors
    */
   clearPublishError(): void {
-    this.publishShouldFail = null;
+    this.memoryTransport.clearWriteError();
   }
 
   /**
    * Test helper: Get count of published events
    */
   getPublishedEventCount(): number {
-    return this.publishedEvents.length;
+    return this.memoryTransport.getEvents().length;
   }
 }
 
@@ -107,3 +101,42 @@ export function createMockPublisher(
 ): MockCloudWatchLogPublisher {
   return new MockCloudWatchLogPublisher(config);
 }
+
+/**
+ * In-memory log sink for asserting on Logger output in tests
+ */
+export class MemoryLogSink implements LogSink {
+  private records: LogRecord[] = [];
+
+  write(record: LogRecord): void {
+    this.records.push(record);
+  }
+
+  /**
+   * Test helper: Get all written records
+   */
+  getRecords(): LogRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * Test helper: Get records written at a specific level
+   */
+  getRecordsByLevel(level: LogLevel): LogRecord[] {
+    return this.records.filter((record) => record.level === level);
+  }
+
+  /**
+   * Test helper: Get the most recently written record
+   */
+  getLastRecord(): LogRecord | undefined {
+    return this.records[this.records.length - 1];
+  }
+
+  /**
+   * Test helper: Clear all written records
+   */
+  clearRecords(): void {
+    this.records = [];
+  }
+}
@@ -0,0 +1,314 @@
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  CloudWatchLogsClient,
+  CreateLogStreamCommand,
+  PutLogEventsCommand,
+  ResourceNotFoundException,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { mockClient } from 'aws-sdk-client-mock';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CloudWatchLogPublisher } from './publisher.js';
+import {
+  CloudWatchLogTransport,
+  FileLogTransport,
+  MemoryLogTransport,
+  StdoutLogTransport,
+  type LogTransportBatch,
+  type TransportedLogEvent,
+} from './transports.js';
+
+const cwLogsMock = mockClient(CloudWatchLogsClient);
+
+function createBatch(overrides: Partial<LogTransportBatch> = {}): LogTransportBatch {
+  return {
+    logGroupName: '/test/logs',
+    logStreamName: 'test-stream',
+    events: [
+      { message: JSON.stringify({ message: 'first' }), timestamp: 1000 },
+      { message: JSON.stringify({ message: 'second' }), timestamp: 2000 },
+    ],
+    ...overrides,
+  };
+}
+
+describe('CloudWatchLogTransport', () => {
+  beforeEach(() => {
+    cwLogsMock.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should create the log stream once and send each batch with PutLogEvents', async () => {
+    cwLogsMock.on(CreateLogStreamCommand).resolves({});
+    cwLogsMock.on(PutLogEventsCommand).resolves({});
+
+    const transport = new CloudWatchLogTransport({ client: new CloudWatchLogsClient({}) });
+    await transport.write(createBatch());
+    await transport.write(createBatch());
+
+    expect(cwLogsMock.commandCalls(CreateLogStreamCommand)).toHaveLength(1);
+    const calls = cwLogsMock.commandCalls(PutLogEventsCommand);
+    expect(calls).toHaveLength(2);
+    expect(calls[0].args[0].input).toEqual({
+      logGroupName: '/test/logs',
+      logStreamName: 'test-stream',
+      logEvents: createBatch().events,
+    });
+  });
+
+  it('should create a new stream when the stream name changes', async () => {
+    cwLogsMock.on(CreateLogStreamCommand).resolves({});
+    cwLogsMock.on(PutLogEventsCommand).resolves({});
+
+    const transport = new CloudWatchLogTransport();
+    await transport.write(createBatch({ logStreamName: 'stream-a' }));
+    await transport.write(createBatch({ logStreamName: 'stream-b' }));
+
+    const created = cwLogsMock
+      .commandCalls(CreateLogStreamCommand)
+      .map((call) => call.args[0].input.logStreamName);
+    expect(created).toEqual(['stream-a', 'stream-b']);
+  });
+
+  it('should recreate a deleted stream and retry the write once', async () => {
+    cwLogsMock.on(CreateLogStreamCommand).resolves({});
+    cwLogsMock
+      .on(PutLogEventsCommand)
+      .rejectsOnce(
+        new ResourceNotFoundException({ message: 'Stream not found', $metadata: {} })
+      )
+      .resolves({});
+
+    const transport = new CloudWatchLogTransport();
+    await transport.write(createBatch());
+
+    expect(cwLogsMock.commandCalls(CreateLogStreamCommand)).toHaveLength(2);
+    expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(2);
+  });
+
+  it('should retry throttled writes with the configured policy', async () => {
+    cwLogsMock.on(CreateLogStreamCommand).resolves({});
+    cwLogsMock
+      .on(PutLogEventsCommand)
+      .rejectsOnce(Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' }))
+      .resolves({});
+
+    const transport = new CloudWatchLogTransport({
+      retry: { maxAttempts: 2, baseDelayMs: 0, jitter: 'none' },
+    });
+    await transport.write(createBatch());
+
+    expect(cwLogsMock.commandCalls(PutLogEventsCommand)).toHaveLength(2);
+  });
+});
+
+describe('StdoutLogTransport', () => {
+  it('should write each message as its own line in a single write', async () => {
+    const output = { write: vi.fn() };
+    const transport = new StdoutLogTransport({ output });
+
+    await transport.write(createBatch());
+
+    expect(output.write).toHaveBeenCalledTimes(1);
+    expect(output.write).toHaveBeenCalledWith(
+      '{"message":"first"}\n{"message":"second"}\n'
+    );
+  });
+
+  it('should not write anything for an empty batch', async () => {
+    const output = { write: vi.fn() };
+    const transport = new StdoutLogTransport({ output });
+
+    await transport.write(createBatch({ events: [] }));
+
+    expect(output.write).not.toHaveBeenCalled();
+  });
+});
+
+describe('FileLogTransport', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'file-log-transport-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  async function readLines(filePath: string): Promise<TransportedLogEvent[]> {
+    const contents = await readFile(filePath, 'utf-8');
+    return contents
+      .split('\n')
+      .filter((line) => line.length > 0)
+      .map((line) => JSON.parse(line) as TransportedLogEvent);
+  }
+
+  it('should append events as NDJSON, creating missing directories', async () => {
+    const filePath = join(directory, 'nested', 'logs.ndjson');
+    const transport = new FileLogTransport({ filePath });
+
+    await transport.write(createBatch());
+    await transport.write(createBatch({ logStreamName: 'other-stream' }));
+
+    const lines = await readLines(filePath);
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toEqual({
+      logGroupName: '/test/logs',
+      logStreamName: 'test-stream',
+      timestamp: 1000,
+      message: '{"message":"first"}',
+    });
+    expect(lines[3].logStreamName).toBe('other-stream');
+  });
+
+  it('should rotate the file once it would exceed the size limit', async () => {
+    const filePath = join(directory, 'logs.ndjson');
+    const batchBytes = Buffer.byteLength(
+      createBatch()
+        .events.map(
+          (event) =>
+            `${JSON.stringify({ logGroupName: '/test/logs', logStreamName: 'test-stream', ...event })}\n`
+        )
+        .join('')
+    );
+    const transport = new FileLogTransport({ filePath, maxFileBytes: batchBytes * 2 });
+
+    await transport.write(createBatch());
+    await transport.write(createBatch());
+    await transport.write(createBatch());
+
+    expect(await readLines(filePath)).toHaveLength(2);
+    expect(await readLines(`${filePath}.1`)).toHaveLength(4);
+  });
+
+  it('should keep only the configured number of rotated files', async () => {
+    const filePath = join(directory, 'logs.ndjson');
+    const transport = new FileLogTransport({ filePath, maxFileBytes: 1, maxFiles: 2 });
+
+    for (let index = 0; index < 4; index++) {
+      await transport.write(
+        createBatch({ events: [{ message: `batch ${index}`, timestamp: index }] })
+      );
+    }
+
+    const messages = await Promise.all(
+      [filePath, `${filePath}.1`, `${filePath}.2`].map(async (path) =>
+        (await readLines(path)).map((line) => line.message)
+      )
+    );
+    expect(messages).toEqual([['batch 3'], ['batch 2'], ['batch 1']]);
+    await expect(readFile(`${filePath}.3`, 'utf-8')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should count an existing file towards the size limit', async () => {
+    const filePath = join(directory, 'logs.ndjson');
+    await writeFile(filePath, `${JSON.stringify({ message: 'existing' })}\n`);
+    const transport = new FileLogTransport({ filePath, maxFileBytes: 30 });
+
+    await transport.write(createBatch());
+
+    expect(await readLines(`${filePath}.1`)).toEqual([{ message: 'existing' }]);
+    expect(await readLines(filePath)).toHaveLength(2);
+  });
+
+  it('should serialise concurrent writes', async () => {
+    const filePath = join(directory, 'logs.ndjson');
+    const transport = new FileLogTransport({ filePath });
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        transport.write(createBatch({ events: [{ message: `event ${index}`, timestamp: index }] }))
+      )
+    );
+
+    const lines = await readLines(filePath);
+    expect(lines.map((line) => line.message)).toEqual(
+      Array.from({ length: 10 }, (_, index) => `event ${index}`)
+    );
+  });
+});
+
+describe('MemoryLogTransport', () => {
+  it('should record events with their log group and stream', async () => {
+    const transport = new MemoryLogTransport();
+
+    await transport.write(createBatch());
+    await transport.write(createBatch({ logStreamName: 'other-stream' }));
+
+    expect(transport.getEvents()).toHaveLength(4);
+    expect(transport.getEventsByLogStream('other-stream')).toHaveLength(2);
+
+    transport.clear();
+    expect(transport.getEvents()).toEqual([]);
+  });
+
+  it('should fail writes until the error is cleared', async () => {
+    const transport = new MemoryLogTransport();
+    transport.setWriteError(new Error('Write failed'));
+
+    await expect(transport.write(createBatch())).rejects.toThrow('Write failed');
+    expect(transport.getEvents()).toEqual([]);
+
+    transport.clearWriteError();
+    await transport.write(createBatch());
+    expect(transport.getEvents()).toHaveLength(2);
+  });
+});
+
+describe('CloudWatchLogPublisher with a transport', () => {
+  beforeEach(() => {
+    cwLogsMock.reset();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should write through the configured transport without calling AWS', async () => {
+    const transport = new MemoryLogTransport();
+    const publisher = new CloudWatchLogPublisher({
+      logGroupName: '/test/logs',
+      logStreamPrefix: 'test-prefix',
+      logStreamStrategy: 'daily',
+      transport,
+    });
+
+    await publisher.publish({ message: 'published' });
+    await publisher.enqueue({ message: 'buffered' });
+    await publisher.flush();
+
+    const events = transport.getEvents();
+    expect(events.map((event) => JSON.parse(event.message).message)).toEqual([
+      'published',
+      'buffered',
+    ]);
+    expect(events[0].logGroupName).toBe('/test/logs');
+    expect(events[0].logStreamName).toMatch(/^test-prefix-\d{4}-\d{2}-\d{2}$/);
+    expect(cwLogsMock.calls()).toHaveLength(0);
+  });
+
+  it('should requeue buffered events when the transport fails with a retryable error', async () => {
+    const transport = new MemoryLogTransport();
+    const publisher = new CloudWatchLogPublisher({
+      logGroupName: '/test/logs',
+      logStreamPrefix: 'test-prefix',
+      transport,
+    });
+    transport.setWriteError(Object.assign(new Error('Write failed'), { code: 'ECONNRESET' }));
+
+    await publisher.enqueue({ message: 'buffered' });
+    await expect(publisher.flush()).rejects.toThrow('Write failed');
+    expect(publisher.getBufferedEventCount()).toBe(1);
+
+    transport.clearWriteError();
+    await publisher.flush();
+    expect(transport.getEvents()).toHaveLength(1);
+  });
+});
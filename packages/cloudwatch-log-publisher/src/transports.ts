@@ -0,0 +1,425 @@
+import { appendFile, mkdir, rename, stat, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import {
+  CloudWatchLogsClient,
+  CreateLogStreamCommand,
+  PutLogEventsCommand,
+  ResourceAlreadyExistsException,
+  ResourceNotFoundException,
+} from '@aws-sdk/client-cloudwatch-logs';
+import { HttpRequest } from '@smithy/protocol-http';
+import { type TimestampedLogEvent } from './batch.js';
+import { ensureLogGroup, forgetLogGroup, type LogGroupOptions } from './log-group.js';
+import { NO_RETRY, withRetry, type RetryPolicy } from './retry.js';
+
+/**
+ * A batch of encoded events for a single log stream
+ * Batches passed in by the publisher already fit the PutLogEvents limits
+ */
+export interface LogTransportBatch {
+  logGroupName: string;
+  logStreamName: string;
+  events: TimestampedLogEvent[];
+  /**
+   * Marks the events as Embedded Metric Format
+   */
+  emf?: boolean;
+}
+
+/**
+ * Destination the publisher writes batches of encoded events to
+ * Swap transports to run the same publisher against CloudWatch, stdout, a local file or memory
+ */
+export interface LogTransport {
+  write(batch: LogTransportBatch): Promise<void>;
+}
+
+/**
+ * A single event as recorded by the file and in-memory transports
+ */
+export interface TransportedLogEvent {
+  logGroupName: string;
+  logStreamName: string;
+  timestamp: number;
+  message: string;
+}
+
+function toTransportedLogEvents(batch: LogTransportBatch): TransportedLogEvent[] {
+  return batch.events.map((event) => ({
+    logGroupName: batch.logGroupName,
+    logStreamName: batch.logStreamName,
+    timestamp: event.timestamp,
+    message: event.message,
+  }));
+}
+
+/**
+ * Creates a CloudWatch log stream if it doesn't already exist
+ * Idempotent - ignores ResourceAlreadyExistsException
+ */
+export async function createLogStream(
+  client: CloudWatchLogsClient,
+  logGroupName: string,
+  logStreamName: string,
+  retryPolicy: RetryPolicy = NO_RETRY
+): Promise<void> {
+  try {
+    await withRetry(
+      () =>
+        client.send(
+          new CreateLogStreamCommand({
+            logGroupName,
+            logStreamName,
+          })
+        ),
+      retryPolicy
+    );
+    console.log(`Created log stream: ${logStreamName}`);
+  } catch (error) {
+    // If the stream already exists, that's fine - this function is idempotent
+    if (error instanceof ResourceAlreadyExistsException) {
+      console.log(`Log stream already exists: ${logStreamName}`);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Options for a PutLogEvents call
+ */
+export interface PutLogEventsOptions {
+  /**
+   * Marks the events as Embedded Metric Format so CloudWatch extracts metrics from them
+   */
+  emf?: boolean;
+  retry?: RetryPolicy;
+}
+
+/**
+ * Sends a batch of log events to CloudWatch Logs in a single PutLogEvents call
+ * The caller is responsible for keeping the batch within the PutLogEvents limits
+ */
+export async function putLogEvents(
+  client: CloudWatchLogsClient,
+  logGroupName: string,
+  logStreamName: string,
+  logEvents: TimestampedLogEvent[],
+  options: PutLogEventsOptions = {}
+): Promise<void> {
+  const command = new PutLogEventsCommand({
+    logGroupName,
+    logStreamName,
+    logEvents,
+  });
+
+  if (options.emf) {
+    // CloudWatch only extracts metrics from PutLogEvents requests that carry this header
+    command.middlewareStack.add(
+      (next) => async (args) => {
+        if (HttpRequest.isInstance(args.request)) {
+          args.request.headers['x-amzn-logs-format'] = 'json/emf';
+        }
+        return next(args);
+      },
+      { step: 'build', name: 'emfLogFormatHeader' }
+    );
+  }
+
+  await withRetry(() => client.send(command), options.retry ?? NO_RETRY);
+}
+
+/**
+ * Configuration options for the CloudWatch transport
+ */
+export interface CloudWatchLogTransportConfig {
+  client?: CloudWatchLogsClient;
+  /**
+   * Retries failed CreateLogStream and PutLogEvents calls
+   * Only the AWS SDK's built-in retries apply when not set
+   */
+  retry?: RetryPolicy;
+  /**
+   * Creates the log group before its first stream, once per client per container
+   * Pass options to set retention, a KMS key and tags. Disabled when not set
+   * Needs logs:CreateLogGroup, plus logs:DescribeLogGroups and logs:PutRetentionPolicy for retention
+   */
+  ensureLogGroup?: boolean | LogGroupOptions;
+}
+
+// Module scope survives across invocations in a warm Lambda container, so publishers built in
+// the handler share one client and the ensured log group cache keyed by it
+let defaultClient: CloudWatchLogsClient | undefined;
+
+/**
+ * Writes batches to CloudWatch Logs with PutLogEvents
+ * Log streams are created the first time they are written to, and recreated if deleted
+ * Transports created without a client share a single default client
+ */
+export class CloudWatchLogTransport implements LogTransport {
+  private client: CloudWatchLogsClient;
+  private retryPolicy: RetryPolicy;
+  private logGroupOptions: LogGroupOptions | undefined;
+  // The last stream created in each log group, so rotating strategies create each stream once
+  private createdLogStreams = new Map<string, string>();
+
+  constructor(config: CloudWatchLogTransportConfig = {}) {
+    this.client = config.client ?? (defaultClient ??= new CloudWatchLogsClient({}));
+    this.retryPolicy = config.retry ?? NO_RETRY;
+    this.logGroupOptions =
+      config.ensureLogGroup === true ? {} : config.ensureLogGroup || undefined;
+  }
+
+  /**
+   * Sends a batch in a single PutLogEvents call, creating the log stream if needed
+   * If the stream has been deleted since it was created, it is recreated and the write retried once
+   */
+  async write(batch: LogTransportBatch): Promise<void> {
+    await this.ensureLogStream(batch.logGroupName, batch.logStreamName);
+
+    try {
+      await this.putBatch(batch);
+    } catch (error) {
+      if (!(error instanceof ResourceNotFoundException)) {
+        throw error;
+      }
+
+      console.log(`Log stream not found, recreating: ${batch.logStreamName}`);
+      this.createdLogStreams.delete(batch.logGroupName);
+      // The whole group may have been deleted, not just the stream
+      forgetLogGroup(this.client, batch.logGroupName);
+      await this.ensureLogStream(batch.logGroupName, batch.logStreamName);
+      await this.putBatch(batch);
+    }
+  }
+
+  private async ensureLogStream(logGroupName: string, logStreamName: string): Promise<void> {
+    if (this.createdLogStreams.get(logGroupName) === logStreamName) {
+      return;
+    }
+
+    if (this.logGroupOptions) {
+      await ensureLogGroup(this.client, logGroupName, this.logGroupOptions, this.retryPolicy);
+    }
+
+    await createLogStream(this.client, logGroupName, logStreamName, this.retryPolicy);
+    this.createdLogStreams.set(logGroupName, logStreamName);
+  }
+
+  private async putBatch(batch: LogTransportBatch): Promise<void> {
+    await putLogEvents(this.client, batch.logGroupName, batch.logStreamName, batch.events, {
+      emf: batch.emf,
+      retry: this.retryPolicy,
+    });
+  }
+}
+
+/**
+ * Anything the stdout transport can write lines to
+ */
+export interface LineWriter {
+  write(chunk: string): unknown;
+}
+
+/**
+ * Configuration options for the stdout transport
+ */
+export interface StdoutLogTransportConfig {
+  /**
+   * @default process.stdout
+   */
+  output?: LineWriter;
+}
+
+/**
+ * Writes each event's message as a JSON line on stdout
+ * In Lambda, stdout goes to the function's own log group, and EMF lines are picked up without
+ * the PutLogEvents header, so this avoids CloudWatch API calls entirely
+ * The configured log group and stream names are not part of the output
+ */
+export class StdoutLogTransport implements LogTransport {
+  private output: LineWriter;
+
+  constructor(config: StdoutLogTransportConfig = {}) {
+    this.output = config.output ?? process.stdout;
+  }
+
+  async write(batch: LogTransportBatch): Promise<void> {
+    if (batch.events.length === 0) {
+      return;
+    }
+
+    this.output.write(batch.events.map((event) => `${event.message}\n`).join(''));
+  }
+}
+
+/**
+ * Configuration options for the file transport
+ */
+export interface FileLogTransportConfig {
+  filePath: string;
+  /**
+   * Size the active file may grow to before it is rotated
+   * @default 10485760
+   */
+  maxFileBytes?: number;
+  /**
+   * Rotated files kept alongside the active file, named <filePath>.1 (newest) to <filePath>.<maxFiles>
+   * @default 5
+   */
+  maxFiles?: number;
+}
+
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+function isMissingFileError(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === 'ENOENT';
+}
+
+/**
+ * Appends events to a local file as NDJSON, one TransportedLogEvent per line
+ * The file is rotated by size, so long local runs don't fill the disk
+ */
+export class FileLogTransport implements LogTransport {
+  private filePath: string;
+  private maxFileBytes: number;
+  private maxFiles: number;
+  private fileBytes: number | undefined;
+  // Writes run one at a time so appends and rotations never interleave
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(config: FileLogTransportConfig) {
+    this.filePath = config.filePath;
+    this.maxFileBytes = config.maxFileBytes ?? DEFAULT_MAX_FILE_BYTES;
+    this.maxFiles = config.maxFiles ?? DEFAULT_MAX_FILES;
+  }
+
+  async write(batch: LogTransportBatch): Promise<void> {
+    const write = this.pendingWrite.then(() => this.append(batch));
+    // A failed write shouldn't block the ones queued after it
+    this.pendingWrite = write.catch(() => undefined);
+    await write;
+  }
+
+  /**
+   * Gets the path of the active log file
+   */
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  private async append(batch: LogTransportBatch): Promise<void> {
+    if (batch.events.length === 0) {
+      return;
+    }
+
+    const data = toTransportedLogEvents(batch)
+      .map((event) => `${JSON.stringify(event)}\n`)
+      .join('');
+    const dataBytes = Buffer.byteLength(data, 'utf-8');
+
+    if (this.fileBytes === undefined) {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      this.fileBytes = await this.getFileSize(this.filePath);
+    }
+
+    // An empty file is never rotated, so a single oversized batch still gets written
+    if (this.fileBytes > 0 && this.fileBytes + dataBytes > this.maxFileBytes) {
+      await this.rotate();
+    }
+
+    await appendFile(this.filePath, data, 'utf-8');
+    this.fileBytes += dataBytes;
+  }
+
+  /**
+   * Shifts each rotated file up by one, dropping the oldest, and starts a new active file
+   */
+  private async rotate(): Promise<void> {
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      await this.renameIfExists(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`);
+    }
+
+    if (this.maxFiles > 0) {
+      await this.renameIfExists(this.filePath, `${this.filePath}.1`);
+    } else {
+      await writeFile(this.filePath, '', 'utf-8');
+    }
+
+    this.fileBytes = 0;
+  }
+
+  private async renameIfExists(from: string, to: string): Promise<void> {
+    try {
+      await rename(from, to);
+    } catch (error) {
+      if (!isMissingFileError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  private async getFileSize(filePath: string): Promise<number> {
+    try {
+      return (await stat(filePath)).size;
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return 0;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Keeps events in memory
+ * Useful in tests, and for inspecting what would have been sent when running locally
+ */
+export class MemoryLogTransport implements LogTransport {
+  private events: TransportedLogEvent[] = [];
+  private writeError: Error | null = null;
+
+  async write(batch: LogTransportBatch): Promise<void> {
+    if (this.writeError) {
+      throw this.writeError;
+    }
+
+    this.events.push(...toTransportedLogEvents(batch));
+  }
+
+  /**
+   * Gets all written events, oldest first
+   */
+  getEvents(): TransportedLogEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Gets the events written to a single log stream
+   */
+  getEventsByLogStream(logStreamName: string): TransportedLogEvent[] {
+    return this.events.filter((event) => event.logStreamName === logStreamName);
+  }
+
+  /**
+   * Removes all written events
+   */
+  clear(): void {
+    this.events = [];
+  }
+
+  /**
+   * Makes every write fail with the given error until cleared
+   */
+  setWriteError(error: Error): void {
+    this.writeError = error;
+  }
+
+  /**
+   * Lets writes succeed again
+   */
+  clearWriteError(): void {
+    this.writeError = null;
+  }
+}
@@ -0,0 +1,202 @@
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  DynamoDBDocumentClient,
+} from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { chunk } from './batch.js';
+import { DynamoDBClientWrapper } from './index.js';
+
+const NO_DELAY = { baseDelayMs: 0 };
+
+describe('batch operations', () => {
+  const ddbMock = mockClient(DynamoDBDocumentClient);
+
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  function createClient(): DynamoDBClientWrapper {
+    return new DynamoDBClientWrapper({
+      tableName: 'test-table',
+      batchRetry: NO_DELAY,
+    });
+  }
+
+  describe('chunk', () => {
+    it('should split items into chunks of the given size', () => {
+      expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+      expect(chunk([], 2)).toEqual([]);
+    });
+  });
+
+  describe('batchPutItems', () => {
+    it('should resubmit unprocessed items until they are written', async () => {
+      ddbMock
+        .on(BatchWriteCommand)
+        .resolvesOnce({
+          UnprocessedItems: {
+            'test-table': [{ PutRequest: { Item: { id: '2' } } }],
+          },
+        })
+        .resolves({});
+
+      const result = await createClient().batchPutItems([{ id: '1' }, { id: '2' }]);
+
+      expect(result).toEqual({ written: 2, failed: 0, unprocessed: [] });
+      expect(ddbMock.calls()).toHaveLength(2);
+      expect(ddbMock.call(1).args[0].input).toEqual({
+        RequestItems: { 'test-table': [{ PutRequest: { Item: { id: '2' } } }] },
+      });
+    });
+
+    it('should return items still unprocessed after the last attempt', async () => {
+      ddbMock.on(BatchWriteCommand).resolves({
+        UnprocessedItems: {
+          'test-table': [{ PutRequest: { Item: { id: '2' } } }],
+        },
+      });
+
+      const result = await createClient().batchPutItems([{ id: '1' }, { id: '2' }], {
+        ...NO_DELAY,
+        maxAttempts: 3,
+      });
+
+      expect(result).toEqual({ written: 1, failed: 1, unprocessed: [{ id: '2' }] });
+      expect(ddbMock.calls()).toHaveLength(3);
+    });
+
+    it('should retry each chunk of 25 independently', async () => {
+      ddbMock
+        .on(BatchWriteCommand)
+        .resolvesOnce({})
+        .resolvesOnce({
+          UnprocessedItems: {
+            'test-table': [{ PutRequest: { Item: { id: '29' } } }],
+          },
+        })
+        .resolves({});
+
+      const items = Array.from({ length: 30 }, (_, i) => ({ id: `${i}` }));
+      const result = await createClient().batchPutItems(items);
+
+      expect(result.written).toBe(30);
+      expect(ddbMock.calls()).toHaveLength(3);
+    });
+  });
+
+  describe('batchDeleteItems', () => {
+    it('should delete keys in chunks, resubmitting unprocessed deletes', async () => {
+      ddbMock
+        .on(BatchWriteCommand)
+        .resolvesOnce({
+          UnprocessedItems: {
+            'test-table': [{ DeleteRequest: { Key: { id: '0' } } }],
+          },
+        })
+        .resolves({});
+
+      const keys = Array.from({ length: 26 }, (_, i) => ({ id: `${i}` }));
+      const result = await createClient().batchDeleteItems(keys);
+
+      expect(result).toEqual({ written: 26, failed: 0, unprocessed: [] });
+      expect(ddbMock.calls()).toHaveLength(3);
+      expect(ddbMock.call(0).args[0].input.RequestItems?.['test-table']?.[0]).toEqual({
+        DeleteRequest: { Key: { id: '0' } },
+      });
+    });
+
+    it('should treat keys with their attributes in another order as duplicates', async () => {
+      ddbMock.on(BatchGetCommand).resolves({ Responses: { 'test-table': [] } });
+
+      await createClient().batchGetItems([
+        { pk: 'SET#tla', sk: 'CARD#001' },
+        { sk: 'CARD#001', pk: 'SET#tla' },
+        { pk: 'SET#tla', sk: 'CARD#002' },
+      ]);
+
+      expect(ddbMock.call(0).args[0].input.RequestItems?.['test-table']?.Keys).toEqual([
+        { pk: 'SET#tla', sk: 'CARD#001' },
+        { pk: 'SET#tla', sk: 'CARD#002' },
+      ]);
+    });
+
+    it('should return keys still unprocessed after the last attempt', async () => {
+      ddbMock.on(BatchWriteCommand).resolves({
+        UnprocessedItems: {
+          'test-table': [{ DeleteRequest: { Key: { id: '1' } } }],
+        },
+      });
+
+      const result = await createClient().batchDeleteItems([{ id: '1' }], {
+        ...NO_DELAY,
+        maxAttempts: 2,
+      });
+
+      expect(result).toEqual({ written: 0, failed: 1, unprocessed: [{ id: '1' }] });
+    });
+  });
+
+  describe('batchGetItems', () => {
+    it('should get keys in chunks of 100, resubmitting unprocessed keys', async () => {
+      ddbMock
+        .on(BatchGetCommand)
+        .resolvesOnce({
+          Responses: { 'test-table': [{ id: '0', name: 'Card 0' }] },
+          UnprocessedKeys: { 'test-table': { Keys: [{ id: '1' }] } },
+        })
+        .resolvesOnce({ Responses: { 'test-table': [{ id: '1', name: 'Card 1' }] } })
+        .resolves({ Responses: { 'test-table': [] } });
+
+      const keys = Array.from({ length: 150 }, (_, i) => ({ id: `${i}` }));
+      const result = await createClient().batchGetItems(keys);
+
+      expect(result.items).toEqual([
+        { id: '0', name: 'Card 0' },
+        { id: '1', name: 'Card 1' },
+      ]);
+      expect(result.unprocessedKeys).toEqual([]);
+      expect(ddbMock.calls()).toHaveLength(3);
+      expect(ddbMock.call(0).args[0].input.RequestItems?.['test-table']?.Keys).toHaveLength(
+        100
+      );
+      expect(ddbMock.call(1).args[0].input.RequestItems?.['test-table']?.Keys).toEqual([
+        { id: '1' },
+      ]);
+      expect(ddbMock.call(2).args[0].input.RequestItems?.['test-table']?.Keys).toHaveLength(
+        50
+      );
+    });
+
+    it('should request duplicate keys once and pass read options', async () => {
+      ddbMock.on(BatchGetCommand).resolves({ Responses: { 'test-table': [] } });
+
+      await createClient().batchGetItems([{ id: '1' }, { id: '1' }], {
+        consistentRead: true,
+        projection: ['id', 'name'],
+      });
+
+      expect(ddbMock.call(0).args[0].input.RequestItems?.['test-table']).toEqual({
+        Keys: [{ id: '1' }],
+        ConsistentRead: true,
+        ProjectionExpression: '#n0, #n1',
+        ExpressionAttributeNames: { '#n0': 'id', '#n1': 'name' },
+      });
+    });
+
+    it('should return keys still unprocessed after the last attempt', async () => {
+      ddbMock.on(BatchGetCommand).resolves({
+        Responses: { 'test-table': [] },
+        UnprocessedKeys: { 'test-table': { Keys: [{ id: '1' }] } },
+      });
+
+      const result = await createClient().batchGetItems([{ id: '1' }], {
+        retry: { ...NO_DELAY, maxAttempts: 2 },
+      });
+
+      expect(result).toEqual({ items: [], unprocessedKeys: [{ id: '1' }] });
+      expect(ddbMock.calls()).toHaveLength(2);
+    });
+  });
+});
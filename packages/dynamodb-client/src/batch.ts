@@ -0,0 +1,259 @@
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  type DynamoDBDocumentClient,
+} from '@aws-sdk/lib-dynamodb';
+import { buildProjection, ExpressionAttributes } from './expressions.js';
+import type { DynamoDBKey } from './query.js';
+
+/**
+ * Maximum number of put or delete requests in a single BatchWriteItem call
+ */
+export const MAX_BATCH_WRITE_ITEMS = 25;
+
+/**
+ * Maximum number of keys in a single BatchGetItem call
+ */
+export const MAX_BATCH_GET_KEYS = 100;
+
+/**
+ * How unprocessed items and keys are resubmitted
+ */
+export interface BatchRetryOptions {
+  /**
+   * Total attempts for each chunk, including the first
+   * @default 8
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first resubmission, doubled for each one after that
+   * @default 50
+   */
+  baseDelayMs?: number;
+  /**
+   * Upper bound for a single delay
+   * @default 5000
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * Outcome of a batch put or delete
+ * unprocessed holds the items or keys DynamoDB still hadn't accepted after the last attempt
+ */
+export interface BatchWriteResult<T> {
+  written: number;
+  failed: number;
+  unprocessed: T[];
+}
+
+/**
+ * Outcome of a batch get
+ * Items come back in no particular order, and keys that don't exist are simply missing
+ */
+export interface BatchGetResult<T> {
+  items: T[];
+  unprocessedKeys: DynamoDBKey[];
+}
+
+/**
+ * Options for batchGetItems()
+ */
+export interface BatchGetOptions {
+  consistentRead?: boolean;
+  /**
+   * Attribute names or nested paths to return instead of whole items
+   */
+  projection?: string[];
+  retry?: BatchRetryOptions;
+}
+
+type WriteRequest =
+  | { PutRequest: { Item: Record<string, unknown> }; DeleteRequest?: never }
+  | { DeleteRequest: { Key: DynamoDBKey }; PutRequest?: never };
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_BASE_DELAY_MS = 50;
+const DEFAULT_MAX_DELAY_MS = 5000;
+
+/**
+ * Splits an array into chunks of at most size elements
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+
+  return chunks;
+}
+
+/**
+ * Serialises a key with its attributes sorted, so keys written in any order compare equal
+ */
+function keyIdentity(key: DynamoDBKey): string {
+  return JSON.stringify(
+    Object.keys(key)
+      .sort()
+      .map((name) => [name, key[name]])
+  );
+}
+
+/**
+ * Waits before resubmitting unprocessed work, using exponential backoff with full jitter
+ * Attempt is the number of attempts already made, starting at 1
+ */
+function backoff(attempt: number, options: BatchRetryOptions): Promise<void> {
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const delayMs = Math.floor(
+    Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+  );
+
+  return new Promise((resolve) => setTimeout(resolve, delayMs));
+}
+
+/**
+ * Sends a chunk of write requests, resubmitting UnprocessedItems until they are all
+ * accepted or attempts run out
+ * Returns the requests that were never processed
+ */
+async function writeChunk(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  requests: WriteRequest[],
+  options: BatchRetryOptions
+): Promise<WriteRequest[]> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  let pending = requests;
+
+  for (let attempt = 1; ; attempt++) {
+    const result = await docClient.send(
+      new BatchWriteCommand({ RequestItems: { [tableName]: pending } })
+    );
+    pending = (result.UnprocessedItems?.[tableName] ?? []) as WriteRequest[];
+
+    if (pending.length === 0 || attempt >= maxAttempts) {
+      return pending;
+    }
+
+    await backoff(attempt, options);
+  }
+}
+
+/**
+ * Writes put or delete requests in chunks of 25, retrying unprocessed requests
+ */
+async function batchWrite<T>(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  requests: WriteRequest[],
+  options: BatchRetryOptions,
+  unwrap: (request: WriteRequest) => T
+): Promise<BatchWriteResult<T>> {
+  const unprocessed: T[] = [];
+
+  for (const requestChunk of chunk(requests, MAX_BATCH_WRITE_ITEMS)) {
+    const failed = await writeChunk(docClient, tableName, requestChunk, options);
+    unprocessed.push(...failed.map(unwrap));
+  }
+
+  return {
+    written: requests.length - unprocessed.length,
+    failed: unprocessed.length,
+    unprocessed,
+  };
+}
+
+/**
+ * Puts items in chunks of 25, resubmitting UnprocessedItems with exponential backoff
+ */
+export async function batchPutItems<T extends Record<string, unknown>>(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  items: T[],
+  options: BatchRetryOptions = {}
+): Promise<BatchWriteResult<T>> {
+  return batchWrite(
+    docClient,
+    tableName,
+    items.map((item) => ({ PutRequest: { Item: item } })),
+    options,
+    (request) => request.PutRequest?.Item as T
+  );
+}
+
+/**
+ * Deletes items by key in chunks of 25, resubmitting UnprocessedItems with exponential backoff
+ */
+export async function batchDeleteItems(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  keys: DynamoDBKey[],
+  options: BatchRetryOptions = {}
+): Promise<BatchWriteResult<DynamoDBKey>> {
+  return batchWrite(
+    docClient,
+    tableName,
+    keys.map((key) => ({ DeleteRequest: { Key: key } })),
+    options,
+    (request) => request.DeleteRequest?.Key as DynamoDBKey
+  );
+}
+
+/**
+ * Gets items by key in chunks of 100, resubmitting UnprocessedKeys with exponential backoff
+ * Duplicate keys are only requested once, as DynamoDB rejects batches containing them
+ */
+export async function batchGetItems<T extends Record<string, unknown>>(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  keys: DynamoDBKey[],
+  options: BatchGetOptions = {}
+): Promise<BatchGetResult<T>> {
+  const retry = options.retry ?? {};
+  const maxAttempts = retry.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const uniqueKeys = [
+    ...new Map(keys.map((key) => [keyIdentity(key), key])).values(),
+  ];
+  const attributes = new ExpressionAttributes();
+  const projection = options.projection && buildProjection(options.projection, attributes);
+  const items: T[] = [];
+  const unprocessedKeys: DynamoDBKey[] = [];
+
+  for (const keyChunk of chunk(uniqueKeys, MAX_BATCH_GET_KEYS)) {
+    let pending = keyChunk;
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await docClient.send(
+        new BatchGetCommand({
+          RequestItems: {
+            [tableName]: {
+              Keys: pending,
+              ConsistentRead: options.consistentRead,
+              ProjectionExpression: projection,
+              ExpressionAttributeNames: attributes.getNames(),
+            },
+          },
+        })
+      );
+
+      items.push(...((result.Responses?.[tableName] ?? []) as T[]));
+      pending = result.UnprocessedKeys?.[tableName]?.Keys ?? [];
+
+      if (pending.length === 0) {
+        break;
+      }
+
+      if (attempt >= maxAttempts) {
+        unprocessedKeys.push(...pending);
+        break;
+      }
+
+      await backoff(attempt, retry);
+    }
+  }
+
+  return { items, unprocessedKeys };
+}
@@ -0,0 +1,195 @@
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { defineEntity, EntityValidationError, fillKeyTemplate } from './entity.js';
+import { DynamoDBClientWrapper } from './index.js';
+
+const CardSchema = z.object({
+  set_code: z.string().min(3),
+  collector_number: z.string(),
+  name: z.string(),
+  usd: z.number().optional(),
+});
+
+const NOW = '2026-01-02T03:04:05.000Z';
+
+const storedCard = {
+  pk: 'SET#tla',
+  sk: 'CARD#001',
+  entity: 'card',
+  set_code: 'tla',
+  collector_number: '001',
+  name: 'Aang',
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+describe('fillKeyTemplate', () => {
+  it('should fill every placeholder', () => {
+    expect(fillKeyTemplate('SET#{code}#CARD#{n}', { code: 'tla', n: 7 })).toEqual({
+      value: 'SET#tla#CARD#7',
+      complete: true,
+    });
+  });
+
+  it('should stop at the first missing field when partial', () => {
+    expect(fillKeyTemplate('CARD#{n}#LANG#{lang}', {}, true)).toEqual({
+      value: 'CARD#',
+      complete: false,
+    });
+    expect(() => fillKeyTemplate('CARD#{n}', {})).toThrow('Missing n');
+  });
+});
+
+describe('Entity', () => {
+  const ddbMock = mockClient(DynamoDBDocumentClient);
+  const client = new DynamoDBClientWrapper({ tableName: 'scryscraper' });
+  const cards = defineEntity(client, {
+    name: 'card',
+    schema: CardSchema,
+    key: { partitionKey: 'SET#{set_code}', sortKey: 'CARD#{collector_number}' },
+  });
+
+  beforeEach(() => {
+    ddbMock.reset();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(NOW));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should compose keys from templates', () => {
+    expect(cards.key({ set_code: 'tla', collector_number: '001' })).toEqual({
+      pk: 'SET#tla',
+      sk: 'CARD#001',
+    });
+  });
+
+  it('should create an item with keys, entity name and timestamps', async () => {
+    ddbMock.on(PutCommand).resolves({});
+
+    const created = await cards.create({
+      set_code: 'tla',
+      collector_number: '001',
+      name: 'Aang',
+    });
+
+    expect(created).toEqual({
+      set_code: 'tla',
+      collector_number: '001',
+      name: 'Aang',
+      createdAt: NOW,
+      updatedAt: NOW,
+    });
+    expect(ddbMock.call(0).args[0].input).toMatchObject({
+      TableName: 'scryscraper',
+      Item: storedCard,
+      ConditionExpression: 'attribute_not_exists(#n0)',
+      ExpressionAttributeNames: { '#n0': 'pk' },
+    });
+  });
+
+  it('should reject invalid items before writing', async () => {
+    const error = await cards
+      .create({ set_code: 'x', collector_number: '001', name: 'Aang' })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(EntityValidationError);
+    expect(error).toMatchObject({ entity: 'card', direction: 'write' });
+    expect((error as Error).message).toContain('set_code');
+    expect(ddbMock.calls()).toHaveLength(0);
+  });
+
+  it('should get and validate an item, dropping table attributes', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: storedCard });
+
+    const card = await cards.get({ set_code: 'tla', collector_number: '001' });
+
+    expect(card).toEqual({
+      set_code: 'tla',
+      collector_number: '001',
+      name: 'Aang',
+      createdAt: NOW,
+      updatedAt: NOW,
+    });
+    expect(ddbMock.call(0).args[0].input).toMatchObject({
+      Key: { pk: 'SET#tla', sk: 'CARD#001' },
+    });
+  });
+
+  it('should reject stored items that no longer match the schema', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: { ...storedCard, name: 42 } });
+
+    await expect(
+      cards.get({ set_code: 'tla', collector_number: '001' })
+    ).rejects.toMatchObject({ name: 'EntityValidationError', direction: 'read' });
+  });
+
+  it('should update fields of an existing item and stamp updatedAt', async () => {
+    ddbMock.on(UpdateCommand).resolves({
+      Attributes: { ...storedCard, usd: 1.5 },
+    });
+
+    const updated = await cards.update(
+      { set_code: 'tla', collector_number: '001' },
+      { usd: 1.5 }
+    );
+
+    expect(updated.usd).toBe(1.5);
+    expect(ddbMock.call(0).args[0].input).toMatchObject({
+      Key: { pk: 'SET#tla', sk: 'CARD#001' },
+      UpdateExpression: 'SET #n0 = :v0, #n1 = :v1',
+      ConditionExpression: 'attribute_exists(#n2)',
+      ExpressionAttributeNames: { '#n0': 'usd', '#n1': 'updatedAt', '#n2': 'pk' },
+      ExpressionAttributeValues: { ':v0': 1.5, ':v1': NOW },
+    });
+  });
+
+  it('should refuse to update key fields', async () => {
+    await expect(
+      cards.update({ set_code: 'tla', collector_number: '001' }, { set_code: 'one' })
+    ).rejects.toThrow("Can't update key field set_code of card");
+  });
+
+  it('should delete an item and return it', async () => {
+    ddbMock.on(DeleteCommand).resolves({ Attributes: storedCard });
+
+    const deleted = await cards.delete({ set_code: 'tla', collector_number: '001' });
+
+    expect(deleted?.name).toBe('Aang');
+    expect(ddbMock.call(0).args[0].input).toMatchObject({ ReturnValues: 'ALL_OLD' });
+  });
+
+  it('should query a partition by sort key prefix, filtered to the entity', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [storedCard], Count: 1, ScannedCount: 1 });
+
+    const page = await cards.query({ set_code: 'tla' }, { limit: 10 });
+
+    expect(page.items).toEqual([
+      {
+        set_code: 'tla',
+        collector_number: '001',
+        name: 'Aang',
+        createdAt: NOW,
+        updatedAt: NOW,
+      },
+    ]);
+    expect(ddbMock.call(0).args[0].input).toMatchObject({
+      KeyConditionExpression: '#n0 = :v0 AND begins_with(#n1, :v1)',
+      FilterExpression: '#n2 = :v2',
+      ExpressionAttributeNames: { '#n0': 'pk', '#n1': 'sk', '#n2': 'entity' },
+      ExpressionAttributeValues: { ':v0': 'SET#tla', ':v1': 'CARD#', ':v2': 'card' },
+      Limit: 10,
+    });
+  });
+});
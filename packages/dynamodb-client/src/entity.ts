@@ -0,0 +1,399 @@
+import { z } from 'zod';
+import {
+  combineConditions,
+  type Condition,
+  type SortKeyOperators,
+} from './expressions.js';
+import type { Page, QueryOptions } from './query.js';
+import { UpdateBuilder } from './update.js';
+import type { DynamoDBClientWrapper } from './index.js';
+
+/**
+ * Field names referenced by a key template, e.g. 'set_code' | 'collector_number'
+ * for 'SET#{set_code}#CARD#{collector_number}'
+ */
+export type TemplateFields<Template extends string> =
+  Template extends `${string}{${infer Field}}${infer Rest}`
+    ? Field | TemplateFields<Rest>
+    : never;
+
+/**
+ * Timestamps stamped on every entity item, as ISO 8601 strings
+ */
+export interface EntityTimestamps {
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Defines how an entity is stored in a single table
+ */
+export interface EntityDefinition<
+  S extends z.ZodObject,
+  PK extends string,
+  SK extends string,
+> {
+  /**
+   * Stored in the entity attribute, so entities sharing a partition can be told apart
+   */
+  name: string;
+  /**
+   * Validates items on write and on read
+   */
+  schema: S;
+  /**
+   * Templates for the partition and sort key, with {field} placeholders filled from the item
+   *
+   * @example
+   * { partitionKey: 'SET#{set_code}', sortKey: 'CARD#{collector_number}' }
+   */
+  key: {
+    partitionKey: PK;
+    sortKey: SK;
+  };
+  /**
+   * Names of the table's key attributes
+   * @default { partitionKey: 'pk', sortKey: 'sk' }
+   */
+  keyAttributes?: {
+    partitionKey: string;
+    sortKey: string;
+  };
+}
+
+/**
+ * An item as read back from the table
+ */
+export type EntityItem<S extends z.ZodObject> = z.output<S> & EntityTimestamps;
+
+/**
+ * The fields needed to build an entity's full key
+ */
+export type EntityKey<
+  S extends z.ZodObject,
+  PK extends string,
+  SK extends string,
+> = Pick<z.output<S>, TemplateFields<PK> | TemplateFields<SK>>;
+
+/**
+ * Options for Entity.query()
+ */
+export type EntityQueryOptions<S extends z.ZodObject> = Omit<
+  QueryOptions<z.output<S>>,
+  'keyCondition' | 'indexName' | 'projection'
+>;
+
+/**
+ * The wrapper methods an entity uses, so MockDynamoDBClient can stand in for DynamoDBClientWrapper
+ */
+export type EntityClient = Pick<
+  DynamoDBClientWrapper,
+  'putItem' | 'getItem' | 'updateItem' | 'deleteItem' | 'query'
+>;
+
+/**
+ * Attribute that records which entity an item belongs to
+ */
+export const ENTITY_ATTRIBUTE = 'entity';
+
+const DEFAULT_KEY_ATTRIBUTES = { partitionKey: 'pk', sortKey: 'sk' };
+
+const PLACEHOLDER = /\{([^{}]+)\}/g;
+
+/**
+ * Thrown when an item doesn't match its entity's schema, on write or on read
+ */
+export class EntityValidationError extends Error {
+  readonly entity: string;
+  readonly direction: 'read' | 'write';
+  readonly issues: z.core.$ZodIssue[];
+
+  constructor(entity: string, direction: 'read' | 'write', error: z.ZodError) {
+    super(
+      `Invalid ${entity} on ${direction}: ${error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'} ${issue.message}`)
+        .join('; ')}`,
+      { cause: error }
+    );
+    this.name = 'EntityValidationError';
+    this.entity = entity;
+    this.direction = direction;
+    this.issues = error.issues;
+  }
+}
+
+/**
+ * Fills a key template from an item's fields
+ * With partial, stops at the first missing field and returns the prefix before it
+ */
+export function fillKeyTemplate(
+  template: string,
+  fields: Record<string, unknown>,
+  partial = false
+): { value: string; complete: boolean } {
+  let value = '';
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    value += template.slice(lastIndex, match.index);
+    const field = fields[match[1]];
+
+    if (field === undefined || field === null || field === '') {
+      if (partial) {
+        return { value, complete: false };
+      }
+      throw new Error(`Missing ${match[1]} for key template ${template}`);
+    }
+
+    if (typeof field !== 'string' && typeof field !== 'number') {
+      throw new Error(`Key field ${match[1]} must be a string or number`);
+    }
+
+    value += String(field);
+    lastIndex = match.index + match[0].length;
+  }
+
+  return { value: value + template.slice(lastIndex), complete: true };
+}
+
+/**
+ * Typed create, get, update, delete and query for one entity in a single table
+ * Keys are composed from the item's fields, items are validated against the schema
+ * on write and on read, and createdAt and updatedAt are stamped automatically
+ *
+ * @example
+ * const cards = defineEntity(client, {
+ *   name: 'card',
+ *   schema: CardSchema,
+ *   key: { partitionKey: 'SET#{set_code}', sortKey: 'CARD#{collector_number}' },
+ * });
+ *
+ * await cards.create({ set_code: 'tla', collector_number: '001', name: 'Aang' });
+ * const page = await cards.query({ set_code: 'tla' });
+ */
+export class Entity<S extends z.ZodObject, PK extends string, SK extends string> {
+  private client: EntityClient;
+  private definition: EntityDefinition<S, PK, SK>;
+  private keyAttributes: { partitionKey: string; sortKey: string };
+  private readSchema: z.ZodObject;
+
+  constructor(
+    client: EntityClient,
+    definition: EntityDefinition<S, PK, SK>
+  ) {
+    this.client = client;
+    this.definition = definition;
+    this.keyAttributes = definition.keyAttributes ?? DEFAULT_KEY_ATTRIBUTES;
+    this.readSchema = definition.schema.extend({
+      createdAt: z.string(),
+      updatedAt: z.string(),
+    });
+  }
+
+  /**
+   * Gets the entity name
+   */
+  getName(): string {
+    return this.definition.name;
+  }
+
+  /**
+   * Builds the table key for an item from its key fields
+   */
+  key(fields: EntityKey<S, PK, SK>): Record<string, string> {
+    const { partitionKey, sortKey } = this.definition.key;
+
+    return {
+      [this.keyAttributes.partitionKey]: fillKeyTemplate(partitionKey, fields)
+        .value,
+      [this.keyAttributes.sortKey]: fillKeyTemplate(sortKey, fields).value,
+    };
+  }
+
+  /**
+   * Validates and stores a new item, failing if an item with the same key already exists
+   *
+   * @throws EntityValidationError when the item doesn't match the schema
+   * @throws ConditionalCheckFailedError when the item already exists
+   */
+  async create(input: z.input<S>): Promise<EntityItem<S>> {
+    const item = this.validate(this.definition.schema, input, 'write');
+    const now = new Date().toISOString();
+    const stored = {
+      ...item,
+      ...this.key(item as EntityKey<S, PK, SK>),
+      [ENTITY_ATTRIBUTE]: this.definition.name,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const written = await this.client.putItem(stored, {
+      condition: { [this.keyAttributes.partitionKey]: { exists: false } },
+    });
+    return this.parse(written);
+  }
+
+  /**
+   * Gets an item by its key fields, or null if it doesn't exist
+   *
+   * @throws EntityValidationError when the stored item doesn't match the schema
+   */
+  async get(fields: EntityKey<S, PK, SK>): Promise<EntityItem<S> | null> {
+    const item = await this.client.getItem(this.key(fields));
+    return item ? this.parse(item) : null;
+  }
+
+  /**
+   * Updates fields of an existing item, stamping updatedAt
+   * Key fields can't be changed, as that would move the item
+   *
+   * @throws EntityValidationError when the changes don't match the schema
+   * @throws ConditionalCheckFailedError when the item doesn't exist
+   */
+  async update(
+    fields: EntityKey<S, PK, SK>,
+    changes: Partial<z.input<S>>
+  ): Promise<EntityItem<S>> {
+    const keyFields = new Set(this.getKeyFields());
+    const changed = this.validate(
+      this.definition.schema.partial(),
+      changes,
+      'write'
+    ) as Record<string, unknown>;
+    const builder = new UpdateBuilder();
+
+    // Only fields that were passed are set, so schema defaults don't overwrite stored values
+    for (const field of Object.keys(changes)) {
+      const value = changed[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (keyFields.has(field)) {
+        throw new Error(`Can't update key field ${field} of ${this.definition.name}`);
+      }
+      builder.set(field, value);
+    }
+
+    builder.set('updatedAt', new Date().toISOString());
+
+    const updated = await this.client.updateItem(this.key(fields), builder, {
+      condition: { [this.keyAttributes.partitionKey]: { exists: true } },
+    });
+    return this.parse(updated ?? {});
+  }
+
+  /**
+   * Deletes an item by its key fields, returning the deleted item or null if it didn't exist
+   */
+  async delete(fields: EntityKey<S, PK, SK>): Promise<EntityItem<S> | null> {
+    const deleted = await this.client.deleteItem(this.key(fields), {
+      returnValues: 'ALL_OLD',
+    });
+    return deleted ? this.parse(deleted) : null;
+  }
+
+  /**
+   * Queries a partition for items of this entity
+   * Sort key fields that are given narrow the query to keys starting with them, in template order
+   *
+   * @example
+   * await cards.query({ set_code: 'tla' }); // sk begins with 'CARD#'
+   */
+  async query(
+    fields: Pick<z.output<S>, TemplateFields<PK>> &
+      Partial<Pick<z.output<S>, TemplateFields<SK>>>,
+    options: EntityQueryOptions<S> = {}
+  ): Promise<Page<EntityItem<S>>> {
+    const page = await this.client.query<Record<string, unknown>>(
+      this.buildQueryOptions(fields, options)
+    );
+
+    return {
+      ...page,
+      items: page.items.map((item) => this.parse(item)),
+    };
+  }
+
+  /**
+   * Iterates over every page of a query, following cursors until the partition is exhausted
+   */
+  async *queryPages(
+    fields: Pick<z.output<S>, TemplateFields<PK>> &
+      Partial<Pick<z.output<S>, TemplateFields<SK>>>,
+    options: EntityQueryOptions<S> = {}
+  ): AsyncGenerator<Page<EntityItem<S>>> {
+    let cursor = options.cursor;
+
+    do {
+      const page = await this.query(fields, { ...options, cursor });
+      yield page;
+      cursor = page.cursor;
+    } while (cursor);
+  }
+
+  private buildQueryOptions(
+    fields: Record<string, unknown>,
+    options: EntityQueryOptions<S>
+  ): QueryOptions<Record<string, unknown>> {
+    const { partitionKey, sortKey } = this.definition.key;
+    const sortKeyValue = fillKeyTemplate(sortKey, fields, true);
+    const sortKeyCondition: SortKeyOperators<string> = sortKeyValue.complete
+      ? { eq: sortKeyValue.value }
+      : { beginsWith: sortKeyValue.value };
+
+    return {
+      ...options,
+      keyCondition: {
+        [this.keyAttributes.partitionKey]: fillKeyTemplate(partitionKey, fields)
+          .value,
+        ...(sortKeyValue.value.length > 0 && {
+          [this.keyAttributes.sortKey]: sortKeyCondition,
+        }),
+      },
+      filter: combineConditions<Record<string, unknown>>(
+        options.filter as Condition | undefined,
+        { [ENTITY_ATTRIBUTE]: this.definition.name }
+      ),
+    };
+  }
+
+  private getKeyFields(): string[] {
+    const { partitionKey, sortKey } = this.definition.key;
+
+    return [...`${partitionKey}${sortKey}`.matchAll(PLACEHOLDER)].map(
+      (match) => match[1]
+    );
+  }
+
+  private parse(item: Record<string, unknown>): EntityItem<S> {
+    return this.validate(this.readSchema, item, 'read') as EntityItem<S>;
+  }
+
+  private validate(
+    schema: z.ZodType,
+    value: unknown,
+    direction: 'read' | 'write'
+  ): Record<string, unknown> {
+    const result = schema.safeParse(value);
+
+    if (!result.success) {
+      throw new EntityValidationError(this.definition.name, direction, result.error);
+    }
+
+    return result.data as Record<string, unknown>;
+  }
+}
+
+/**
+ * Defines an entity stored in the client's table
+ */
+export function defineEntity<
+  S extends z.ZodObject,
+  PK extends string,
+  SK extends string,
+>(
+  client: EntityClient,
+  definition: EntityDefinition<S, PK, SK>
+): Entity<S, PK, SK> {
+  return new Entity(client, definition);
+}
@@ -0,0 +1,177 @@
+import type { DynamoDBKey } from './query.js';
+import type { ImportCheckpoint } from './snapshot.js';
+
+/**
+ * Writes that can carry a condition expression
+ */
+export type ConditionalOperation = 'put' | 'update' | 'delete';
+
+/**
+ * Thrown when a put, update or delete is rejected because its condition didn't match
+ */
+export class ConditionalCheckFailedError extends Error {
+  readonly tableName: string;
+  readonly operation: ConditionalOperation;
+  /**
+   * The key of the item, when the operation was addressed by key
+   */
+  readonly key: DynamoDBKey | undefined;
+
+  constructor(
+    tableName: string,
+    operation: ConditionalOperation,
+    key: DynamoDBKey | undefined,
+    options: { cause?: unknown; message?: string } = {}
+  ) {
+    super(options.message ?? `Conditional ${operation} on ${tableName} failed`, {
+      cause: options.cause,
+    });
+    this.name = 'ConditionalCheckFailedError';
+    this.tableName = tableName;
+    this.operation = operation;
+    this.key = key;
+  }
+}
+
+/**
+ * Thrown when optimistic locking rejects a write because the item has changed since it was read
+ * Re-read the item and retry the write against the new version
+ */
+export class VersionConflictError extends ConditionalCheckFailedError {
+  /**
+   * The version the write expected, or undefined when it expected the item not to exist
+   */
+  readonly expectedVersion: number | undefined;
+
+  constructor(
+    tableName: string,
+    operation: ConditionalOperation,
+    key: DynamoDBKey | undefined,
+    expectedVersion: number | undefined,
+    cause?: unknown
+  ) {
+    super(tableName, operation, key, {
+      cause,
+      message:
+        expectedVersion === undefined
+          ? `Conditional ${operation} on ${tableName} failed: item already exists or condition did not match`
+          : `Conditional ${operation} on ${tableName} failed: expected version ${expectedVersion} or condition did not match`,
+    });
+    this.name = 'VersionConflictError';
+    this.expectedVersion = expectedVersion;
+  }
+}
+
+/**
+ * Checks whether an error is DynamoDB's ConditionalCheckFailedException
+ */
+export function isConditionalCheckFailure(error: unknown): boolean {
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    (error as { name?: string }).name === 'ConditionalCheckFailedException'
+  );
+}
+
+/**
+ * Operations that can take part in a transaction
+ */
+export type TransactionOperation = ConditionalOperation | 'conditionCheck' | 'get';
+
+/**
+ * Why a single item in a cancelled transaction failed
+ */
+export interface TransactionItemFailure {
+  /**
+   * Position of the item in the transaction
+   */
+  index: number;
+  operation: TransactionOperation;
+  tableName: string;
+  /**
+   * The key of the item, when the operation was addressed by key
+   */
+  key: DynamoDBKey | undefined;
+  /**
+   * DynamoDB's cancellation code, e.g. 'ConditionalCheckFailed' or 'TransactionConflict'
+   */
+  code: string;
+  message: string | undefined;
+}
+
+/**
+ * Thrown when DynamoDB cancels a transaction, with the reason for each item that failed
+ * Nothing in a cancelled transaction is written
+ */
+export class TransactionCanceledError extends Error {
+  readonly failures: TransactionItemFailure[];
+
+  constructor(failures: TransactionItemFailure[], cause?: unknown) {
+    super(
+      failures.length > 0
+        ? `Transaction cancelled: ${failures
+            .map((failure) => `item ${failure.index} (${failure.operation}) ${failure.code}`)
+            .join(', ')}`
+        : 'Transaction cancelled',
+      { cause }
+    );
+    this.name = 'TransactionCanceledError';
+    this.failures = failures;
+  }
+
+  /**
+   * Checks whether any item failed because its condition didn't match
+   * Other failures, such as TransactionConflict, are usually safe to retry
+   */
+  hasConditionalCheckFailure(): boolean {
+    return this.failures.some((failure) => failure.code === 'ConditionalCheckFailed');
+  }
+}
+
+/**
+ * Thrown when a table is missing, or its live schema doesn't match the table definition
+ * Each mismatch describes one difference, e.g. 'sort key is sk (N), expected sk (S)'
+ */
+export class TableSchemaMismatchError extends Error {
+  readonly tableName: string;
+  readonly mismatches: string[];
+
+  constructor(tableName: string, mismatches: string[]) {
+    super(`Table ${tableName} doesn't match its definition: ${mismatches.join('; ')}`);
+    this.name = 'TableSchemaMismatchError';
+    this.tableName = tableName;
+    this.mismatches = mismatches;
+  }
+}
+
+/**
+ * Thrown when an import stops part way, on a line that isn't a JSON item or items that
+ * DynamoDB left unprocessed after every retry
+ * Pass checkpoint to importTable() as resumeFrom to carry on from the last written chunk
+ */
+export class TableImportError extends Error {
+  readonly tableName: string;
+  /**
+   * Lines of the file written before the failure
+   */
+  readonly checkpoint: ImportCheckpoint;
+  /**
+   * Items from the failed chunk that weren't written
+   */
+  readonly unprocessed: Record<string, unknown>[];
+
+  constructor(
+    tableName: string,
+    message: string,
+    checkpoint: ImportCheckpoint,
+    options: { cause?: unknown; unprocessed?: Record<string, unknown>[] } = {}
+  ) {
+    super(`Import into ${tableName} stopped after line ${checkpoint.line}: ${message}`, {
+      cause: options.cause,
+    });
+    this.name = 'TableImportError';
+    this.tableName = tableName;
+    this.checkpoint = checkpoint;
+    this.unprocessed = options.unprocessed ?? [];
+  }
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCondition,
+  buildKeyCondition,
+  buildProjection,
+  ExpressionAttributes,
+  InvalidExpressionError,
+  type KeyCondition,
+} from './expressions.js';
+
+describe('ExpressionAttributes', () => {
+  it('should generate placeholders for nested paths and reuse repeated names', () => {
+    const attributes = new ExpressionAttributes();
+
+    expect(attributes.path('prices.usd')).toBe('#n0.#n1');
+    expect(attributes.path('faces[0].name')).toBe('#n2[0].#n3');
+    expect(attributes.path('prices.eur')).toBe('#n0.#n4');
+    expect(attributes.getNames()).toEqual({
+      '#n0': 'prices',
+      '#n1': 'usd',
+      '#n2': 'faces',
+      '#n3': 'name',
+      '#n4': 'eur',
+    });
+  });
+
+  it('should reject malformed paths', () => {
+    const attributes = new ExpressionAttributes();
+
+    expect(() => attributes.path('prices..usd')).toThrow(InvalidExpressionError);
+    expect(() => attributes.path('faces[x]')).toThrow(InvalidExpressionError);
+    expect(() => attributes.path('')).toThrow(InvalidExpressionError);
+  });
+
+  it('should return undefined for empty name and value maps', () => {
+    const attributes = new ExpressionAttributes();
+
+    expect(attributes.getNames()).toBeUndefined();
+    expect(attributes.getValues()).toBeUndefined();
+  });
+
+  it('should reject undefined values', () => {
+    expect(() => new ExpressionAttributes().value(undefined)).toThrow(
+      InvalidExpressionError
+    );
+  });
+});
+
+describe('buildCondition', () => {
+  it('should treat plain values as equality and join attributes with AND', () => {
+    const attributes = new ExpressionAttributes();
+
+    const expression = buildCondition(
+      { set_code: 'tla', rarity: 'mythic' },
+      attributes
+    );
+
+    expect(expression).toBe('(#n0 = :v0) AND (#n1 = :v1)');
+    expect(attributes.getValues()).toEqual({ ':v0': 'tla', ':v1': 'mythic' });
+  });
+
+  it('should build every attribute operator', () => {
+    const attributes = new ExpressionAttributes();
+
+    const expression = buildCondition(
+      {
+        a: { ne: 1 },
+        b: { between: [1, 5] },
+        c: { in: ['x', 'y'] },
+        d: { beginsWith: 'CARD#' },
+        e: { contains: 'Flying' },
+        f: { notContains: 'Haste' },
+        g: { exists: true },
+        h: { exists: false },
+        i: { type: 'N' },
+        j: { size: { gt: 2 } },
+        k: { gte: 1, lt: 10 },
+      },
+      attributes
+    );
+
+    expect(expression).toBe(
+      [
+        '(#n0 <> :v0)',
+        '(#n1 BETWEEN :v1 AND :v2)',
+        '(#n2 IN (:v3, :v4))',
+        '(begins_with(#n3, :v5))',
+        '(contains(#n4, :v6))',
+        '(NOT contains(#n5, :v7))',
+        '(attribute_exists(#n6))',
+        '(attribute_not_exists(#n7))',
+        '(attribute_type(#n8, :v8))',
+        '(size(#n9) > :v9)',
+        '(#n10 >= :v10)',
+        '(#n10 < :v11)',
+      ].join(' AND ')
+    );
+  });
+
+  it('should combine conditions with $and, $or and $not', () => {
+    const attributes = new ExpressionAttributes();
+
+    const expression = buildCondition(
+      {
+        $or: [{ rarity: 'rare' }, { rarity: 'mythic' }],
+        $not: { 'prices.usd': { lt: 1 } },
+      },
+      attributes
+    );
+
+    expect(expression).toBe('((#n0 = :v0) OR (#n0 = :v1)) AND (NOT (#n1.#n2 < :v2))');
+  });
+
+  it('should compare maps that are not operator objects for equality', () => {
+    const attributes = new ExpressionAttributes();
+
+    const expression = buildCondition({ legalities: { standard: 'legal' } }, attributes);
+
+    expect(expression).toBe('#n0 = :v0');
+    expect(attributes.getValues()).toEqual({ ':v0': { standard: 'legal' } });
+  });
+
+  it('should reject empty conditions and invalid operands', () => {
+    const attributes = new ExpressionAttributes();
+
+    expect(() => buildCondition({}, attributes)).toThrow(InvalidExpressionError);
+    expect(() => buildCondition({ $or: [] }, attributes)).toThrow(InvalidExpressionError);
+    expect(() => buildCondition({ a: { in: [] } }, attributes)).toThrow(
+      InvalidExpressionError
+    );
+    expect(() =>
+      buildCondition({ a: { between: [1] as unknown as [number, number] } }, attributes)
+    ).toThrow(InvalidExpressionError);
+  });
+});
+
+describe('buildKeyCondition', () => {
+  it('should build partition key equality with a sort key operator', () => {
+    const attributes = new ExpressionAttributes();
+
+    const expression = buildKeyCondition(
+      { pk: 'SET#tla', sk: { beginsWith: 'CARD#' } },
+      attributes
+    );
+
+    expect(expression).toBe('#n0 = :v0 AND begins_with(#n1, :v1)');
+    expect(attributes.getNames()).toEqual({ '#n0': 'pk', '#n1': 'sk' });
+    expect(attributes.getValues()).toEqual({ ':v0': 'SET#tla', ':v1': 'CARD#' });
+  });
+
+  it('should build a between condition on the sort key', () => {
+    const attributes = new ExpressionAttributes();
+
+    expect(
+      buildKeyCondition({ pk: 'SET#tla', sk: { between: ['CARD#001', 'CARD#100'] } }, attributes)
+    ).toBe('#n0 = :v0 AND #n1 BETWEEN :v1 AND :v2');
+  });
+
+  it('should require equality on the partition key', () => {
+    const attributes = new ExpressionAttributes();
+
+    expect(() => buildKeyCondition({} as KeyCondition, attributes)).toThrow(
+      InvalidExpressionError
+    );
+    expect(() =>
+      buildKeyCondition({ pk: { gt: 'A' } } as unknown as KeyCondition, attributes)
+    ).toThrow(InvalidExpressionError);
+    expect(() =>
+      buildKeyCondition(
+        { pk: { gt: 'A' }, sk: { lt: 'B' } } as unknown as KeyCondition,
+        attributes
+      )
+    ).toThrow(InvalidExpressionError);
+    expect(() => buildKeyCondition({ a: 1, b: 2, c: 3 }, attributes)).toThrow(
+      InvalidExpressionError
+    );
+  });
+
+  it('should allow only one operator on the sort key', () => {
+    expect(() =>
+      buildKeyCondition({ pk: 'A', sk: { gt: 'B', lt: 'C' } }, new ExpressionAttributes())
+    ).toThrow(InvalidExpressionError);
+  });
+});
+
+describe('buildProjection', () => {
+  it('should join placeholder paths', () => {
+    const attributes = new ExpressionAttributes();
+
+    expect(buildProjection(['name', 'prices.usd'], attributes)).toBe('#n0, #n1.#n2');
+  });
+
+  it('should reject an empty projection', () => {
+    expect(() => buildProjection([], new ExpressionAttributes())).toThrow(
+      InvalidExpressionError
+    );
+  });
+});
@@ -0,0 +1,480 @@
+/**
+ * DynamoDB attribute type descriptors, as used by attribute_type()
+ */
+export type DynamoDBAttributeType =
+  | 'S'
+  | 'SS'
+  | 'N'
+  | 'NS'
+  | 'B'
+  | 'BS'
+  | 'BOOL'
+  | 'NULL'
+  | 'L'
+  | 'M';
+
+/**
+ * Comparisons against the size of an attribute
+ */
+export interface SizeOperators {
+  eq?: number;
+  ne?: number;
+  lt?: number;
+  lte?: number;
+  gt?: number;
+  gte?: number;
+  between?: [number, number];
+}
+
+/**
+ * Operators for a single attribute in a filter or condition
+ * Several operators on the same attribute must all match
+ */
+export interface AttributeOperators<V = unknown> {
+  eq?: V;
+  ne?: V;
+  lt?: V;
+  lte?: V;
+  gt?: V;
+  gte?: V;
+  between?: [V, V];
+  in?: V[];
+  beginsWith?: string;
+  contains?: unknown;
+  notContains?: unknown;
+  exists?: boolean;
+  type?: DynamoDBAttributeType;
+  size?: SizeOperators;
+}
+
+/**
+ * Conditions on individual attributes, keyed by attribute name or nested path
+ * A plain value means equality; paths like 'prices.usd' or 'faces[0].name' reach into maps and lists
+ */
+export type AttributeConditions<T = Record<string, unknown>> = {
+  [K in keyof T & string]?: T[K] | AttributeOperators<T[K]>;
+} & {
+  [path: `${string}.${string}` | `${string}[${number}]${string}`]:
+    | unknown
+    | AttributeOperators;
+};
+
+/**
+ * A filter or condition expression
+ * Attribute conditions in the same object must all match; combine them with $and, $or and $not
+ *
+ * @example
+ * { set_code: 'tla', 'prices.usd': { gt: 5 }, $or: [{ rarity: 'rare' }, { rarity: 'mythic' }] }
+ */
+export type Condition<T = Record<string, unknown>> = AttributeConditions<T> & {
+  $and?: Condition<T>[];
+  $or?: Condition<T>[];
+  $not?: Condition<T>;
+};
+
+/**
+ * Operators allowed on a sort key in a key condition
+ */
+export interface SortKeyOperators<V = unknown> {
+  eq?: V;
+  lt?: V;
+  lte?: V;
+  gt?: V;
+  gte?: V;
+  between?: [V, V];
+  beginsWith?: string;
+}
+
+/**
+ * Values DynamoDB accepts for key attributes
+ */
+export type KeyScalar = string | number | Uint8Array;
+
+/**
+ * The key scalar types an attribute can hold, or any key scalar when the attribute isn't typed
+ */
+type KeyValue<V> = unknown extends V ? KeyScalar : Extract<V, KeyScalar>;
+
+/**
+ * A key condition: equality on the partition key, optionally with one sort key operator
+ * Typed items allow any of their scalar attributes as the partition key, as index keys vary by query
+ *
+ * @example
+ * { pk: 'SET#tla', sk: { beginsWith: 'CARD#' } }
+ */
+export type KeyCondition<T = Record<string, unknown>> = string extends keyof T
+  ? Record<string, KeyScalar | SortKeyOperators<KeyScalar>>
+  : {
+      [P in keyof T & string]: { [K in P]: KeyValue<T[K]> } & {
+        [K in Exclude<keyof T & string, P>]?:
+          | KeyValue<T[K]>
+          | SortKeyOperators<KeyValue<T[K]>>;
+      };
+    }[keyof T & string];
+
+/**
+ * Thrown when a condition, path or key condition can't be turned into a DynamoDB expression
+ */
+export class InvalidExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidExpressionError';
+  }
+}
+
+const ATTRIBUTE_OPERATORS = new Set<string>([
+  'eq',
+  'ne',
+  'lt',
+  'lte',
+  'gt',
+  'gte',
+  'between',
+  'in',
+  'beginsWith',
+  'contains',
+  'notContains',
+  'exists',
+  'type',
+  'size',
+]);
+
+const SORT_KEY_OPERATORS = new Set<string>([
+  'eq',
+  'lt',
+  'lte',
+  'gt',
+  'gte',
+  'between',
+  'beginsWith',
+]);
+
+const COMPARATORS: Record<string, string> = {
+  eq: '=',
+  ne: '<>',
+  lt: '<',
+  lte: '<=',
+  gt: '>',
+  gte: '>=',
+};
+
+// DynamoDB allows at most 100 operands in an IN list
+const MAX_IN_OPERANDS = 100;
+
+const PATH_SEGMENT = /^([^[\]]+)((?:\[\d+\])*)$/;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Checks whether a condition value is an operator object rather than a map to compare for equality
+ * Maps whose keys are all operator names are treated as operators
+ */
+function isOperatorObject(
+  value: unknown,
+  operators: Set<string>
+): value is Record<string, unknown> {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every((key) => operators.has(key));
+}
+
+/**
+ * Collects ExpressionAttributeNames and ExpressionAttributeValues for a single request
+ * Names are reused when the same attribute appears more than once
+ */
+export class ExpressionAttributes {
+  private names: Record<string, string> = {};
+  private namePlaceholders = new Map<string, string>();
+  private values: Record<string, unknown> = {};
+  private valueCount = 0;
+
+  /**
+   * Gets a placeholder for an attribute name or nested path
+   * 'prices.usd' becomes '#n0.#n1' and 'faces[0].name' becomes '#n2[0].#n3'
+   */
+  path(path: string): string {
+    if (path.length === 0) {
+      throw new InvalidExpressionError('Attribute path must not be empty');
+    }
+
+    return path
+      .split('.')
+      .map((segment) => {
+        const match = PATH_SEGMENT.exec(segment);
+        if (!match) {
+          throw new InvalidExpressionError(`Invalid attribute path: ${path}`);
+        }
+        return `${this.name(match[1])}${match[2]}`;
+      })
+      .join('.');
+  }
+
+  /**
+   * Gets a placeholder for a single attribute name, without path parsing
+   */
+  name(name: string): string {
+    let placeholder = this.namePlaceholders.get(name);
+
+    if (!placeholder) {
+      placeholder = `#n${this.namePlaceholders.size}`;
+      this.namePlaceholders.set(name, placeholder);
+      this.names[placeholder] = name;
+    }
+
+    return placeholder;
+  }
+
+  /**
+   * Gets a placeholder for a value
+   */
+  value(value: unknown): string {
+    if (value === undefined) {
+      throw new InvalidExpressionError('Expression values must not be undefined');
+    }
+
+    const placeholder = `:v${this.valueCount}`;
+    this.valueCount++;
+    this.values[placeholder] = value;
+    return placeholder;
+  }
+
+  /**
+   * Gets the collected names, or undefined when there are none, as DynamoDB rejects empty maps
+   */
+  getNames(): Record<string, string> | undefined {
+    return this.namePlaceholders.size > 0 ? { ...this.names } : undefined;
+  }
+
+  /**
+   * Gets the collected values, or undefined when there are none
+   */
+  getValues(): Record<string, unknown> | undefined {
+    return this.valueCount > 0 ? { ...this.values } : undefined;
+  }
+}
+
+function buildComparison(
+  operand: string,
+  operator: string,
+  value: unknown,
+  attributes: ExpressionAttributes
+): string {
+  if (operator === 'between') {
+    if (!Array.isArray(value) || value.length !== 2) {
+      throw new InvalidExpressionError('between expects a [low, high] pair');
+    }
+    return `${operand} BETWEEN ${attributes.value(value[0])} AND ${attributes.value(value[1])}`;
+  }
+
+  return `${operand} ${COMPARATORS[operator]} ${attributes.value(value)}`;
+}
+
+function buildSizeCondition(
+  path: string,
+  operators: SizeOperators,
+  attributes: ExpressionAttributes
+): string[] {
+  const operand = `size(${path})`;
+
+  return Object.entries(operators)
+    .filter(([, value]) => value !== undefined)
+    .map(([operator, value]) => {
+      if (operator !== 'between' && !(operator in COMPARATORS)) {
+        throw new InvalidExpressionError(`Unknown size operator: ${operator}`);
+      }
+      return buildComparison(operand, operator, value, attributes);
+    });
+}
+
+function buildAttributeCondition(
+  attribute: string,
+  condition: unknown,
+  attributes: ExpressionAttributes
+): string[] {
+  const path = attributes.path(attribute);
+
+  if (!isOperatorObject(condition, ATTRIBUTE_OPERATORS)) {
+    return [`${path} = ${attributes.value(condition)}`];
+  }
+
+  const clauses: string[] = [];
+
+  for (const [operator, value] of Object.entries(condition)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    switch (operator) {
+      case 'between':
+        clauses.push(buildComparison(path, operator, value, attributes));
+        break;
+      case 'in': {
+        if (!Array.isArray(value) || value.length === 0 || value.length > MAX_IN_OPERANDS) {
+          throw new InvalidExpressionError(
+            `in expects between 1 and ${MAX_IN_OPERANDS} values`
+          );
+        }
+        const placeholders = value.map((item) => attributes.value(item));
+        clauses.push(`${path} IN (${placeholders.join(', ')})`);
+        break;
+      }
+      case 'beginsWith':
+        clauses.push(`begins_with(${path}, ${attributes.value(value)})`);
+        break;
+      case 'contains':
+        clauses.push(`contains(${path}, ${attributes.value(value)})`);
+        break;
+      case 'notContains':
+        clauses.push(`NOT contains(${path}, ${attributes.value(value)})`);
+        break;
+      case 'exists':
+        clauses.push(value ? `attribute_exists(${path})` : `attribute_not_exists(${path})`);
+        break;
+      case 'type':
+        clauses.push(`attribute_type(${path}, ${attributes.value(value)})`);
+        break;
+      case 'size':
+        clauses.push(...buildSizeCondition(path, value as SizeOperators, attributes));
+        break;
+      default:
+        clauses.push(buildComparison(path, operator, value, attributes));
+    }
+  }
+
+  return clauses;
+}
+
+function joinClauses(clauses: string[], separator: 'AND' | 'OR'): string {
+  if (clauses.length === 1) {
+    return clauses[0];
+  }
+  return clauses.map((clause) => `(${clause})`).join(` ${separator} `);
+}
+
+/**
+ * Builds a filter or condition expression, registering its names and values
+ */
+export function buildCondition<T>(
+  condition: Condition<T>,
+  attributes: ExpressionAttributes
+): string {
+  const clauses: string[] = [];
+
+  for (const [key, value] of Object.entries(condition as Record<string, unknown>)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    switch (key) {
+      case '$and':
+      case '$or': {
+        const children = (value as Condition<T>[]).map((child) =>
+          buildCondition(child, attributes)
+        );
+        if (children.length === 0) {
+          throw new InvalidExpressionError(`${key} expects at least one condition`);
+        }
+        clauses.push(joinClauses(children, key === '$and' ? 'AND' : 'OR'));
+        break;
+      }
+      case '$not':
+        clauses.push(`NOT (${buildCondition(value as Condition<T>, attributes)})`);
+        break;
+      default:
+        clauses.push(...buildAttributeCondition(key, value, attributes));
+    }
+  }
+
+  if (clauses.length === 0) {
+    throw new InvalidExpressionError('Condition must not be empty');
+  }
+
+  return joinClauses(clauses, 'AND');
+}
+
+/**
+ * Builds a key condition expression for a query
+ * The partition key must be compared for equality; the sort key may use one SortKeyOperators operator
+ */
+export function buildKeyCondition<T>(
+  keyCondition: KeyCondition<T>,
+  attributes: ExpressionAttributes
+): string {
+  const entries = Object.entries(keyCondition).filter(([, value]) => value !== undefined);
+
+  if (entries.length === 0 || entries.length > 2) {
+    throw new InvalidExpressionError(
+      'Key condition must name the partition key and at most one sort key'
+    );
+  }
+
+  const rangeConditions = entries.filter(
+    ([, value]) =>
+      isOperatorObject(value, SORT_KEY_OPERATORS) && Object.keys(value).join() !== 'eq'
+  );
+
+  if (rangeConditions.length >= entries.length) {
+    throw new InvalidExpressionError(
+      'Key condition must compare the partition key for equality'
+    );
+  }
+
+  return entries
+    .map(([attribute, value]) => {
+      const name = attributes.name(attribute);
+
+      if (!isOperatorObject(value, SORT_KEY_OPERATORS)) {
+        return `${name} = ${attributes.value(value)}`;
+      }
+
+      const operators = Object.entries(value).filter(([, operand]) => operand !== undefined);
+      if (operators.length !== 1) {
+        throw new InvalidExpressionError(
+          `Sort key ${attribute} must use exactly one operator in a key condition`
+        );
+      }
+
+      const [operator, operand] = operators[0];
+      return operator === 'beginsWith'
+        ? `begins_with(${name}, ${attributes.value(operand)})`
+        : buildComparison(name, operator, operand, attributes);
+    })
+    .join(' AND ');
+}
+
+/**
+ * Builds a projection expression from attribute names or nested paths
+ */
+export function buildProjection(paths: string[], attributes: ExpressionAttributes): string {
+  if (paths.length === 0) {
+    throw new InvalidExpressionError('Projection must name at least one attribute');
+  }
+  return paths.map((path) => attributes.path(path)).join(', ');
+}
+
+/**
+ * Combines conditions so that all of them must match, ignoring any that are undefined
+ */
+export function combineConditions<T>(
+  ...conditions: (Condition<T> | undefined)[]
+): Condition<T> | undefined {
+  const defined = conditions.filter(
+    (condition): condition is Condition<T> => condition !== undefined
+  );
+
+  if (defined.length <= 1) {
+    return defined[0];
+  }
+
+  return { $and: defined } as Condition<T>;
+}
@@ -1,4 +1,11 @@
-import { DynamoDBDocumentClient, PutCommand, GetCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  BatchWriteCommand,
+  QueryCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
 import { mockClient } from 'aws-sdk-client-mock';
 import { describe, it, expect, beforeEach } from 'vitest';
 import { DynamoDBClientWrapper, createDynamoDBClient } from './index.js';
@@ -144,6 +151,119 @@ describe('DynamoDBClientWrapper', () => {
     });
   });
 
+  describe('query', () => {
+    it('should query a single page and return a cursor for the next one', async () => {
+      ddbMock.on(QueryCommand).resolves({
+        Items: [{ pk: 'SET#tla', sk: 'CARD#001' }],
+        Count: 1,
+        ScannedCount: 1,
+        LastEvaluatedKey: { pk: 'SET#tla', sk: 'CARD#001' },
+      });
+
+      const client = new DynamoDBClientWrapper({
+        tableName: 'test-table',
+      });
+
+      const page = await client.query({
+        keyCondition: { pk: 'SET#tla', sk: { beginsWith: 'CARD#' } },
+        limit: 1,
+      });
+
+      expect(page.items).toEqual([{ pk: 'SET#tla', sk: 'CARD#001' }]);
+      expect(page.cursor).toBeDefined();
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        TableName: 'test-table',
+        KeyConditionExpression: '#n0 = :v0 AND begins_with(#n1, :v1)',
+        Limit: 1,
+      });
+    });
+
+    it('should resume from a cursor', async () => {
+      ddbMock
+        .on(QueryCommand)
+        .resolvesOnce({
+          Items: [{ pk: 'SET#tla', sk: 'CARD#001' }],
+          LastEvaluatedKey: { pk: 'SET#tla', sk: 'CARD#001' },
+        })
+        .resolves({ Items: [{ pk: 'SET#tla', sk: 'CARD#002' }] });
+
+      const client = new DynamoDBClientWrapper({
+        tableName: 'test-table',
+      });
+
+      const first = await client.query({ keyCondition: { pk: 'SET#tla' } });
+      const second = await client.query({
+        keyCondition: { pk: 'SET#tla' },
+        cursor: first.cursor,
+      });
+
+      expect(second.items).toEqual([{ pk: 'SET#tla', sk: 'CARD#002' }]);
+      expect(second.cursor).toBeUndefined();
+      expect(ddbMock.call(1).args[0].input).toMatchObject({
+        ExclusiveStartKey: { pk: 'SET#tla', sk: 'CARD#001' },
+      });
+    });
+
+    it('should iterate over every page', async () => {
+      ddbMock
+        .on(QueryCommand)
+        .resolvesOnce({ Items: [{ id: '1' }], LastEvaluatedKey: { id: '1' } })
+        .resolvesOnce({ Items: [{ id: '2' }], LastEvaluatedKey: { id: '2' } })
+        .resolves({ Items: [{ id: '3' }] });
+
+      const client = new DynamoDBClientWrapper({
+        tableName: 'test-table',
+      });
+
+      const ids: unknown[] = [];
+      for await (const page of client.queryPages({ keyCondition: { pk: 'A' } })) {
+        ids.push(...page.items.map((item) => item.id));
+      }
+
+      expect(ids).toEqual(['1', '2', '3']);
+      expect(ddbMock.calls()).toHaveLength(3);
+    });
+  });
+
+  describe('scan', () => {
+    it('should scan with a filter', async () => {
+      ddbMock.on(ScanCommand).resolves({ Items: [{ id: '1', rarity: 'mythic' }] });
+
+      const client = new DynamoDBClientWrapper({
+        tableName: 'test-table',
+      });
+
+      const page = await client.scan({ filter: { rarity: 'mythic' } });
+
+      expect(page.items).toHaveLength(1);
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        TableName: 'test-table',
+        FilterExpression: '#n0 = :v0',
+        ExpressionAttributeNames: { '#n0': 'rarity' },
+        ExpressionAttributeValues: { ':v0': 'mythic' },
+      });
+    });
+
+    it('should iterate over every page', async () => {
+      ddbMock
+        .on(ScanCommand)
+        .resolvesOnce({ Items: [{ id: '1' }], LastEvaluatedKey: { id: '1' } })
+        .resolves({ Items: [{ id: '2' }] });
+
+      const client = new DynamoDBClientWrapper({
+        tableName: 'test-table',
+      });
+
+      let pages = 0;
+      for await (const page of client.scanPages()) {
+        pages++;
+        expect(page.items).toHaveLength(1);
+      }
+
+      expect(pages).toBe(2);
+    });
+  });
+
   describe('createDynamoDBClient factory', () => {
     it('should create a client instance', () => {
       const client = createDynamoDBClient({
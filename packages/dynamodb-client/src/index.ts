@@ -1,16 +1,235 @@
 import {
+  CreateTableCommand,
+  DescribeTableCommand,
+  DescribeTimeToLiveCommand,
   DynamoDBClient,
+  UpdateTimeToLiveCommand,
+  waitUntilTableExists,
   type DynamoDBClientConfig,
+  type TableDescription,
 } from '@aws-sdk/client-dynamodb';
 import {
   DynamoDBDocumentClient,
   PutCommand,
   GetCommand,
-  BatchWriteCommand,
-  type PutCommandInput,
+  DeleteCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactGetCommand,
+  TransactWriteCommand,
+  UpdateCommand,
   type GetCommandInput,
-  type BatchWriteCommandInput,
 } from '@aws-sdk/lib-dynamodb';
+import {
+  batchDeleteItems,
+  batchGetItems,
+  batchPutItems,
+  type BatchGetOptions,
+  type BatchGetResult,
+  type BatchRetryOptions,
+  type BatchWriteResult,
+} from './batch.js';
+import {
+  ConditionalCheckFailedError,
+  isConditionalCheckFailure,
+  TableSchemaMismatchError,
+  VersionConflictError,
+  type ConditionalOperation,
+} from './errors.js';
+import { combineConditions, type Condition } from './expressions.js';
+import { InMemoryDynamoDB, type InMemoryTableSchema } from './memory.js';
+import {
+  buildQueryInput,
+  buildScanInput,
+  toPage,
+  type DynamoDBKey,
+  type Page,
+  type QueryOptions,
+  type ScanOptions,
+} from './query.js';
+import {
+  buildCreateTableInput,
+  findSchemaMismatches,
+  toInMemorySchema,
+  type EnsureTableOptions,
+  type EnsureTableResult,
+  type TableDefinition,
+} from './table.js';
+import {
+  buildTransactGetInput,
+  buildTransactWriteInput,
+  getTransactGetTargets,
+  getTransactWriteTargets,
+  toTransactionError,
+  type TransactGetItem,
+  type TransactWriteItem,
+  type TransactWriteOptions,
+} from './transactions.js';
+import {
+  expiresAt,
+  isExpired,
+  notExpiredCondition,
+  withExpiry,
+  type TtlOptions,
+} from './ttl.js';
+import {
+  buildUpdateInput,
+  UpdateBuilder,
+  type UpdateItemOptions,
+} from './update.js';
+import {
+  buildDeleteInput,
+  buildPutInput,
+  getStoredVersion,
+  versionPut,
+  withExpectedVersion,
+  type DeleteItemOptions,
+  type PutItemOptions,
+} from './writes.js';
+
+export {
+  chunk,
+  MAX_BATCH_GET_KEYS,
+  MAX_BATCH_WRITE_ITEMS,
+  type BatchGetOptions,
+  type BatchGetResult,
+  type BatchRetryOptions,
+  type BatchWriteResult,
+} from './batch.js';
+
+export {
+  ConditionalCheckFailedError,
+  isConditionalCheckFailure,
+  TableImportError,
+  TableSchemaMismatchError,
+  TransactionCanceledError,
+  VersionConflictError,
+  type ConditionalOperation,
+  type TransactionItemFailure,
+  type TransactionOperation,
+} from './errors.js';
+
+export {
+  defineEntity,
+  Entity,
+  ENTITY_ATTRIBUTE,
+  EntityValidationError,
+  fillKeyTemplate,
+  type EntityClient,
+  type EntityDefinition,
+  type EntityItem,
+  type EntityKey,
+  type EntityQueryOptions,
+  type EntityTimestamps,
+  type TemplateFields,
+} from './entity.js';
+
+export {
+  buildCondition,
+  combineConditions,
+  buildKeyCondition,
+  buildProjection,
+  ExpressionAttributes,
+  InvalidExpressionError,
+  type AttributeConditions,
+  type AttributeOperators,
+  type Condition,
+  type DynamoDBAttributeType,
+  type KeyCondition,
+  type KeyScalar,
+  type SizeOperators,
+  type SortKeyOperators,
+} from './expressions.js';
+
+export {
+  InMemoryDynamoDB,
+  type InMemoryKeySchema,
+  type InMemoryOperation,
+  type InMemoryTableSchema,
+} from './memory.js';
+
+export {
+  buildQueryInput,
+  buildScanInput,
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorError,
+  type DynamoDBKey,
+  type Page,
+  type QueryOptions,
+  type ReadPageOptions,
+  type ScanOptions,
+} from './query.js';
+
+export {
+  exportTable,
+  exportTableToS3,
+  importTable,
+  parseItem,
+  serialiseItem,
+  type ExportClient,
+  type ExportObjectStore,
+  type ExportProgress,
+  type ExportResult,
+  type ExportTableOptions,
+  type ImportCheckpoint,
+  type ImportClient,
+  type ImportProgress,
+  type ImportResult,
+  type ImportTableOptions,
+} from './snapshot.js';
+
+export {
+  buildCreateTableInput,
+  findSchemaMismatches,
+  toInMemorySchema,
+  type BillingMode,
+  type EnsureTableOptions,
+  type EnsureTableResult,
+  type GlobalIndexDefinition,
+  type IndexProjection,
+  type KeyAttribute,
+  type KeyAttributeType,
+  type LocalIndexDefinition,
+  type TableDefinition,
+} from './table.js';
+
+export {
+  buildTransactGetInput,
+  buildTransactWriteInput,
+  MAX_TRANSACTION_ITEMS,
+  type TransactConditionCheck,
+  type TransactDelete,
+  type TransactGetItem,
+  type TransactPut,
+  type TransactUpdate,
+  type TransactWriteItem,
+  type TransactWriteOptions,
+} from './transactions.js';
+
+export {
+  expiresAt,
+  isExpired,
+  notExpiredCondition,
+  type TtlOptions,
+} from './ttl.js';
+
+export {
+  buildUpdateInput,
+  update,
+  UpdateBuilder,
+  type NestedPath,
+  type ReturnValues,
+  type UpdateItemOptions,
+  type UpdatePath,
+} from './update.js';
+
+export {
+  buildDeleteInput,
+  buildPutInput,
+  type DeleteItemOptions,
+  type PutItemOptions,
+} from './writes.js';
 
 /**
  * Configuration options for DynamoDB Client
@@ -20,6 +239,25 @@ export interface DynamoDBClientWrapperConfig {
   clientConfig?: DynamoDBClientConfig;
   docClient?: DynamoDBDocumentClient;
   standardClient?: DynamoDBClient;
+  /**
+   * How batch operations resubmit unprocessed items and keys
+   */
+  batchRetry?: BatchRetryOptions;
+  /**
+   * Enables optimistic locking: the wrapper stores a version number in this attribute
+   * and rejects puts, updates and deletes made against a stale version
+   * Batch writes don't check or increment the version
+   */
+  versionAttribute?: string;
+  /**
+   * Stamps an expiry on items written by putItem() and batchPutItems(),
+   * and hides expired items that DynamoDB hasn't deleted yet from reads
+   */
+  ttl?: TtlOptions;
+  /**
+   * The table's keys, indexes and TTL attribute, for ensureTable() to create or verify it
+   */
+  table?: TableDefinition;
 }
 
 /**
@@ -31,6 +269,10 @@ export class DynamoDBClientWrapper {
   private tableName: string;
   private docClient: DynamoDBDocumentClient;
   private standardClient: DynamoDBClient;
+  private batchRetry: BatchRetryOptions;
+  private versionAttribute: string | undefined;
+  private ttl: TtlOptions | undefined;
+  private table: TableDefinition | undefined;
 
   constructor(config: DynamoDBClientWrapperConfig) {
     this.tableName = config.tableName;
@@ -38,6 +280,10 @@ export class DynamoDBClientWrapper {
       config.standardClient ?? new DynamoDBClient(config.clientConfig ?? {});
     this.docClient =
       config.docClient ?? DynamoDBDocumentClient.from(this.standardClient);
+    this.batchRetry = config.batchRetry ?? {};
+    this.versionAttribute = config.versionAttribute;
+    this.ttl = config.ttl;
+    this.table = config.table;
   }
 
   /**
@@ -62,19 +308,77 @@ export class DynamoDBClientWrapper {
   }
 
   /**
-   * Puts an item into DynamoDB using DocumentClient
+   * Checks that the live table matches the table definition, creating it first when
+   * options.create is set and it doesn't exist. Call it at startup to fail fast on a
+   * key schema the code doesn't expect
+   *
+   * @throws TableSchemaMismatchError when the table doesn't match, or doesn't exist and isn't created
    */
-  async putItem<T extends Record<string, unknown>>(item: T): Promise<void> {
-    const params: PutCommandInput = {
-      TableName: this.tableName,
-      Item: item,
-    };
+  async ensureTable(options: EnsureTableOptions = {}): Promise<EnsureTableResult> {
+    if (!this.table) {
+      throw new Error(`No table definition configured for ${this.tableName}`);
+    }
+
+    const table = await this.describeTable();
+
+    if (!table) {
+      if (!options.create) {
+        throw new TableSchemaMismatchError(this.tableName, ["table doesn't exist"]);
+      }
+      await this.createTable(this.table, options.maxWaitSeconds ?? 300);
+      return 'created';
+    }
+
+    const timeToLive = this.table.ttlAttribute
+      ? (
+          await this.standardClient.send(
+            new DescribeTimeToLiveCommand({ TableName: this.tableName })
+          )
+        ).TimeToLiveDescription
+      : undefined;
+    const mismatches = findSchemaMismatches(this.table, table, timeToLive);
+
+    if (mismatches.length > 0) {
+      throw new TableSchemaMismatchError(this.tableName, mismatches);
+    }
+
+    return 'verified';
+  }
+
+  /**
+   * Puts an item into DynamoDB using DocumentClient, returning the item as written
+   * With optimistic locking, an item without a version is only written if it doesn't exist yet,
+   * and an item with a version is only written over that version. The written item has the next version
+   *
+   * With a TTL attribute configured, the item expires after options.ttlSeconds or the default
+   *
+   * @throws ConditionalCheckFailedError when the condition doesn't match
+   * @throws VersionConflictError when optimistic locking rejects the write
+   */
+  async putItem<T extends Record<string, unknown>>(
+    item: T,
+    options: PutItemOptions<T> = {}
+  ): Promise<T> {
+    const stamped = this.withExpiry(item, options.ttlSeconds);
+    const { item: written, condition, expectedVersion } = this.versionAttribute
+      ? versionPut(stamped, this.versionAttribute, options.condition)
+      : { item: stamped, condition: options.condition, expectedVersion: undefined };
+
+    const versioned = this.versionAttribute !== undefined;
 
-    await this.docClient.send(new PutCommand(params));
+    await this.sendConditional('put', undefined, versioned, expectedVersion, () =>
+      this.docClient.send(
+        new PutCommand(
+          this.withStoredVersion(buildPutInput(this.tableName, written, condition), versioned)
+        )
+      )
+    );
+    return written;
   }
 
   /**
    * Gets an item from DynamoDB using DocumentClient
+   * Returns null for an item that has expired but not been deleted yet
    */
   async getItem<T extends Record<string, unknown>>(
     key: Record<string, unknown>
@@ -85,32 +389,389 @@ export class DynamoDBClientWrapper {
     };
 
     const result = await this.docClient.send(new GetCommand(params));
-    return (result.Item as T) ?? null;
+    return this.unlessExpired(result.Item as T | undefined);
+  }
+
+  /**
+   * Updates attributes of an item in place, creating the item if it doesn't exist
+   * Pass a builder, or a function that adds actions to a new one
+   *
+   * @example
+   * await client.updateItem({ pk, sk }, (item) => item.increment('views').set('seen_at', now));
+   *
+   * With optimistic locking, the update increments the version and checks options.expectedVersion when given
+   *
+   * @throws ConditionalCheckFailedError when the condition doesn't match
+   * @throws VersionConflictError when optimistic locking rejects the update
+   */
+  async updateItem<T extends Record<string, unknown>>(
+    key: DynamoDBKey,
+    update: UpdateBuilder<T> | ((builder: UpdateBuilder<T>) => unknown),
+    options: UpdateItemOptions<T> = {}
+  ): Promise<T | null> {
+    let builder: UpdateBuilder<T>;
+
+    if (update instanceof UpdateBuilder) {
+      builder = update;
+    } else {
+      builder = new UpdateBuilder<T>();
+      update(builder);
+    }
+
+    const input = buildUpdateInput(
+      this.tableName,
+      key,
+      builder,
+      options,
+      this.versionAttribute
+    );
+    const versioned = this.versionAttribute !== undefined && options.expectedVersion !== undefined;
+    const result = await this.sendConditional(
+      'update',
+      key,
+      versioned,
+      options.expectedVersion,
+      () => this.docClient.send(new UpdateCommand(this.withStoredVersion(input, versioned)))
+    );
+    return (result.Attributes as T) ?? null;
+  }
+
+  /**
+   * Deletes an item, returning the deleted item when options.returnValues is 'ALL_OLD'
+   * With optimistic locking, options.expectedVersion only deletes the item at that version
+   *
+   * @throws ConditionalCheckFailedError when the condition doesn't match
+   * @throws VersionConflictError when optimistic locking rejects the delete
+   */
+  async deleteItem<T extends Record<string, unknown>>(
+    key: DynamoDBKey,
+    options: DeleteItemOptions<T> = {}
+  ): Promise<T | null> {
+    const condition = withExpectedVersion(
+      options.condition,
+      this.versionAttribute,
+      options.expectedVersion
+    );
+
+    const versioned = this.versionAttribute !== undefined && options.expectedVersion !== undefined;
+    const result = await this.sendConditional(
+      'delete',
+      key,
+      versioned,
+      options.expectedVersion,
+      () =>
+        this.docClient.send(
+          new DeleteCommand(
+            this.withStoredVersion(
+              buildDeleteInput(this.tableName, key, condition, options.returnValues),
+              versioned
+            )
+          )
+        )
+    );
+    return (result.Attributes as T) ?? null;
+  }
+
+  /**
+   * Writes up to 100 puts, updates, deletes and condition checks as a single all-or-nothing
+   * transaction, optionally across tables
+   * With optimistic locking, items on this table are versioned as in putItem(), updateItem() and deleteItem()
+   *
+   * @example
+   * await client.transactWrite([
+   *   { type: 'put', item: set },
+   *   ...cards.map((card) => ({ type: 'put' as const, item: card })),
+   * ], { clientRequestToken: `store-set-${set.code}-${scrapeId}` });
+   *
+   * @throws TransactionCanceledError with the reason each failing item was rejected
+   */
+  async transactWrite(
+    items: TransactWriteItem[],
+    options: TransactWriteOptions = {}
+  ): Promise<void> {
+    const input = buildTransactWriteInput(
+      this.tableName,
+      items,
+      options,
+      this.versionAttribute
+    );
+
+    try {
+      await this.docClient.send(new TransactWriteCommand(input));
+    } catch (error) {
+      throw toTransactionError(
+        error,
+        getTransactWriteTargets(this.tableName, items)
+      );
+    }
+  }
+
+  /**
+   * Reads up to 100 items as a consistent snapshot, optionally across tables
+   * Returns the items in the order requested, with null for items that don't exist
+   *
+   * @throws TransactionCanceledError when the read conflicts with a write in progress
+   */
+  async transactGet<T extends Record<string, unknown>>(
+    items: TransactGetItem[]
+  ): Promise<(T | null)[]> {
+    const input = buildTransactGetInput(this.tableName, items);
+
+    try {
+      const result = await this.docClient.send(new TransactGetCommand(input));
+      return items.map((_, index) =>
+        this.unlessExpired(result.Responses?.[index]?.Item as T | undefined)
+      );
+    } catch (error) {
+      throw toTransactionError(error, getTransactGetTargets(this.tableName, items));
+    }
   }
 
   /**
    * Batch writes items to DynamoDB
-   * Automatically handles DynamoDB's 25 item batch limit
+   * Automatically handles DynamoDB's 25 item batch limit, resubmitting unprocessed items
+   * with exponential backoff. Items still unprocessed after the last attempt are returned
    */
   async batchPutItems<T extends Record<string, unknown>>(
-    items: T[]
+    items: T[],
+    retry: BatchRetryOptions = this.batchRetry
+  ): Promise<BatchWriteResult<T>> {
+    return batchPutItems(
+      this.docClient,
+      this.tableName,
+      items.map((item) => this.withExpiry(item)),
+      retry
+    );
+  }
+
+  /**
+   * Batch gets items by key
+   * Automatically handles DynamoDB's 100 key batch limit, resubmitting unprocessed keys
+   * with exponential backoff. Items are returned in no particular order
+   */
+  async batchGetItems<T extends Record<string, unknown>>(
+    keys: DynamoDBKey[],
+    options: BatchGetOptions = {}
+  ): Promise<BatchGetResult<T>> {
+    const result = await batchGetItems<T>(this.docClient, this.tableName, keys, {
+      ...options,
+      retry: options.retry ?? this.batchRetry,
+    });
+    const ttl = this.ttl;
+
+    return ttl
+      ? {
+          ...result,
+          items: result.items.filter((item) => !isExpired(item, ttl.attribute)),
+        }
+      : result;
+  }
+
+  /**
+   * Batch deletes items by key
+   * Automatically handles DynamoDB's 25 item batch limit, resubmitting unprocessed deletes
+   * with exponential backoff. Keys still unprocessed after the last attempt are returned
+   */
+  async batchDeleteItems(
+    keys: DynamoDBKey[],
+    retry: BatchRetryOptions = this.batchRetry
+  ): Promise<BatchWriteResult<DynamoDBKey>> {
+    return batchDeleteItems(this.docClient, this.tableName, keys, retry);
+  }
+
+  /**
+   * Reads a single page of items matching a key condition
+   * Pass the returned cursor back in to read the next page
+   */
+  async query<T extends Record<string, unknown>>(
+    options: QueryOptions<T>
+  ): Promise<Page<T>> {
+    const result = await this.docClient.send(
+      new QueryCommand(
+        buildQueryInput(this.tableName, this.withoutExpired(options))
+      )
+    );
+    return toPage<T>(result);
+  }
+
+  /**
+   * Iterates over every page of a query, following LastEvaluatedKey
+   */
+  async *queryPages<T extends Record<string, unknown>>(
+    options: QueryOptions<T>
+  ): AsyncGenerator<Page<T>> {
+    let cursor = options.cursor;
+
+    do {
+      const page = await this.query<T>({ ...options, cursor });
+      yield page;
+      cursor = page.cursor;
+    } while (cursor);
+  }
+
+  /**
+   * Reads a single page of items from the whole table or index
+   * Pass the returned cursor back in to read the next page
+   */
+  async scan<T extends Record<string, unknown>>(
+    options: ScanOptions<T> = {}
+  ): Promise<Page<T>> {
+    const result = await this.docClient.send(
+      new ScanCommand(
+        buildScanInput(this.tableName, this.withoutExpired(options))
+      )
+    );
+    return toPage<T>(result);
+  }
+
+  /**
+   * Iterates over every page of a scan, following LastEvaluatedKey
+   */
+  async *scanPages<T extends Record<string, unknown>>(
+    options: ScanOptions<T> = {}
+  ): AsyncGenerator<Page<T>> {
+    let cursor = options.cursor;
+
+    do {
+      const page = await this.scan<T>({ ...options, cursor });
+      yield page;
+      cursor = page.cursor;
+    } while (cursor);
+  }
+
+  /**
+   * Describes the table, or returns undefined when it doesn't exist
+   */
+  private async describeTable(): Promise<TableDescription | undefined> {
+    try {
+      const result = await this.standardClient.send(
+        new DescribeTableCommand({ TableName: this.tableName })
+      );
+      return result.Table;
+    } catch (error) {
+      if ((error as { name?: string }).name === 'ResourceNotFoundException') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates the table, waits for it to become active and enables TTL
+   */
+  private async createTable(
+    definition: TableDefinition,
+    maxWaitSeconds: number
   ): Promise<void> {
-    const batchSize = 25;
-
-    for (let i = 0; i < items.length; i += batchSize) {
-      const batch = items.slice(i, i + batchSize);
-
-      const params: BatchWriteCommandInput = {
-        RequestItems: {
-          [this.tableName]: batch.map((item) => ({
-            PutRequest: {
-              Item: item,
-            },
-          })),
-        },
-      };
-
-      await this.docClient.send(new BatchWriteCommand(params));
+    await this.standardClient.send(
+      new CreateTableCommand(buildCreateTableInput(this.tableName, definition))
+    );
+    await waitUntilTableExists(
+      { client: this.standardClient, maxWaitTime: maxWaitSeconds, minDelay: 1 },
+      { TableName: this.tableName }
+    );
+
+    if (definition.ttlAttribute) {
+      await this.standardClient.send(
+        new UpdateTimeToLiveCommand({
+          TableName: this.tableName,
+          TimeToLiveSpecification: { AttributeName: definition.ttlAttribute, Enabled: true },
+        })
+      );
+    }
+  }
+
+  /**
+   * Stamps an expiry on an item when a TTL attribute is configured
+   * An explicit TTL replaces the item's expiry, so re-putting an item read back extends it,
+   * while the default only fills in a missing one
+   */
+  private withExpiry<T extends Record<string, unknown>>(item: T, ttlSeconds?: number): T {
+    if (!this.ttl) {
+      return item;
+    }
+
+    return ttlSeconds === undefined
+      ? withExpiry(item, this.ttl.attribute, this.ttl.defaultTtlSeconds)
+      : { ...item, [this.ttl.attribute]: expiresAt(ttlSeconds) };
+  }
+
+  /**
+   * Returns null for a missing item, or one that has expired
+   */
+  private unlessExpired<T extends Record<string, unknown>>(
+    item: T | undefined
+  ): T | null {
+    if (!item || (this.ttl && isExpired(item, this.ttl.attribute))) {
+      return null;
+    }
+
+    return item;
+  }
+
+  /**
+   * Adds a filter that skips expired items to query or scan options
+   */
+  private withoutExpired<O extends { filter?: unknown }>(options: O): O {
+    if (!this.ttl) {
+      return options;
+    }
+
+    return {
+      ...options,
+      filter: combineConditions(
+        options.filter as Condition | undefined,
+        notExpiredCondition(this.ttl.attribute)
+      ),
+    };
+  }
+
+  /**
+   * Asks a versioned write to return the stored item when its condition fails, so
+   * sendConditional() can tell a version conflict from the caller's condition failing
+   */
+  private withStoredVersion<I extends object>(
+    input: I,
+    versioned: boolean
+  ): I & { ReturnValuesOnConditionCheckFailure?: 'ALL_OLD' } {
+    return versioned ? { ...input, ReturnValuesOnConditionCheckFailure: 'ALL_OLD' } : input;
+  }
+
+  /**
+   * Sends a conditional write, turning a failed condition into a typed error
+   * A versioned write only throws VersionConflictError when the stored version isn't the one expected
+   *
+   * @param versioned - Whether a version condition was added to the write
+   */
+  private async sendConditional<R>(
+    operation: ConditionalOperation,
+    key: DynamoDBKey | undefined,
+    versioned: boolean,
+    expectedVersion: number | undefined,
+    send: () => Promise<R>
+  ): Promise<R> {
+    try {
+      return await send();
+    } catch (error) {
+      if (!isConditionalCheckFailure(error)) {
+        throw error;
+      }
+      if (
+        versioned &&
+        this.versionAttribute &&
+        getStoredVersion(error, this.versionAttribute) !== expectedVersion
+      ) {
+        throw new VersionConflictError(
+          this.tableName,
+          operation,
+          key,
+          expectedVersion,
+          error
+        );
+      }
+      throw new ConditionalCheckFailedError(this.tableName, operation, key, {
+        cause: error,
+      });
     }
   }
 }
@@ -124,6 +785,48 @@ export function createDynamoDBClient(
   return new DynamoDBClientWrapper(config);
 }
 
+/**
+ * Configuration for a wrapper backed by the in-memory engine
+ */
+export interface InMemoryDynamoDBClientConfig
+  extends Omit<
+    DynamoDBClientWrapperConfig,
+    'clientConfig' | 'docClient' | 'standardClient'
+  > {
+  /**
+   * Engine to store items in, so several wrappers and tests can share tables
+   */
+  engine?: InMemoryDynamoDB;
+  /**
+   * Key schema used to create the table when the engine doesn't have it yet
+   * @default the table definition's keys and indexes, or { partitionKey: 'pk', sortKey: 'sk' }
+   */
+  schema?: InMemoryTableSchema;
+}
+
+/**
+ * Creates a DynamoDB client wrapper that stores items in memory, for tests and local runs
+ * Low-level calls such as ensureTable() are rejected rather than sent to AWS
+ */
+export function createInMemoryDynamoDBClient(
+  config: InMemoryDynamoDBClientConfig
+): DynamoDBClientWrapper {
+  const { engine = new InMemoryDynamoDB(), schema, ...wrapperConfig } = config;
+
+  if (!engine.hasTable(config.tableName)) {
+    engine.createTable(
+      config.tableName,
+      schema ?? (config.table && toInMemorySchema(config.table))
+    );
+  }
+
+  return new DynamoDBClientWrapper({
+    ...wrapperConfig,
+    docClient: engine.asDocumentClient(),
+    standardClient: engine.asStandardClient(),
+  });
+}
+
 // Export AWS SDK types for convenience
 export type { DynamoDBClientConfig };
 export { DynamoDBClient, DynamoDBDocumentClient };
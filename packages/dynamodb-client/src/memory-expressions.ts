@@ -0,0 +1,913 @@
+/**
+ * Parses and evaluates DynamoDB expressions against plain items, for the in-memory engine
+ * Covers condition, key condition, filter, update and projection expressions
+ */
+
+/**
+ * A resolved attribute path, e.g. ['faces', 0, 'name'] for 'faces[0].name'
+ */
+export type AttributePath = (string | number)[];
+
+type Operand =
+  | { kind: 'path'; path: AttributePath }
+  | { kind: 'value'; value: unknown }
+  | { kind: 'size'; path: AttributePath };
+
+type Comparator = '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+/**
+ * A parsed condition, key condition or filter expression
+ */
+export type ConditionNode =
+  | { kind: 'compare'; comparator: Comparator; left: Operand; right: Operand }
+  | { kind: 'between'; operand: Operand; low: Operand; high: Operand }
+  | { kind: 'in'; operand: Operand; values: Operand[] }
+  | { kind: 'function'; name: string; args: Operand[] }
+  | { kind: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { kind: 'not'; operand: ConditionNode };
+
+type ValueNode =
+  | Operand
+  | { kind: 'ifNotExists'; path: AttributePath; fallback: ValueNode }
+  | { kind: 'listAppend'; left: ValueNode; right: ValueNode }
+  | { kind: 'arithmetic'; operator: '+' | '-'; left: ValueNode; right: ValueNode };
+
+/**
+ * A single action in a parsed update expression
+ */
+export type UpdateActionNode =
+  | { type: 'SET'; path: AttributePath; value: ValueNode }
+  | { type: 'REMOVE'; path: AttributePath }
+  | { type: 'ADD' | 'DELETE'; path: AttributePath; value: Operand };
+
+/**
+ * Names and values referenced by placeholders in an expression
+ */
+export interface ExpressionContext {
+  names?: Record<string, string>;
+  values?: Record<string, unknown>;
+}
+
+/**
+ * Thrown for expressions or items DynamoDB would reject with a ValidationException
+ */
+export class MemoryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoryValidationError';
+  }
+}
+
+interface Token {
+  type: 'name' | 'value' | 'identifier' | 'number' | 'punctuation' | 'end';
+  text: string;
+}
+
+const TOKEN_PATTERN =
+  /\s*(?:(#[A-Za-z0-9_]+)|(:[A-Za-z0-9_]+)|([A-Za-z_][A-Za-z0-9_]*)|(\d+)|(<>|<=|>=|[=<>()[\],.+-]))/y;
+
+const CONDITION_FUNCTIONS = new Set([
+  'attribute_exists',
+  'attribute_not_exists',
+  'attribute_type',
+  'begins_with',
+  'contains',
+]);
+
+const UPDATE_CLAUSES = new Set(['SET', 'REMOVE', 'ADD', 'DELETE']);
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const trimmed = expression.trimEnd();
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < trimmed.length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(trimmed);
+    if (!match) {
+      throw new MemoryValidationError(
+        `Invalid expression: unexpected character at ${start} in "${expression}"`
+      );
+    }
+
+    const [, name, value, identifier, number, punctuation] = match;
+    const types: [string | undefined, Token['type']][] = [
+      [name, 'name'],
+      [value, 'value'],
+      [identifier, 'identifier'],
+      [number, 'number'],
+      [punctuation, 'punctuation'],
+    ];
+    const [text, type] = types.find(([candidate]) => candidate !== undefined)!;
+    tokens.push({ type, text: text! });
+  }
+
+  tokens.push({ type: 'end', text: '' });
+  return tokens;
+}
+
+class Parser {
+  private tokens: Token[];
+  private position = 0;
+  private context: ExpressionContext;
+  private expression: string;
+
+  constructor(expression: string, context: ExpressionContext) {
+    this.expression = expression;
+    this.tokens = tokenize(expression);
+    this.context = context;
+  }
+
+  parseCondition(): ConditionNode {
+    const condition = this.parseOr();
+    this.expectEnd();
+    return condition;
+  }
+
+  parseUpdate(): UpdateActionNode[] {
+    const actions: UpdateActionNode[] = [];
+    const seen = new Set<string>();
+
+    while (this.peek().type !== 'end') {
+      const clause = this.next();
+      const type = clause.text.toUpperCase();
+
+      if (clause.type !== 'identifier' || !UPDATE_CLAUSES.has(type)) {
+        this.fail(`expected SET, REMOVE, ADD or DELETE but found "${clause.text}"`);
+      }
+      if (seen.has(type)) {
+        this.fail(`the ${type} clause appears more than once`);
+      }
+      seen.add(type);
+
+      do {
+        const path = this.parsePath();
+
+        if (type === 'SET') {
+          this.expect('=');
+          actions.push({ type: 'SET', path, value: this.parseValue() });
+        } else if (type === 'REMOVE') {
+          actions.push({ type: 'REMOVE', path });
+        } else {
+          actions.push({
+            type: type as 'ADD' | 'DELETE',
+            path,
+            value: this.parseValueOperand(),
+          });
+        }
+      } while (this.accept(','));
+    }
+
+    if (actions.length === 0) {
+      this.fail('update expression is empty');
+    }
+
+    return actions;
+  }
+
+  parseProjection(): AttributePath[] {
+    const paths = [this.parsePath()];
+
+    while (this.accept(',')) {
+      paths.push(this.parsePath());
+    }
+
+    this.expectEnd();
+    return paths;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'and', left, right: this.parseNot() };
+    }
+
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ConditionNode {
+    if (this.accept('(')) {
+      const condition = this.parseOr();
+      this.expect(')');
+      return condition;
+    }
+
+    const token = this.peek();
+    if (
+      token.type === 'identifier' &&
+      CONDITION_FUNCTIONS.has(token.text) &&
+      this.peek(1).text === '('
+    ) {
+      this.next();
+      this.expect('(');
+      const args = [this.parseOperand()];
+      while (this.accept(',')) {
+        args.push(this.parseOperand());
+      }
+      this.expect(')');
+      return { kind: 'function', name: token.text, args };
+    }
+
+    const operand = this.parseOperand();
+
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parseOperand();
+      if (!this.acceptKeyword('AND')) {
+        this.fail('BETWEEN expects AND');
+      }
+      return { kind: 'between', operand, low, high: this.parseOperand() };
+    }
+
+    if (this.acceptKeyword('IN')) {
+      this.expect('(');
+      const values = [this.parseOperand()];
+      while (this.accept(',')) {
+        values.push(this.parseOperand());
+      }
+      this.expect(')');
+      return { kind: 'in', operand, values };
+    }
+
+    const comparator = this.next();
+    if (!['=', '<>', '<', '<=', '>', '>='].includes(comparator.text)) {
+      this.fail(`expected a comparator but found "${comparator.text}"`);
+    }
+
+    return {
+      kind: 'compare',
+      comparator: comparator.text as Comparator,
+      left: operand,
+      right: this.parseOperand(),
+    };
+  }
+
+  private parseValue(): ValueNode {
+    const left = this.parseValueTerm();
+    const operator = this.peek().text;
+
+    if (operator === '+' || operator === '-') {
+      this.next();
+      return { kind: 'arithmetic', operator, left, right: this.parseValueTerm() };
+    }
+
+    return left;
+  }
+
+  private parseValueTerm(): ValueNode {
+    const token = this.peek();
+
+    if (token.type === 'identifier' && this.peek(1).text === '(') {
+      if (token.text === 'if_not_exists') {
+        this.next();
+        this.expect('(');
+        const path = this.parsePath();
+        this.expect(',');
+        const fallback = this.parseValue();
+        this.expect(')');
+        return { kind: 'ifNotExists', path, fallback };
+      }
+
+      if (token.text === 'list_append') {
+        this.next();
+        this.expect('(');
+        const left = this.parseValue();
+        this.expect(',');
+        const right = this.parseValue();
+        this.expect(')');
+        return { kind: 'listAppend', left, right };
+      }
+    }
+
+    return this.parseOperand();
+  }
+
+  private parseOperand(): Operand {
+    const token = this.peek();
+
+    if (token.type === 'value') {
+      return this.parseValueOperand();
+    }
+
+    if (token.type === 'identifier' && token.text === 'size' && this.peek(1).text === '(') {
+      this.next();
+      this.expect('(');
+      const path = this.parsePath();
+      this.expect(')');
+      return { kind: 'size', path };
+    }
+
+    return { kind: 'path', path: this.parsePath() };
+  }
+
+  private parseValueOperand(): Operand {
+    const token = this.next();
+
+    if (token.type !== 'value') {
+      this.fail(`expected a value placeholder but found "${token.text}"`);
+    }
+    if (!this.context.values || !(token.text in this.context.values)) {
+      throw new MemoryValidationError(
+        `Value provided in ExpressionAttributeValues unused or missing: ${token.text}`
+      );
+    }
+
+    return { kind: 'value', value: this.context.values[token.text] };
+  }
+
+  private parsePath(): AttributePath {
+    const path: AttributePath = [this.parseName()];
+
+    for (;;) {
+      if (this.accept('[')) {
+        const index = this.next();
+        if (index.type !== 'number') {
+          this.fail('list index must be a number');
+        }
+        path.push(Number(index.text));
+        this.expect(']');
+      } else if (this.accept('.')) {
+        path.push(this.parseName());
+      } else {
+        return path;
+      }
+    }
+  }
+
+  private parseName(): string {
+    const token = this.next();
+
+    if (token.type === 'identifier') {
+      return token.text;
+    }
+
+    if (token.type === 'name') {
+      const name = this.context.names?.[token.text];
+      if (name === undefined) {
+        throw new MemoryValidationError(
+          `ExpressionAttributeNames is missing ${token.text}`
+        );
+      }
+      return name;
+    }
+
+    return this.fail(`expected an attribute name but found "${token.text}"`);
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.position++;
+    }
+    return token;
+  }
+
+  private accept(text: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.text === text) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier' && token.text.toUpperCase() === keyword) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(text: string): void {
+    if (!this.accept(text)) {
+      this.fail(`expected "${text}" but found "${this.peek().text}"`);
+    }
+  }
+
+  private expectEnd(): void {
+    if (this.peek().type !== 'end') {
+      this.fail(`unexpected "${this.peek().text}"`);
+    }
+  }
+
+  private fail(message: string): never {
+    throw new MemoryValidationError(`Invalid expression "${this.expression}": ${message}`);
+  }
+}
+
+/**
+ * Parses a condition, key condition or filter expression
+ */
+export function parseCondition(
+  expression: string,
+  context: ExpressionContext
+): ConditionNode {
+  return new Parser(expression, context).parseCondition();
+}
+
+/**
+ * Parses an update expression into its actions
+ */
+export function parseUpdate(
+  expression: string,
+  context: ExpressionContext
+): UpdateActionNode[] {
+  return new Parser(expression, context).parseUpdate();
+}
+
+/**
+ * Parses a projection expression into attribute paths
+ */
+export function parseProjection(
+  expression: string,
+  names: Record<string, string> | undefined
+): AttributePath[] {
+  return new Parser(expression, { names }).parseProjection();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !(value instanceof Set) &&
+    !(value instanceof Uint8Array)
+  );
+}
+
+/**
+ * Compares two scalar key values the way DynamoDB orders them
+ * Numbers compare numerically, strings and binary compare by their UTF-8 bytes
+ */
+export function compareValues(left: unknown, right: unknown): number {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+
+  if (typeof left === 'string' && typeof right === 'string') {
+    return Buffer.compare(Buffer.from(left), Buffer.from(right));
+  }
+
+  if (left instanceof Uint8Array && right instanceof Uint8Array) {
+    return Buffer.compare(left, right);
+  }
+
+  throw new MemoryValidationError('Only strings, numbers and binary values can be ordered');
+}
+
+/**
+ * Checks whether two attribute values are equal, comparing sets, lists and maps by content
+ */
+export function valuesEqual(left: unknown, right: unknown): boolean {
+  if (left instanceof Uint8Array && right instanceof Uint8Array) {
+    return Buffer.compare(left, right) === 0;
+  }
+
+  if (left instanceof Set && right instanceof Set) {
+    return (
+      left.size === right.size &&
+      [...left].every((element) => [...right].some((other) => valuesEqual(element, other)))
+    );
+  }
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return (
+      left.length === right.length &&
+      left.every((element, index) => valuesEqual(element, right[index]))
+    );
+  }
+
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const keys = Object.keys(left);
+    return (
+      keys.length === Object.keys(right).length &&
+      keys.every((key) => key in right && valuesEqual(left[key], right[key]))
+    );
+  }
+
+  return left === right;
+}
+
+/**
+ * Gets the DynamoDB type descriptor of a document value
+ */
+export function attributeType(value: unknown): string {
+  if (typeof value === 'string') {
+    return 'S';
+  }
+  if (typeof value === 'number' || typeof value === 'bigint') {
+    return 'N';
+  }
+  if (typeof value === 'boolean') {
+    return 'BOOL';
+  }
+  if (value === null) {
+    return 'NULL';
+  }
+  if (value instanceof Uint8Array) {
+    return 'B';
+  }
+  if (Array.isArray(value)) {
+    return 'L';
+  }
+  if (value instanceof Set) {
+    const first = value.values().next().value;
+    if (typeof first === 'number' || typeof first === 'bigint') {
+      return 'NS';
+    }
+    if (first instanceof Uint8Array) {
+      return 'BS';
+    }
+    return 'SS';
+  }
+  return 'M';
+}
+
+/**
+ * Reads the value at a path, or undefined when any part of it is missing
+ */
+export function getPath(item: Record<string, unknown>, path: AttributePath): unknown {
+  let current: unknown = item;
+
+  for (const element of path) {
+    if (typeof element === 'number') {
+      if (!Array.isArray(current)) {
+        return undefined;
+      }
+      current = current[element];
+    } else {
+      if (!isPlainObject(current)) {
+        return undefined;
+      }
+      current = current[element];
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Writes a value at a path
+ * The parent must already exist, and list indexes past the end append to the list
+ */
+export function setPath(
+  item: Record<string, unknown>,
+  path: AttributePath,
+  value: unknown
+): void {
+  const parent = path.length === 1 ? item : getPath(item, path.slice(0, -1));
+  const last = path[path.length - 1];
+
+  if (typeof last === 'number') {
+    if (!Array.isArray(parent)) {
+      throw new MemoryValidationError(
+        'The document path provided in the update expression is invalid for update'
+      );
+    }
+    parent[Math.min(last, parent.length)] = value;
+    return;
+  }
+
+  if (!isPlainObject(parent)) {
+    throw new MemoryValidationError(
+      'The document path provided in the update expression is invalid for update'
+    );
+  }
+  parent[last] = value;
+}
+
+/**
+ * Removes the value at a path, if it exists
+ */
+export function removePath(item: Record<string, unknown>, path: AttributePath): void {
+  const parent = path.length === 1 ? item : getPath(item, path.slice(0, -1));
+  const last = path[path.length - 1];
+
+  if (typeof last === 'number') {
+    if (Array.isArray(parent) && last < parent.length) {
+      parent.splice(last, 1);
+    }
+  } else if (isPlainObject(parent)) {
+    delete parent[last];
+  }
+}
+
+function sizeOf(value: unknown): number | undefined {
+  if (typeof value === 'string') {
+    return Buffer.byteLength(value);
+  }
+  if (value instanceof Uint8Array) {
+    return value.length;
+  }
+  if (Array.isArray(value)) {
+    return value.length;
+  }
+  if (value instanceof Set) {
+    return value.size;
+  }
+  if (isPlainObject(value)) {
+    return Object.keys(value).length;
+  }
+  return undefined;
+}
+
+function resolveOperand(item: Record<string, unknown>, operand: Operand): unknown {
+  switch (operand.kind) {
+    case 'value':
+      return operand.value;
+    case 'path':
+      return getPath(item, operand.path);
+    case 'size':
+      return sizeOf(getPath(item, operand.path));
+  }
+}
+
+function isOrderable(value: unknown): boolean {
+  return typeof value === 'string' || typeof value === 'number' || value instanceof Uint8Array;
+}
+
+function compare(left: unknown, right: unknown, comparator: Comparator): boolean {
+  if (comparator === '=') {
+    return left !== undefined && right !== undefined && valuesEqual(left, right);
+  }
+  if (comparator === '<>') {
+    return !valuesEqual(left, right);
+  }
+  if (
+    !isOrderable(left) ||
+    !isOrderable(right) ||
+    attributeType(left) !== attributeType(right)
+  ) {
+    return false;
+  }
+
+  const order = compareValues(left, right);
+  switch (comparator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+}
+
+function evaluateFunction(
+  item: Record<string, unknown>,
+  name: string,
+  args: Operand[]
+): boolean {
+  const [target, argument] = args;
+
+  if (target.kind !== 'path') {
+    throw new MemoryValidationError(`${name} expects an attribute path as its first argument`);
+  }
+
+  const value = getPath(item, target.path);
+
+  switch (name) {
+    case 'attribute_exists':
+      return value !== undefined;
+    case 'attribute_not_exists':
+      return value === undefined;
+    case 'attribute_type':
+      return value !== undefined && attributeType(value) === resolveOperand(item, argument);
+    case 'begins_with': {
+      const prefix = resolveOperand(item, argument);
+      if (typeof value === 'string' && typeof prefix === 'string') {
+        return value.startsWith(prefix);
+      }
+      if (value instanceof Uint8Array && prefix instanceof Uint8Array) {
+        return Buffer.compare(value.subarray(0, prefix.length), prefix) === 0;
+      }
+      return false;
+    }
+    default: {
+      const operand = resolveOperand(item, argument);
+      if (typeof value === 'string') {
+        return typeof operand === 'string' && value.includes(operand);
+      }
+      if (value instanceof Set || Array.isArray(value)) {
+        return [...value].some((element) => valuesEqual(element, operand));
+      }
+      return false;
+    }
+  }
+}
+
+/**
+ * Evaluates a parsed condition against an item, treating a missing item as empty
+ */
+export function evaluateCondition(
+  item: Record<string, unknown> | undefined,
+  condition: ConditionNode
+): boolean {
+  const target = item ?? {};
+
+  switch (condition.kind) {
+    case 'and':
+      return evaluateCondition(target, condition.left) && evaluateCondition(target, condition.right);
+    case 'or':
+      return evaluateCondition(target, condition.left) || evaluateCondition(target, condition.right);
+    case 'not':
+      return !evaluateCondition(target, condition.operand);
+    case 'function':
+      return evaluateFunction(target, condition.name, condition.args);
+    case 'compare':
+      return compare(
+        resolveOperand(target, condition.left),
+        resolveOperand(target, condition.right),
+        condition.comparator
+      );
+    case 'between': {
+      const value = resolveOperand(target, condition.operand);
+      return (
+        compare(value, resolveOperand(target, condition.low), '>=') &&
+        compare(value, resolveOperand(target, condition.high), '<=')
+      );
+    }
+    case 'in': {
+      const value = resolveOperand(target, condition.operand);
+      return condition.values.some((candidate) =>
+        compare(value, resolveOperand(target, candidate), '=')
+      );
+    }
+  }
+}
+
+function evaluateValue(item: Record<string, unknown>, node: ValueNode): unknown {
+  switch (node.kind) {
+    case 'ifNotExists': {
+      const existing = getPath(item, node.path);
+      return existing === undefined ? evaluateValue(item, node.fallback) : existing;
+    }
+    case 'listAppend': {
+      const left = evaluateValue(item, node.left);
+      const right = evaluateValue(item, node.right);
+      if (!Array.isArray(left) || !Array.isArray(right)) {
+        throw new MemoryValidationError('list_append expects two lists');
+      }
+      return [...left, ...right];
+    }
+    case 'arithmetic': {
+      const left = evaluateValue(item, node.left);
+      const right = evaluateValue(item, node.right);
+      if (typeof left !== 'number' || typeof right !== 'number') {
+        throw new MemoryValidationError(
+          'An operand in the update expression has an incorrect data type'
+        );
+      }
+      return node.operator === '+' ? left + right : left - right;
+    }
+    default: {
+      const value = resolveOperand(item, node);
+      if (value === undefined) {
+        throw new MemoryValidationError(
+          'The provided expression refers to an attribute that does not exist in the item'
+        );
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Applies parsed update actions to an item in place
+ * Values are all read from the item as it was before the update, as DynamoDB does
+ */
+export function applyUpdate(
+  item: Record<string, unknown>,
+  actions: UpdateActionNode[]
+): void {
+  const before = structuredClone(item);
+  const removals: AttributePath[] = [];
+
+  for (const action of actions) {
+    switch (action.type) {
+      case 'SET':
+        setPath(item, action.path, structuredClone(evaluateValue(before, action.value)));
+        break;
+      case 'REMOVE':
+        removals.push(action.path);
+        break;
+      case 'ADD': {
+        const existing = getPath(item, action.path);
+        const value = action.value.kind === 'value' ? action.value.value : undefined;
+
+        if (typeof value === 'number') {
+          if (existing !== undefined && typeof existing !== 'number') {
+            throw new MemoryValidationError('ADD expects a number attribute');
+          }
+          setPath(item, action.path, (existing ?? 0) + value);
+        } else if (value instanceof Set) {
+          if (existing !== undefined && !(existing instanceof Set)) {
+            throw new MemoryValidationError('ADD expects a set attribute');
+          }
+          setPath(item, action.path, new Set([...(existing ?? []), ...value]));
+        } else {
+          throw new MemoryValidationError('ADD only supports numbers and sets');
+        }
+        break;
+      }
+      case 'DELETE': {
+        const existing = getPath(item, action.path);
+        const value = action.value.kind === 'value' ? action.value.value : undefined;
+
+        if (!(value instanceof Set)) {
+          throw new MemoryValidationError('DELETE only supports sets');
+        }
+        if (existing instanceof Set) {
+          const remaining = [...existing].filter(
+            (element) => ![...value].some((removed) => valuesEqual(element, removed))
+          );
+          // DynamoDB doesn't store empty sets, so the attribute is removed
+          if (remaining.length > 0) {
+            setPath(item, action.path, new Set(remaining));
+          } else {
+            removePath(item, action.path);
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  // Remove list elements from the highest index down, so earlier removals don't shift later ones
+  removals
+    .sort((left, right) => {
+      const a = left[left.length - 1];
+      const b = right[right.length - 1];
+      return typeof a === 'number' && typeof b === 'number' ? b - a : 0;
+    })
+    .forEach((path) => removePath(item, path));
+}
+
+/**
+ * Copies only the projected paths of an item
+ */
+export function projectItem(
+  item: Record<string, unknown>,
+  paths: AttributePath[]
+): Record<string, unknown> {
+  const projected: Record<string, unknown> = {};
+
+  for (const path of paths) {
+    const value = getPath(item, path);
+    if (value === undefined) {
+      continue;
+    }
+
+    let target: Record<string, unknown> | unknown[] = projected;
+    let source: unknown = item;
+
+    path.forEach((element, index) => {
+      source = (source as Record<string | number, unknown>)[element];
+
+      if (index === path.length - 1) {
+        if (Array.isArray(target)) {
+          target.push(structuredClone(value));
+        } else {
+          target[element as string] = structuredClone(value);
+        }
+        return;
+      }
+
+      const container = Array.isArray(source) ? [] : {};
+      if (Array.isArray(target)) {
+        target.push(container);
+        target = container;
+      } else {
+        target[element as string] ??= container;
+        target = target[element as string] as Record<string, unknown> | unknown[];
+      }
+    });
+  }
+
+  return projected;
+}
@@ -0,0 +1,366 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConditionalCheckFailedError, TransactionCanceledError, VersionConflictError } from './errors.js';
+import { InMemoryDynamoDB } from './memory.js';
+import { update } from './update.js';
+import {
+  createInMemoryDynamoDBClient,
+  type DynamoDBClientWrapper,
+} from './index.js';
+
+const TABLE = 'scryscraper';
+
+const card = (collectorNumber: string, extra: Record<string, unknown> = {}) => ({
+  pk: 'SET#tla',
+  sk: `CARD#${collectorNumber}`,
+  name: `Card ${collectorNumber}`,
+  ...extra,
+});
+
+describe('InMemoryDynamoDB', () => {
+  let engine: InMemoryDynamoDB;
+  let client: DynamoDBClientWrapper;
+
+  beforeEach(() => {
+    engine = new InMemoryDynamoDB({
+      [TABLE]: {
+        partitionKey: 'pk',
+        sortKey: 'sk',
+        indexes: { byRarity: { partitionKey: 'rarity', sortKey: 'usd' } },
+      },
+    });
+    client = createInMemoryDynamoDBClient({
+      tableName: TABLE,
+      engine,
+      batchRetry: { baseDelayMs: 0 },
+    });
+  });
+
+  describe('items', () => {
+    it('should store, get and delete items', async () => {
+      await client.putItem(card('001'));
+
+      expect(await client.getItem({ pk: 'SET#tla', sk: 'CARD#001' })).toEqual(card('001'));
+
+      await client.deleteItem({ pk: 'SET#tla', sk: 'CARD#001' });
+      expect(await client.getItem({ pk: 'SET#tla', sk: 'CARD#001' })).toBeNull();
+    });
+
+    it('should return copies, so callers cannot change stored items', async () => {
+      const item = card('001', { tags: ['a'] });
+      await client.putItem(item);
+      item.tags.push('b');
+
+      const stored = await client.getItem<{ tags: string[] }>({ pk: 'SET#tla', sk: 'CARD#001' });
+      stored?.tags.push('c');
+
+      expect(engine.getItems(TABLE)[0].tags).toEqual(['a']);
+    });
+
+    it('should reject items without their key and keys that do not match the schema', async () => {
+      await expect(client.putItem({ pk: 'SET#tla' })).rejects.toMatchObject({
+        name: 'ValidationException',
+      });
+      await expect(client.getItem({ pk: 'SET#tla' })).rejects.toMatchObject({
+        name: 'ValidationException',
+      });
+    });
+
+    it('should reject undefined values like the DocumentClient does', async () => {
+      await expect(client.putItem(card('001', { usd: undefined }))).rejects.toThrow(
+        'removeUndefinedValues'
+      );
+    });
+
+    it('should throw ResourceNotFoundException for unknown tables', async () => {
+      const other = createInMemoryDynamoDBClient({ tableName: 'other', engine });
+      engine.deleteTable('other');
+
+      await expect(other.getItem({ pk: 'A', sk: 'B' })).rejects.toMatchObject({
+        name: 'ResourceNotFoundException',
+      });
+    });
+  });
+
+  describe('conditions', () => {
+    it('should evaluate condition expressions against the stored item', async () => {
+      await client.putItem(card('001', { usd: 2 }), { condition: { pk: { exists: false } } });
+
+      await expect(
+        client.putItem(card('001'), { condition: { pk: { exists: false } } })
+      ).rejects.toBeInstanceOf(ConditionalCheckFailedError);
+
+      await expect(
+        client.deleteItem(
+          { pk: 'SET#tla', sk: 'CARD#001' },
+          { condition: { usd: { gt: 5 } } }
+        )
+      ).rejects.toBeInstanceOf(ConditionalCheckFailedError);
+
+      await client.deleteItem(
+        { pk: 'SET#tla', sk: 'CARD#001' },
+        { condition: { usd: { between: [1, 3] }, name: { beginsWith: 'Card' } } }
+      );
+      expect(engine.getItems(TABLE)).toEqual([]);
+    });
+
+    it('should enforce optimistic locking', async () => {
+      const locked = createInMemoryDynamoDBClient({
+        tableName: TABLE,
+        engine,
+        versionAttribute: 'version',
+      });
+
+      const created = await locked.putItem(card('001'));
+      expect(created.version).toBe(1);
+
+      await locked.putItem({ ...created, name: 'Renamed' });
+      await expect(locked.putItem({ ...created, name: 'Stale' })).rejects.toBeInstanceOf(
+        VersionConflictError
+      );
+
+      const updated = await locked.updateItem(
+        { pk: 'SET#tla', sk: 'CARD#001' },
+        (item) => item.set('usd', 1),
+        { expectedVersion: 2 }
+      );
+      expect(updated).toMatchObject({ name: 'Renamed', usd: 1, version: 3 });
+
+      const rejected = await locked
+        .putItem({ ...updated!, name: 'Draft' }, { condition: { name: 'Missing' } })
+        .catch((caught: unknown) => caught);
+      expect(rejected).toBeInstanceOf(ConditionalCheckFailedError);
+      expect(rejected).not.toBeInstanceOf(VersionConflictError);
+      await expect(locked.putItem(card('001'))).rejects.toBeInstanceOf(VersionConflictError);
+    });
+  });
+
+  describe('updates', () => {
+    it('should apply SET, REMOVE, ADD and DELETE actions', async () => {
+      await client.putItem(
+        card('001', {
+          prices: { usd: 1, eur: 2 },
+          history: [1],
+          tags: new Set(['old', 'keep']),
+          faces: [{ name: 'Front' }, { name: 'Back' }],
+        })
+      );
+
+      const updated = await client.updateItem(
+        { pk: 'SET#tla', sk: 'CARD#001' },
+        update()
+          .set('prices.usd', 1.5)
+          .remove('prices.eur')
+          .increment('views')
+          .appendToList('history', [2])
+          .prependToList('recent', ['x'])
+          .add('tags', new Set(['new']))
+          .delete('tags', new Set(['old']))
+          .setIfNotExists('name', 'Ignored')
+          .remove('faces[0]')
+      );
+
+      expect(updated).toEqual({
+        ...card('001'),
+        prices: { usd: 1.5 },
+        views: 1,
+        history: [1, 2],
+        recent: ['x'],
+        tags: new Set(['keep', 'new']),
+        faces: [{ name: 'Back' }],
+      });
+    });
+
+    it('should create the item when updating a missing key', async () => {
+      await client.updateItem({ pk: 'SET#tla', sk: 'CARD#002' }, (item) => item.add('count', 2));
+
+      expect(engine.getItems(TABLE)).toEqual([{ pk: 'SET#tla', sk: 'CARD#002', count: 2 }]);
+    });
+
+    it('should refuse to update key attributes or missing parents', async () => {
+      await expect(
+        client.updateItem({ pk: 'SET#tla', sk: 'CARD#001' }, (item) => item.set('sk', 'X'))
+      ).rejects.toMatchObject({ name: 'ValidationException' });
+
+      await expect(
+        client.updateItem({ pk: 'SET#tla', sk: 'CARD#001' }, (item) =>
+          item.set('prices.usd', 1)
+        )
+      ).rejects.toThrow('document path provided in the update expression is invalid');
+    });
+
+    it('should honour ReturnValues', async () => {
+      await client.putItem(card('001', { usd: 1, eur: 2 }));
+
+      const old = await client.updateItem(
+        { pk: 'SET#tla', sk: 'CARD#001' },
+        (item) => item.set('usd', 3),
+        { returnValues: 'UPDATED_OLD' }
+      );
+
+      expect(old).toEqual({ usd: 1 });
+    });
+  });
+
+  describe('query and scan', () => {
+    beforeEach(() => {
+      engine.seed(TABLE, [
+        card('010', { rarity: 'rare', usd: 5 }),
+        card('002', { rarity: 'common', usd: 0.1 }),
+        card('001', { rarity: 'rare', usd: 2 }),
+        { pk: 'SET#one', sk: 'CARD#001', name: 'Other set' },
+        { pk: 'SET#tla', sk: 'SET', name: 'Avatar' },
+      ]);
+    });
+
+    it('should return a partition in sort key order', async () => {
+      const page = await client.query({
+        keyCondition: { pk: 'SET#tla', sk: { beginsWith: 'CARD#' } },
+      });
+
+      expect(page.items.map((item) => item.sk)).toEqual(['CARD#001', 'CARD#002', 'CARD#010']);
+      expect(page.cursor).toBeUndefined();
+    });
+
+    it('should read backwards and page with cursors', async () => {
+      const first = await client.query({
+        keyCondition: { pk: 'SET#tla' },
+        scanIndexForward: false,
+        limit: 2,
+      });
+      const second = await client.query({
+        keyCondition: { pk: 'SET#tla' },
+        scanIndexForward: false,
+        limit: 2,
+        cursor: first.cursor,
+      });
+
+      expect(first.items.map((item) => item.sk)).toEqual(['SET', 'CARD#010']);
+      expect(second.items.map((item) => item.sk)).toEqual(['CARD#002', 'CARD#001']);
+      expect(second.cursor).toBeUndefined();
+    });
+
+    it('should apply filters after the limit', async () => {
+      const page = await client.query({
+        keyCondition: { pk: 'SET#tla' },
+        filter: { rarity: 'rare' },
+        limit: 2,
+      });
+
+      expect(page.items.map((item) => item.sk)).toEqual(['CARD#001']);
+      expect(page.count).toBe(1);
+      expect(page.scannedCount).toBe(2);
+      expect(page.cursor).toBeDefined();
+    });
+
+    it('should query sparse secondary indexes in numeric order', async () => {
+      const page = await client.query({
+        indexName: 'byRarity',
+        keyCondition: { rarity: 'rare', usd: { gte: 1 } },
+        projection: ['name', 'usd'],
+      });
+
+      expect(page.items).toEqual([
+        { name: 'Card 001', usd: 2 },
+        { name: 'Card 010', usd: 5 },
+      ]);
+    });
+
+    it('should split a scan across segments', async () => {
+      const segments = await Promise.all(
+        [0, 1, 2].map((segment) => client.scan({ segment, totalSegments: 3 }))
+      );
+      const keys = segments.flatMap((page) => page.items.map((item) => `${item.pk}|${item.sk}`));
+
+      expect(keys.sort()).toEqual(
+        engine.getItems(TABLE).map((item) => `${item.pk}|${item.sk}`).sort()
+      );
+    });
+  });
+
+  describe('batches and simulations', () => {
+    it('should leave simulated unprocessed items for the wrapper to retry', async () => {
+      engine.simulateUnprocessed(5, 2);
+
+      const result = await client.batchPutItems(
+        Array.from({ length: 30 }, (_, i) => card(String(i).padStart(3, '0')))
+      );
+
+      expect(result).toEqual({ written: 30, failed: 0, unprocessed: [] });
+      expect(engine.getItems(TABLE)).toHaveLength(30);
+      expect(engine.getRequestCount('batchWrite')).toBe(4);
+    });
+
+    it('should return unprocessed keys from batch gets', async () => {
+      engine.seed(TABLE, [card('001'), card('002')]);
+      engine.simulateUnprocessed(1, 10);
+
+      const result = await client.batchGetItems(
+        [
+          { pk: 'SET#tla', sk: 'CARD#001' },
+          { pk: 'SET#tla', sk: 'CARD#002' },
+        ],
+        { retry: { maxAttempts: 2, baseDelayMs: 0 } }
+      );
+
+      expect(result.items).toEqual([card('001')]);
+      expect(result.unprocessedKeys).toEqual([{ pk: 'SET#tla', sk: 'CARD#002' }]);
+    });
+
+    it('should throttle the next requests on demand', async () => {
+      engine.simulateThrottling(1, ['get']);
+
+      await client.putItem(card('001'));
+      await expect(
+        client.getItem({ pk: 'SET#tla', sk: 'CARD#001' })
+      ).rejects.toMatchObject({ name: 'ProvisionedThroughputExceededException' });
+      await expect(client.getItem({ pk: 'SET#tla', sk: 'CARD#001' })).resolves.toEqual(
+        card('001')
+      );
+    });
+  });
+
+  describe('transactions', () => {
+    it('should apply all items or none', async () => {
+      await client.putItem(card('001'));
+
+      const error = await client
+        .transactWrite([
+          { type: 'put', item: card('002') },
+          { type: 'put', item: card('001'), condition: { pk: { exists: false } } },
+        ])
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(TransactionCanceledError);
+      expect((error as TransactionCanceledError).failures).toMatchObject([
+        { index: 1, code: 'ConditionalCheckFailed' },
+      ]);
+      expect(engine.getItems(TABLE)).toEqual([card('001')]);
+
+      await client.transactWrite([
+        { type: 'put', item: card('002') },
+        { type: 'update', key: { pk: 'SET#tla', sk: 'CARD#001' }, update: (item) => item.increment('views') },
+      ]);
+
+      expect(
+        await client.transactGet([
+          { key: { pk: 'SET#tla', sk: 'CARD#001' } },
+          { key: { pk: 'SET#tla', sk: 'CARD#002' } },
+          { key: { pk: 'SET#tla', sk: 'CARD#003' } },
+        ])
+      ).toEqual([card('001', { views: 1 }), card('002'), null]);
+    });
+
+    it('should only apply a client request token once', async () => {
+      const increment = () =>
+        client.transactWrite(
+          [{ type: 'update', key: { pk: 'SET#tla', sk: 'SET' }, update: (item) => item.increment('runs') }],
+          { clientRequestToken: 'run-1' }
+        );
+
+      await increment();
+      await increment();
+
+      expect(engine.getItems(TABLE)).toEqual([{ pk: 'SET#tla', sk: 'SET', runs: 1 }]);
+    });
+  });
+});
@@ -0,0 +1,943 @@
+import {
+  ConditionalCheckFailedException,
+  DynamoDBServiceException,
+  type DynamoDBClient,
+  ProvisionedThroughputExceededException,
+  ResourceNotFoundException,
+  TransactionCanceledException,
+} from '@aws-sdk/client-dynamodb';
+import {
+  BatchGetCommand,
+  BatchWriteCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactGetCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+  type BatchGetCommandInput,
+  type BatchWriteCommandInput,
+  type DeleteCommandInput,
+  type DynamoDBDocumentClient,
+  type GetCommandInput,
+  type PutCommandInput,
+  type QueryCommandInput,
+  type ScanCommandInput,
+  type TransactGetCommandInput,
+  type TransactWriteCommandInput,
+  type UpdateCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import {
+  applyUpdate,
+  compareValues,
+  evaluateCondition,
+  MemoryValidationError,
+  parseCondition,
+  parseProjection,
+  parseUpdate,
+  projectItem,
+  type ExpressionContext,
+} from './memory-expressions.js';
+import type { DynamoDBKey } from './query.js';
+
+/**
+ * Key attributes of a table or secondary index
+ */
+export interface InMemoryKeySchema {
+  partitionKey: string;
+  sortKey?: string;
+}
+
+/**
+ * Key schema of an in-memory table, with its secondary indexes
+ * Indexes project all attributes
+ */
+export interface InMemoryTableSchema extends InMemoryKeySchema {
+  indexes?: Record<string, InMemoryKeySchema>;
+}
+
+/**
+ * Operations the in-memory engine handles, for counting requests and simulating throttling
+ */
+export type InMemoryOperation =
+  | 'put'
+  | 'get'
+  | 'update'
+  | 'delete'
+  | 'query'
+  | 'scan'
+  | 'batchWrite'
+  | 'batchGet'
+  | 'transactWrite'
+  | 'transactGet';
+
+type Item = Record<string, unknown>;
+
+interface InMemoryTable {
+  name: string;
+  schema: InMemoryTableSchema;
+  items: Map<string, Item>;
+}
+
+/**
+ * The outcome of evaluating a single write, before it is applied
+ */
+interface PreparedWrite {
+  table: InMemoryTable;
+  key: string;
+  existing: Item | undefined;
+  /**
+   * The item after the write, or undefined when the write deletes it
+   */
+  next: Item | undefined;
+  passed: boolean;
+}
+
+const DEFAULT_SCHEMA: InMemoryTableSchema = { partitionKey: 'pk', sortKey: 'sk' };
+
+// DynamoDB's per-request limits
+const MAX_BATCH_WRITE_REQUESTS = 25;
+const MAX_BATCH_GET_KEYS = 100;
+const MAX_TRANSACTION_ITEMS = 100;
+
+function validationError(message: string): DynamoDBServiceException {
+  return new DynamoDBServiceException({
+    name: 'ValidationException',
+    $fault: 'client',
+    $metadata: {},
+    message,
+  });
+}
+
+/**
+ * Returns the stored item, marshalled as DynamoDB does, when the write asked for it with
+ * ReturnValuesOnConditionCheckFailure: 'ALL_OLD'
+ */
+function conditionFailed(
+  input: { ReturnValuesOnConditionCheckFailure?: string } = {},
+  existing?: Item
+): ConditionalCheckFailedException {
+  return new ConditionalCheckFailedException({
+    message: 'The conditional request failed',
+    $metadata: {},
+    Item:
+      input.ReturnValuesOnConditionCheckFailure === 'ALL_OLD' && existing
+        ? marshall(existing)
+        : undefined,
+  });
+}
+
+function contextOf(input: {
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues?: Record<string, unknown>;
+}): ExpressionContext {
+  return {
+    names: input.ExpressionAttributeNames,
+    values: input.ExpressionAttributeValues,
+  };
+}
+
+function checkCondition(
+  item: Item | undefined,
+  expression: string | undefined,
+  context: ExpressionContext
+): boolean {
+  return !expression || evaluateCondition(item, parseCondition(expression, context));
+}
+
+function project(
+  item: Item,
+  expression: string | undefined,
+  names: Record<string, string> | undefined
+): Item {
+  return expression
+    ? projectItem(item, parseProjection(expression, names))
+    : structuredClone(item);
+}
+
+/**
+ * Rejects undefined values the way the DocumentClient's marshaller does
+ */
+function assertNoUndefined(value: unknown): void {
+  if (value === undefined) {
+    throw new Error(
+      'Pass options.removeUndefinedValues=true to remove undefined values from map/array/set.'
+    );
+  }
+  if (Array.isArray(value) || value instanceof Set) {
+    value.forEach(assertNoUndefined);
+  } else if (value && typeof value === 'object' && !(value instanceof Uint8Array)) {
+    Object.values(value).forEach(assertNoUndefined);
+  }
+}
+
+function isKeyValue(value: unknown): boolean {
+  return (
+    (typeof value === 'string' && value.length > 0) ||
+    typeof value === 'number' ||
+    (value instanceof Uint8Array && value.length > 0)
+  );
+}
+
+function serialiseKeyValue(value: unknown): string {
+  return value instanceof Uint8Array
+    ? `B:${Buffer.from(value).toString('base64')}`
+    : `${typeof value === 'number' ? 'N' : 'S'}:${String(value)}`;
+}
+
+// FNV-1a, so parallel scan segments split items the same way on every run
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+
+  return result >>> 0;
+}
+
+/**
+ * An in-memory DynamoDB that understands the DocumentClient commands the wrapper sends
+ * Items are stored per table and ordered by partition and sort key; key conditions, filters,
+ * condition and update expressions are evaluated, and UnprocessedItems and throttling can be
+ * simulated on demand
+ *
+ * @example
+ * const engine = new InMemoryDynamoDB({ scryscraper: { partitionKey: 'pk', sortKey: 'sk' } });
+ * const client = new DynamoDBClientWrapper({ tableName: 'scryscraper', docClient: engine.asDocumentClient() });
+ */
+export class InMemoryDynamoDB {
+  private tables = new Map<string, InMemoryTable>();
+  private requestTokens = new Set<string>();
+  private requestCounts = new Map<InMemoryOperation, number>();
+  private throttles: { remaining: number; operations?: InMemoryOperation[] }[] = [];
+  private unprocessed: { perCall: number; remaining: number } | null = null;
+
+  constructor(tables: Record<string, InMemoryTableSchema> = {}) {
+    for (const [tableName, schema] of Object.entries(tables)) {
+      this.createTable(tableName, schema);
+    }
+  }
+
+  /**
+   * Creates an empty table, replacing any table with the same name
+   */
+  createTable(tableName: string, schema: InMemoryTableSchema = DEFAULT_SCHEMA): void {
+    this.tables.set(tableName, { name: tableName, schema, items: new Map() });
+  }
+
+  /**
+   * Checks whether a table exists
+   */
+  hasTable(tableName: string): boolean {
+    return this.tables.has(tableName);
+  }
+
+  /**
+   * Deletes a table and all of its items
+   */
+  deleteTable(tableName: string): void {
+    this.tables.delete(tableName);
+  }
+
+  /**
+   * Returns this engine typed as a DocumentClient, to pass to DynamoDBClientWrapper
+   */
+  asDocumentClient(): DynamoDBDocumentClient {
+    return this as unknown as DynamoDBDocumentClient;
+  }
+
+  /**
+   * Returns this engine typed as a standard client, so an in-memory wrapper never builds a real one
+   * The engine only keeps key schemas, so table commands such as DescribeTable are rejected
+   */
+  asStandardClient(): DynamoDBClient {
+    return this as unknown as DynamoDBClient;
+  }
+
+  /**
+   * Test helper: Store items directly, bypassing conditions, throttling and request counts
+   */
+  seed(tableName: string, items: Item[]): void {
+    const table = this.getTable(tableName);
+
+    for (const item of items) {
+      const stored = this.validateItem(item, table.schema);
+      table.items.set(this.keyString(stored, table.schema), stored);
+    }
+  }
+
+  /**
+   * Test helper: Get copies of every item in a table, in key order
+   */
+  getItems(tableName: string): Item[] {
+    const table = this.getTable(tableName);
+
+    return this.sortItems([...table.items.values()], table.schema, table.schema).map(
+      (item) => structuredClone(item)
+    );
+  }
+
+  /**
+   * Test helper: Remove every item from one table, or from all tables
+   */
+  clear(tableName?: string): void {
+    const tables = tableName ? [this.getTable(tableName)] : [...this.tables.values()];
+    tables.forEach((table) => table.items.clear());
+  }
+
+  /**
+   * Test helper: Make the next requests fail with ProvisionedThroughputExceededException
+   * Limit it to some operations by listing them
+   */
+  simulateThrottling(times = 1, operations?: InMemoryOperation[]): void {
+    this.throttles.push({ remaining: times, operations });
+  }
+
+  /**
+   * Test helper: Make the next batch writes and gets leave up to perCall requests unprocessed,
+   * returning them in UnprocessedItems or UnprocessedKeys
+   */
+  simulateUnprocessed(perCall: number, times = 1): void {
+    this.unprocessed = { perCall, remaining: times };
+  }
+
+  /**
+   * Test helper: Stop simulating throttling and unprocessed requests
+   */
+  clearSimulations(): void {
+    this.throttles = [];
+    this.unprocessed = null;
+  }
+
+  /**
+   * Test helper: Get the number of requests received for an operation, or for all operations
+   * Throttled requests are counted
+   */
+  getRequestCount(operation?: InMemoryOperation): number {
+    if (operation) {
+      return this.requestCounts.get(operation) ?? 0;
+    }
+
+    return [...this.requestCounts.values()].reduce((total, count) => total + count, 0);
+  }
+
+  /**
+   * Handles a DocumentClient command, as DynamoDBDocumentClient.send() would
+   */
+  async send(command: unknown): Promise<unknown> {
+    if (command instanceof PutCommand) {
+      return this.run('put', () => this.put(command.input));
+    }
+    if (command instanceof GetCommand) {
+      return this.run('get', () => this.get(command.input));
+    }
+    if (command instanceof UpdateCommand) {
+      return this.run('update', () => this.update(command.input));
+    }
+    if (command instanceof DeleteCommand) {
+      return this.run('delete', () => this.delete(command.input));
+    }
+    if (command instanceof QueryCommand) {
+      return this.run('query', () => this.query(command.input));
+    }
+    if (command instanceof ScanCommand) {
+      return this.run('scan', () => this.scan(command.input));
+    }
+    if (command instanceof BatchWriteCommand) {
+      return this.run('batchWrite', () => this.batchWrite(command.input));
+    }
+    if (command instanceof BatchGetCommand) {
+      return this.run('batchGet', () => this.batchGet(command.input));
+    }
+    if (command instanceof TransactWriteCommand) {
+      return this.run('transactWrite', () => this.transactWrite(command.input));
+    }
+    if (command instanceof TransactGetCommand) {
+      return this.run('transactGet', () => this.transactGet(command.input));
+    }
+
+    throw new Error(
+      `InMemoryDynamoDB doesn't support ${(command as object)?.constructor?.name ?? 'this command'}`
+    );
+  }
+
+  private run<T>(operation: InMemoryOperation, handler: () => T): T {
+    this.requestCounts.set(operation, this.getRequestCount(operation) + 1);
+
+    const throttle = this.throttles.find(
+      (candidate) => !candidate.operations || candidate.operations.includes(operation)
+    );
+    if (throttle) {
+      throttle.remaining--;
+      this.throttles = this.throttles.filter((candidate) => candidate.remaining > 0);
+      throw new ProvisionedThroughputExceededException({
+        message:
+          'The level of configured provisioned throughput for the table was exceeded. Consider increasing your provisioning level with the UpdateTable API.',
+        $metadata: {},
+      });
+    }
+
+    try {
+      return handler();
+    } catch (error) {
+      if (error instanceof MemoryValidationError) {
+        throw validationError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private put(input: PutCommandInput): Item {
+    const prepared = this.preparePut(input);
+
+    if (!prepared.passed) {
+      throw conditionFailed(input, prepared.existing);
+    }
+
+    this.commit(prepared);
+    return input.ReturnValues === 'ALL_OLD' && prepared.existing
+      ? { Attributes: structuredClone(prepared.existing) }
+      : {};
+  }
+
+  private get(input: GetCommandInput): Item {
+    const table = this.getTable(input.TableName);
+    const item = table.items.get(this.keyString(this.validateKey(input.Key, table.schema), table.schema));
+
+    return item
+      ? { Item: project(item, input.ProjectionExpression, input.ExpressionAttributeNames) }
+      : {};
+  }
+
+  private update(input: UpdateCommandInput): Item {
+    const prepared = this.prepareUpdate(input);
+
+    if (!prepared.passed) {
+      throw conditionFailed(input, prepared.existing);
+    }
+
+    this.commit(prepared);
+
+    const { existing, next } = prepared;
+    const touched = parseUpdate(input.UpdateExpression ?? '', contextOf(input)).map(
+      (action) => action.path[0] as string
+    );
+    const pick = (item: Item | undefined) =>
+      item &&
+      structuredClone(
+        Object.fromEntries(Object.entries(item).filter(([name]) => touched.includes(name)))
+      );
+
+    switch (input.ReturnValues) {
+      case 'ALL_OLD':
+        return existing ? { Attributes: structuredClone(existing) } : {};
+      case 'ALL_NEW':
+        return { Attributes: structuredClone(next) };
+      case 'UPDATED_OLD':
+        return existing ? { Attributes: pick(existing) } : {};
+      case 'UPDATED_NEW':
+        return { Attributes: pick(next) };
+      default:
+        return {};
+    }
+  }
+
+  private delete(input: DeleteCommandInput): Item {
+    const prepared = this.prepareDelete(input);
+
+    if (!prepared.passed) {
+      throw conditionFailed(input, prepared.existing);
+    }
+
+    this.commit(prepared);
+    return input.ReturnValues === 'ALL_OLD' && prepared.existing
+      ? { Attributes: structuredClone(prepared.existing) }
+      : {};
+  }
+
+  private query(input: QueryCommandInput): Item {
+    const table = this.getTable(input.TableName);
+    const keys = this.getIndexSchema(table, input.IndexName);
+
+    if (!input.KeyConditionExpression) {
+      throw validationError('KeyConditionExpression must be specified');
+    }
+
+    const keyCondition = parseCondition(input.KeyConditionExpression, contextOf(input));
+    const matching = this.sortItems(
+      this.indexedItems(table, keys).filter((item) => evaluateCondition(item, keyCondition)),
+      keys,
+      table.schema
+    );
+
+    if (input.ScanIndexForward === false) {
+      matching.reverse();
+    }
+
+    return this.page(matching, input, keys, table.schema, input.ScanIndexForward === false);
+  }
+
+  private scan(input: ScanCommandInput): Item {
+    const table = this.getTable(input.TableName);
+    const keys = this.getIndexSchema(table, input.IndexName);
+    let items = this.indexedItems(table, keys);
+
+    if (input.TotalSegments !== undefined) {
+      const segment = input.Segment ?? -1;
+      if (segment < 0 || segment >= input.TotalSegments) {
+        throw validationError('Segment must be less than TotalSegments');
+      }
+      items = items.filter(
+        (item) =>
+          hash(serialiseKeyValue(item[keys.partitionKey])) % input.TotalSegments! === segment
+      );
+    }
+
+    return this.page(this.sortItems(items, keys, table.schema), input, keys, table.schema, false);
+  }
+
+  private batchWrite(input: BatchWriteCommandInput): Item {
+    const requests = Object.entries(input.RequestItems ?? {}).flatMap(([tableName, writes]) =>
+      writes.map((request) => ({ tableName, request }))
+    );
+
+    if (requests.length === 0 || requests.length > MAX_BATCH_WRITE_REQUESTS) {
+      throw validationError(
+        `Member must have length less than or equal to ${MAX_BATCH_WRITE_REQUESTS}`
+      );
+    }
+
+    const writes = requests.map(({ tableName, request }) => {
+      const table = this.getTable(tableName);
+      const item = request.PutRequest
+        ? this.validateItem(request.PutRequest.Item, table.schema)
+        : undefined;
+      const key = this.keyString(
+        item ?? this.validateKey(request.DeleteRequest?.Key, table.schema),
+        table.schema
+      );
+      return { tableName, request, table, key, item };
+    });
+
+    this.assertUnique(
+      writes.map(({ tableName, key }) => `${tableName}\u0000${key}`),
+      'Provided list of item keys contains duplicates'
+    );
+
+    const processedCount = writes.length - this.takeUnprocessed(writes.length);
+    const unprocessed: Record<string, unknown[]> = {};
+
+    writes.forEach((write, index) => {
+      if (index >= processedCount) {
+        (unprocessed[write.tableName] ??= []).push(write.request);
+      } else if (write.item) {
+        write.table.items.set(write.key, write.item);
+      } else {
+        write.table.items.delete(write.key);
+      }
+    });
+
+    return { UnprocessedItems: unprocessed };
+  }
+
+  private batchGet(input: BatchGetCommandInput): Item {
+    const requests = Object.entries(input.RequestItems ?? {}).flatMap(([tableName, request]) =>
+      (request.Keys ?? []).map((key) => ({ tableName, request, key }))
+    );
+
+    if (requests.length === 0 || requests.length > MAX_BATCH_GET_KEYS) {
+      throw validationError(
+        `Too many items requested for the BatchGetItem call, the maximum is ${MAX_BATCH_GET_KEYS}`
+      );
+    }
+
+    const reads = requests.map((read) => {
+      const table = this.getTable(read.tableName);
+      return {
+        ...read,
+        table,
+        keyString: this.keyString(this.validateKey(read.key, table.schema), table.schema),
+      };
+    });
+
+    this.assertUnique(
+      reads.map(({ tableName, keyString }) => `${tableName}\u0000${keyString}`),
+      'Provided list of item keys contains duplicates'
+    );
+
+    const processedCount = reads.length - this.takeUnprocessed(reads.length);
+    const responses: Record<string, Item[]> = {};
+    const unprocessed: Record<string, Item & { Keys: DynamoDBKey[] }> = {};
+
+    reads.forEach((read, index) => {
+      responses[read.tableName] ??= [];
+
+      if (index >= processedCount) {
+        unprocessed[read.tableName] ??= { ...read.request, Keys: [] };
+        unprocessed[read.tableName].Keys.push(read.key);
+        return;
+      }
+
+      const item = read.table.items.get(read.keyString);
+      if (item) {
+        responses[read.tableName].push(
+          project(item, read.request.ProjectionExpression, read.request.ExpressionAttributeNames)
+        );
+      }
+    });
+
+    return { Responses: responses, UnprocessedKeys: unprocessed };
+  }
+
+  private transactWrite(input: TransactWriteCommandInput): Item {
+    if (input.ClientRequestToken && this.requestTokens.has(input.ClientRequestToken)) {
+      return {};
+    }
+
+    const items = input.TransactItems ?? [];
+    this.assertTransactionSize(items.length);
+
+    const prepared = items.map((item) => {
+      if (item.Put) {
+        return this.preparePut(item.Put);
+      }
+      if (item.Update) {
+        return this.prepareUpdate(item.Update);
+      }
+      if (item.Delete) {
+        return this.prepareDelete(item.Delete);
+      }
+      if (item.ConditionCheck) {
+        const table = this.getTable(item.ConditionCheck.TableName);
+        const key = this.keyString(
+          this.validateKey(item.ConditionCheck.Key, table.schema),
+          table.schema
+        );
+        const existing = table.items.get(key);
+        return {
+          table,
+          key,
+          existing,
+          next: existing,
+          passed: checkCondition(
+            existing,
+            item.ConditionCheck.ConditionExpression,
+            contextOf(item.ConditionCheck)
+          ),
+        };
+      }
+      throw validationError('Each transaction item must contain exactly one operation');
+    });
+
+    this.assertUnique(
+      prepared.map(({ table, key }) => `${table.name}\u0000${key}`),
+      'Transaction request cannot include multiple operations on one item'
+    );
+
+    if (prepared.some((write) => !write.passed)) {
+      const reasons = prepared.map((write) =>
+        write.passed
+          ? { Code: 'None' }
+          : { Code: 'ConditionalCheckFailed', Message: 'The conditional request failed' }
+      );
+      throw new TransactionCanceledException({
+        message: `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons
+          .map((reason) => reason.Code)
+          .join(', ')}]`,
+        $metadata: {},
+        CancellationReasons: reasons,
+      });
+    }
+
+    prepared.forEach((write) => this.commit(write));
+
+    if (input.ClientRequestToken) {
+      this.requestTokens.add(input.ClientRequestToken);
+    }
+
+    return {};
+  }
+
+  private transactGet(input: TransactGetCommandInput): Item {
+    const items = input.TransactItems ?? [];
+    this.assertTransactionSize(items.length);
+
+    return {
+      Responses: items.map(({ Get }) => {
+        if (!Get) {
+          throw validationError('Each transaction item must contain a Get');
+        }
+        return this.get(Get);
+      }),
+    };
+  }
+
+  private preparePut(input: PutCommandInput): PreparedWrite {
+    const table = this.getTable(input.TableName);
+    const item = this.validateItem(input.Item, table.schema);
+    const key = this.keyString(item, table.schema);
+    const existing = table.items.get(key);
+
+    return {
+      table,
+      key,
+      existing,
+      next: item,
+      passed: checkCondition(existing, input.ConditionExpression, contextOf(input)),
+    };
+  }
+
+  private prepareUpdate(input: UpdateCommandInput): PreparedWrite {
+    const table = this.getTable(input.TableName);
+    const keyItem = this.validateKey(input.Key, table.schema);
+    const key = this.keyString(keyItem, table.schema);
+    const existing = table.items.get(key);
+    const actions = parseUpdate(input.UpdateExpression ?? '', contextOf(input));
+    const keyAttributes = [table.schema.partitionKey, table.schema.sortKey];
+
+    for (const action of actions) {
+      if (keyAttributes.includes(action.path[0] as string)) {
+        throw validationError(
+          `Cannot update attribute ${action.path[0]}. This attribute is part of the key`
+        );
+      }
+    }
+
+    const passed = checkCondition(existing, input.ConditionExpression, contextOf(input));
+    const next = structuredClone(existing ?? keyItem);
+
+    if (passed) {
+      applyUpdate(next, actions);
+    }
+
+    return { table, key, existing, next, passed };
+  }
+
+  private prepareDelete(input: DeleteCommandInput): PreparedWrite {
+    const table = this.getTable(input.TableName);
+    const key = this.keyString(this.validateKey(input.Key, table.schema), table.schema);
+    const existing = table.items.get(key);
+
+    return {
+      table,
+      key,
+      existing,
+      next: undefined,
+      passed: checkCondition(existing, input.ConditionExpression, contextOf(input)),
+    };
+  }
+
+  private commit(write: PreparedWrite): void {
+    if (write.next) {
+      write.table.items.set(write.key, write.next);
+    } else {
+      write.table.items.delete(write.key);
+    }
+  }
+
+  /**
+   * Applies ExclusiveStartKey, Limit, the filter and the projection to ordered items
+   */
+  private page(
+    items: Item[],
+    input: QueryCommandInput | ScanCommandInput,
+    keys: InMemoryKeySchema,
+    tableSchema: InMemoryTableSchema,
+    descending: boolean
+  ): Item {
+    let start = 0;
+
+    if (input.ExclusiveStartKey) {
+      const startKey = input.ExclusiveStartKey;
+      const position = items.findIndex(
+        (item) =>
+          (descending ? -1 : 1) * this.compareItems(item, startKey, keys, tableSchema) > 0
+      );
+      start = position === -1 ? items.length : position;
+    }
+
+    const evaluated = items.slice(start, start + (input.Limit ?? items.length));
+    const hasMore = start + evaluated.length < items.length;
+    const filter = input.FilterExpression
+      ? parseCondition(input.FilterExpression, contextOf(input))
+      : undefined;
+    const matched = filter
+      ? evaluated.filter((item) => evaluateCondition(item, filter))
+      : evaluated;
+    const last = evaluated[evaluated.length - 1];
+
+    return {
+      Items:
+        input.Select === 'COUNT'
+          ? undefined
+          : matched.map((item) =>
+              project(item, input.ProjectionExpression, input.ExpressionAttributeNames)
+            ),
+      Count: matched.length,
+      ScannedCount: evaluated.length,
+      LastEvaluatedKey:
+        hasMore && last ? this.pickKeys(last, [tableSchema, keys]) : undefined,
+    };
+  }
+
+  private getTable(tableName: string | undefined): InMemoryTable {
+    const table = tableName ? this.tables.get(tableName) : undefined;
+
+    if (!table) {
+      throw new ResourceNotFoundException({
+        message: 'Requested resource not found',
+        $metadata: {},
+      });
+    }
+
+    return table;
+  }
+
+  private getIndexSchema(table: InMemoryTable, indexName: string | undefined): InMemoryKeySchema {
+    if (!indexName) {
+      return table.schema;
+    }
+
+    const index = table.schema.indexes?.[indexName];
+    if (!index) {
+      throw validationError(
+        `The table does not have the specified index: ${indexName}`
+      );
+    }
+
+    return index;
+  }
+
+  /**
+   * Items that have the index's key attributes, as secondary indexes are sparse
+   */
+  private indexedItems(table: InMemoryTable, keys: InMemoryKeySchema): Item[] {
+    return [...table.items.values()].filter(
+      (item) =>
+        item[keys.partitionKey] !== undefined &&
+        (!keys.sortKey || item[keys.sortKey] !== undefined)
+    );
+  }
+
+  private sortItems(
+    items: Item[],
+    keys: InMemoryKeySchema,
+    tableSchema: InMemoryTableSchema
+  ): Item[] {
+    return items.sort((left, right) => this.compareItems(left, right, keys, tableSchema));
+  }
+
+  /**
+   * Orders items by the index's keys, then by the table's keys so index entries are stable
+   */
+  private compareItems(
+    left: Item,
+    right: Item,
+    keys: InMemoryKeySchema,
+    tableSchema: InMemoryTableSchema
+  ): number {
+    const attributes = [
+      keys.partitionKey,
+      keys.sortKey,
+      tableSchema.partitionKey,
+      tableSchema.sortKey,
+    ].filter((attribute): attribute is string => !!attribute);
+
+    for (const attribute of attributes) {
+      const order = compareValues(left[attribute], right[attribute]);
+      if (order !== 0) {
+        return order;
+      }
+    }
+
+    return 0;
+  }
+
+  private pickKeys(item: Item, schemas: InMemoryKeySchema[]): DynamoDBKey {
+    const key: DynamoDBKey = {};
+
+    for (const schema of schemas) {
+      key[schema.partitionKey] = structuredClone(item[schema.partitionKey]);
+      if (schema.sortKey) {
+        key[schema.sortKey] = structuredClone(item[schema.sortKey]);
+      }
+    }
+
+    return key;
+  }
+
+  private validateKey(key: DynamoDBKey | undefined, schema: InMemoryTableSchema): Item {
+    const expected = [schema.partitionKey, schema.sortKey].filter(Boolean);
+
+    if (
+      !key ||
+      Object.keys(key).length !== expected.length ||
+      !expected.every((attribute) => isKeyValue(key[attribute as string]))
+    ) {
+      throw validationError('The provided key element does not match the schema');
+    }
+
+    return structuredClone(key);
+  }
+
+  private validateItem(item: Item | undefined, schema: InMemoryTableSchema): Item {
+    if (!item) {
+      throw validationError('Item must be specified');
+    }
+
+    assertNoUndefined(item);
+
+    for (const attribute of [schema.partitionKey, schema.sortKey]) {
+      if (attribute && !isKeyValue(item[attribute])) {
+        throw validationError(
+          `One or more parameter values were invalid: Missing the key ${attribute} in the item`
+        );
+      }
+    }
+
+    return structuredClone(item);
+  }
+
+  private keyString(item: Item, schema: InMemoryTableSchema): string {
+    const partition = serialiseKeyValue(item[schema.partitionKey]);
+    return schema.sortKey
+      ? `${partition}\u0000${serialiseKeyValue(item[schema.sortKey])}`
+      : partition;
+  }
+
+  private assertUnique(keys: string[], message: string): void {
+    if (new Set(keys).size !== keys.length) {
+      throw validationError(message);
+    }
+  }
+
+  private assertTransactionSize(count: number): void {
+    if (count === 0 || count > MAX_TRANSACTION_ITEMS) {
+      throw validationError(
+        `Member must have length less than or equal to ${MAX_TRANSACTION_ITEMS}`
+      );
+    }
+  }
+
+  /**
+   * Takes the number of requests to leave unprocessed in this batch call
+   */
+  private takeUnprocessed(total: number): number {
+    if (!this.unprocessed) {
+      return 0;
+    }
+
+    const count = Math.min(this.unprocessed.perCall, total);
+    this.unprocessed.remaining--;
+    if (this.unprocessed.remaining <= 0) {
+      this.unprocessed = null;
+    }
+
+    return count;
+  }
+}
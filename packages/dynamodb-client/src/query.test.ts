@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildQueryInput,
+  buildScanInput,
+  decodeCursor,
+  encodeCursor,
+  InvalidCursorError,
+  toPage,
+} from './query.js';
+
+describe('cursors', () => {
+  it('should round trip a key through a URL-safe cursor', () => {
+    const key = { pk: 'SET#tla', sk: 'CARD#001/a+b', version: 3 };
+
+    const cursor = encodeCursor(key);
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toEqual(key);
+  });
+
+  it('should round trip binary key values', () => {
+    const key = { id: new Uint8Array([0, 1, 254, 255]) };
+
+    expect(decodeCursor(encodeCursor(key))).toEqual(key);
+  });
+
+  it('should reject cursors that are not encoded keys', () => {
+    expect(() => decodeCursor('not a cursor')).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(Buffer.from('[1]').toString('base64url'))).toThrow(
+      InvalidCursorError
+    );
+    expect(() => decodeCursor(Buffer.from('{}').toString('base64url'))).toThrow(
+      InvalidCursorError
+    );
+    expect(() =>
+      decodeCursor(Buffer.from('{"pk":{"nested":true}}').toString('base64url'))
+    ).toThrow(InvalidCursorError);
+  });
+});
+
+describe('buildQueryInput', () => {
+  it('should build a query with key condition, filter, index and projection', () => {
+    const cursor = encodeCursor({ pk: 'SET#tla', sk: 'CARD#010' });
+
+    const input = buildQueryInput('cards', {
+      keyCondition: { pk: 'SET#tla', sk: { beginsWith: 'CARD#' } },
+      filter: { rarity: 'mythic' },
+      indexName: 'gsi1',
+      limit: 50,
+      scanIndexForward: false,
+      consistentRead: false,
+      projection: ['name', 'rarity'],
+      cursor,
+    });
+
+    expect(input).toEqual({
+      TableName: 'cards',
+      KeyConditionExpression: '#n0 = :v0 AND begins_with(#n1, :v1)',
+      FilterExpression: '#n2 = :v2',
+      ProjectionExpression: '#n3, #n2',
+      IndexName: 'gsi1',
+      Limit: 50,
+      ScanIndexForward: false,
+      ConsistentRead: false,
+      ExclusiveStartKey: { pk: 'SET#tla', sk: 'CARD#010' },
+      ExpressionAttributeNames: { '#n0': 'pk', '#n1': 'sk', '#n2': 'rarity', '#n3': 'name' },
+      ExpressionAttributeValues: { ':v0': 'SET#tla', ':v1': 'CARD#', ':v2': 'mythic' },
+    });
+  });
+});
+
+describe('buildScanInput', () => {
+  it('should build a scan with a segment and no expressions', () => {
+    const input = buildScanInput('cards', { segment: 1, totalSegments: 4 });
+
+    expect(input).toMatchObject({ TableName: 'cards', Segment: 1, TotalSegments: 4 });
+    expect(input.ExpressionAttributeNames).toBeUndefined();
+    expect(input.ExpressionAttributeValues).toBeUndefined();
+  });
+
+  it('should require segment and totalSegments together', () => {
+    expect(() => buildScanInput('cards', { segment: 1 })).toThrow(
+      'segment and totalSegments must be set together'
+    );
+  });
+});
+
+describe('toPage', () => {
+  it('should include a cursor only when more pages remain', () => {
+    const lastPage = toPage({ Items: [{ id: '1' }], Count: 1, ScannedCount: 3 });
+    const morePages = toPage({ Items: [], LastEvaluatedKey: { id: '1' } });
+
+    expect(lastPage).toEqual({
+      items: [{ id: '1' }],
+      count: 1,
+      scannedCount: 3,
+      lastEvaluatedKey: undefined,
+      cursor: undefined,
+    });
+    expect(morePages.cursor).toBe(encodeCursor({ id: '1' }));
+  });
+});
@@ -0,0 +1,231 @@
+import type { QueryCommandInput, ScanCommandInput } from '@aws-sdk/lib-dynamodb';
+import {
+  buildCondition,
+  buildKeyCondition,
+  buildProjection,
+  ExpressionAttributes,
+  type Condition,
+  type KeyCondition,
+} from './expressions.js';
+
+/**
+ * A primary key as returned in LastEvaluatedKey
+ */
+export type DynamoDBKey = Record<string, unknown>;
+
+/**
+ * Options shared by query() and scan()
+ */
+export interface ReadPageOptions<T> {
+  /**
+   * Applied after items are read, so filtered-out items still count towards limit and capacity
+   */
+  filter?: Condition<T>;
+  /**
+   * Reads from a global or local secondary index instead of the table
+   */
+  indexName?: string;
+  /**
+   * Maximum number of items DynamoDB evaluates per page, before the filter is applied
+   */
+  limit?: number;
+  consistentRead?: boolean;
+  /**
+   * Attribute names or nested paths to return instead of whole items
+   */
+  projection?: string[];
+  /**
+   * Resumes from a cursor returned with an earlier page
+   */
+  cursor?: string;
+}
+
+/**
+ * Options for querying a table or index
+ */
+export interface QueryOptions<T> extends ReadPageOptions<T> {
+  keyCondition: KeyCondition<T>;
+  /**
+   * Reads in ascending sort key order
+   * @default true
+   */
+  scanIndexForward?: boolean;
+}
+
+/**
+ * Options for scanning a table or index
+ */
+export interface ScanOptions<T> extends ReadPageOptions<T> {
+  /**
+   * Segment to read in a parallel scan, from 0 to totalSegments - 1
+   */
+  segment?: number;
+  totalSegments?: number;
+}
+
+/**
+ * A single page of query or scan results
+ * cursor is set when more pages remain
+ */
+export interface Page<T> {
+  items: T[];
+  count: number;
+  scannedCount: number;
+  lastEvaluatedKey: DynamoDBKey | undefined;
+  cursor: string | undefined;
+}
+
+/**
+ * Thrown when a cursor can't be decoded into a key
+ */
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid pagination cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+// Binary key values are tagged so they survive the JSON round trip
+const BINARY_TAG = '$binary';
+
+function isKeyValue(value: unknown): boolean {
+  if (typeof value === 'string' || typeof value === 'number') {
+    return true;
+  }
+
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    Object.keys(value).length === 1 &&
+    typeof (value as Record<string, unknown>)[BINARY_TAG] === 'string'
+  );
+}
+
+/**
+ * Encodes a LastEvaluatedKey as an opaque, URL-safe cursor
+ */
+export function encodeCursor(key: DynamoDBKey): string {
+  const json = JSON.stringify(key, (_name, value: unknown) =>
+    value instanceof Uint8Array
+      ? { [BINARY_TAG]: Buffer.from(value).toString('base64') }
+      : value
+  );
+
+  return Buffer.from(json, 'utf-8').toString('base64url');
+}
+
+/**
+ * Decodes a cursor from encodeCursor() back into an ExclusiveStartKey
+ * Throws InvalidCursorError for anything that isn't a well-formed key
+ */
+export function decodeCursor(cursor: string): DynamoDBKey {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (
+    !parsed ||
+    typeof parsed !== 'object' ||
+    Array.isArray(parsed) ||
+    Object.keys(parsed).length === 0 ||
+    !Object.values(parsed).every(isKeyValue)
+  ) {
+    throw new InvalidCursorError();
+  }
+
+  const key: DynamoDBKey = {};
+  for (const [name, value] of Object.entries(parsed as Record<string, unknown>)) {
+    key[name] =
+      typeof value === 'object'
+        ? new Uint8Array(
+            Buffer.from((value as Record<string, string>)[BINARY_TAG], 'base64')
+          )
+        : value;
+  }
+
+  return key;
+}
+
+function buildReadInput<T>(
+  options: ReadPageOptions<T>,
+  attributes: ExpressionAttributes
+): Partial<QueryCommandInput & ScanCommandInput> {
+  return {
+    IndexName: options.indexName,
+    Limit: options.limit,
+    ConsistentRead: options.consistentRead,
+    FilterExpression: options.filter && buildCondition(options.filter, attributes),
+    ProjectionExpression:
+      options.projection && buildProjection(options.projection, attributes),
+    ExclusiveStartKey: options.cursor ? decodeCursor(options.cursor) : undefined,
+  };
+}
+
+/**
+ * Builds the QueryCommand input for a page of results
+ */
+export function buildQueryInput<T>(
+  tableName: string,
+  options: QueryOptions<T>
+): QueryCommandInput {
+  const attributes = new ExpressionAttributes();
+  const keyConditionExpression = buildKeyCondition(options.keyCondition, attributes);
+  const readInput = buildReadInput(options, attributes);
+
+  return {
+    TableName: tableName,
+    KeyConditionExpression: keyConditionExpression,
+    ScanIndexForward: options.scanIndexForward,
+    ...readInput,
+    ExpressionAttributeNames: attributes.getNames(),
+    ExpressionAttributeValues: attributes.getValues(),
+  };
+}
+
+/**
+ * Builds the ScanCommand input for a page of results
+ */
+export function buildScanInput<T>(
+  tableName: string,
+  options: ScanOptions<T>
+): ScanCommandInput {
+  if ((options.segment === undefined) !== (options.totalSegments === undefined)) {
+    throw new Error('segment and totalSegments must be set together');
+  }
+
+  const attributes = new ExpressionAttributes();
+  const readInput = buildReadInput(options, attributes);
+
+  return {
+    TableName: tableName,
+    Segment: options.segment,
+    TotalSegments: options.totalSegments,
+    ...readInput,
+    ExpressionAttributeNames: attributes.getNames(),
+    ExpressionAttributeValues: attributes.getValues(),
+  };
+}
+
+/**
+ * Turns a query or scan response into a page
+ */
+export function toPage<T>(result: {
+  Items?: Record<string, unknown>[];
+  Count?: number;
+  ScannedCount?: number;
+  LastEvaluatedKey?: DynamoDBKey;
+}): Page<T> {
+  const items = (result.Items ?? []) as T[];
+
+  return {
+    items,
+    count: result.Count ?? items.length,
+    scannedCount: result.ScannedCount ?? items.length,
+    lastEvaluatedKey: result.LastEvaluatedKey,
+    cursor: result.LastEvaluatedKey ? encodeCursor(result.LastEvaluatedKey) : undefined,
+  };
+}
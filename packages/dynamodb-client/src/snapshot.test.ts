@@ -0,0 +1,200 @@
+import { PassThrough, Readable } from 'stream';
+import { gunzipSync, gzipSync } from 'zlib';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TableImportError } from './errors.js';
+import { InMemoryDynamoDB } from './memory.js';
+import {
+  exportTable,
+  exportTableToS3,
+  importTable,
+  parseItem,
+  serialiseItem,
+  type ImportProgress,
+} from './snapshot.js';
+import {
+  createInMemoryDynamoDBClient,
+  type DynamoDBClientWrapper,
+} from './index.js';
+
+const TABLE = 'scryscraper';
+
+const card = (collectorNumber: string) => ({
+  pk: 'SET#tla',
+  sk: `CARD#${collectorNumber}`,
+  name: `Card ${collectorNumber}`,
+});
+
+const cards = Array.from({ length: 12 }, (_, i) => card(String(i + 1).padStart(3, '0')));
+
+async function collect(run: (destination: PassThrough) => Promise<unknown>): Promise<Buffer> {
+  const destination = new PassThrough();
+  const chunks: Buffer[] = [];
+  destination.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+  await run(destination);
+  return Buffer.concat(chunks);
+}
+
+const sortByKey = (items: Record<string, unknown>[]) =>
+  [...items].sort((a, b) => String(a.sk).localeCompare(String(b.sk)));
+
+describe('serialiseItem', () => {
+  it('should round trip sets and binary values', () => {
+    const item = {
+      pk: 'SET#tla',
+      tags: new Set(['foil', 'promo']),
+      prices: new Set([1, 2]),
+      image: new Uint8Array([1, 2, 3]),
+      nested: { thumbnail: new Uint8Array([4]) },
+    };
+
+    const line = serialiseItem(item);
+
+    expect(line).not.toContain('\n');
+    expect(parseItem(line)).toEqual(item);
+  });
+
+  it('should reject lines that are not objects', () => {
+    expect(() => parseItem('[1, 2]')).toThrow('Line is not a JSON object');
+  });
+});
+
+describe('exportTable and importTable', () => {
+  let engine: InMemoryDynamoDB;
+  let client: DynamoDBClientWrapper;
+
+  beforeEach(() => {
+    engine = new InMemoryDynamoDB();
+    client = createInMemoryDynamoDBClient({
+      tableName: TABLE,
+      engine,
+      batchRetry: { maxAttempts: 1, baseDelayMs: 0 },
+    });
+  });
+
+  it('should export every segment as NDJSON', async () => {
+    engine.seed(TABLE, cards);
+    const progress: number[] = [];
+
+    const output = await collect((destination) =>
+      exportTable(client, destination, {
+        totalSegments: 3,
+        pageSize: 2,
+        onProgress: (update) => progress.push(update.segmentsCompleted),
+      })
+    );
+    const lines = output.toString('utf-8').trim().split('\n');
+
+    expect(sortByKey(lines.map(parseItem))).toEqual(cards);
+    expect(engine.getRequestCount('scan')).toBeGreaterThan(3);
+    expect(progress.at(-1)).toBe(3);
+  });
+
+  it('should round trip a gzipped export into another table', async () => {
+    engine.seed(TABLE, cards);
+    const output = await collect((destination) =>
+      exportTable(client, destination, { gzip: true })
+    );
+    const target = createInMemoryDynamoDBClient({ tableName: 'copy', engine });
+
+    const result = await importTable(target, Readable.from([output]), { gzip: true });
+
+    expect(gunzipSync(output).toString('utf-8').trim().split('\n')).toHaveLength(12);
+    expect(result).toEqual({ itemsWritten: 12, checkpoint: { line: 12 } });
+    expect(engine.getItems('copy')).toEqual(cards);
+  });
+
+  it('should upload an export to an object store', async () => {
+    engine.seed(TABLE, cards.slice(0, 2));
+    const uploads: { key: string; body: Uint8Array; contentType?: string }[] = [];
+
+    await exportTableToS3(
+      client,
+      {
+        putObject: async (key, body, contentType) => {
+          uploads.push({ key, body, contentType });
+        },
+      },
+      'exports/scryscraper.ndjson.gz',
+      { gzip: true }
+    );
+
+    expect(uploads).toHaveLength(1);
+    expect(uploads[0]?.contentType).toBe('application/gzip');
+    expect(gunzipSync(uploads[0]!.body).toString('utf-8').trim().split('\n')).toHaveLength(2);
+  });
+
+  it('should report a checkpoint after each chunk and skip blank lines', async () => {
+    const input = `${cards.slice(0, 5).map(serialiseItem).join('\n')}\n\n`;
+    const progress: ImportProgress[] = [];
+
+    await importTable(client, Readable.from([input]), {
+      chunkSize: 2,
+      onProgress: (update) => {
+        progress.push(update);
+      },
+    });
+
+    expect(progress).toEqual([
+      { itemsWritten: 2, checkpoint: { line: 2 } },
+      { itemsWritten: 4, checkpoint: { line: 4 } },
+      { itemsWritten: 5, checkpoint: { line: 6 } },
+    ]);
+    expect(engine.getItems(TABLE)).toHaveLength(5);
+  });
+
+  it('should stop with a checkpoint on a bad line and resume from it', async () => {
+    const lines = cards.slice(0, 4).map(serialiseItem);
+    lines.splice(3, 0, '{not json');
+
+    const error = await importTable(client, Readable.from([lines.join('\n')]), {
+      chunkSize: 2,
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TableImportError);
+    expect(error).toMatchObject({ checkpoint: { line: 2 } });
+    expect((error as Error).message).toContain('line 4 is not a JSON item');
+    expect(engine.getItems(TABLE)).toHaveLength(2);
+
+    lines[3] = '';
+    const result = await importTable(client, Readable.from([lines.join('\n')]), {
+      chunkSize: 2,
+      resumeFrom: (error as TableImportError).checkpoint,
+    });
+
+    expect(result.itemsWritten).toBe(2);
+    expect(engine.getItems(TABLE)).toEqual(cards.slice(0, 4));
+  });
+
+  it('should stop with a checkpoint when the gzip input is corrupt', async () => {
+    const written = gzipSync(`${cards.slice(0, 2).map(serialiseItem).join('\n')}\n`);
+    const corrupt = gzipSync(cards.slice(2, 4).map(serialiseItem).join('\n')).fill(0, 10);
+    const progress: ImportProgress[] = [];
+
+    const error = await importTable(client, Readable.from([written, corrupt]), {
+      gzip: true,
+      chunkSize: 2,
+      onProgress: (update) => {
+        progress.push(update);
+      },
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TableImportError);
+    expect(error).toMatchObject({ checkpoint: { line: 2 }, cause: { code: 'Z_DATA_ERROR' } });
+    expect((error as Error).message).toContain("couldn't read the source");
+    expect(progress).toEqual([{ itemsWritten: 2, checkpoint: { line: 2 } }]);
+  });
+
+  it('should stop with the unprocessed items when retries run out', async () => {
+    engine.simulateUnprocessed(1);
+    const input = gzipSync(cards.slice(0, 3).map(serialiseItem).join('\n'));
+
+    await expect(
+      importTable(client, Readable.from([input]), { gzip: true })
+    ).rejects.toMatchObject({
+      name: 'TableImportError',
+      checkpoint: { line: 0 },
+      unprocessed: [expect.objectContaining({ pk: 'SET#tla' })],
+    });
+  });
+});
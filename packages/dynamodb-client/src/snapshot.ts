@@ -0,0 +1,337 @@
+import { once } from 'events';
+import { createInterface } from 'readline';
+import { PassThrough, pipeline, type Readable, type Writable } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import type { BatchRetryOptions } from './batch.js';
+import { TableImportError } from './errors.js';
+import type { DynamoDBClientWrapper } from './index.js';
+
+/**
+ * The wrapper methods a table export needs
+ */
+export type ExportClient = Pick<DynamoDBClientWrapper, 'getTableName' | 'scanPages'>;
+
+/**
+ * The wrapper methods a table import needs
+ */
+export type ImportClient = Pick<DynamoDBClientWrapper, 'getTableName' | 'batchPutItems'>;
+
+/**
+ * Where exportTableToS3() uploads to, e.g. an S3ClientWrapper from @monorepo-fem/s3-client
+ */
+export interface ExportObjectStore {
+  putObject(key: string, body: Uint8Array, contentType?: string): Promise<void>;
+}
+
+/**
+ * How far an export has got
+ */
+export interface ExportProgress {
+  itemsExported: number;
+  segmentsCompleted: number;
+  totalSegments: number;
+}
+
+/**
+ * Options for exportTable()
+ */
+export interface ExportTableOptions {
+  /**
+   * Number of segments scanned in parallel
+   * @default 4
+   */
+  totalSegments?: number;
+  /**
+   * Maximum number of items read per scan request
+   */
+  pageSize?: number;
+  consistentRead?: boolean;
+  /**
+   * Compresses the output with gzip
+   * @default false
+   */
+  gzip?: boolean;
+  onProgress?: (progress: ExportProgress) => void;
+}
+
+/**
+ * Outcome of an export
+ */
+export interface ExportResult {
+  itemsExported: number;
+}
+
+/**
+ * Position to resume an import from: the number of lines already written
+ */
+export interface ImportCheckpoint {
+  line: number;
+}
+
+/**
+ * How far an import has got, reported after each chunk is written
+ */
+export interface ImportProgress {
+  itemsWritten: number;
+  checkpoint: ImportCheckpoint;
+}
+
+/**
+ * Options for importTable()
+ */
+export interface ImportTableOptions {
+  /**
+   * Decompresses gzipped input
+   * @default false
+   */
+  gzip?: boolean;
+  /**
+   * Items written between checkpoints
+   * @default 100
+   */
+  chunkSize?: number;
+  /**
+   * Skips lines written by an earlier import, from its last progress report or TableImportError
+   */
+  resumeFrom?: ImportCheckpoint;
+  retry?: BatchRetryOptions;
+  /**
+   * Awaited after each chunk, so the checkpoint can be saved before the import carries on
+   */
+  onProgress?: (progress: ImportProgress) => void | Promise<void>;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface ImportResult {
+  itemsWritten: number;
+  checkpoint: ImportCheckpoint;
+}
+
+const DEFAULT_TOTAL_SEGMENTS = 4;
+const DEFAULT_CHUNK_SIZE = 100;
+
+/**
+ * Serialises an item as one line of JSON
+ * Sets become { "$set": [...] } and binary values { "$binary": "<base64>" }, as JSON has neither
+ */
+export function serialiseItem(item: Record<string, unknown>): string {
+  return JSON.stringify(item, function (this: Record<string, unknown>, key, value: unknown) {
+    const original = this[key];
+
+    if (original instanceof Set) {
+      return { $set: [...original] };
+    }
+    if (original instanceof Uint8Array) {
+      return { $binary: Buffer.from(original).toString('base64') };
+    }
+    return value;
+  });
+}
+
+/**
+ * Parses a line written by serialiseItem(), restoring sets and binary values
+ */
+export function parseItem(line: string): Record<string, unknown> {
+  const item: unknown = JSON.parse(line, (_key, value: unknown) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const tagged = value as { $set?: unknown[]; $binary?: string };
+      const keys = Object.keys(value);
+
+      if (keys.length === 1 && Array.isArray(tagged.$set)) {
+        return new Set(tagged.$set);
+      }
+      if (keys.length === 1 && typeof tagged.$binary === 'string') {
+        return new Uint8Array(Buffer.from(tagged.$binary, 'base64'));
+      }
+    }
+    return value;
+  });
+
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    throw new Error('Line is not a JSON object');
+  }
+
+  return item as Record<string, unknown>;
+}
+
+/**
+ * Exports every item in a table to a stream as NDJSON, one item per line
+ * Segments are scanned in parallel, so lines are in no particular order. The destination is
+ * ended when the export finishes
+ *
+ * @example
+ * await exportTable(client, createWriteStream('cards.ndjson.gz'), { gzip: true });
+ */
+export async function exportTable(
+  client: ExportClient,
+  destination: Writable,
+  options: ExportTableOptions = {}
+): Promise<ExportResult> {
+  const totalSegments = options.totalSegments ?? DEFAULT_TOTAL_SEGMENTS;
+
+  if (!Number.isInteger(totalSegments) || totalSegments < 1) {
+    throw new Error('totalSegments must be a positive integer');
+  }
+
+  const output = options.gzip ? createGzip() : new PassThrough();
+  const progress: ExportProgress = { itemsExported: 0, segmentsCompleted: 0, totalSegments };
+
+  const write = async (line: string): Promise<void> => {
+    if (output.destroyed) {
+      throw new Error(`Export of ${client.getTableName()} stopped: output closed`);
+    }
+    if (!output.write(line)) {
+      await once(output, 'drain');
+    }
+  };
+
+  const exportSegment = async (segment: number): Promise<void> => {
+    for await (const page of client.scanPages({
+      segment,
+      totalSegments,
+      limit: options.pageSize,
+      consistentRead: options.consistentRead,
+    })) {
+      for (const item of page.items) {
+        await write(`${serialiseItem(item)}\n`);
+      }
+      progress.itemsExported += page.items.length;
+      options.onProgress?.({ ...progress });
+    }
+
+    progress.segmentsCompleted++;
+    options.onProgress?.({ ...progress });
+  };
+
+  const writeAll = async (): Promise<void> => {
+    try {
+      await Promise.all(
+        Array.from({ length: totalSegments }, (_, segment) => exportSegment(segment))
+      );
+      output.end();
+    } catch (error) {
+      output.destroy(error as Error);
+      throw error;
+    }
+  };
+
+  await Promise.all([pipelineAsync(output, destination), writeAll()]);
+  return { itemsExported: progress.itemsExported };
+}
+
+/**
+ * Exports every item in a table to an S3 object as NDJSON
+ * The export is held in memory until it's uploaded
+ */
+export async function exportTableToS3(
+  client: ExportClient,
+  store: ExportObjectStore,
+  key: string,
+  options: ExportTableOptions = {}
+): Promise<ExportResult> {
+  const chunks: Buffer[] = [];
+  const collector = new PassThrough();
+  collector.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+  const result = await exportTable(client, collector, options);
+  await store.putObject(
+    key,
+    Buffer.concat(chunks),
+    options.gzip ? 'application/gzip' : 'application/x-ndjson'
+  );
+  return result;
+}
+
+/**
+ * Imports NDJSON items from a stream, as written by exportTable()
+ * Items are written in chunks with batchPutItems(), which retries unprocessed items, and
+ * progress is reported after each chunk with a checkpoint to resume from. Blank lines are skipped
+ *
+ * @throws TableImportError when the source can't be read or decompressed, a line isn't a JSON
+ * item, or items are still unprocessed after every retry. Its checkpoint resumes from the chunk
+ * that failed
+ */
+export async function importTable(
+  client: ImportClient,
+  source: Readable,
+  options: ImportTableOptions = {}
+): Promise<ImportResult> {
+  const tableName = client.getTableName();
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const skipLines = options.resumeFrom?.line ?? 0;
+  // readline stops on the input's error and rethrows it, so it's only recorded here
+  let readError: Error | undefined;
+  const recordReadError = (error?: Error | null): void => {
+    readError ??= error ?? undefined;
+  };
+  const input = options.gzip ? pipeline(source, createGunzip(), recordReadError) : source;
+  input.on('error', recordReadError);
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  let checkpoint: ImportCheckpoint = { line: skipLines };
+  let itemsWritten = 0;
+  let lineNumber = 0;
+  let chunk: Record<string, unknown>[] = [];
+
+  const flush = async (): Promise<void> => {
+    if (chunk.length > 0) {
+      const result = await client.batchPutItems(chunk, options.retry);
+
+      if (result.unprocessed.length > 0) {
+        throw new TableImportError(
+          tableName,
+          `${result.unprocessed.length} items still unprocessed after retries`,
+          checkpoint,
+          { unprocessed: result.unprocessed }
+        );
+      }
+      itemsWritten += result.written;
+      chunk = [];
+    }
+
+    checkpoint = { line: lineNumber };
+    await options.onProgress?.({ itemsWritten, checkpoint });
+  };
+
+  const readFailed = (error: Error): TableImportError =>
+    new TableImportError(tableName, `couldn't read the source: ${error.message}`, checkpoint, {
+      cause: error,
+    });
+
+  try {
+    for await (const line of lines) {
+      lineNumber++;
+
+      if (lineNumber <= skipLines || line.trim() === '') {
+        continue;
+      }
+
+      try {
+        chunk.push(parseItem(line));
+      } catch (error) {
+        throw new TableImportError(tableName, `line ${lineNumber} is not a JSON item`, checkpoint, {
+          cause: error,
+        });
+      }
+
+      if (chunk.length >= chunkSize) {
+        await flush();
+      }
+    }
+  } catch (error) {
+    throw readError && error === readError ? readFailed(readError) : error;
+  }
+
+  if (readError) {
+    throw readFailed(readError);
+  }
+
+  if (lineNumber > checkpoint.line) {
+    await flush();
+  }
+
+  return { itemsWritten, checkpoint };
+}
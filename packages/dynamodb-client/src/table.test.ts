@@ -0,0 +1,253 @@
+import {
+  CreateTableCommand,
+  DescribeTableCommand,
+  DescribeTimeToLiveCommand,
+  DynamoDBClient,
+  ResourceNotFoundException,
+  UpdateTimeToLiveCommand,
+  type TableDescription,
+} from '@aws-sdk/client-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TableSchemaMismatchError } from './errors.js';
+import {
+  buildCreateTableInput,
+  findSchemaMismatches,
+  toInMemorySchema,
+  type TableDefinition,
+} from './table.js';
+import { createInMemoryDynamoDBClient, DynamoDBClientWrapper } from './index.js';
+
+const TABLE = 'scryscraper';
+
+const definition: TableDefinition = {
+  partitionKey: { name: 'pk', type: 'S' },
+  sortKey: { name: 'sk', type: 'S' },
+  globalIndexes: {
+    byRarity: {
+      partitionKey: { name: 'rarity', type: 'S' },
+      sortKey: { name: 'usd', type: 'N' },
+      projection: ['name'],
+    },
+  },
+  localIndexes: { byName: { sortKey: { name: 'name', type: 'S' }, projection: 'KEYS_ONLY' } },
+  ttlAttribute: 'expiresAt',
+};
+
+const liveTable: TableDescription = {
+  TableName: TABLE,
+  TableStatus: 'ACTIVE',
+  KeySchema: [
+    { AttributeName: 'pk', KeyType: 'HASH' },
+    { AttributeName: 'sk', KeyType: 'RANGE' },
+  ],
+  AttributeDefinitions: [
+    { AttributeName: 'pk', AttributeType: 'S' },
+    { AttributeName: 'sk', AttributeType: 'S' },
+    { AttributeName: 'rarity', AttributeType: 'S' },
+    { AttributeName: 'usd', AttributeType: 'N' },
+    { AttributeName: 'name', AttributeType: 'S' },
+  ],
+  GlobalSecondaryIndexes: [
+    {
+      IndexName: 'byRarity',
+      KeySchema: [
+        { AttributeName: 'rarity', KeyType: 'HASH' },
+        { AttributeName: 'usd', KeyType: 'RANGE' },
+      ],
+    },
+  ],
+  LocalSecondaryIndexes: [
+    {
+      IndexName: 'byName',
+      KeySchema: [
+        { AttributeName: 'pk', KeyType: 'HASH' },
+        { AttributeName: 'name', KeyType: 'RANGE' },
+      ],
+    },
+  ],
+};
+
+const ttlEnabled = {
+  TimeToLiveDescription: { TimeToLiveStatus: 'ENABLED' as const, AttributeName: 'expiresAt' },
+};
+
+describe('buildCreateTableInput', () => {
+  it('should build keys, indexes and attribute definitions', () => {
+    expect(buildCreateTableInput(TABLE, definition)).toEqual({
+      TableName: TABLE,
+      BillingMode: 'PAY_PER_REQUEST',
+      ProvisionedThroughput: undefined,
+      KeySchema: liveTable.KeySchema,
+      AttributeDefinitions: liveTable.AttributeDefinitions,
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: 'byRarity',
+          KeySchema: liveTable.GlobalSecondaryIndexes?.[0]?.KeySchema,
+          Projection: { ProjectionType: 'INCLUDE', NonKeyAttributes: ['name'] },
+          ProvisionedThroughput: undefined,
+        },
+      ],
+      LocalSecondaryIndexes: [
+        {
+          IndexName: 'byName',
+          KeySchema: liveTable.LocalSecondaryIndexes?.[0]?.KeySchema,
+          Projection: { ProjectionType: 'KEYS_ONLY' },
+        },
+      ],
+    });
+  });
+
+  it('should share provisioned capacity with global indexes', () => {
+    const input = buildCreateTableInput(TABLE, {
+      partitionKey: { name: 'pk', type: 'S' },
+      globalIndexes: { bySet: { partitionKey: { name: 'set_code', type: 'S' } } },
+      billingMode: { readCapacityUnits: 5, writeCapacityUnits: 2 },
+    });
+
+    expect(input.BillingMode).toBe('PROVISIONED');
+    expect(input.GlobalSecondaryIndexes?.[0]?.ProvisionedThroughput).toEqual({
+      ReadCapacityUnits: 5,
+      WriteCapacityUnits: 2,
+    });
+  });
+
+  it('should reject conflicting attribute types and local indexes without a sort key', () => {
+    expect(() =>
+      buildCreateTableInput(TABLE, {
+        partitionKey: { name: 'pk', type: 'S' },
+        globalIndexes: { byPk: { partitionKey: { name: 'pk', type: 'N' } } },
+      })
+    ).toThrow('Attribute pk is declared as both S and N');
+    expect(() =>
+      buildCreateTableInput(TABLE, {
+        partitionKey: { name: 'pk', type: 'S' },
+        localIndexes: { byName: { sortKey: { name: 'name', type: 'S' } } },
+      })
+    ).toThrow(`Table ${TABLE} needs a sort key to have local indexes`);
+  });
+});
+
+describe('findSchemaMismatches', () => {
+  it('should find nothing when the table matches', () => {
+    expect(
+      findSchemaMismatches(definition, liveTable, ttlEnabled.TimeToLiveDescription)
+    ).toEqual([]);
+  });
+
+  it('should describe each difference', () => {
+    const table: TableDescription = {
+      ...liveTable,
+      KeySchema: [{ AttributeName: 'pk', KeyType: 'HASH' }],
+      AttributeDefinitions: [
+        { AttributeName: 'pk', AttributeType: 'N' },
+        { AttributeName: 'name', AttributeType: 'S' },
+      ],
+      GlobalSecondaryIndexes: [],
+    };
+
+    expect(findSchemaMismatches(definition, table, { TimeToLiveStatus: 'DISABLED' })).toEqual([
+      'partition key is pk (N), expected pk (S)',
+      'sort key is none, expected sk (S)',
+      'global index byRarity is missing',
+      'local index byName partition key is pk (N), expected pk (S)',
+      'TTL attribute is disabled, expected expiresAt',
+    ]);
+  });
+});
+
+describe('toInMemorySchema', () => {
+  it('should map keys and both kinds of index', () => {
+    expect(toInMemorySchema(definition)).toEqual({
+      partitionKey: 'pk',
+      sortKey: 'sk',
+      indexes: {
+        byRarity: { partitionKey: 'rarity', sortKey: 'usd' },
+        byName: { partitionKey: 'pk', sortKey: 'name' },
+      },
+    });
+  });
+
+  it('should create in-memory tables from the definition', async () => {
+    const client = createInMemoryDynamoDBClient({ tableName: TABLE, table: definition });
+    await client.putItem({ pk: 'SET#tla', sk: 'CARD#001', rarity: 'rare', usd: 2 });
+
+    const page = await client.query({ indexName: 'byRarity', keyCondition: { rarity: 'rare' } });
+    expect(page.items).toHaveLength(1);
+  });
+});
+
+describe('DynamoDBClientWrapper.ensureTable', () => {
+  const ddbMock = mockClient(DynamoDBClient);
+  const client = new DynamoDBClientWrapper({ tableName: TABLE, table: definition });
+
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  it('should verify a matching table', async () => {
+    ddbMock.on(DescribeTableCommand).resolves({ Table: liveTable });
+    ddbMock.on(DescribeTimeToLiveCommand).resolves(ttlEnabled);
+
+    await expect(client.ensureTable()).resolves.toBe('verified');
+    expect(ddbMock.commandCalls(CreateTableCommand)).toHaveLength(0);
+  });
+
+  it('should fail fast when the key schema differs', async () => {
+    ddbMock.on(DescribeTableCommand).resolves({
+      Table: { ...liveTable, KeySchema: [{ AttributeName: 'pk', KeyType: 'HASH' }] },
+    });
+    ddbMock.on(DescribeTimeToLiveCommand).resolves(ttlEnabled);
+
+    const error = await client.ensureTable().catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TableSchemaMismatchError);
+    expect(error).toMatchObject({
+      tableName: TABLE,
+      mismatches: ['sort key is none, expected sk (S)'],
+    });
+  });
+
+  it('should fail when the table is missing and create is off', async () => {
+    ddbMock
+      .on(DescribeTableCommand)
+      .rejects(new ResourceNotFoundException({ message: 'Not found', $metadata: {} }));
+
+    await expect(client.ensureTable()).rejects.toMatchObject({
+      mismatches: ["table doesn't exist"],
+    });
+  });
+
+  it('should create a missing table, wait for it and enable TTL', async () => {
+    ddbMock
+      .on(DescribeTableCommand)
+      .rejectsOnce(new ResourceNotFoundException({ message: 'Not found', $metadata: {} }))
+      .resolves({ Table: liveTable });
+    ddbMock.on(CreateTableCommand).resolves({});
+    ddbMock.on(UpdateTimeToLiveCommand).resolves({});
+
+    await expect(client.ensureTable({ create: true })).resolves.toBe('created');
+    expect(ddbMock.commandCalls(CreateTableCommand)[0]?.args[0].input).toEqual(
+      buildCreateTableInput(TABLE, definition)
+    );
+    expect(ddbMock.commandCalls(UpdateTimeToLiveCommand)[0]?.args[0].input).toEqual({
+      TableName: TABLE,
+      TimeToLiveSpecification: { AttributeName: 'expiresAt', Enabled: true },
+    });
+  });
+
+  it('should require a table definition', async () => {
+    await expect(new DynamoDBClientWrapper({ tableName: TABLE }).ensureTable()).rejects.toThrow(
+      `No table definition configured for ${TABLE}`
+    );
+  });
+
+  it('should reject ensureTable() on an in-memory wrapper without calling DynamoDB', async () => {
+    const inMemory = createInMemoryDynamoDBClient({ tableName: TABLE, table: definition });
+
+    await expect(inMemory.ensureTable({ create: true })).rejects.toThrow(
+      "InMemoryDynamoDB doesn't support DescribeTableCommand"
+    );
+    expect(ddbMock.calls()).toHaveLength(0);
+  });
+});
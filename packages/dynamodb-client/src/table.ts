@@ -0,0 +1,304 @@
+import type {
+  AttributeDefinition,
+  CreateTableCommandInput,
+  KeySchemaElement,
+  Projection,
+  ProvisionedThroughput,
+  TableDescription,
+  TimeToLiveDescription,
+} from '@aws-sdk/client-dynamodb';
+import type { InMemoryTableSchema } from './memory.js';
+
+/**
+ * DynamoDB scalar types a key attribute can have
+ */
+export type KeyAttributeType = 'S' | 'N' | 'B';
+
+/**
+ * A key attribute and its type
+ */
+export interface KeyAttribute {
+  name: string;
+  type: KeyAttributeType;
+}
+
+/**
+ * Attributes copied into an index: all of them, only the keys, or the keys and the listed attributes
+ * @default 'ALL'
+ */
+export type IndexProjection = 'ALL' | 'KEYS_ONLY' | string[];
+
+/**
+ * A global secondary index, with its own partition key
+ */
+export interface GlobalIndexDefinition {
+  partitionKey: KeyAttribute;
+  sortKey?: KeyAttribute;
+  projection?: IndexProjection;
+}
+
+/**
+ * A local secondary index, sharing the table's partition key
+ */
+export interface LocalIndexDefinition {
+  sortKey: KeyAttribute;
+  projection?: IndexProjection;
+}
+
+/**
+ * On-demand billing, or provisioned capacity shared by the table and its global indexes
+ */
+export type BillingMode =
+  | 'PAY_PER_REQUEST'
+  | { readCapacityUnits: number; writeCapacityUnits: number };
+
+/**
+ * The table a wrapper expects, keyed the way the code reads and writes it
+ *
+ * @example
+ * const table: TableDefinition = {
+ *   partitionKey: { name: 'pk', type: 'S' },
+ *   sortKey: { name: 'sk', type: 'S' },
+ *   globalIndexes: { byRarity: { partitionKey: { name: 'rarity', type: 'S' } } },
+ *   ttlAttribute: 'expiresAt',
+ * };
+ */
+export interface TableDefinition {
+  partitionKey: KeyAttribute;
+  sortKey?: KeyAttribute;
+  globalIndexes?: Record<string, GlobalIndexDefinition>;
+  localIndexes?: Record<string, LocalIndexDefinition>;
+  /**
+   * Attribute DynamoDB's TTL deletes items by, enabled when the table is created
+   */
+  ttlAttribute?: string;
+  /**
+   * @default 'PAY_PER_REQUEST'
+   */
+  billingMode?: BillingMode;
+}
+
+function toProjection(projection: IndexProjection = 'ALL'): Projection {
+  return Array.isArray(projection)
+    ? { ProjectionType: 'INCLUDE', NonKeyAttributes: projection }
+    : { ProjectionType: projection };
+}
+
+function toThroughput(billingMode: BillingMode | undefined): ProvisionedThroughput | undefined {
+  if (!billingMode || billingMode === 'PAY_PER_REQUEST') {
+    return undefined;
+  }
+
+  return {
+    ReadCapacityUnits: billingMode.readCapacityUnits,
+    WriteCapacityUnits: billingMode.writeCapacityUnits,
+  };
+}
+
+/**
+ * Builds the CreateTable input for a table definition
+ *
+ * @throws Error when an attribute is declared with two types, or local indexes are
+ * defined on a table without a sort key
+ */
+export function buildCreateTableInput(
+  tableName: string,
+  definition: TableDefinition
+): CreateTableCommandInput {
+  const attributeTypes = new Map<string, KeyAttributeType>();
+  const keySchema = (partitionKey: KeyAttribute, sortKey?: KeyAttribute): KeySchemaElement[] => {
+    for (const key of sortKey ? [partitionKey, sortKey] : [partitionKey]) {
+      const declared = attributeTypes.get(key.name);
+
+      if (declared && declared !== key.type) {
+        throw new Error(`Attribute ${key.name} is declared as both ${declared} and ${key.type}`);
+      }
+      attributeTypes.set(key.name, key.type);
+    }
+
+    return sortKey
+      ? [
+          { AttributeName: partitionKey.name, KeyType: 'HASH' },
+          { AttributeName: sortKey.name, KeyType: 'RANGE' },
+        ]
+      : [{ AttributeName: partitionKey.name, KeyType: 'HASH' }];
+  };
+  const throughput = toThroughput(definition.billingMode);
+  const localIndexes = Object.entries(definition.localIndexes ?? {});
+
+  if (localIndexes.length > 0 && !definition.sortKey) {
+    throw new Error(`Table ${tableName} needs a sort key to have local indexes`);
+  }
+
+  const input: CreateTableCommandInput = {
+    TableName: tableName,
+    KeySchema: keySchema(definition.partitionKey, definition.sortKey),
+    AttributeDefinitions: [],
+    BillingMode: throughput ? 'PROVISIONED' : 'PAY_PER_REQUEST',
+    ProvisionedThroughput: throughput,
+  };
+  const globalIndexes = Object.entries(definition.globalIndexes ?? {});
+
+  if (globalIndexes.length > 0) {
+    input.GlobalSecondaryIndexes = globalIndexes.map(([indexName, index]) => ({
+      IndexName: indexName,
+      KeySchema: keySchema(index.partitionKey, index.sortKey),
+      Projection: toProjection(index.projection),
+      ProvisionedThroughput: throughput,
+    }));
+  }
+  if (localIndexes.length > 0) {
+    input.LocalSecondaryIndexes = localIndexes.map(([indexName, index]) => ({
+      IndexName: indexName,
+      KeySchema: keySchema(definition.partitionKey, index.sortKey),
+      Projection: toProjection(index.projection),
+    }));
+  }
+
+  input.AttributeDefinitions = [...attributeTypes].map(
+    ([name, type]): AttributeDefinition => ({ AttributeName: name, AttributeType: type })
+  );
+  return input;
+}
+
+function describeKey(key: KeyAttribute | undefined): string {
+  return key ? `${key.name} (${key.type})` : 'none';
+}
+
+function findKeyMismatches(
+  label: string,
+  expected: { partitionKey: KeyAttribute; sortKey?: KeyAttribute },
+  keySchema: KeySchemaElement[] = [],
+  attributeDefinitions: AttributeDefinition[] = []
+): string[] {
+  const liveKey = (keyType: 'HASH' | 'RANGE'): KeyAttribute | undefined => {
+    const name = keySchema.find((element) => element.KeyType === keyType)?.AttributeName;
+    const type = attributeDefinitions.find(
+      (definition) => definition.AttributeName === name
+    )?.AttributeType;
+
+    return name ? { name, type: type as KeyAttributeType } : undefined;
+  };
+  const mismatches: string[] = [];
+
+  for (const [keyName, keyType, expectedKey] of [
+    ['partition key', 'HASH', expected.partitionKey],
+    ['sort key', 'RANGE', expected.sortKey],
+  ] as const) {
+    const live = describeKey(liveKey(keyType));
+    const wanted = describeKey(expectedKey);
+
+    if (live !== wanted) {
+      mismatches.push(`${label}${keyName} is ${live}, expected ${wanted}`);
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Compares a live table with its definition, describing each difference
+ * Keys, index keys and the TTL attribute are compared; indexes the definition doesn't
+ * mention, projections and billing are not, as they don't change how items are addressed
+ *
+ * @param timeToLive - The table's TTL settings, checked when the definition has a TTL attribute
+ */
+export function findSchemaMismatches(
+  definition: TableDefinition,
+  table: TableDescription,
+  timeToLive?: TimeToLiveDescription
+): string[] {
+  const mismatches = findKeyMismatches(
+    '',
+    definition,
+    table.KeySchema,
+    table.AttributeDefinitions
+  );
+
+  for (const [indexName, index] of Object.entries(definition.globalIndexes ?? {})) {
+    const live = table.GlobalSecondaryIndexes?.find((gsi) => gsi.IndexName === indexName);
+
+    if (!live) {
+      mismatches.push(`global index ${indexName} is missing`);
+      continue;
+    }
+    mismatches.push(
+      ...findKeyMismatches(
+        `global index ${indexName} `,
+        index,
+        live.KeySchema,
+        table.AttributeDefinitions
+      )
+    );
+  }
+
+  for (const [indexName, index] of Object.entries(definition.localIndexes ?? {})) {
+    const live = table.LocalSecondaryIndexes?.find((lsi) => lsi.IndexName === indexName);
+
+    if (!live) {
+      mismatches.push(`local index ${indexName} is missing`);
+      continue;
+    }
+    mismatches.push(
+      ...findKeyMismatches(
+        `local index ${indexName} `,
+        { partitionKey: definition.partitionKey, sortKey: index.sortKey },
+        live.KeySchema,
+        table.AttributeDefinitions
+      )
+    );
+  }
+
+  if (definition.ttlAttribute && timeToLive) {
+    const enabled =
+      timeToLive.TimeToLiveStatus === 'ENABLED' || timeToLive.TimeToLiveStatus === 'ENABLING';
+    const live = enabled ? timeToLive.AttributeName : undefined;
+
+    if (live !== definition.ttlAttribute) {
+      mismatches.push(`TTL attribute is ${live ?? 'disabled'}, expected ${definition.ttlAttribute}`);
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Gets the key schema the in-memory engine needs for a table definition
+ */
+export function toInMemorySchema(definition: TableDefinition): InMemoryTableSchema {
+  const indexes: InMemoryTableSchema['indexes'] = {};
+
+  for (const [indexName, index] of Object.entries(definition.globalIndexes ?? {})) {
+    indexes[indexName] = { partitionKey: index.partitionKey.name, sortKey: index.sortKey?.name };
+  }
+  for (const [indexName, index] of Object.entries(definition.localIndexes ?? {})) {
+    indexes[indexName] = { partitionKey: definition.partitionKey.name, sortKey: index.sortKey.name };
+  }
+
+  return {
+    partitionKey: definition.partitionKey.name,
+    sortKey: definition.sortKey?.name,
+    indexes,
+  };
+}
+
+/**
+ * Options for ensureTable()
+ */
+export interface EnsureTableOptions {
+  /**
+   * Creates the table when it doesn't exist, e.g. against DynamoDB Local
+   * @default false
+   */
+  create?: boolean;
+  /**
+   * How long to wait for a created table to become active
+   * @default 300
+   */
+  maxWaitSeconds?: number;
+}
+
+/**
+ * What ensureTable() did: created a missing table, or verified an existing one
+ */
+export type EnsureTableResult = 'created' | 'verified';
@@ -3,13 +3,46 @@
  * Provides mocks and test helpers for packages that depend on this library
  */
 
-import type { DynamoDBClientWrapperConfig } from './index.js';
+import { UpdateBuilder, buildUpdateInput } from './update.js';
+import type {
+  BatchGetOptions,
+  BatchGetResult,
+  BatchWriteResult,
+  DynamoDBClientWrapperConfig,
+  DeleteItemOptions,
+  DynamoDBKey,
+  EnsureTableResult,
+  Page,
+  PutItemOptions,
+  QueryOptions,
+  ScanOptions,
+  TransactGetItem,
+  TransactWriteItem,
+  TransactWriteOptions,
+  UpdateItemOptions,
+} from './index.js';
+
+/**
+ * Operations captured by the mock client
+ */
+export type OperationType =
+  | 'put'
+  | 'get'
+  | 'update'
+  | 'delete'
+  | 'batchPut'
+  | 'batchGet'
+  | 'batchDelete'
+  | 'transactWrite'
+  | 'transactGet'
+  | 'query'
+  | 'scan';
 
 /**
  * A captured DynamoDB operation from the mock client
  */
 export interface CapturedOperation {
-  operation: 'put' | 'get' | 'batchPut';
+  operation: OperationType;
   params: unknown;
   timestamp: number;
 }
@@ -25,7 +58,15 @@ export class MockDynamoDBClient {
     new Map();
   private putShouldFail: Error | null = null;
   private getShouldFail: Error | null = null;
+  private updateShouldFail: Error | null = null;
+  private deleteShouldFail: Error | null = null;
   private batchPutShouldFail: Error | null = null;
+  private batchGetShouldFail: Error | null = null;
+  private batchDeleteShouldFail: Error | null = null;
+  private transactWriteShouldFail: Error | null = null;
+  private transactGetShouldFail: Error | null = null;
+  private queryResponse: Record<string, unknown>[] = [];
+  private scanResponse: Record<string, unknown>[] = [];
 
   constructor(config: DynamoDBClientWrapperConfig) {
     this.tableName = config.tableName;
@@ -53,18 +94,31 @@ export class MockDynamoDBClient {
   }
 
   /**
-   * Mock putItem that captures the operation
+   * Mock ensureTable - the mock has no table to check, so it's always verified
    */
-  async putItem<T extends Record<string, unknown>>(item: T): Promise<void> {
+  async ensureTable(): Promise<EnsureTableResult> {
+    return 'verified';
+  }
+
+  /**
+   * Mock putItem that captures the operation and returns the item
+   * Conditions are captured but not evaluated
+   */
+  async putItem<T extends Record<string, unknown>>(
+    item: T,
+    options: PutItemOptions<T> = {}
+  ): Promise<T> {
     if (this.putShouldFail) {
       throw this.putShouldFail;
     }
 
     this.operations.push({
       operation: 'put',
-      params: { item },
+      params: { item, condition: options.condition },
       timestamp: Date.now(),
     });
+
+    return item;
   }
 
   /**
@@ -88,12 +142,77 @@ export class MockDynamoDBClient {
     return (response as T) ?? null;
   }
 
+  /**
+   * Mock updateItem that captures the built update expression
+   * Returns the pre-configured get response for the key
+   */
+  async updateItem<T extends Record<string, unknown>>(
+    key: Record<string, unknown>,
+    update: UpdateBuilder<T> | ((builder: UpdateBuilder<T>) => unknown),
+    options: UpdateItemOptions<T> = {}
+  ): Promise<T | null> {
+    if (this.updateShouldFail) {
+      throw this.updateShouldFail;
+    }
+
+    let builder: UpdateBuilder<T>;
+    if (update instanceof UpdateBuilder) {
+      builder = update;
+    } else {
+      builder = new UpdateBuilder<T>();
+      update(builder);
+    }
+
+    const input = buildUpdateInput(this.tableName, key, builder, options);
+    this.operations.push({
+      operation: 'update',
+      params: {
+        key,
+        updateExpression: input.UpdateExpression,
+        expressionAttributeNames: input.ExpressionAttributeNames,
+        expressionAttributeValues: input.ExpressionAttributeValues,
+        conditionExpression: input.ConditionExpression,
+        returnValues: input.ReturnValues,
+      },
+      timestamp: Date.now(),
+    });
+
+    const response = this.getResponses.get(JSON.stringify(key));
+    return (response as T) ?? null;
+  }
+
+  /**
+   * Mock deleteItem that captures the operation
+   * Returns the pre-configured get response for the key when returnValues is 'ALL_OLD'
+   */
+  async deleteItem<T extends Record<string, unknown>>(
+    key: DynamoDBKey,
+    options: DeleteItemOptions<T> = {}
+  ): Promise<T | null> {
+    if (this.deleteShouldFail) {
+      throw this.deleteShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'delete',
+      params: { key, options },
+      timestamp: Date.now(),
+    });
+
+    if (options.returnValues !== 'ALL_OLD') {
+      return null;
+    }
+
+    const response = this.getResponses.get(JSON.stringify(key));
+    return (response as T) ?? null;
+  }
+
   /**
    * Mock batchPutItems that captures the operation
    */
   async batchPutItems<T extends Record<string, unknown>>(
     items: T[]
-  ): Promise<void> {
+  ): Promise<BatchWriteResult<T>> {
     if (this.batchPutShouldFail) {
       throw this.batchPutShouldFail;
     }
@@ -103,6 +222,139 @@ export class MockDynamoDBClient {
       params: { items, count: items.length },
       timestamp: Date.now(),
     });
+
+    return { written: items.length, failed: 0, unprocessed: [] };
+  }
+
+  /**
+   * Mock batchGetItems that returns the pre-configured get responses for each key
+   */
+  async batchGetItems<T extends Record<string, unknown>>(
+    keys: DynamoDBKey[],
+    options: BatchGetOptions = {}
+  ): Promise<BatchGetResult<T>> {
+    if (this.batchGetShouldFail) {
+      throw this.batchGetShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'batchGet',
+      params: { keys, options, count: keys.length },
+      timestamp: Date.now(),
+    });
+
+    const items = keys
+      .map((key) => this.getResponses.get(JSON.stringify(key)))
+      .filter((item): item is Record<string, unknown> => !!item);
+
+    return { items: items as T[], unprocessedKeys: [] };
+  }
+
+  /**
+   * Mock batchDeleteItems that captures the operation
+   */
+  async batchDeleteItems(
+    keys: DynamoDBKey[]
+  ): Promise<BatchWriteResult<DynamoDBKey>> {
+    if (this.batchDeleteShouldFail) {
+      throw this.batchDeleteShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'batchDelete',
+      params: { keys, count: keys.length },
+      timestamp: Date.now(),
+    });
+
+    return { written: keys.length, failed: 0, unprocessed: [] };
+  }
+
+  /**
+   * Mock transactWrite that captures the operation
+   * Conditions are captured but not evaluated
+   */
+  async transactWrite(
+    items: TransactWriteItem[],
+    options: TransactWriteOptions = {}
+  ): Promise<void> {
+    if (this.transactWriteShouldFail) {
+      throw this.transactWriteShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'transactWrite',
+      params: { items, options, count: items.length },
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Mock transactGet that returns the pre-configured get response for each key, in order
+   */
+  async transactGet<T extends Record<string, unknown>>(
+    items: TransactGetItem[]
+  ): Promise<(T | null)[]> {
+    if (this.transactGetShouldFail) {
+      throw this.transactGetShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'transactGet',
+      params: { items, count: items.length },
+      timestamp: Date.now(),
+    });
+
+    return items.map(
+      (item) => (this.getResponses.get(JSON.stringify(item.key)) as T) ?? null
+    );
+  }
+
+  /**
+   * Mock query that captures the operation and returns the configured items as a single page
+   */
+  async query<T extends Record<string, unknown>>(
+    options: QueryOptions<T>
+  ): Promise<Page<T>> {
+    this.operations.push({
+      operation: 'query',
+      params: { options },
+      timestamp: Date.now(),
+    });
+
+    return this.toPage<T>(this.queryResponse);
+  }
+
+  /**
+   * Mock queryPages that yields the single page from query
+   */
+  async *queryPages<T extends Record<string, unknown>>(
+    options: QueryOptions<T>
+  ): AsyncGenerator<Page<T>> {
+    yield await this.query<T>(options);
+  }
+
+  /**
+   * Mock scan that captures the operation and returns the configured items as a single page
+   */
+  async scan<T extends Record<string, unknown>>(
+    options: ScanOptions<T> = {}
+  ): Promise<Page<T>> {
+    this.operations.push({
+      operation: 'scan',
+      params: { options },
+      timestamp: Date.now(),
+    });
+
+    return this.toPage<T>(this.scanResponse);
+  }
+
+  /**
+   * Mock scanPages that yields the single page from scan
+   */
+  async *scanPages<T extends Record<string, unknown>>(
+    options: ScanOptions<T> = {}
+  ): AsyncGenerator<Page<T>> {
+    yield await this.scan<T>(options);
   }
 
   /**
@@ -115,9 +367,7 @@ export class MockDynamoDBClient {
   /**
    * Test helper: Get operations of a specific type
    */
-  getOperationsByType(
-    type: 'put' | 'get' | 'batchPut'
-  ): CapturedOperation[] {
+  getOperationsByType(type: OperationType): CapturedOperation[] {
     return this.operations.filter((op) => op.operation === type);
   }
 
@@ -153,6 +403,20 @@ export class MockDynamoDBClient {
     this.getResponses.clear();
   }
 
+  /**
+   * Test helper: Set the items returned by query
+   */
+  setQueryResponse<T extends Record<string, unknown>>(items: T[]): void {
+    this.queryResponse = [...items];
+  }
+
+  /**
+   * Test helper: Set the items returned by scan
+   */
+  setScanResponse<T extends Record<string, unknown>>(items: T[]): void {
+    this.scanResponse = [...items];
+  }
+
   /**
    * Test helper: Make the next putItem call fail with the given error
    */
@@ -167,6 +431,20 @@ export class MockDynamoDBClient {
     this.getShouldFail = error;
   }
 
+  /**
+   * Test helper: Make the next updateItem call fail with the given error
+   */
+  setUpdateError(error: Error): void {
+    this.updateShouldFail = error;
+  }
+
+  /**
+   * Test helper: Make the next deleteItem call fail with the given error
+   */
+  setDeleteError(error: Error): void {
+    this.deleteShouldFail = error;
+  }
+
   /**
    * Test helper: Make the next batchPutItems call fail with the given error
    */
@@ -174,13 +452,47 @@ export class MockDynamoDBClient {
     this.batchPutShouldFail = error;
   }
 
+  /**
+   * Test helper: Make the next batchGetItems call fail with the given error
+   */
+  setBatchGetError(error: Error): void {
+    this.batchGetShouldFail = error;
+  }
+
+  /**
+   * Test helper: Make the next batchDeleteItems call fail with the given error
+   */
+  setBatchDeleteError(error: Error): void {
+    this.batchDeleteShouldFail = error;
+  }
+
+  /**
+   * Test helper: Make the next transactWrite call fail with the given error
+   */
+  setTransactWriteError(error: Error): void {
+    this.transactWriteShouldFail = error;
+  }
+
+  /**
+   * Test helper: Make the next transactGet call fail with the given error
+   */
+  setTransactGetError(error: Error): void {
+    this.transactGetShouldFail = error;
+  }
+
   /**
    * Test helper: Clear all configured errors
    */
   clearErrors(): void {
     this.putShouldFail = null;
     this.getShouldFail = null;
+    this.updateShouldFail = null;
+    this.deleteShouldFail = null;
     this.batchPutShouldFail = null;
+    this.batchGetShouldFail = null;
+    this.batchDeleteShouldFail = null;
+    this.transactWriteShouldFail = null;
+    this.transactGetShouldFail = null;
   }
 
   /**
@@ -189,6 +501,16 @@ export class MockDynamoDBClient {
   getOperationCount(): number {
     return this.operations.length;
   }
+
+  private toPage<T>(items: Record<string, unknown>[]): Page<T> {
+    return {
+      items: [...items] as T[],
+      count: items.length,
+      scannedCount: items.length,
+      lastEvaluatedKey: undefined,
+      cursor: undefined,
+    };
+  }
 }
 
 /**
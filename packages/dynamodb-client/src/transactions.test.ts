@@ -0,0 +1,265 @@
+import { TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  TransactGetCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TransactionCanceledError } from './errors.js';
+import {
+  buildTransactGetInput,
+  buildTransactWriteInput,
+  MAX_TRANSACTION_ITEMS,
+} from './transactions.js';
+import { update } from './update.js';
+import { DynamoDBClientWrapper } from './index.js';
+
+describe('buildTransactWriteInput', () => {
+  it('should build each kind of item with its own placeholders', () => {
+    const input = buildTransactWriteInput(
+      'cards',
+      [
+        { type: 'put', item: { pk: 'SET#tla', sk: 'SET' }, condition: { pk: { exists: false } } },
+        { type: 'update', key: { pk: 'A', sk: 'B' }, update: (item) => item.increment('views') },
+        { type: 'delete', key: { pk: 'C', sk: 'D' } },
+        { type: 'conditionCheck', key: { pk: 'E' }, condition: { status: 'open' }, tableName: 'jobs' },
+      ],
+      { clientRequestToken: 'token-1' }
+    );
+
+    expect(input).toEqual({
+      ClientRequestToken: 'token-1',
+      TransactItems: [
+        {
+          Put: {
+            TableName: 'cards',
+            Item: { pk: 'SET#tla', sk: 'SET' },
+            ConditionExpression: 'attribute_not_exists(#n0)',
+            ExpressionAttributeNames: { '#n0': 'pk' },
+            ExpressionAttributeValues: undefined,
+          },
+        },
+        {
+          Update: {
+            TableName: 'cards',
+            Key: { pk: 'A', sk: 'B' },
+            UpdateExpression: 'SET #n0 = if_not_exists(#n0, :v0) + :v1',
+            ConditionExpression: undefined,
+            ExpressionAttributeNames: { '#n0': 'views' },
+            ExpressionAttributeValues: { ':v0': 0, ':v1': 1 },
+          },
+        },
+        {
+          Delete: {
+            TableName: 'cards',
+            Key: { pk: 'C', sk: 'D' },
+            ConditionExpression: undefined,
+            ExpressionAttributeNames: undefined,
+            ExpressionAttributeValues: undefined,
+          },
+        },
+        {
+          ConditionCheck: {
+            TableName: 'jobs',
+            Key: { pk: 'E' },
+            ConditionExpression: '#n0 = :v0',
+            ExpressionAttributeNames: { '#n0': 'status' },
+            ExpressionAttributeValues: { ':v0': 'open' },
+          },
+        },
+      ],
+    });
+  });
+
+  it('should version items on the default table only', () => {
+    const input = buildTransactWriteInput(
+      'cards',
+      [
+        { type: 'put', item: { pk: 'A', version: 2 } },
+        { type: 'put', item: { pk: 'B' }, tableName: 'audit' },
+        { type: 'update', key: { pk: 'C' }, update: update().set('name', 'Aang'), expectedVersion: 7 },
+        { type: 'delete', key: { pk: 'D' }, expectedVersion: 1 },
+      ],
+      {},
+      'version'
+    );
+
+    expect(input.TransactItems?.[0].Put).toMatchObject({
+      Item: { pk: 'A', version: 3 },
+      ConditionExpression: '#n0 = :v0',
+      ExpressionAttributeValues: { ':v0': 2 },
+    });
+    expect(input.TransactItems?.[1].Put).toMatchObject({
+      Item: { pk: 'B' },
+      ConditionExpression: undefined,
+    });
+    expect(input.TransactItems?.[2].Update).toMatchObject({
+      UpdateExpression: 'SET #n0 = :v0, #n1 = if_not_exists(#n1, :v1) + :v2',
+      ConditionExpression: '#n1 = :v3',
+      ExpressionAttributeValues: { ':v3': 7 },
+    });
+    expect(input.TransactItems?.[3].Delete).toMatchObject({
+      ConditionExpression: '#n0 = :v0',
+      ExpressionAttributeValues: { ':v0': 1 },
+    });
+  });
+
+  it('should reject empty and oversized transactions', () => {
+    const items = Array.from({ length: MAX_TRANSACTION_ITEMS + 1 }, (_, i) => ({
+      type: 'delete' as const,
+      key: { pk: `${i}` },
+    }));
+
+    expect(() => buildTransactWriteInput('cards', [])).toThrow('between 1 and 100');
+    expect(() => buildTransactWriteInput('cards', items)).toThrow('got 101');
+  });
+});
+
+describe('buildTransactGetInput', () => {
+  it('should build gets with projections across tables', () => {
+    expect(
+      buildTransactGetInput('cards', [
+        { key: { pk: 'A' }, projection: ['name'] },
+        { key: { pk: 'B' }, tableName: 'sets' },
+      ])
+    ).toEqual({
+      TransactItems: [
+        {
+          Get: {
+            TableName: 'cards',
+            Key: { pk: 'A' },
+            ProjectionExpression: '#n0',
+            ExpressionAttributeNames: { '#n0': 'name' },
+          },
+        },
+        {
+          Get: {
+            TableName: 'sets',
+            Key: { pk: 'B' },
+            ProjectionExpression: undefined,
+            ExpressionAttributeNames: undefined,
+          },
+        },
+      ],
+    });
+  });
+});
+
+describe('DynamoDBClientWrapper transactions', () => {
+  const ddbMock = mockClient(DynamoDBDocumentClient);
+
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  it('should send a write transaction', async () => {
+    ddbMock.on(TransactWriteCommand).resolves({});
+
+    const client = new DynamoDBClientWrapper({ tableName: 'test-table' });
+
+    await client.transactWrite(
+      [
+        { type: 'put', item: { pk: 'SET#tla', sk: 'SET' } },
+        { type: 'put', item: { pk: 'SET#tla', sk: 'CARD#001' } },
+      ],
+      { clientRequestToken: 'store-tla' }
+    );
+
+    expect(ddbMock.calls()).toHaveLength(1);
+    expect(ddbMock.call(0).args[0].input).toMatchObject({
+      ClientRequestToken: 'store-tla',
+      TransactItems: [
+        { Put: { TableName: 'test-table', Item: { pk: 'SET#tla', sk: 'SET' } } },
+        { Put: { TableName: 'test-table', Item: { pk: 'SET#tla', sk: 'CARD#001' } } },
+      ],
+    });
+  });
+
+  it('should decode cancellation reasons into per-item failures', async () => {
+    ddbMock.on(TransactWriteCommand).rejects(
+      new TransactionCanceledException({
+        message: 'Transaction cancelled',
+        $metadata: {},
+        CancellationReasons: [
+          { Code: 'None' },
+          { Code: 'ConditionalCheckFailed', Message: 'The conditional request failed' },
+          { Code: 'TransactionConflict', Message: 'Transaction is ongoing for the item' },
+        ],
+      })
+    );
+
+    const client = new DynamoDBClientWrapper({ tableName: 'test-table' });
+
+    const error = await client
+      .transactWrite([
+        { type: 'put', item: { pk: 'A' } },
+        { type: 'conditionCheck', key: { pk: 'B' }, condition: { pk: { exists: true } } },
+        { type: 'delete', key: { pk: 'C' }, tableName: 'other-table' },
+      ])
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(TransactionCanceledError);
+    const cancelled = error as TransactionCanceledError;
+    expect(cancelled.hasConditionalCheckFailure()).toBe(true);
+    expect(cancelled.failures).toEqual([
+      {
+        index: 1,
+        operation: 'conditionCheck',
+        tableName: 'test-table',
+        key: { pk: 'B' },
+        code: 'ConditionalCheckFailed',
+        message: 'The conditional request failed',
+      },
+      {
+        index: 2,
+        operation: 'delete',
+        tableName: 'other-table',
+        key: { pk: 'C' },
+        code: 'TransactionConflict',
+        message: 'Transaction is ongoing for the item',
+      },
+    ]);
+    expect(cancelled.message).toContain('item 1 (conditionCheck) ConditionalCheckFailed');
+  });
+
+  it('should pass other errors through unchanged', async () => {
+    const failure = new Error('Throttled');
+    ddbMock.on(TransactWriteCommand).rejects(failure);
+
+    const client = new DynamoDBClientWrapper({ tableName: 'test-table' });
+
+    await expect(
+      client.transactWrite([{ type: 'delete', key: { pk: 'A' } }])
+    ).rejects.toBe(failure);
+  });
+
+  it('should return items in request order with null for missing items', async () => {
+    ddbMock.on(TransactGetCommand).resolves({
+      Responses: [{ Item: { pk: 'A', name: 'Aang' } }, {}],
+    });
+
+    const client = new DynamoDBClientWrapper({ tableName: 'test-table' });
+
+    const items = await client.transactGet([{ key: { pk: 'A' } }, { key: { pk: 'B' } }]);
+
+    expect(items).toEqual([{ pk: 'A', name: 'Aang' }, null]);
+  });
+
+  it('should decode a cancelled read', async () => {
+    ddbMock.on(TransactGetCommand).rejects(
+      new TransactionCanceledException({
+        message: 'Transaction cancelled',
+        $metadata: {},
+        CancellationReasons: [{ Code: 'TransactionConflict' }],
+      })
+    );
+
+    const client = new DynamoDBClientWrapper({ tableName: 'test-table' });
+
+    await expect(client.transactGet([{ key: { pk: 'A' } }])).rejects.toMatchObject({
+      name: 'TransactionCanceledError',
+      failures: [{ index: 0, operation: 'get', code: 'TransactionConflict' }],
+    });
+  });
+});
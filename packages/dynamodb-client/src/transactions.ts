@@ -0,0 +1,323 @@
+import type {
+  TransactGetCommandInput,
+  TransactWriteCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  TransactionCanceledError,
+  type TransactionItemFailure,
+  type TransactionOperation,
+} from './errors.js';
+import {
+  buildCondition,
+  buildProjection,
+  ExpressionAttributes,
+  type Condition,
+} from './expressions.js';
+import type { DynamoDBKey } from './query.js';
+import { UpdateBuilder } from './update.js';
+import { versionPut, withExpectedVersion } from './writes.js';
+
+/**
+ * Maximum number of items in a single TransactWriteItems or TransactGetItems call
+ */
+export const MAX_TRANSACTION_ITEMS = 100;
+
+/**
+ * Fields shared by every item in a transaction
+ */
+interface TransactItemBase {
+  /**
+   * Table to act on, defaulting to the wrapper's table
+   */
+  tableName?: string;
+}
+
+/**
+ * Puts an item, optionally only if the condition matches
+ */
+export interface TransactPut<T = Record<string, unknown>> extends TransactItemBase {
+  type: 'put';
+  item: T;
+  condition?: Condition<T>;
+}
+
+/**
+ * Updates an item in place, optionally only if the condition matches
+ */
+export interface TransactUpdate<T = Record<string, unknown>> extends TransactItemBase {
+  type: 'update';
+  key: DynamoDBKey;
+  update: UpdateBuilder<T> | ((builder: UpdateBuilder<T>) => unknown);
+  condition?: Condition<T>;
+  /**
+   * With optimistic locking, only updates the item at this version
+   */
+  expectedVersion?: number;
+}
+
+/**
+ * Deletes an item, optionally only if the condition matches
+ */
+export interface TransactDelete<T = Record<string, unknown>> extends TransactItemBase {
+  type: 'delete';
+  key: DynamoDBKey;
+  condition?: Condition<T>;
+  /**
+   * With optimistic locking, only deletes the item at this version
+   */
+  expectedVersion?: number;
+}
+
+/**
+ * Checks a condition on an item without changing it, cancelling the transaction if it doesn't match
+ */
+export interface TransactConditionCheck<T = Record<string, unknown>>
+  extends TransactItemBase {
+  type: 'conditionCheck';
+  key: DynamoDBKey;
+  condition: Condition<T>;
+}
+
+/**
+ * A single item in transactWrite()
+ */
+export type TransactWriteItem<T = Record<string, unknown>> =
+  | TransactPut<T>
+  | TransactUpdate<T>
+  | TransactDelete<T>
+  | TransactConditionCheck<T>;
+
+/**
+ * Options for transactWrite()
+ */
+export interface TransactWriteOptions {
+  /**
+   * Makes the transaction idempotent: repeating it with the same token within 10 minutes
+   * succeeds without writing again. The SDK generates a token per call when this is unset,
+   * so pass one to keep retries of the same logical write idempotent
+   */
+  clientRequestToken?: string;
+}
+
+/**
+ * A single item in transactGet()
+ */
+export interface TransactGetItem {
+  key: DynamoDBKey;
+  /**
+   * Attribute names or nested paths to return instead of the whole item
+   */
+  projection?: string[];
+  /**
+   * Table to read from, defaulting to the wrapper's table
+   */
+  tableName?: string;
+}
+
+/**
+ * What was sent for an item, so cancellation reasons can be matched back to it
+ */
+export interface TransactItemTarget {
+  operation: TransactionOperation;
+  tableName: string;
+  key: DynamoDBKey | undefined;
+}
+
+function assertTransactionSize(count: number): void {
+  if (count === 0 || count > MAX_TRANSACTION_ITEMS) {
+    throw new Error(
+      `Transactions must contain between 1 and ${MAX_TRANSACTION_ITEMS} items, got ${count}`
+    );
+  }
+}
+
+function toBuilder<T>(
+  update: UpdateBuilder<T> | ((builder: UpdateBuilder<T>) => unknown)
+): UpdateBuilder<T> {
+  if (update instanceof UpdateBuilder) {
+    return update;
+  }
+
+  const builder = new UpdateBuilder<T>();
+  update(builder);
+  return builder;
+}
+
+/**
+ * Builds the TransactWriteCommand input for a transaction
+ * With a version attribute, items on the default table get the same optimistic locking as
+ * putItem(), updateItem() and deleteItem(); items on other tables are left as they are
+ */
+export function buildTransactWriteInput(
+  defaultTableName: string,
+  items: TransactWriteItem[],
+  options: TransactWriteOptions = {},
+  versionAttribute?: string
+): TransactWriteCommandInput {
+  assertTransactionSize(items.length);
+
+  return {
+    ClientRequestToken: options.clientRequestToken,
+    TransactItems: items.map((item) => {
+      const tableName = item.tableName ?? defaultTableName;
+      const version = tableName === defaultTableName ? versionAttribute : undefined;
+      const attributes = new ExpressionAttributes();
+      const expressions = () => ({
+        ExpressionAttributeNames: attributes.getNames(),
+        ExpressionAttributeValues: attributes.getValues(),
+      });
+
+      switch (item.type) {
+        case 'put': {
+          const { item: written, condition } = version
+            ? versionPut(item.item, version, item.condition)
+            : item;
+          return {
+            Put: {
+              TableName: tableName,
+              Item: written,
+              ConditionExpression: condition && buildCondition(condition, attributes),
+              ...expressions(),
+            },
+          };
+        }
+        case 'update': {
+          const builder = toBuilder(item.update);
+          const updateExpression = (
+            version ? builder.copy().increment(version) : builder
+          ).build(attributes);
+          const condition = withExpectedVersion(
+            item.condition,
+            version,
+            item.expectedVersion
+          );
+          return {
+            Update: {
+              TableName: tableName,
+              Key: item.key,
+              UpdateExpression: updateExpression,
+              ConditionExpression: condition && buildCondition(condition, attributes),
+              ...expressions(),
+            },
+          };
+        }
+        case 'delete': {
+          const condition = withExpectedVersion(
+            item.condition,
+            version,
+            item.expectedVersion
+          );
+          return {
+            Delete: {
+              TableName: tableName,
+              Key: item.key,
+              ConditionExpression: condition && buildCondition(condition, attributes),
+              ...expressions(),
+            },
+          };
+        }
+        case 'conditionCheck':
+          return {
+            ConditionCheck: {
+              TableName: tableName,
+              Key: item.key,
+              ConditionExpression: buildCondition(item.condition, attributes),
+              ...expressions(),
+            },
+          };
+      }
+    }),
+  };
+}
+
+/**
+ * Builds the TransactGetCommand input for a transactional read
+ */
+export function buildTransactGetInput(
+  defaultTableName: string,
+  items: TransactGetItem[]
+): TransactGetCommandInput {
+  assertTransactionSize(items.length);
+
+  return {
+    TransactItems: items.map((item) => {
+      const attributes = new ExpressionAttributes();
+      const projection = item.projection && buildProjection(item.projection, attributes);
+
+      return {
+        Get: {
+          TableName: item.tableName ?? defaultTableName,
+          Key: item.key,
+          ProjectionExpression: projection,
+          ExpressionAttributeNames: attributes.getNames(),
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * Describes what each item in a write transaction targets
+ */
+export function getTransactWriteTargets(
+  defaultTableName: string,
+  items: TransactWriteItem[]
+): TransactItemTarget[] {
+  return items.map((item) => ({
+    operation: item.type,
+    tableName: item.tableName ?? defaultTableName,
+    key: item.type === 'put' ? undefined : item.key,
+  }));
+}
+
+/**
+ * Describes what each item in a read transaction targets
+ */
+export function getTransactGetTargets(
+  defaultTableName: string,
+  items: TransactGetItem[]
+): TransactItemTarget[] {
+  return items.map((item) => ({
+    operation: 'get',
+    tableName: item.tableName ?? defaultTableName,
+    key: item.key,
+  }));
+}
+
+/**
+ * Turns DynamoDB's TransactionCanceledException into a TransactionCanceledError with a
+ * failure for each item whose cancellation reason isn't 'None'
+ * Other errors are returned unchanged
+ */
+export function toTransactionError(
+  error: unknown,
+  targets: TransactItemTarget[]
+): unknown {
+  if (
+    !error ||
+    typeof error !== 'object' ||
+    (error as { name?: string }).name !== 'TransactionCanceledException'
+  ) {
+    return error;
+  }
+
+  const reasons =
+    (error as { CancellationReasons?: { Code?: string; Message?: string }[] })
+      .CancellationReasons ?? [];
+  const failures: TransactionItemFailure[] = [];
+
+  reasons.forEach((reason, index) => {
+    if (!reason.Code || reason.Code === 'None') {
+      return;
+    }
+
+    failures.push({
+      index,
+      ...targets[index],
+      code: reason.Code,
+      message: reason.Message,
+    });
+  });
+
+  return new TransactionCanceledError(failures, error);
+}
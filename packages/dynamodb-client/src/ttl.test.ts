@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryDynamoDB } from './memory.js';
+import { expiresAt, isExpired, withExpiry } from './ttl.js';
+import {
+  createInMemoryDynamoDBClient,
+  type DynamoDBClientWrapper,
+} from './index.js';
+
+const TABLE = 'scryscraper';
+const NOW = new Date('2026-01-02T03:04:05.000Z').getTime();
+const NOW_SECONDS = NOW / 1000;
+
+const card = (collectorNumber: string, extra: Record<string, unknown> = {}) => ({
+  pk: 'SET#tla',
+  sk: `CARD#${collectorNumber}`,
+  name: `Card ${collectorNumber}`,
+  ...extra,
+});
+
+describe('ttl helpers', () => {
+  it('should compute an expiry in epoch seconds', () => {
+    expect(expiresAt(60, NOW)).toBe(NOW_SECONDS + 60);
+    expect(() => expiresAt(0, NOW)).toThrow('TTL must be a positive number of seconds');
+  });
+
+  it('should treat an expiry at or before now as expired', () => {
+    expect(isExpired({ expiresAt: NOW_SECONDS }, 'expiresAt', NOW)).toBe(true);
+    expect(isExpired({ expiresAt: NOW_SECONDS + 1 }, 'expiresAt', NOW)).toBe(false);
+    expect(isExpired({}, 'expiresAt', NOW)).toBe(false);
+  });
+
+  it('should keep an expiry the item already has', () => {
+    expect(withExpiry({ expiresAt: 5 }, 'expiresAt', 60, NOW)).toEqual({ expiresAt: 5 });
+    expect(withExpiry({}, 'expiresAt', undefined, NOW)).toEqual({});
+  });
+});
+
+describe('DynamoDBClientWrapper with a TTL attribute', () => {
+  let engine: InMemoryDynamoDB;
+  let client: DynamoDBClientWrapper;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    engine = new InMemoryDynamoDB();
+    client = createInMemoryDynamoDBClient({
+      tableName: TABLE,
+      engine,
+      ttl: { attribute: 'expiresAt', defaultTtlSeconds: 3600 },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should stamp the default expiry on putItem and batchPutItems', async () => {
+    await client.putItem(card('001'));
+    await client.batchPutItems([card('002')]);
+
+    expect(engine.getItems(TABLE).map((item) => item.expiresAt)).toEqual([
+      NOW_SECONDS + 3600,
+      NOW_SECONDS + 3600,
+    ]);
+  });
+
+  it('should let a put override the default expiry', async () => {
+    const written = await client.putItem(card('001'), { ttlSeconds: 60 });
+
+    expect(written.expiresAt).toBe(NOW_SECONDS + 60);
+  });
+
+  it('should extend the expiry of an item read back when given a TTL', async () => {
+    const written = await client.putItem(card('001'), { ttlSeconds: 60 });
+
+    vi.setSystemTime(NOW + 30_000);
+    const extended = await client.putItem(written, { ttlSeconds: 60 });
+    const defaulted = await client.putItem(extended);
+
+    expect(extended.expiresAt).toBe(NOW_SECONDS + 90);
+    expect(defaulted.expiresAt).toBe(NOW_SECONDS + 90);
+  });
+
+  it('should hide expired items that have not been deleted yet', async () => {
+    engine.seed(TABLE, [
+      card('001', { expiresAt: NOW_SECONDS - 1 }),
+      card('002', { expiresAt: NOW_SECONDS + 60 }),
+      card('003'),
+    ]);
+    const expiredKey = { pk: 'SET#tla', sk: 'CARD#001' };
+
+    expect(await client.getItem(expiredKey)).toBeNull();
+    expect(
+      (await client.batchGetItems([expiredKey, { pk: 'SET#tla', sk: 'CARD#002' }])).items
+    ).toHaveLength(1);
+    expect(await client.transactGet([{ key: expiredKey }])).toEqual([null]);
+
+    const page = await client.query({
+      keyCondition: { pk: 'SET#tla' },
+      filter: { name: { beginsWith: 'Card' } },
+    });
+    expect(page.items.map((item) => item.sk)).toEqual(['CARD#002', 'CARD#003']);
+    expect((await client.scan()).items).toHaveLength(2);
+  });
+
+  it('should hide items once their expiry passes', async () => {
+    await client.putItem(card('001'), { ttlSeconds: 60 });
+
+    vi.setSystemTime(NOW + 60_000);
+
+    expect(await client.getItem({ pk: 'SET#tla', sk: 'CARD#001' })).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import type { Condition } from './expressions.js';
+
+/**
+ * Time to live settings for a table
+ * DynamoDB deletes items some time after the epoch second stored in the attribute,
+ * so reads also skip items that have expired but not been deleted yet
+ */
+export interface TtlOptions {
+  /**
+   * The table's TTL attribute, holding an expiry time in epoch seconds
+   */
+  attribute: string;
+  /**
+   * How long items written by putItem() and batchPutItems() live, in seconds
+   * Items are written without an expiry when this is unset
+   */
+  defaultTtlSeconds?: number;
+}
+
+/**
+ * Gets the epoch second an item written now should expire at
+ */
+export function expiresAt(ttlSeconds: number, now = Date.now()): number {
+  if (!Number.isFinite(ttlSeconds) || ttlSeconds <= 0) {
+    throw new Error('TTL must be a positive number of seconds');
+  }
+
+  return Math.floor(now / 1000) + Math.ceil(ttlSeconds);
+}
+
+/**
+ * Checks whether an item's expiry time has passed
+ * Items without a numeric expiry never expire
+ */
+export function isExpired(
+  item: Record<string, unknown>,
+  attribute: string,
+  now = Date.now()
+): boolean {
+  const expiry = item[attribute];
+  return typeof expiry === 'number' && expiry * 1000 <= now;
+}
+
+/**
+ * Filter matching items that haven't expired, for queries and scans
+ */
+export function notExpiredCondition(
+  attribute: string,
+  now = Date.now()
+): Condition {
+  return {
+    $or: [
+      { [attribute]: { exists: false } },
+      { [attribute]: { gt: Math.floor(now / 1000) } },
+    ],
+  };
+}
+
+/**
+ * Sets an item's expiry from a duration, keeping any expiry the item already has
+ */
+export function withExpiry<T extends Record<string, unknown>>(
+  item: T,
+  attribute: string,
+  ttlSeconds: number | undefined,
+  now = Date.now()
+): T {
+  if (ttlSeconds === undefined || item[attribute] !== undefined) {
+    return item;
+  }
+
+  return { ...item, [attribute]: expiresAt(ttlSeconds, now) };
+}
@@ -0,0 +1,150 @@
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpressionAttributes, InvalidExpressionError } from './expressions.js';
+import { buildUpdateInput, update, UpdateBuilder } from './update.js';
+import { DynamoDBClientWrapper } from './index.js';
+
+interface Card extends Record<string, unknown> {
+  pk: string;
+  sk: string;
+  name: string;
+  views: number;
+  tags: Set<string>;
+}
+
+describe('UpdateBuilder', () => {
+  it('should group actions into SET, REMOVE, ADD and DELETE clauses', () => {
+    const attributes = new ExpressionAttributes();
+
+    const expression = update<Card>()
+      .remove('prices.eur')
+      .set('name', 'Aang')
+      .add('tags', new Set(['new']))
+      .delete('tags', new Set(['old']))
+      .set('prices.usd', 1.5)
+      .build(attributes);
+
+    expect(expression).toBe(
+      'SET #n2 = :v0, #n0.#n4 = :v3 REMOVE #n0.#n1 ADD #n3 :v1 DELETE #n3 :v2'
+    );
+    expect(attributes.getNames()).toEqual({
+      '#n0': 'prices',
+      '#n1': 'eur',
+      '#n2': 'name',
+      '#n3': 'tags',
+      '#n4': 'usd',
+    });
+    expect(attributes.getValues()).toEqual({
+      ':v0': 'Aang',
+      ':v1': new Set(['new']),
+      ':v2': new Set(['old']),
+      ':v3': 1.5,
+    });
+  });
+
+  it('should build if_not_exists, counters and list_append', () => {
+    const attributes = new ExpressionAttributes();
+
+    const expression = update<Card>()
+      .setIfNotExists('name', 'Unknown')
+      .increment('views')
+      .decrement('stock.count', 2)
+      .appendToList('history', [1])
+      .prependToList('recent', [2])
+      .build(attributes);
+
+    expect(expression).toBe(
+      'SET ' +
+        [
+          '#n0 = if_not_exists(#n0, :v0)',
+          '#n1 = if_not_exists(#n1, :v1) + :v2',
+          '#n2.#n3 = if_not_exists(#n2.#n3, :v3) + :v4',
+          '#n4 = list_append(if_not_exists(#n4, :v5), :v6)',
+          '#n5 = list_append(:v8, if_not_exists(#n5, :v7))',
+        ].join(', ')
+    );
+    expect(attributes.getValues()).toMatchObject({
+      ':v1': 0,
+      ':v2': 1,
+      ':v4': -2,
+      ':v5': [],
+      ':v6': [1],
+      ':v8': [2],
+    });
+  });
+
+  it('should address list elements', () => {
+    const attributes = new ExpressionAttributes();
+
+    expect(update().set('faces[1].name', 'Back').remove('faces[0]').build(attributes)).toBe(
+      'SET #n0[1].#n1 = :v0 REMOVE #n0[0]'
+    );
+  });
+
+  it('should reject an empty update', () => {
+    const builder = new UpdateBuilder();
+
+    expect(builder.isEmpty()).toBe(true);
+    expect(() => builder.build(new ExpressionAttributes())).toThrow(InvalidExpressionError);
+  });
+});
+
+describe('buildUpdateInput', () => {
+  it('should default to returning the new item', () => {
+    const input = buildUpdateInput('cards', { pk: 'A', sk: 'B' }, update().increment('views'));
+
+    expect(input).toEqual({
+      TableName: 'cards',
+      Key: { pk: 'A', sk: 'B' },
+      UpdateExpression: 'SET #n0 = if_not_exists(#n0, :v0) + :v1',
+      ExpressionAttributeNames: { '#n0': 'views' },
+      ExpressionAttributeValues: { ':v0': 0, ':v1': 1 },
+      ReturnValues: 'ALL_NEW',
+    });
+  });
+});
+
+describe('DynamoDBClientWrapper updateItem', () => {
+  const ddbMock = mockClient(DynamoDBDocumentClient);
+
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  it('should send an update built by a callback and return the attributes', async () => {
+    ddbMock.on(UpdateCommand).resolves({ Attributes: { pk: 'A', sk: 'B', views: 3 } });
+
+    const client = new DynamoDBClientWrapper({
+      tableName: 'test-table',
+    });
+
+    const result = await client.updateItem<Card>({ pk: 'A', sk: 'B' }, (item) =>
+      item.increment('views')
+    );
+
+    expect(result).toEqual({ pk: 'A', sk: 'B', views: 3 });
+    expect(ddbMock.call(0).args[0].input).toMatchObject({
+      TableName: 'test-table',
+      Key: { pk: 'A', sk: 'B' },
+      UpdateExpression: 'SET #n0 = if_not_exists(#n0, :v0) + :v1',
+    });
+  });
+
+  it('should accept a builder and pass ReturnValues through', async () => {
+    ddbMock.on(UpdateCommand).resolves({});
+
+    const client = new DynamoDBClientWrapper({
+      tableName: 'test-table',
+    });
+
+    const result = await client.updateItem(
+      { pk: 'A', sk: 'B' },
+      update().set('name', 'Aang'),
+      { returnValues: 'NONE' }
+    );
+
+    expect(result).toBeNull();
+    expect(ddbMock.call(0).args[0].input).toMatchObject({ ReturnValues: 'NONE' });
+  });
+});
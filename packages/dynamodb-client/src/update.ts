@@ -0,0 +1,259 @@
+import type { UpdateCommandInput } from '@aws-sdk/lib-dynamodb';
+import {
+  buildCondition,
+  ExpressionAttributes,
+  InvalidExpressionError,
+  type Condition,
+} from './expressions.js';
+import type { DynamoDBKey } from './query.js';
+import { withExpectedVersion } from './writes.js';
+
+/**
+ * Which attributes an update returns
+ */
+export type ReturnValues = 'NONE' | 'ALL_OLD' | 'UPDATED_OLD' | 'ALL_NEW' | 'UPDATED_NEW';
+
+/**
+ * A nested attribute path such as 'prices.usd' or 'faces[0].name'
+ */
+export type NestedPath = `${string}.${string}` | `${string}[${number}]${string}`;
+
+/**
+ * Top-level attributes of T, or any nested path
+ */
+export type UpdatePath<T> = (keyof T & string) | NestedPath;
+
+type PathValue<T, P> = P extends keyof T ? T[P] : unknown;
+
+type UpdateAction =
+  | { type: 'SET'; build: (attributes: ExpressionAttributes) => string }
+  | { type: 'REMOVE'; path: string }
+  | { type: 'ADD' | 'DELETE'; path: string; value: unknown };
+
+/**
+ * Options for updateItem()
+ */
+export interface UpdateItemOptions<T = Record<string, unknown>> {
+  /**
+   * @default 'ALL_NEW'
+   */
+  returnValues?: ReturnValues;
+  /**
+   * Only updates when the existing item matches
+   */
+  condition?: Condition<T>;
+  /**
+   * With optimistic locking, only updates the item at this version
+   */
+  expectedVersion?: number;
+}
+
+/**
+ * Builds an UpdateExpression from SET, REMOVE, ADD and DELETE actions
+ * Attribute names and values are replaced with placeholders, so reserved words are safe
+ *
+ * @example
+ * update<Card>()
+ *   .set('name', 'Aang, at the Crossroads')
+ *   .setIfNotExists('first_seen', now)
+ *   .increment('scrape_count')
+ *   .appendToList('price_history', [{ at: now, usd: 1.5 }])
+ *   .remove('prices.eur')
+ */
+export class UpdateBuilder<T = Record<string, unknown>> {
+  private actions: UpdateAction[] = [];
+
+  /**
+   * Sets an attribute or nested path to a value
+   */
+  set<P extends UpdatePath<T>>(path: P, value: PathValue<T, P>): this {
+    this.actions.push({
+      type: 'SET',
+      build: (attributes) => `${attributes.path(path)} = ${attributes.value(value)}`,
+    });
+    return this;
+  }
+
+  /**
+   * Sets an attribute only if it doesn't already exist
+   */
+  setIfNotExists<P extends UpdatePath<T>>(path: P, value: PathValue<T, P>): this {
+    this.actions.push({
+      type: 'SET',
+      build: (attributes) => {
+        const placeholder = attributes.path(path);
+        return `${placeholder} = if_not_exists(${placeholder}, ${attributes.value(value)})`;
+      },
+    });
+    return this;
+  }
+
+  /**
+   * Adds to a number, treating a missing attribute as 0
+   * Unlike ADD, this also works on nested paths
+   */
+  increment(path: UpdatePath<T>, by = 1): this {
+    this.actions.push({
+      type: 'SET',
+      build: (attributes) => {
+        const placeholder = attributes.path(path);
+        return `${placeholder} = if_not_exists(${placeholder}, ${attributes.value(0)}) + ${attributes.value(by)}`;
+      },
+    });
+    return this;
+  }
+
+  /**
+   * Subtracts from a number, treating a missing attribute as 0
+   */
+  decrement(path: UpdatePath<T>, by = 1): this {
+    return this.increment(path, -by);
+  }
+
+  /**
+   * Appends values to the end of a list, creating the list if it doesn't exist
+   */
+  appendToList(path: UpdatePath<T>, values: unknown[]): this {
+    return this.listAppend(path, values, 'append');
+  }
+
+  /**
+   * Adds values to the start of a list, creating the list if it doesn't exist
+   */
+  prependToList(path: UpdatePath<T>, values: unknown[]): this {
+    return this.listAppend(path, values, 'prepend');
+  }
+
+  /**
+   * Removes an attribute, nested path or list element
+   */
+  remove(path: UpdatePath<T>): this {
+    this.actions.push({ type: 'REMOVE', path });
+    return this;
+  }
+
+  /**
+   * Adds to a number or adds elements to a set, creating the attribute if it doesn't exist
+   * Only top-level attributes can be used with ADD
+   */
+  add(path: UpdatePath<T>, value: number | Set<unknown>): this {
+    this.actions.push({ type: 'ADD', path, value });
+    return this;
+  }
+
+  /**
+   * Removes elements from a set
+   */
+  delete(path: UpdatePath<T>, value: Set<unknown>): this {
+    this.actions.push({ type: 'DELETE', path, value });
+    return this;
+  }
+
+  /**
+   * Checks whether any actions have been added
+   */
+  isEmpty(): boolean {
+    return this.actions.length === 0;
+  }
+
+  /**
+   * Creates a copy of this builder, so it can be extended without changing the original
+   */
+  copy(): UpdateBuilder<T> {
+    const copy = new UpdateBuilder<T>();
+    copy.actions = [...this.actions];
+    return copy;
+  }
+
+  /**
+   * Builds the UpdateExpression, registering its names and values
+   * Actions are grouped into SET, REMOVE, ADD and DELETE clauses in that order
+   */
+  build(attributes: ExpressionAttributes): string {
+    if (this.isEmpty()) {
+      throw new InvalidExpressionError('Update must contain at least one action');
+    }
+
+    const clauses: Record<UpdateAction['type'], string[]> = {
+      SET: [],
+      REMOVE: [],
+      ADD: [],
+      DELETE: [],
+    };
+
+    for (const action of this.actions) {
+      switch (action.type) {
+        case 'SET':
+          clauses.SET.push(action.build(attributes));
+          break;
+        case 'REMOVE':
+          clauses.REMOVE.push(attributes.path(action.path));
+          break;
+        default:
+          clauses[action.type].push(
+            `${attributes.path(action.path)} ${attributes.value(action.value)}`
+          );
+      }
+    }
+
+    return Object.entries(clauses)
+      .filter(([, expressions]) => expressions.length > 0)
+      .map(([type, expressions]) => `${type} ${expressions.join(', ')}`)
+      .join(' ');
+  }
+
+  private listAppend(path: string, values: unknown[], position: 'append' | 'prepend'): this {
+    this.actions.push({
+      type: 'SET',
+      build: (attributes) => {
+        const placeholder = attributes.path(path);
+        const existing = `if_not_exists(${placeholder}, ${attributes.value([])})`;
+        const added = attributes.value(values);
+        return position === 'append'
+          ? `${placeholder} = list_append(${existing}, ${added})`
+          : `${placeholder} = list_append(${added}, ${existing})`;
+      },
+    });
+    return this;
+  }
+}
+
+/**
+ * Starts an update for items of type T
+ */
+export function update<T = Record<string, unknown>>(): UpdateBuilder<T> {
+  return new UpdateBuilder<T>();
+}
+
+/**
+ * Builds the UpdateCommand input for an update
+ * With a version attribute, the update also increments the version and checks expectedVersion when given
+ */
+export function buildUpdateInput<T>(
+  tableName: string,
+  key: DynamoDBKey,
+  builder: UpdateBuilder<T>,
+  options: UpdateItemOptions<T> = {},
+  versionAttribute?: string
+): UpdateCommandInput {
+  const attributes = new ExpressionAttributes();
+  const versioned = versionAttribute
+    ? builder.copy().increment(versionAttribute as UpdatePath<T>)
+    : builder;
+  const updateExpression = versioned.build(attributes);
+  const condition = withExpectedVersion(
+    options.condition,
+    versionAttribute,
+    options.expectedVersion
+  );
+
+  return {
+    TableName: tableName,
+    Key: key,
+    UpdateExpression: updateExpression,
+    ConditionExpression: condition && buildCondition(condition, attributes),
+    ExpressionAttributeNames: attributes.getNames(),
+    ExpressionAttributeValues: attributes.getValues(),
+    ReturnValues: options.returnValues ?? 'ALL_NEW',
+  };
+}
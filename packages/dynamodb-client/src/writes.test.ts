@@ -0,0 +1,269 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  PutCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { mockClient } from 'aws-sdk-client-mock';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConditionalCheckFailedError, VersionConflictError } from './errors.js';
+import { buildDeleteInput, buildPutInput } from './writes.js';
+import { DynamoDBClientWrapper } from './index.js';
+
+const conditionFailed = () =>
+  new ConditionalCheckFailedException({
+    message: 'The conditional request failed',
+    $metadata: {},
+  });
+
+describe('buildPutInput', () => {
+  it('should only add a condition expression when given a condition', () => {
+    expect(buildPutInput('cards', { pk: 'A' })).toEqual({
+      TableName: 'cards',
+      Item: { pk: 'A' },
+      ConditionExpression: undefined,
+      ExpressionAttributeNames: undefined,
+      ExpressionAttributeValues: undefined,
+    });
+
+    expect(
+      buildPutInput('cards', { pk: 'A' }, { pk: { exists: false } })
+    ).toMatchObject({
+      ConditionExpression: 'attribute_not_exists(#n0)',
+      ExpressionAttributeNames: { '#n0': 'pk' },
+    });
+  });
+});
+
+describe('buildDeleteInput', () => {
+  it('should build a conditional delete', () => {
+    expect(
+      buildDeleteInput('cards', { pk: 'A' }, { status: 'retired' }, 'ALL_OLD')
+    ).toEqual({
+      TableName: 'cards',
+      Key: { pk: 'A' },
+      ConditionExpression: '#n0 = :v0',
+      ExpressionAttributeNames: { '#n0': 'status' },
+      ExpressionAttributeValues: { ':v0': 'retired' },
+      ReturnValues: 'ALL_OLD',
+    });
+  });
+});
+
+describe('DynamoDBClientWrapper conditional writes', () => {
+  const ddbMock = mockClient(DynamoDBDocumentClient);
+
+  beforeEach(() => {
+    ddbMock.reset();
+  });
+
+  it('should send the condition with a put', async () => {
+    ddbMock.on(PutCommand).resolves({});
+
+    const client = new DynamoDBClientWrapper({ tableName: 'test-table' });
+    const item = { pk: 'A', name: 'Aang' };
+
+    await expect(
+      client.putItem(item, { condition: { pk: { exists: false } } })
+    ).resolves.toEqual(item);
+    expect(ddbMock.call(0).args[0].input).toMatchObject({
+      ConditionExpression: 'attribute_not_exists(#n0)',
+    });
+  });
+
+  it('should throw ConditionalCheckFailedError when the condition fails', async () => {
+    ddbMock.on(PutCommand).rejects(conditionFailed());
+
+    const client = new DynamoDBClientWrapper({ tableName: 'test-table' });
+
+    const error = await client
+      .putItem({ pk: 'A' }, { condition: { pk: { exists: false } } })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ConditionalCheckFailedError);
+    expect(error).not.toBeInstanceOf(VersionConflictError);
+    expect(error).toMatchObject({
+      tableName: 'test-table',
+      operation: 'put',
+    });
+    expect((error as Error).cause).toBeInstanceOf(
+      ConditionalCheckFailedException
+    );
+  });
+
+  it('should pass other errors through unchanged', async () => {
+    const failure = new Error('Throttled');
+    ddbMock.on(DeleteCommand).rejects(failure);
+
+    const client = new DynamoDBClientWrapper({ tableName: 'test-table' });
+
+    await expect(client.deleteItem({ pk: 'A' })).rejects.toBe(failure);
+  });
+
+  it('should send a conditional delete and return the old item', async () => {
+    ddbMock.on(DeleteCommand).resolves({ Attributes: { pk: 'A', n: 1 } });
+
+    const client = new DynamoDBClientWrapper({ tableName: 'test-table' });
+
+    const deleted = await client.deleteItem(
+      { pk: 'A' },
+      { condition: { n: { lt: 2 } }, returnValues: 'ALL_OLD' }
+    );
+
+    expect(deleted).toEqual({ pk: 'A', n: 1 });
+    expect(ddbMock.call(0).args[0].input).toMatchObject({
+      Key: { pk: 'A' },
+      ConditionExpression: '#n0 < :v0',
+      ReturnValues: 'ALL_OLD',
+    });
+  });
+
+  describe('optimistic locking', () => {
+    const client = new DynamoDBClientWrapper({
+      tableName: 'test-table',
+      versionAttribute: 'version',
+    });
+
+    it('should create a new item at version 1 only if it does not exist', async () => {
+      ddbMock.on(PutCommand).resolves({});
+
+      const written = await client.putItem({ pk: 'A' });
+
+      expect(written).toEqual({ pk: 'A', version: 1 });
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        Item: { pk: 'A', version: 1 },
+        ConditionExpression: 'attribute_not_exists(#n0)',
+        ExpressionAttributeNames: { '#n0': 'version' },
+      });
+    });
+
+    it('should overwrite only the version the item was read at', async () => {
+      ddbMock.on(PutCommand).resolves({});
+
+      const written = await client.putItem(
+        { pk: 'A', version: 3 },
+        { condition: { pk: { exists: true } } }
+      );
+
+      expect(written).toEqual({ pk: 'A', version: 4 });
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        ConditionExpression: '(attribute_exists(#n0)) AND (#n1 = :v0)',
+        ExpressionAttributeValues: { ':v0': 3 },
+      });
+    });
+
+    it('should throw VersionConflictError for a stale put', async () => {
+      ddbMock.on(PutCommand).rejects(conditionFailed());
+
+      const error = await client
+        .putItem({ pk: 'A', version: 3 })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error).toBeInstanceOf(ConditionalCheckFailedError);
+      expect(error).toMatchObject({ operation: 'put', expectedVersion: 3 });
+    });
+
+    it('should increment the version on update and check the expected version', async () => {
+      ddbMock.on(UpdateCommand).resolves({ Attributes: { pk: 'A', version: 5 } });
+
+      await client.updateItem({ pk: 'A' }, (item) => item.set('name', 'Aang'), {
+        expectedVersion: 4,
+      });
+
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        UpdateExpression:
+          'SET #n0 = :v0, #n1 = if_not_exists(#n1, :v1) + :v2',
+        ConditionExpression: '#n1 = :v3',
+        ExpressionAttributeValues: { ':v0': 'Aang', ':v1': 0, ':v2': 1, ':v3': 4 },
+      });
+    });
+
+    it('should throw VersionConflictError for a stale update or delete', async () => {
+      ddbMock.on(UpdateCommand).rejects(conditionFailed());
+      ddbMock.on(DeleteCommand).rejects(conditionFailed());
+
+      await expect(
+        client.updateItem({ pk: 'A' }, (item) => item.set('name', 'Aang'), {
+          expectedVersion: 4,
+        })
+      ).rejects.toMatchObject({
+        name: 'VersionConflictError',
+        operation: 'update',
+        key: { pk: 'A' },
+        expectedVersion: 4,
+      });
+
+      await expect(
+        client.deleteItem({ pk: 'A' }, { expectedVersion: 2 })
+      ).rejects.toMatchObject({
+        name: 'VersionConflictError',
+        operation: 'delete',
+        expectedVersion: 2,
+      });
+    });
+
+    it('should throw ConditionalCheckFailedError when the version matched but the condition did not', async () => {
+      ddbMock.on(PutCommand).rejects(
+        new ConditionalCheckFailedException({
+          message: 'The conditional request failed',
+          $metadata: {},
+          Item: { pk: { S: 'A' }, version: { N: '3' } },
+        })
+      );
+
+      const error = await client
+        .putItem({ pk: 'A', version: 3 }, { condition: { status: 'draft' } })
+        .catch((caught: unknown) => caught);
+
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        ReturnValuesOnConditionCheckFailure: 'ALL_OLD',
+      });
+      expect(error).toBeInstanceOf(ConditionalCheckFailedError);
+      expect(error).not.toBeInstanceOf(VersionConflictError);
+    });
+
+    it('should throw VersionConflictError when the stored version differs', async () => {
+      ddbMock.on(PutCommand).rejects(
+        new ConditionalCheckFailedException({
+          message: 'The conditional request failed',
+          $metadata: {},
+          Item: { pk: { S: 'A' }, version: { N: '4' } },
+        })
+      );
+
+      await expect(
+        client.putItem({ pk: 'A', version: 3 }, { condition: { status: 'draft' } })
+      ).rejects.toBeInstanceOf(VersionConflictError);
+    });
+
+    it('should not blame the version when none was expected', async () => {
+      ddbMock.on(UpdateCommand).rejects(conditionFailed());
+
+      const error = await client
+        .updateItem({ pk: 'A' }, (item) => item.set('name', 'Aang'), {
+          condition: { pk: { exists: true } },
+        })
+        .catch((caught: unknown) => caught);
+
+      expect(ddbMock.call(0).args[0].input).not.toHaveProperty(
+        'ReturnValuesOnConditionCheckFailure'
+      );
+      expect(error).toBeInstanceOf(ConditionalCheckFailedError);
+      expect(error).not.toBeInstanceOf(VersionConflictError);
+    });
+
+    it('should check the expected version on delete', async () => {
+      ddbMock.on(DeleteCommand).resolves({});
+
+      await client.deleteItem({ pk: 'A' }, { expectedVersion: 2 });
+
+      expect(ddbMock.call(0).args[0].input).toMatchObject({
+        ConditionExpression: '#n0 = :v0',
+        ExpressionAttributeNames: { '#n0': 'version' },
+        ExpressionAttributeValues: { ':v0': 2 },
+      });
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import type { DeleteCommandInput, PutCommandInput } from '@aws-sdk/lib-dynamodb';
+import {
+  buildCondition,
+  combineConditions,
+  ExpressionAttributes,
+  type Condition,
+} from './expressions.js';
+import type { DynamoDBKey } from './query.js';
+
+/**
+ * Options for putItem()
+ */
+export interface PutItemOptions<T = Record<string, unknown>> {
+  /**
+   * Only writes when the existing item matches, e.g. { pk: { exists: false } } to only create
+   */
+  condition?: Condition<T>;
+  /**
+   * With a TTL attribute configured, how long this item lives, in seconds, instead of the default
+   * Replaces any expiry the item already has
+   */
+  ttlSeconds?: number;
+}
+
+/**
+ * Options for deleteItem()
+ */
+export interface DeleteItemOptions<T = Record<string, unknown>> {
+  /**
+   * Only deletes when the existing item matches
+   */
+  condition?: Condition<T>;
+  /**
+   * With optimistic locking, only deletes the item at this version
+   */
+  expectedVersion?: number;
+  /**
+   * 'ALL_OLD' returns the deleted item
+   * @default 'NONE'
+   */
+  returnValues?: 'NONE' | 'ALL_OLD';
+}
+
+/**
+ * Condition that an item is at the expected version, or doesn't exist yet when undefined
+ */
+export function versionCondition(
+  versionAttribute: string,
+  expectedVersion: number | undefined
+): Condition {
+  return expectedVersion === undefined
+    ? { [versionAttribute]: { exists: false } }
+    : { [versionAttribute]: expectedVersion };
+}
+
+/**
+ * Reads the version an item was loaded at, or undefined for a new item
+ */
+export function getItemVersion(
+  item: Record<string, unknown>,
+  versionAttribute: string
+): number | undefined {
+  const version = item[versionAttribute];
+
+  if (version === undefined || version === null) {
+    return undefined;
+  }
+
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    throw new Error(`Version attribute ${versionAttribute} must be an integer`);
+  }
+
+  return version;
+}
+
+/**
+ * Reads the stored version from a failed conditional write sent with
+ * ReturnValuesOnConditionCheckFailure: 'ALL_OLD', or undefined when the item or its version is missing
+ * The DocumentClient doesn't unmarshall the exception's item, so the version is still a { N } value
+ */
+export function getStoredVersion(error: unknown, versionAttribute: string): number | undefined {
+  const item = (error as { Item?: Record<string, { N?: string } | undefined> }).Item;
+  const version = item?.[versionAttribute]?.N;
+
+  return version === undefined ? undefined : Number(version);
+}
+
+/**
+ * A put with optimistic locking applied
+ */
+export interface VersionedPut<T> {
+  item: T;
+  condition: Condition<T> | undefined;
+  expectedVersion: number | undefined;
+}
+
+/**
+ * Applies optimistic locking to a put: the item is written at the next version, and only
+ * over the version it was read at, or only if it doesn't exist when it has no version
+ */
+export function versionPut<T extends Record<string, unknown>>(
+  item: T,
+  versionAttribute: string,
+  condition?: Condition<T>
+): VersionedPut<T> {
+  const expectedVersion = getItemVersion(item, versionAttribute);
+
+  return {
+    item: { ...item, [versionAttribute]: (expectedVersion ?? 0) + 1 },
+    condition: combineConditions<T>(
+      condition,
+      versionCondition(versionAttribute, expectedVersion) as Condition<T>
+    ),
+    expectedVersion,
+  };
+}
+
+/**
+ * Adds a check on the expected version to a condition, when an expected version is given
+ */
+export function withExpectedVersion<T>(
+  condition: Condition<T> | undefined,
+  versionAttribute: string | undefined,
+  expectedVersion: number | undefined
+): Condition<T> | undefined {
+  if (!versionAttribute || expectedVersion === undefined) {
+    return condition;
+  }
+
+  return combineConditions<T>(
+    condition,
+    versionCondition(versionAttribute, expectedVersion) as Condition<T>
+  );
+}
+
+/**
+ * Builds the PutCommand input for a put with an optional condition
+ */
+export function buildPutInput<T>(
+  tableName: string,
+  item: Record<string, unknown>,
+  condition?: Condition<T>
+): PutCommandInput {
+  const attributes = new ExpressionAttributes();
+
+  return {
+    TableName: tableName,
+    Item: item,
+    ConditionExpression: condition && buildCondition(condition, attributes),
+    ExpressionAttributeNames: attributes.getNames(),
+    ExpressionAttributeValues: attributes.getValues(),
+  };
+}
+
+/**
+ * Builds the DeleteCommand input for a delete with an optional condition
+ */
+export function buildDeleteInput<T>(
+  tableName: string,
+  key: DynamoDBKey,
+  condition?: Condition<T>,
+  returnValues: 'NONE' | 'ALL_OLD' = 'NONE'
+): DeleteCommandInput {
+  const attributes = new ExpressionAttributes();
+
+  return {
+    TableName: tableName,
+    Key: key,
+    ConditionExpression: condition && buildCondition(condition, attributes),
+    ExpressionAttributeNames: attributes.getNames(),
+    ExpressionAttributeValues: attributes.getValues(),
+    ReturnValues: returnValues,
+  };
+}
@@ -1,13 +1,30 @@
 import { Readable } from 'stream';
+import { URL } from 'url';
 import {
   S3Client,
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
   GetObjectCommand,
   PutObjectCommand,
   HeadObjectCommand,
+  ListObjectsV2Command,
+  S3ServiceException,
+  UploadPartCommand,
 } from '@aws-sdk/client-s3';
 import { mockClient } from 'aws-sdk-client-mock';
 import { describe, it, expect, beforeEach } from 'vitest';
-import { S3ClientWrapper, createS3Client } from './index.js';
+import {
+  S3ClientWrapper,
+  createS3Client,
+  MAX_DELETE_KEYS,
+  MAX_PRESIGN_EXPIRY_SECONDS,
+  MIN_PART_SIZE,
+  type UploadProgress,
+} from './index.js';
 
 describe('S3ClientWrapper', () => {
   const s3Mock = mockClient(S3Client);
@@ -54,6 +71,22 @@ describe('S3ClientWrapper', () => {
       });
     });
 
+    it('should put a byte array body as it is', async () => {
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+      const body = new Uint8Array([0x1f, 0x8b, 0x08]);
+
+      await client.putObject('test-key', body, 'application/gzip');
+
+      expect(s3Mock.call(0).args[0].input).toMatchObject({
+        Body: body,
+        ContentType: 'application/gzip',
+      });
+    });
+
     it('should put an object with metadata', async () => {
       s3Mock.on(PutObjectCommand).resolves({});
 
@@ -118,6 +151,341 @@ describe('S3ClientWrapper', () => {
     });
   });
 
+  describe('putObjectBuffer', () => {
+    it('should put binary data with its content length', async () => {
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+      const image = Buffer.from([0xff, 0xd8, 0xff, 0xe0]);
+
+      await client.putObjectBuffer('images/card.jpg', image, 'image/jpeg', {
+        cardId: 'card-id',
+      });
+
+      expect(s3Mock.call(0).args[0].input).toMatchObject({
+        Bucket: 'test-bucket',
+        Key: 'images/card.jpg',
+        Body: image,
+        ContentLength: 4,
+        ContentType: 'image/jpeg',
+        Metadata: { cardId: 'card-id' },
+      });
+    });
+  });
+
+  describe('putObjectStream', () => {
+    it('should pass the stream through with its content length', async () => {
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+      const body = Readable.from([Buffer.from([1, 2]), Buffer.from([3])]);
+
+      await client.putObjectStream('bulk/cards.json', body, 3, 'application/json');
+
+      const input = s3Mock.call(0).args[0].input as { Body: unknown };
+      expect(input.Body).toBe(body);
+      expect(input).toMatchObject({ ContentLength: 3, ContentType: 'application/json' });
+    });
+
+    it('should reject an invalid content length', async () => {
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await expect(
+        client.putObjectStream('key', Readable.from([]), -1)
+      ).rejects.toThrow('Invalid content length -1 for key');
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+  });
+
+  describe('uploadObject', () => {
+    const socketHangUp = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+    const MiB = 1024 * 1024;
+
+    const mockMultipart = () => {
+      s3Mock.on(CreateMultipartUploadCommand).resolves({ UploadId: 'upload-1' });
+      s3Mock.on(CompleteMultipartUploadCommand).resolves({ ETag: '"final"' });
+      s3Mock.on(AbortMultipartUploadCommand).resolves({});
+    };
+
+    it('should use a single put below the threshold', async () => {
+      s3Mock.on(PutObjectCommand).resolves({ ETag: '"small"' });
+      const progress: UploadProgress[] = [];
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      const result = await client.uploadObject('api/cards.json', '{"cards":[]}', {
+        contentType: 'application/json',
+        onProgress: (update) => progress.push(update),
+      });
+
+      expect(result).toEqual({
+        key: 'api/cards.json',
+        sizeBytes: 12,
+        multipart: false,
+        parts: 1,
+        eTag: '"small"',
+      });
+      expect(s3Mock.call(0).args[0].input).toMatchObject({
+        ContentLength: 12,
+        ContentType: 'application/json',
+      });
+      expect(progress).toEqual([{ loadedBytes: 12, totalBytes: 12, partsUploaded: 1 }]);
+    });
+
+    it('should upload parts concurrently and complete them in order', async () => {
+      mockMultipart();
+      let active = 0;
+      let maxActive = 0;
+      s3Mock.on(UploadPartCommand).callsFake(async (input: { PartNumber: number }) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 4 - input.PartNumber));
+        active--;
+        return { ETag: `"part-${input.PartNumber}"` };
+      });
+      const progress: UploadProgress[] = [];
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      const result = await client.uploadObject('bulk/cards.json', Buffer.alloc(11 * MiB), {
+        multipartThreshold: MIN_PART_SIZE,
+        partSize: MIN_PART_SIZE,
+        concurrency: 2,
+        contentType: 'application/json',
+        onProgress: (update) => progress.push(update),
+      });
+
+      expect(result).toEqual({
+        key: 'bulk/cards.json',
+        sizeBytes: 11 * MiB,
+        multipart: true,
+        parts: 3,
+        eTag: '"final"',
+      });
+      expect(maxActive).toBe(2);
+      expect(s3Mock.commandCalls(CreateMultipartUploadCommand)[0]?.args[0].input).toMatchObject({
+        ContentType: 'application/json',
+      });
+      expect(
+        s3Mock.commandCalls(UploadPartCommand).map((call) => call.args[0].input.ContentLength)
+      ).toEqual([5 * MiB, 5 * MiB, MiB]);
+      expect(
+        s3Mock.commandCalls(CompleteMultipartUploadCommand)[0]?.args[0].input.MultipartUpload
+      ).toEqual({
+        Parts: [
+          { ETag: '"part-1"', PartNumber: 1 },
+          { ETag: '"part-2"', PartNumber: 2 },
+          { ETag: '"part-3"', PartNumber: 3 },
+        ],
+      });
+      expect(progress.at(-1)).toEqual({
+        loadedBytes: 11 * MiB,
+        totalBytes: 11 * MiB,
+        partsUploaded: 3,
+      });
+    });
+
+    it('should split a stream of unknown length into parts', async () => {
+      mockMultipart();
+      s3Mock.on(UploadPartCommand).resolves({ ETag: '"part"' });
+      const progress: UploadProgress[] = [];
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+      const body = Readable.from(Array.from({ length: 6 }, () => Buffer.alloc(MiB)));
+
+      const result = await client.uploadObject('bulk/cards.json', body, {
+        multipartThreshold: MIN_PART_SIZE,
+        onProgress: (update) => progress.push(update),
+      });
+
+      expect(result).toMatchObject({ sizeBytes: 6 * MiB, multipart: true, parts: 1 });
+      expect(progress).toEqual([{ loadedBytes: 6 * MiB, totalBytes: undefined, partsUploaded: 1 }]);
+    });
+
+    it('should retry a failed part', async () => {
+      mockMultipart();
+      s3Mock
+        .on(UploadPartCommand)
+        .rejectsOnce(socketHangUp)
+        .resolves({ ETag: '"part"' });
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      const result = await client.uploadObject('images/card.png', Buffer.alloc(6 * MiB), {
+        multipartThreshold: MIN_PART_SIZE,
+        partSize: MIN_PART_SIZE,
+        baseDelayMs: 0,
+      });
+
+      expect(result.parts).toBe(2);
+      expect(s3Mock.commandCalls(UploadPartCommand)).toHaveLength(3);
+      expect(s3Mock.commandCalls(AbortMultipartUploadCommand)).toHaveLength(0);
+    });
+
+    it('should abort the upload once a part runs out of attempts', async () => {
+      mockMultipart();
+      s3Mock.on(UploadPartCommand).rejects(socketHangUp);
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await expect(
+        client.uploadObject('images/card.png', Buffer.alloc(6 * MiB), {
+          multipartThreshold: MIN_PART_SIZE,
+          maxAttempts: 2,
+          baseDelayMs: 0,
+        })
+      ).rejects.toThrow('socket hang up');
+      expect(s3Mock.commandCalls(UploadPartCommand)).toHaveLength(2);
+      expect(s3Mock.commandCalls(AbortMultipartUploadCommand)[0]?.args[0].input).toEqual({
+        Bucket: 'test-bucket',
+        Key: 'images/card.png',
+        UploadId: 'upload-1',
+      });
+      expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)).toHaveLength(0);
+    });
+
+    it('should abort without retrying a part that fails for good', async () => {
+      mockMultipart();
+      s3Mock.on(UploadPartCommand).rejects(
+        new S3ServiceException({
+          name: 'NoSuchUpload',
+          $fault: 'client',
+          $metadata: { httpStatusCode: 404 },
+          message: 'The specified upload does not exist',
+        })
+      );
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await expect(
+        client.uploadObject('images/card.png', Buffer.alloc(6 * MiB), {
+          multipartThreshold: MIN_PART_SIZE,
+          partSize: 6 * MiB,
+          baseDelayMs: 0,
+        })
+      ).rejects.toThrow('The specified upload does not exist');
+      expect(s3Mock.commandCalls(UploadPartCommand)).toHaveLength(1);
+      expect(s3Mock.commandCalls(AbortMultipartUploadCommand)).toHaveLength(1);
+      expect(s3Mock.commandCalls(CompleteMultipartUploadCommand)).toHaveLength(0);
+    });
+
+    it('should retry parts that S3 throttles or fails on its side', async () => {
+      mockMultipart();
+      s3Mock
+        .on(UploadPartCommand)
+        .rejectsOnce(
+          new S3ServiceException({
+            name: 'SlowDown',
+            $fault: 'server',
+            $metadata: { httpStatusCode: 503 },
+            message: 'Please reduce your request rate.',
+          })
+        )
+        .rejectsOnce(
+          new S3ServiceException({
+            name: 'InternalError',
+            $fault: 'server',
+            $metadata: { httpStatusCode: 500 },
+            message: 'We encountered an internal error. Please try again.',
+          })
+        )
+        .resolves({ ETag: '"part"' });
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      const result = await client.uploadObject('images/card.png', Buffer.alloc(6 * MiB), {
+        multipartThreshold: MIN_PART_SIZE,
+        partSize: 6 * MiB,
+        baseDelayMs: 0,
+      });
+
+      expect(result.parts).toBe(1);
+      expect(s3Mock.commandCalls(UploadPartCommand)).toHaveLength(3);
+    });
+
+    it('should reject parts smaller than S3 allows', async () => {
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await expect(client.uploadObject('key', 'body', { partSize: MiB })).rejects.toThrow(
+        `Part size must be at least ${MIN_PART_SIZE} bytes`
+      );
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+  });
+
+  describe('getObjectBuffer', () => {
+    it('should get binary data without decoding it', async () => {
+      const image = Buffer.from([0xff, 0xd8, 0x80, 0xfe]);
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: Readable.from([image.subarray(0, 2), image.subarray(2)]) as never,
+        ContentLength: 4,
+        ContentType: 'image/jpeg',
+      });
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      const result = await client.getObjectBuffer('images/card.jpg');
+
+      expect(result?.body.equals(image)).toBe(true);
+      expect(result?.metadata).toMatchObject({
+        key: 'images/card.jpg',
+        contentLength: 4,
+        contentType: 'image/jpeg',
+      });
+    });
+
+    it('should return null when object does not exist', async () => {
+      s3Mock.on(GetObjectCommand).rejects({ name: 'NoSuchKey' });
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      expect(await client.getObjectBuffer('non-existent')).toBeNull();
+    });
+  });
+
+  describe('getObjectStream', () => {
+    it('should return the body stream unread', async () => {
+      const body = Readable.from([Buffer.from('large-body')]);
+      s3Mock.on(GetObjectCommand).resolves({ Body: body as never, ContentLength: 10 });
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      const result = await client.getObjectStream('bulk/cards.json');
+
+      expect(result?.body).toBe(body);
+      expect(result?.metadata.contentLength).toBe(10);
+    });
+  });
+
   describe('getObjectMetadata', () => {
     it('should get object metadata without downloading body', async () => {
       const mockDate = new Date('2025-01-01');
@@ -225,6 +593,420 @@ describe('S3ClientWrapper', () => {
     });
   });
 
+  describe('listObjects', () => {
+    it('should follow continuation tokens across pages', async () => {
+      const mockDate = new Date('2025-01-01');
+      s3Mock
+        .on(ListObjectsV2Command)
+        .resolvesOnce({
+          Contents: [{ Key: 'api/sets/tla.json', Size: 10, LastModified: mockDate, ETag: '"a"' }],
+          IsTruncated: true,
+          NextContinuationToken: 'token-1',
+        })
+        .resolvesOnce({
+          Contents: [{ Key: 'api/sets/one.json', Size: 20, StorageClass: 'STANDARD' }],
+          IsTruncated: false,
+        });
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      const entries = [];
+      for await (const entry of client.listObjects({ prefix: 'api/', maxKeys: 1 })) {
+        entries.push(entry);
+      }
+
+      expect(entries).toEqual([
+        {
+          type: 'object',
+          key: 'api/sets/tla.json',
+          lastModified: mockDate,
+          contentLength: 10,
+          eTag: '"a"',
+          storageClass: undefined,
+        },
+        {
+          type: 'object',
+          key: 'api/sets/one.json',
+          lastModified: undefined,
+          contentLength: 20,
+          eTag: undefined,
+          storageClass: 'STANDARD',
+        },
+      ]);
+      expect(s3Mock.call(0).args[0].input).toEqual({
+        Bucket: 'test-bucket',
+        Prefix: 'api/',
+        MaxKeys: 1,
+      });
+      expect(s3Mock.call(1).args[0].input).toMatchObject({ ContinuationToken: 'token-1' });
+    });
+
+    it('should list common prefixes as folders in key order', async () => {
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [{ Key: 'images/readme.txt' }],
+        CommonPrefixes: [{ Prefix: 'images/card-a/' }, { Prefix: 'images/zzz/' }],
+      });
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      const entries = [];
+      for await (const entry of client.listObjects({
+        prefix: 'images/',
+        delimiter: '/',
+        startAfter: 'images/a',
+      })) {
+        entries.push(entry.type === 'prefix' ? entry.prefix : entry.key);
+      }
+
+      expect(entries).toEqual(['images/card-a/', 'images/readme.txt', 'images/zzz/']);
+      expect(s3Mock.call(0).args[0].input).toMatchObject({
+        Delimiter: '/',
+        StartAfter: 'images/a',
+      });
+    });
+
+    it('should yield pages with the token to resume from', async () => {
+      s3Mock.on(ListObjectsV2Command).resolvesOnce({
+        Contents: [{ Key: 'a' }],
+        IsTruncated: true,
+        NextContinuationToken: 'token-1',
+      });
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      const pages = client.listObjectPages();
+      const first = await pages.next();
+      await pages.return(undefined);
+
+      expect(first.value).toMatchObject({
+        commonPrefixes: [],
+        nextContinuationToken: 'token-1',
+      });
+      expect(s3Mock.calls()).toHaveLength(1);
+    });
+  });
+
+  describe('deleteObject', () => {
+    it('should delete an object', async () => {
+      s3Mock.on(DeleteObjectCommand).resolves({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await client.deleteObject('api/sets/tla.json');
+
+      expect(s3Mock.call(0).args[0].input).toEqual({
+        Bucket: 'test-bucket',
+        Key: 'api/sets/tla.json',
+      });
+    });
+  });
+
+  describe('deleteObjects', () => {
+    it('should delete in chunks of 1000 and report keys that failed', async () => {
+      s3Mock
+        .on(DeleteObjectsCommand)
+        .resolvesOnce({
+          Errors: [{ Key: 'key-5', Code: 'AccessDenied', Message: 'Access Denied' }],
+        })
+        .resolvesOnce({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+      const keys = Array.from({ length: MAX_DELETE_KEYS + 2 }, (_, i) => `key-${i}`);
+
+      const result = await client.deleteObjects(keys);
+
+      expect(s3Mock.commandCalls(DeleteObjectsCommand)).toHaveLength(2);
+      expect(
+        s3Mock.commandCalls(DeleteObjectsCommand)[1]?.args[0].input.Delete
+      ).toEqual({ Objects: [{ Key: 'key-1000' }, { Key: 'key-1001' }], Quiet: true });
+      expect(result.deleted).toHaveLength(MAX_DELETE_KEYS + 1);
+      expect(result.deleted).not.toContain('key-5');
+      expect(result.errors).toEqual([
+        { key: 'key-5', code: 'AccessDenied', message: 'Access Denied' },
+      ]);
+    });
+
+    it('should not call S3 for no keys', async () => {
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      expect(await client.deleteObjects([])).toEqual({ deleted: [], errors: [] });
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+  });
+
+  describe('deletePrefix', () => {
+    it('should delete each page of listed keys', async () => {
+      s3Mock
+        .on(ListObjectsV2Command)
+        .resolvesOnce({
+          Contents: [{ Key: 'images/a.jpg' }],
+          IsTruncated: true,
+          NextContinuationToken: 'token-1',
+        })
+        .resolvesOnce({ Contents: [{ Key: 'images/b.jpg' }] });
+      s3Mock.on(DeleteObjectsCommand).resolves({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      const result = await client.deletePrefix('images/');
+
+      expect(result.deleted).toEqual(['images/a.jpg', 'images/b.jpg']);
+      expect(s3Mock.commandCalls(DeleteObjectsCommand)).toHaveLength(2);
+    });
+
+    it('should refuse an empty prefix', async () => {
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await expect(client.deletePrefix('')).rejects.toThrow(
+        'deletePrefix needs a non-empty prefix'
+      );
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+  });
+
+  describe('copyObject and moveObject', () => {
+    it('should copy with an encoded source, keeping metadata by default', async () => {
+      s3Mock.on(CopyObjectCommand).resolves({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await client.copyObject('images/Aang & Katara.jpg', 'images/aang.jpg');
+
+      expect(s3Mock.call(0).args[0].input).toEqual({
+        Bucket: 'test-bucket',
+        Key: 'images/aang.jpg',
+        CopySource: 'test-bucket/images/Aang%20%26%20Katara.jpg',
+        MetadataDirective: 'COPY',
+      });
+    });
+
+    it('should replace metadata when new metadata is given', async () => {
+      s3Mock.on(CopyObjectCommand).resolves({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await client.copyObject('a.json', 'b.json', {
+        sourceBucket: 'other-bucket',
+        metadata: { version: '2' },
+      });
+
+      expect(s3Mock.call(0).args[0].input).toMatchObject({
+        CopySource: 'other-bucket/a.json',
+        MetadataDirective: 'REPLACE',
+        Metadata: { version: '2' },
+      });
+    });
+
+    it('should move by copying then deleting the source', async () => {
+      s3Mock.on(CopyObjectCommand).resolves({});
+      s3Mock.on(DeleteObjectCommand).resolves({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await client.moveObject('api/old.json', 'api/new.json', {
+        sourceBucket: 'other-bucket',
+      });
+
+      expect(s3Mock.call(0).args[0]).toBeInstanceOf(CopyObjectCommand);
+      expect(s3Mock.call(1).args[0].input).toEqual({
+        Bucket: 'other-bucket',
+        Key: 'api/old.json',
+      });
+    });
+
+    it('should keep the source when the copy fails', async () => {
+      s3Mock.on(CopyObjectCommand).rejects({ name: 'NoSuchKey' });
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await expect(client.moveObject('missing', 'dest')).rejects.toMatchObject({
+        name: 'NoSuchKey',
+      });
+      expect(s3Mock.commandCalls(DeleteObjectCommand)).toHaveLength(0);
+    });
+
+    it('should not delete an object moved onto itself', async () => {
+      s3Mock.on(CopyObjectCommand).resolves({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await client.moveObject('api/data.json', 'api/data.json', {
+        sourceBucket: 'test-bucket',
+        metadataDirective: 'REPLACE',
+        contentType: 'application/json',
+      });
+
+      expect(s3Mock.commandCalls(CopyObjectCommand)[0]?.args[0].input).toMatchObject({
+        MetadataDirective: 'REPLACE',
+        ContentType: 'application/json',
+      });
+      expect(s3Mock.commandCalls(DeleteObjectCommand)).toHaveLength(0);
+    });
+
+    it('should send nothing when an object is moved onto itself unchanged', async () => {
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await client.moveObject('api/data.json', 'api/data.json');
+      await client.copyObject('api/data.json', 'api/data.json', { metadataDirective: 'COPY' });
+
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+
+    it('should delete a source with the same key in another bucket', async () => {
+      s3Mock.on(CopyObjectCommand).resolves({});
+      s3Mock.on(DeleteObjectCommand).resolves({});
+
+      const client = new S3ClientWrapper({
+        bucketName: 'test-bucket',
+      });
+
+      await client.moveObject('api/data.json', 'api/data.json', {
+        sourceBucket: 'other-bucket',
+      });
+
+      expect(s3Mock.commandCalls(DeleteObjectCommand)[0].args[0].input).toEqual({
+        Bucket: 'other-bucket',
+        Key: 'api/data.json',
+      });
+    });
+  });
+
+  describe('presigned URLs and POST policies', () => {
+    const client = new S3ClientWrapper({
+      bucketName: 'test-bucket',
+      client: new S3Client({
+        region: 'ap-southeast-2',
+        credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'secret' },
+      }),
+    });
+
+    const decodePolicy = (fields: Record<string, string>) =>
+      JSON.parse(Buffer.from(fields.Policy ?? '', 'base64').toString('utf-8')) as {
+        expiration: string;
+        conditions: unknown[];
+      };
+
+    it('should sign a GET URL with the default expiry', async () => {
+      const url = new URL(await client.getPresignedGetUrl('images/card-id/normal.jpg'));
+
+      expect(url.host).toBe('test-bucket.s3.ap-southeast-2.amazonaws.com');
+      expect(url.pathname).toBe('/images/card-id/normal.jpg');
+      expect(url.searchParams.get('X-Amz-Expires')).toBe('3600');
+      expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+      expect(s3Mock.calls()).toHaveLength(0);
+    });
+
+    it('should sign response overrides and a PUT content type', async () => {
+      const get = new URL(
+        await client.getPresignedGetUrl('images/card-id/png.png', {
+          expiresInSeconds: 60,
+          responseContentDisposition: 'attachment; filename="card.png"',
+        })
+      );
+      const put = new URL(
+        await client.getPresignedPutUrl('uploads/deck.png', {
+          expiresInSeconds: 300,
+          contentType: 'image/png',
+        })
+      );
+
+      expect(get.searchParams.get('X-Amz-Expires')).toBe('60');
+      expect(get.searchParams.get('response-content-disposition')).toBe(
+        'attachment; filename="card.png"'
+      );
+      expect(put.searchParams.get('X-Amz-Expires')).toBe('300');
+      expect(put.searchParams.get('X-Amz-SignedHeaders')).toContain('content-type');
+    });
+
+    it('should reject expiries SigV4 does not allow', async () => {
+      await expect(
+        client.getPresignedGetUrl('key', { expiresInSeconds: MAX_PRESIGN_EXPIRY_SECONDS + 1 })
+      ).rejects.toThrow(`Presigned expiry must be between 1 and ${MAX_PRESIGN_EXPIRY_SECONDS} seconds`);
+      await expect(client.getPresignedPutUrl('key', { expiresInSeconds: 0 })).rejects.toThrow(
+        'Presigned expiry must be between'
+      );
+    });
+
+    it('should build a POST policy with length and type conditions', async () => {
+      const post = await client.createPresignedPost('uploads/deck.png', {
+        expiresInSeconds: 600,
+        minContentLength: 1,
+        maxContentLength: 1024,
+        contentTypePrefix: 'image/',
+        metadata: { uploadedBy: 'user-1' },
+      });
+      const policy = decodePolicy(post.fields);
+
+      expect(post.url).toBe('https://test-bucket.s3.ap-southeast-2.amazonaws.com/');
+      expect(post.fields).toMatchObject({
+        key: 'uploads/deck.png',
+        'x-amz-meta-uploadedBy': 'user-1',
+      });
+      expect(policy.conditions).toEqual(
+        expect.arrayContaining([
+          ['content-length-range', 1, 1024],
+          ['starts-with', '$Content-Type', 'image/'],
+          { 'x-amz-meta-uploadedBy': 'user-1' },
+          { key: 'uploads/deck.png' },
+        ])
+      );
+      expect(Math.abs(new Date(policy.expiration).getTime() - post.expiresAt.getTime())).toBeLessThan(
+        1000
+      );
+    });
+
+    it('should require an exact content type as a field', async () => {
+      const post = await client.createPresignedPost('uploads/deck.png', {
+        maxContentLength: 1024,
+        contentType: 'image/png',
+      });
+
+      expect(post.fields['Content-Type']).toBe('image/png');
+      expect(decodePolicy(post.fields).conditions).toContainEqual({ 'Content-Type': 'image/png' });
+    });
+
+    it('should reject an invalid content length range or two content type rules', async () => {
+      await expect(
+        client.createPresignedPost('key', { minContentLength: 10, maxContentLength: 5 })
+      ).rejects.toThrow('Invalid content length range 10-5 for key');
+      await expect(
+        client.createPresignedPost('key', {
+          maxContentLength: 5,
+          contentType: 'image/png',
+          contentTypePrefix: 'image/',
+        })
+      ).rejects.toThrow('Give either contentType or contentTypePrefix, not both');
+    });
+  });
+
   describe('createS3Client factory', () => {
     it('should create a client instance', () => {
       const client = createS3Client({
@@ -1,14 +1,30 @@
 import { type Readable } from 'stream';
 import {
   S3Client,
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
   GetObjectCommand,
   PutObjectCommand,
   HeadObjectCommand,
+  ListObjectsV2Command,
+  UploadPartCommand,
   type S3ClientConfig,
+  type CompletedPart,
+  type CopyObjectCommandInput,
   type GetObjectCommandInput,
+  type GetObjectCommandOutput,
+  type HeadObjectCommandOutput,
   type PutObjectCommandInput,
   type HeadObjectCommandInput,
+  type ListObjectsV2CommandInput,
+  type _Object,
 } from '@aws-sdk/client-s3';
+import { createPresignedPost, type PresignedPostOptions } from '@aws-sdk/s3-presigned-post';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 
 /**
  * Configuration options for S3 Client Wrapper
@@ -39,6 +55,348 @@ export interface S3GetResult {
   metadata: S3ObjectMetadata;
 }
 
+/**
+ * Result from getting an S3 object as bytes
+ */
+export interface S3GetBufferResult {
+  body: Buffer;
+  metadata: S3ObjectMetadata;
+}
+
+/**
+ * Result from getting an S3 object as a stream
+ * The body must be read to the end or destroyed, or the connection stays open
+ */
+export interface S3GetStreamResult {
+  body: Readable;
+  metadata: S3ObjectMetadata;
+}
+
+/**
+ * Options for listing objects
+ */
+export interface ListObjectsOptions {
+  /**
+   * Only lists keys starting with this prefix, e.g. 'images/'
+   */
+  prefix?: string;
+  /**
+   * Groups keys containing this after the prefix into common prefixes, listed like folders
+   * e.g. '/' lists 'images/card-id/' once instead of every image under it
+   */
+  delimiter?: string;
+  /**
+   * Only lists keys after this one
+   */
+  startAfter?: string;
+  /**
+   * Maximum number of objects and common prefixes per request, up to 1000
+   */
+  maxKeys?: number;
+  /**
+   * Resumes from a token returned with an earlier page
+   */
+  continuationToken?: string;
+}
+
+/**
+ * An object in a listing
+ * Listings don't include content type or user metadata, so use getObjectMetadata() for those
+ */
+export interface S3ListedObject {
+  type: 'object';
+  key: string;
+  lastModified: Date | undefined;
+  contentLength: number | undefined;
+  eTag: string | undefined;
+  storageClass: string | undefined;
+}
+
+/**
+ * A common prefix in a listing, standing in for every key under it
+ */
+export interface S3ListedPrefix {
+  type: 'prefix';
+  prefix: string;
+}
+
+/**
+ * An entry yielded by listObjects()
+ */
+export type S3ListEntry = S3ListedObject | S3ListedPrefix;
+
+/**
+ * A single page of a listing
+ * nextContinuationToken is set when more pages remain
+ */
+export interface S3ListPage {
+  objects: S3ListedObject[];
+  commonPrefixes: string[];
+  nextContinuationToken: string | undefined;
+}
+
+/**
+ * Most keys a single DeleteObjects request accepts
+ */
+export const MAX_DELETE_KEYS = 1000;
+
+/**
+ * A key that S3 refused to delete
+ */
+export interface S3DeleteError {
+  key: string;
+  /**
+   * S3's error code, e.g. 'AccessDenied'
+   */
+  code: string | undefined;
+  message: string | undefined;
+}
+
+/**
+ * Outcome of deleting several objects
+ * Deleting a key that doesn't exist succeeds, so it's listed as deleted
+ */
+export interface S3DeleteResult {
+  deleted: string[];
+  errors: S3DeleteError[];
+}
+
+/**
+ * Options for copying or moving an object
+ */
+export interface CopyObjectOptions {
+  /**
+   * Bucket to copy from
+   * @default the wrapper's bucket
+   */
+  sourceBucket?: string;
+  /**
+   * 'COPY' keeps the source's content type and metadata, 'REPLACE' uses contentType and metadata instead
+   * @default 'REPLACE' when contentType or metadata is given, otherwise 'COPY'
+   */
+  metadataDirective?: 'COPY' | 'REPLACE';
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Smallest part S3 accepts in a multipart upload, other than the last part
+ */
+export const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Most parts a multipart upload can have
+ */
+export const MAX_UPLOAD_PARTS = 10000;
+
+/**
+ * Size above which uploadObject() switches to a multipart upload, unless configured
+ */
+export const DEFAULT_MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+
+/**
+ * Part size uploadObject() uses, unless configured
+ */
+export const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+const DEFAULT_UPLOAD_CONCURRENCY = 4;
+const DEFAULT_PART_ATTEMPTS = 3;
+const DEFAULT_PART_RETRY_DELAY_MS = 200;
+
+/**
+ * How far an upload has got
+ * totalBytes is only known when the body isn't a stream
+ */
+export interface UploadProgress {
+  loadedBytes: number;
+  totalBytes: number | undefined;
+  partsUploaded: number;
+}
+
+/**
+ * Options for a managed upload
+ */
+export interface UploadObjectOptions {
+  contentType?: string;
+  metadata?: Record<string, string>;
+  /**
+   * Bodies larger than this many bytes are uploaded in parts
+   * @default DEFAULT_MULTIPART_THRESHOLD (16 MiB)
+   */
+  multipartThreshold?: number;
+  /**
+   * Size of each part in bytes, at least MIN_PART_SIZE (5 MiB)
+   * Up to concurrency parts are held in memory at once
+   * @default DEFAULT_PART_SIZE (8 MiB)
+   */
+  partSize?: number;
+  /**
+   * Number of parts uploaded at once
+   * @default 4
+   */
+  concurrency?: number;
+  /**
+   * Attempts per part, including the first
+   * Only throttling, 5xx and network errors are retried; other errors abort the upload at once
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before retrying a part, doubled for each retry after the first
+   * @default 200
+   */
+  baseDelayMs?: number;
+  /**
+   * Called after each part is uploaded, or once for a single request upload
+   */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
+/**
+ * Outcome of a managed upload
+ */
+export interface S3UploadResult {
+  key: string;
+  sizeBytes: number;
+  /**
+   * Whether the body was uploaded in parts
+   */
+  multipart: boolean;
+  parts: number;
+  eTag: string | undefined;
+}
+
+/**
+ * Longest a presigned URL or POST policy can stay valid, as SigV4 allows
+ */
+export const MAX_PRESIGN_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+
+const DEFAULT_PRESIGN_EXPIRY_SECONDS = 3600;
+
+/**
+ * Options for a presigned GET URL
+ */
+export interface PresignGetOptions {
+  /**
+   * @default 3600
+   */
+  expiresInSeconds?: number;
+  /**
+   * Content-Disposition to respond with, e.g. 'attachment; filename="card.png"'
+   */
+  responseContentDisposition?: string;
+  /**
+   * Content-Type to respond with instead of the stored one
+   */
+  responseContentType?: string;
+}
+
+/**
+ * Options for a presigned PUT URL
+ */
+export interface PresignPutOptions {
+  /**
+   * @default 3600
+   */
+  expiresInSeconds?: number;
+  /**
+   * Signed into the URL, so the upload must send the same Content-Type header
+   */
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Options for a presigned POST policy
+ * Unlike a presigned PUT, the policy can limit the size and type of what's uploaded
+ */
+export interface PresignPostOptions {
+  /**
+   * @default 3600
+   */
+  expiresInSeconds?: number;
+  /**
+   * Smallest body accepted, in bytes
+   * @default 0
+   */
+  minContentLength?: number;
+  /**
+   * Largest body accepted, in bytes
+   */
+  maxContentLength: number;
+  /**
+   * Content type the form must send exactly
+   */
+  contentType?: string;
+  /**
+   * Prefix the form's content type must start with, e.g. 'image/'
+   */
+  contentTypePrefix?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * A presigned POST policy for a browser form or multipart/form-data upload
+ * Every field must be sent, before the file itself
+ */
+export interface S3PresignedPost {
+  url: string;
+  fields: Record<string, string>;
+  expiresAt: Date;
+}
+
+interface PartRetry {
+  maxAttempts: number;
+  baseDelayMs: number;
+}
+
+function toBuffer(chunk: string | Uint8Array): Buffer {
+  return typeof chunk === 'string'
+    ? Buffer.from(chunk)
+    : Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+}
+
+// S3's throttling, server-side and timeout errors, which can succeed when tried again
+const RETRYABLE_ERROR_NAMES = new Set([
+  'SlowDown',
+  'ThrottlingException',
+  'InternalError',
+  'ServiceUnavailable',
+  'RequestTimeout',
+  'TimeoutError',
+]);
+
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE']);
+
+/**
+ * Classifies throttling, 5xx and network errors as worth retrying a part for
+ * Errors such as NoSuchUpload or AccessDenied fail the same way every time
+ */
+function isRetryablePartError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const candidate = error as {
+    name?: string;
+    code?: string;
+    $retryable?: unknown;
+    $metadata?: { httpStatusCode?: number };
+  };
+  const statusCode = candidate.$metadata?.httpStatusCode;
+
+  return (
+    Boolean(candidate.$retryable) ||
+    (candidate.name !== undefined && RETRYABLE_ERROR_NAMES.has(candidate.name)) ||
+    (candidate.code !== undefined && RETRYABLE_ERROR_CODES.has(candidate.code)) ||
+    (statusCode !== undefined && (statusCode === 429 || statusCode >= 500))
+  );
+}
+
+function sleep(delayMs: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, delayMs));
+}
+
 /**
  * S3 Client Wrapper
  * Provides high-level operations for S3 with helpers for caching use cases
@@ -68,10 +426,32 @@ export class S3ClientWrapper {
 
   /**
    * Puts an object into S3
+   * Text bodies are sent as UTF-8, and byte arrays as they are
    */
   async putObject(
     key: string,
-    body: string,
+    body: string | Uint8Array,
+    contentType?: string,
+    metadata?: Record<string, string>
+  ): Promise<void> {
+    const params: PutObjectCommandInput = {
+      Bucket: this.bucketName,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+      Metadata: metadata,
+    };
+
+    await this.client.send(new PutObjectCommand(params));
+  }
+
+  /**
+   * Puts binary data, such as an image, into S3
+   * The content length is set from the data
+   */
+  async putObjectBuffer(
+    key: string,
+    body: Buffer | Uint8Array,
     contentType?: string,
     metadata?: Record<string, string>
   ): Promise<void> {
@@ -79,6 +459,7 @@ export class S3ClientWrapper {
       Bucket: this.bucketName,
       Key: key,
       Body: body,
+      ContentLength: body.byteLength,
       ContentType: contentType,
       Metadata: metadata,
     };
@@ -86,11 +467,128 @@ export class S3ClientWrapper {
     await this.client.send(new PutObjectCommand(params));
   }
 
+  /**
+   * Streams an object into S3 without holding it in memory
+   * S3 needs the length of a streamed body up front, e.g. from a download's Content-Length header
+   */
+  async putObjectStream(
+    key: string,
+    body: Readable,
+    contentLength: number,
+    contentType?: string,
+    metadata?: Record<string, string>
+  ): Promise<void> {
+    if (!Number.isInteger(contentLength) || contentLength < 0) {
+      throw new Error(`Invalid content length ${contentLength} for ${key}`);
+    }
+
+    const params: PutObjectCommandInput = {
+      Bucket: this.bucketName,
+      Key: key,
+      Body: body,
+      ContentLength: contentLength,
+      ContentType: contentType,
+      Metadata: metadata,
+    };
+
+    await this.client.send(new PutObjectCommand(params));
+  }
+
+  /**
+   * Uploads an object, in parts when it's larger than the multipart threshold
+   * Streams of unknown length are read up to the threshold to decide. Parts are uploaded
+   * concurrently and retried individually, and a failed upload is aborted so its parts
+   * don't linger in the bucket
+   *
+   * @example
+   * await s3.uploadObject('bulk/default-cards.json', response.body, {
+   *   contentType: 'application/json',
+   *   onProgress: ({ loadedBytes }) => log.info({ loadedBytes }, 'Uploading bulk data'),
+   * });
+   */
+  async uploadObject(
+    key: string,
+    body: string | Uint8Array | Readable,
+    options: UploadObjectOptions = {}
+  ): Promise<S3UploadResult> {
+    const threshold = options.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD;
+    const partSize = options.partSize ?? DEFAULT_PART_SIZE;
+    const concurrency = options.concurrency ?? DEFAULT_UPLOAD_CONCURRENCY;
+    const retry: PartRetry = {
+      maxAttempts: options.maxAttempts ?? DEFAULT_PART_ATTEMPTS,
+      baseDelayMs: options.baseDelayMs ?? DEFAULT_PART_RETRY_DELAY_MS,
+    };
+
+    if (!Number.isInteger(partSize) || partSize < MIN_PART_SIZE) {
+      throw new Error(`Part size must be at least ${MIN_PART_SIZE} bytes`);
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('Upload concurrency must be a positive integer');
+    }
+    if (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts < 1) {
+      throw new Error('Part attempts must be a positive integer');
+    }
+
+    const totalBytes =
+      typeof body === 'string' || body instanceof Uint8Array ? toBuffer(body).length : undefined;
+    const chunks = this.readChunks(body);
+    const head: Buffer[] = [];
+    let headBytes = 0;
+
+    while (headBytes <= threshold) {
+      const next = await chunks.next();
+
+      if (next.done) {
+        return this.uploadSingle(key, Buffer.concat(head), options);
+      }
+      head.push(next.value);
+      headBytes += next.value.length;
+    }
+
+    return this.uploadMultipart(
+      key,
+      this.splitParts(this.prepend(head, chunks), partSize),
+      totalBytes,
+      concurrency,
+      retry,
+      options
+    );
+  }
+
   /**
    * Gets an object from S3
    * Returns both the body content and metadata
+   * The body is decoded as UTF-8, so use getObjectBuffer() for binary objects
    */
   async getObject(key: string): Promise<S3GetResult | null> {
+    const result = await this.getObjectStream(key);
+
+    if (!result) {
+      return null;
+    }
+
+    const body = await this.streamToBuffer(result.body);
+    return { body: body.toString('utf-8'), metadata: result.metadata };
+  }
+
+  /**
+   * Gets an object from S3 as bytes, for binary objects such as images
+   */
+  async getObjectBuffer(key: string): Promise<S3GetBufferResult | null> {
+    const result = await this.getObjectStream(key);
+
+    if (!result) {
+      return null;
+    }
+
+    const body = await this.streamToBuffer(result.body);
+    return { body, metadata: result.metadata };
+  }
+
+  /**
+   * Gets an object from S3 as a stream, without holding it in memory
+   */
+  async getObjectStream(key: string): Promise<S3GetStreamResult | null> {
     try {
       const params: GetObjectCommandInput = {
         Bucket: this.bucketName,
@@ -103,19 +601,9 @@ export class S3ClientWrapper {
         return null;
       }
 
-      // Convert stream to string
-      const body = await this.streamToString(result.Body as Readable);
-
       return {
-        body,
-        metadata: {
-          key,
-          lastModified: result.LastModified,
-          contentLength: result.ContentLength,
-          contentType: result.ContentType,
-          metadata: result.Metadata,
-          eTag: result.ETag,
-        },
+        body: result.Body as Readable,
+        metadata: this.toMetadata(key, result),
       };
     } catch (error: unknown) {
       // If object doesn't exist, return null
@@ -144,14 +632,7 @@ export class S3ClientWrapper {
 
       const result = await this.client.send(new HeadObjectCommand(params));
 
-      return {
-        key,
-        lastModified: result.LastModified,
-        contentLength: result.ContentLength,
-        contentType: result.ContentType,
-        metadata: result.Metadata,
-        eTag: result.ETag,
-      };
+      return this.toMetadata(key, result);
     } catch (error: unknown) {
       // If object doesn't exist, return null
       if (
@@ -192,16 +673,545 @@ export class S3ClientWrapper {
   }
 
   /**
-   * Helper to convert a readable stream to a string
+   * Deletes an object
+   * Deleting a key that doesn't exist succeeds
+   */
+  async deleteObject(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucketName, Key: key })
+    );
+  }
+
+  /**
+   * Deletes objects in DeleteObjects requests of up to 1000 keys
+   * Keys S3 refuses to delete are reported in errors rather than thrown, so the rest still go
+   */
+  async deleteObjects(keys: string[]): Promise<S3DeleteResult> {
+    const result: S3DeleteResult = { deleted: [], errors: [] };
+
+    for (let i = 0; i < keys.length; i += MAX_DELETE_KEYS) {
+      const chunk = keys.slice(i, i + MAX_DELETE_KEYS);
+      const response = await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucketName,
+          Delete: { Objects: chunk.map((key) => ({ Key: key })), Quiet: true },
+        })
+      );
+      const errors: S3DeleteError[] = (response.Errors ?? []).map((error) => ({
+        key: error.Key ?? '',
+        code: error.Code,
+        message: error.Message,
+      }));
+      const failed = new Set(errors.map((error) => error.key));
+
+      result.deleted.push(...chunk.filter((key) => !failed.has(key)));
+      result.errors.push(...errors);
+    }
+
+    return result;
+  }
+
+  /**
+   * Deletes every object whose key starts with the prefix, a page of keys at a time
+   *
+   * @throws Error when the prefix is empty, rather than emptying the bucket
+   */
+  async deletePrefix(prefix: string): Promise<S3DeleteResult> {
+    if (!prefix) {
+      throw new Error('deletePrefix needs a non-empty prefix');
+    }
+
+    const result: S3DeleteResult = { deleted: [], errors: [] };
+
+    for await (const page of this.listObjectPages({ prefix })) {
+      const pageResult = await this.deleteObjects(page.objects.map((object) => object.key));
+      result.deleted.push(...pageResult.deleted);
+      result.errors.push(...pageResult.errors);
+    }
+
+    return result;
+  }
+
+  /**
+   * Copies an object within the bucket, or into it from another bucket
+   * Objects over 5 GB can't be copied in a single request
+   * S3 rejects copying an object onto itself unchanged, so that is skipped without a request
+   */
+  async copyObject(
+    sourceKey: string,
+    destinationKey: string,
+    options: CopyObjectOptions = {}
+  ): Promise<void> {
+    const sourceBucket = options.sourceBucket ?? this.bucketName;
+    const metadataDirective =
+      options.metadataDirective ?? (options.contentType || options.metadata ? 'REPLACE' : 'COPY');
+
+    if (
+      sourceBucket === this.bucketName &&
+      sourceKey === destinationKey &&
+      metadataDirective === 'COPY'
+    ) {
+      return;
+    }
+
+    const params: CopyObjectCommandInput = {
+      Bucket: this.bucketName,
+      Key: destinationKey,
+      CopySource: `${sourceBucket}/${sourceKey.split('/').map(encodeURIComponent).join('/')}`,
+      MetadataDirective: metadataDirective,
+      ContentType: options.contentType,
+      Metadata: options.metadata,
+    };
+
+    await this.client.send(new CopyObjectCommand(params));
+  }
+
+  /**
+   * Moves an object by copying it, then deleting the source
+   * S3 has no atomic rename, so a failed delete leaves both copies
+   * Moving an object onto itself only copies it, so replacing its metadata doesn't delete it,
+   * and without new metadata it does nothing
+   */
+  async moveObject(
+    sourceKey: string,
+    destinationKey: string,
+    options: CopyObjectOptions = {}
+  ): Promise<void> {
+    const sourceBucket = options.sourceBucket ?? this.bucketName;
+
+    await this.copyObject(sourceKey, destinationKey, options);
+
+    if (sourceBucket === this.bucketName && sourceKey === destinationKey) {
+      return;
+    }
+
+    await this.client.send(
+      new DeleteObjectCommand({
+        Bucket: sourceBucket,
+        Key: sourceKey,
+      })
+    );
+  }
+
+  /**
+   * Creates a time-limited URL anyone can download an object from
+   * Works with buckets that block public access; the URL carries the wrapper's credentials
+   */
+  async getPresignedGetUrl(key: string, options: PresignGetOptions = {}): Promise<string> {
+    const command = new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ResponseContentDisposition: options.responseContentDisposition,
+      ResponseContentType: options.responseContentType,
+    });
+
+    return getSignedUrl(this.client, command, {
+      expiresIn: this.presignExpiry(options.expiresInSeconds),
+    });
+  }
+
+  /**
+   * Creates a time-limited URL anyone can upload an object to with a PUT request
+   * The size of the upload can't be limited, so use createPresignedPost() for untrusted uploaders
+   */
+  async getPresignedPutUrl(key: string, options: PresignPutOptions = {}): Promise<string> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: options.contentType,
+      Metadata: options.metadata,
+    });
+
+    return getSignedUrl(this.client, command, {
+      expiresIn: this.presignExpiry(options.expiresInSeconds),
+      signableHeaders: options.contentType !== undefined ? new Set(['content-type']) : undefined,
+    });
+  }
+
+  /**
+   * Creates a time-limited POST policy for uploading an object from a form
+   * S3 rejects uploads outside the content length range or with the wrong content type
+   *
+   * @example
+   * const { url, fields } = await s3.createPresignedPost('uploads/deck.png', {
+   *   maxContentLength: 10 * 1024 * 1024,
+   *   contentTypePrefix: 'image/',
+   * });
+   */
+  async createPresignedPost(key: string, options: PresignPostOptions): Promise<S3PresignedPost> {
+    const minContentLength = options.minContentLength ?? 0;
+    const expiresIn = this.presignExpiry(options.expiresInSeconds);
+
+    if (
+      !Number.isInteger(minContentLength) ||
+      !Number.isInteger(options.maxContentLength) ||
+      minContentLength < 0 ||
+      options.maxContentLength < Math.max(minContentLength, 1)
+    ) {
+      throw new Error(
+        `Invalid content length range ${minContentLength}-${options.maxContentLength} for ${key}`
+      );
+    }
+    if (options.contentType !== undefined && options.contentTypePrefix !== undefined) {
+      throw new Error('Give either contentType or contentTypePrefix, not both');
+    }
+
+    const fields: Record<string, string> = {};
+    const conditions: NonNullable<PresignedPostOptions['Conditions']> = [
+      ['content-length-range', minContentLength, options.maxContentLength],
+    ];
+
+    if (options.contentType !== undefined) {
+      fields['Content-Type'] = options.contentType;
+    }
+    if (options.contentTypePrefix !== undefined) {
+      conditions.push(['starts-with', '$Content-Type', options.contentTypePrefix]);
+    }
+    for (const [name, value] of Object.entries(options.metadata ?? {})) {
+      fields[`x-amz-meta-${name}`] = value;
+    }
+
+    const expiresAt = new Date(Date.now() + expiresIn * 1000);
+    const post = await createPresignedPost(this.client, {
+      Bucket: this.bucketName,
+      Key: key,
+      Conditions: conditions,
+      Fields: fields,
+      Expires: expiresIn,
+    });
+
+    return { url: post.url, fields: post.fields, expiresAt };
+  }
+
+  /**
+   * Lists objects and common prefixes in key order, fetching pages as they're needed
+   *
+   * @example
+   * for await (const entry of client.listObjects({ prefix: 'images/', delimiter: '/' })) {
+   *   console.log(entry.type === 'prefix' ? entry.prefix : entry.key);
+   * }
+   */
+  async *listObjects(options: ListObjectsOptions = {}): AsyncGenerator<S3ListEntry> {
+    for await (const page of this.listObjectPages(options)) {
+      const entries: S3ListEntry[] = [
+        ...page.objects,
+        ...page.commonPrefixes.map((prefix): S3ListedPrefix => ({ type: 'prefix', prefix })),
+      ];
+
+      entries.sort((a, b) => {
+        const aKey = a.type === 'object' ? a.key : a.prefix;
+        const bKey = b.type === 'object' ? b.key : b.prefix;
+        return aKey < bKey ? -1 : aKey > bKey ? 1 : 0;
+      });
+      yield* entries;
+    }
+  }
+
+  /**
+   * Lists objects a page at a time, for callers that save continuation tokens
+   */
+  async *listObjectPages(options: ListObjectsOptions = {}): AsyncGenerator<S3ListPage> {
+    let continuationToken = options.continuationToken;
+
+    do {
+      const params: ListObjectsV2CommandInput = {
+        Bucket: this.bucketName,
+        Prefix: options.prefix,
+        Delimiter: options.delimiter,
+        StartAfter: options.startAfter,
+        MaxKeys: options.maxKeys,
+        ContinuationToken: continuationToken,
+      };
+
+      const result = await this.client.send(new ListObjectsV2Command(params));
+      const page: S3ListPage = {
+        objects: (result.Contents ?? []).map((object) => this.toListedObject(object)),
+        commonPrefixes: (result.CommonPrefixes ?? []).flatMap((common) =>
+          common.Prefix ? [common.Prefix] : []
+        ),
+        nextContinuationToken: result.IsTruncated ? result.NextContinuationToken : undefined,
+      };
+
+      yield page;
+      continuationToken = page.nextContinuationToken;
+    } while (continuationToken);
+  }
+
+  /**
+   * Helper to upload a body small enough for a single request
+   */
+  private async uploadSingle(
+    key: string,
+    body: Buffer,
+    options: UploadObjectOptions
+  ): Promise<S3UploadResult> {
+    const result = await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: body,
+        ContentLength: body.length,
+        ContentType: options.contentType,
+        Metadata: options.metadata,
+      })
+    );
+
+    options.onProgress?.({ loadedBytes: body.length, totalBytes: body.length, partsUploaded: 1 });
+    return { key, sizeBytes: body.length, multipart: false, parts: 1, eTag: result.ETag };
+  }
+
+  /**
+   * Helper to upload parts concurrently, completing the upload or aborting it on failure
+   * Abort errors are swallowed so the part failure is what's thrown
+   */
+  private async uploadMultipart(
+    key: string,
+    parts: AsyncGenerator<Buffer>,
+    totalBytes: number | undefined,
+    concurrency: number,
+    retry: PartRetry,
+    options: UploadObjectOptions
+  ): Promise<S3UploadResult> {
+    const created = await this.client.send(
+      new CreateMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        ContentType: options.contentType,
+        Metadata: options.metadata,
+      })
+    );
+    const uploadId = created.UploadId;
+
+    if (!uploadId) {
+      throw new Error(`No upload ID returned for ${key}`);
+    }
+
+    const completed: CompletedPart[] = [];
+    const inFlight = new Set<Promise<void>>();
+    const progress: UploadProgress = { loadedBytes: 0, totalBytes, partsUploaded: 0 };
+    let failure: { error: unknown } | undefined;
+    let partCount = 0;
+
+    try {
+      for await (const part of parts) {
+        const partNumber = ++partCount;
+
+        if (partNumber > MAX_UPLOAD_PARTS) {
+          throw new Error(
+            `Upload of ${key} needs more than ${MAX_UPLOAD_PARTS} parts, use a larger part size`
+          );
+        }
+
+        const task: Promise<void> = this.uploadPart(key, uploadId, partNumber, part, retry)
+          .then(
+            (eTag) => {
+              completed.push({ ETag: eTag, PartNumber: partNumber });
+              progress.loadedBytes += part.length;
+              progress.partsUploaded++;
+              options.onProgress?.({ ...progress });
+            },
+            (error: unknown) => {
+              failure ??= { error };
+            }
+          )
+          .finally(() => inFlight.delete(task));
+        inFlight.add(task);
+
+        if (inFlight.size >= concurrency) {
+          await Promise.race(inFlight);
+        }
+        if (failure) {
+          throw failure.error;
+        }
+      }
+
+      await Promise.all(inFlight);
+      if (failure) {
+        throw failure.error;
+      }
+
+      const result = await this.client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: completed.sort((a, b) => (a.PartNumber ?? 0) - (b.PartNumber ?? 0)),
+          },
+        })
+      );
+
+      return {
+        key,
+        sizeBytes: progress.loadedBytes,
+        multipart: true,
+        parts: partCount,
+        eTag: result.ETag,
+      };
+    } catch (error) {
+      await Promise.all(inFlight);
+      await this.client
+        .send(
+          new AbortMultipartUploadCommand({ Bucket: this.bucketName, Key: key, UploadId: uploadId })
+        )
+        .catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Helper to upload one part, retrying throttling, server and network errors with a doubling delay
+   */
+  private async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer,
+    retry: PartRetry
+  ): Promise<string | undefined> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.client.send(
+          new UploadPartCommand({
+            Bucket: this.bucketName,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+            Body: body,
+            ContentLength: body.length,
+          })
+        );
+        return result.ETag;
+      } catch (error) {
+        if (attempt >= retry.maxAttempts || !isRetryablePartError(error)) {
+          throw error;
+        }
+        await sleep(retry.baseDelayMs * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  /**
+   * Helper to read an upload body as buffers
+   */
+  private async *readChunks(body: string | Uint8Array | Readable): AsyncGenerator<Buffer> {
+    if (typeof body === 'string' || body instanceof Uint8Array) {
+      yield toBuffer(body);
+      return;
+    }
+
+    for await (const chunk of body) {
+      yield toBuffer(chunk as string | Uint8Array);
+    }
+  }
+
+  /**
+   * Helper to put chunks already read back in front of the rest
+   * Closing it closes the rest, so an abandoned stream is destroyed
    */
-  private async streamToString(stream: Readable): Promise<string> {
+  private async *prepend(head: Buffer[], rest: AsyncGenerator<Buffer>): AsyncGenerator<Buffer> {
+    try {
+      yield* head;
+      for (let next = await rest.next(); !next.done; next = await rest.next()) {
+        yield next.value;
+      }
+    } finally {
+      await rest.return(undefined);
+    }
+  }
+
+  /**
+   * Helper to regroup chunks into parts of partSize bytes, the last part holding what's left
+   */
+  private async *splitParts(
+    chunks: AsyncIterable<Buffer>,
+    partSize: number
+  ): AsyncGenerator<Buffer> {
+    let pending: Buffer[] = [];
+    let pendingBytes = 0;
+
+    for await (const chunk of chunks) {
+      pending.push(chunk);
+      pendingBytes += chunk.length;
+
+      if (pendingBytes >= partSize) {
+        let joined = Buffer.concat(pending);
+
+        while (joined.length >= partSize) {
+          yield joined.subarray(0, partSize);
+          joined = joined.subarray(partSize);
+        }
+        pending = [joined];
+        pendingBytes = joined.length;
+      }
+    }
+
+    if (pendingBytes > 0) {
+      yield Buffer.concat(pending);
+    }
+  }
+
+  /**
+   * Helper to check a presigned expiry, defaulting to an hour
+   */
+  private presignExpiry(expiresInSeconds = DEFAULT_PRESIGN_EXPIRY_SECONDS): number {
+    if (
+      !Number.isInteger(expiresInSeconds) ||
+      expiresInSeconds < 1 ||
+      expiresInSeconds > MAX_PRESIGN_EXPIRY_SECONDS
+    ) {
+      throw new Error(
+        `Presigned expiry must be between 1 and ${MAX_PRESIGN_EXPIRY_SECONDS} seconds`
+      );
+    }
+
+    return expiresInSeconds;
+  }
+
+  /**
+   * Helper to read a readable stream into a buffer
+   */
+  private async streamToBuffer(stream: Readable): Promise<Buffer> {
     const chunks: Buffer[] = [];
     return new Promise((resolve, reject) => {
-      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('data', (chunk: Buffer | string) =>
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+      );
       stream.on('error', reject);
-      stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
     });
   }
+
+  /**
+   * Helper to read a listed object from a ListObjectsV2 response
+   */
+  private toListedObject(object: _Object): S3ListedObject {
+    return {
+      type: 'object',
+      key: object.Key ?? '',
+      lastModified: object.LastModified,
+      contentLength: object.Size,
+      eTag: object.ETag,
+      storageClass: object.StorageClass,
+    };
+  }
+
+  /**
+   * Helper to read object metadata from a GET or HEAD response
+   */
+  private toMetadata(
+    key: string,
+    result: GetObjectCommandOutput | HeadObjectCommandOutput
+  ): S3ObjectMetadata {
+    return {
+      key,
+      lastModified: result.LastModified,
+      contentLength: result.ContentLength,
+      contentType: result.ContentType,
+      metadata: result.Metadata,
+      eTag: result.ETag,
+    };
+  }
 }
 
 /**
@@ -0,0 +1,159 @@
+import { Readable } from 'stream';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createMockS3Client, type MockS3Client } from './testing.js';
+import { MIN_PART_SIZE, type UploadProgress } from './index.js';
+
+describe('MockS3Client', () => {
+  let mockS3: MockS3Client;
+
+  beforeEach(() => {
+    mockS3 = createMockS3Client({ bucketName: 'test-bucket' });
+    const date = new Date('2025-01-01');
+
+    for (const key of [
+      'api/sets/one.json',
+      'api/sets/tla.json',
+      'images/card-a/normal.jpg',
+      'images/card-a/png.png',
+      'images/card-b/normal.jpg',
+      'images/index.txt',
+    ]) {
+      mockS3.setObject(key, 'body', date);
+    }
+  });
+
+  describe('listObjects', () => {
+    it('should group keys by delimiter and page through them', async () => {
+      const keys = [];
+      for await (const entry of mockS3.listObjects({
+        prefix: 'images/',
+        delimiter: '/',
+        maxKeys: 2,
+      })) {
+        keys.push(entry.type === 'prefix' ? entry.prefix : entry.key);
+      }
+
+      expect(keys).toEqual(['images/card-a/', 'images/card-b/', 'images/index.txt']);
+      expect(mockS3.getOperationsByType('list')).toHaveLength(2);
+    });
+
+    it('should resume from a continuation token and honour startAfter', async () => {
+      const pages = mockS3.listObjectPages({ maxKeys: 3, startAfter: 'api/sets/one.json' });
+      const first = (await pages.next()).value;
+      await pages.return(undefined);
+
+      expect(first?.objects.map((object) => object.key)).toEqual([
+        'api/sets/tla.json',
+        'images/card-a/normal.jpg',
+        'images/card-a/png.png',
+      ]);
+
+      const rest = [];
+      for await (const entry of mockS3.listObjects({
+        continuationToken: first?.nextContinuationToken,
+      })) {
+        rest.push(entry.type === 'object' ? entry.key : entry.prefix);
+      }
+
+      expect(rest).toEqual(['images/card-b/normal.jpg', 'images/index.txt']);
+    });
+  });
+
+  describe('deleting and copying', () => {
+    it('should delete a prefix, keeping keys configured to fail', async () => {
+      mockS3.setDeleteKeyError('images/card-a/png.png');
+
+      const result = await mockS3.deletePrefix('images/card-a/');
+
+      expect(result).toEqual({
+        deleted: ['images/card-a/normal.jpg'],
+        errors: [{ key: 'images/card-a/png.png', code: 'AccessDenied', message: 'Access Denied' }],
+      });
+      expect(mockS3.getStoredKeys()).toContain('images/card-a/png.png');
+    });
+
+    it('should move an object, replacing metadata only when asked', async () => {
+      mockS3.setObject('a.json', '{}', new Date(), 'application/json', { v: '1' });
+
+      await mockS3.moveObject('a.json', 'b.json');
+      await mockS3.copyObject('b.json', 'c.json', { metadata: { v: '2' } });
+
+      expect(mockS3.getStoredKeys()).not.toContain('a.json');
+      expect(await mockS3.getObjectMetadata('b.json')).toMatchObject({
+        contentType: 'application/json',
+        metadata: { v: '1' },
+      });
+      expect(await mockS3.getObjectMetadata('c.json')).toMatchObject({
+        contentType: undefined,
+        metadata: { v: '2' },
+      });
+      await expect(mockS3.copyObject('a.json', 'd.json')).rejects.toMatchObject({
+        name: 'NoSuchKey',
+      });
+    });
+
+    it('should keep an object moved onto itself', async () => {
+      mockS3.setObject('a.json', '{}', new Date(), 'text/plain');
+
+      await mockS3.moveObject('a.json', 'a.json', { contentType: 'application/json' });
+
+      expect(await mockS3.getObjectMetadata('a.json')).toMatchObject({
+        contentType: 'application/json',
+      });
+    });
+
+    it('should leave an object moved onto itself unchanged alone', async () => {
+      const lastModified = new Date('2025-01-01T00:00:00Z');
+      mockS3.setObject('a.json', '{}', lastModified, 'text/plain');
+
+      await mockS3.moveObject('a.json', 'a.json');
+
+      expect(await mockS3.getObjectMetadata('a.json')).toMatchObject({
+        contentType: 'text/plain',
+        lastModified,
+      });
+    });
+  });
+
+  describe('uploadObject', () => {
+    it('should store the body and report progress per part', async () => {
+      const progress: UploadProgress[] = [];
+      const body = Readable.from([Buffer.alloc(MIN_PART_SIZE), Buffer.alloc(10)]);
+
+      const result = await mockS3.uploadObject('bulk/cards.json', body, {
+        multipartThreshold: MIN_PART_SIZE,
+        partSize: MIN_PART_SIZE,
+        onProgress: (update) => progress.push(update),
+      });
+
+      expect(result).toMatchObject({ sizeBytes: MIN_PART_SIZE + 10, multipart: true, parts: 2 });
+      expect(progress.map((update) => update.loadedBytes)).toEqual([
+        MIN_PART_SIZE,
+        MIN_PART_SIZE + 10,
+      ]);
+      expect((await mockS3.getObjectBuffer('bulk/cards.json'))?.body).toHaveLength(
+        MIN_PART_SIZE + 10
+      );
+      expect(mockS3.getOperationsByType('upload')).toHaveLength(1);
+    });
+  });
+
+  describe('presigning', () => {
+    it('should return URLs marked with their expiry and record each request', async () => {
+      const url = await mockS3.getPresignedGetUrl('images/Aang & Katara.jpg', {
+        expiresInSeconds: 60,
+      });
+      const post = await mockS3.createPresignedPost('uploads/deck.png', {
+        maxContentLength: 1024,
+        contentType: 'image/png',
+      });
+
+      expect(url).toBe(
+        'https://test-bucket.s3.amazonaws.com/images/Aang%20%26%20Katara.jpg?X-Amz-Expires=60'
+      );
+      expect(post.fields).toEqual({ key: 'uploads/deck.png', 'Content-Type': 'image/png' });
+      expect(mockS3.getOperationsByType('presignGet')).toHaveLength(1);
+      expect(mockS3.getLastOperation()?.operation).toBe('presignPost');
+    });
+  });
+});
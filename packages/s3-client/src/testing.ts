@@ -3,17 +3,57 @@
  * Provides mocks and test helpers for packages that depend on this library
  */
 
-import type {
-  S3ClientWrapperConfig,
-  S3ObjectMetadata,
-  S3GetResult,
+import { Readable } from 'stream';
+import {
+  DEFAULT_MULTIPART_THRESHOLD,
+  DEFAULT_PART_SIZE,
+  type CopyObjectOptions,
+  type ListObjectsOptions,
+  type PresignGetOptions,
+  type PresignPostOptions,
+  type PresignPutOptions,
+  type S3ClientWrapperConfig,
+  type S3ListEntry,
+  type S3ListPage,
+  type S3DeleteResult,
+  type S3ObjectMetadata,
+  type S3GetBufferResult,
+  type S3GetResult,
+  type S3GetStreamResult,
+  type S3PresignedPost,
+  type S3UploadResult,
+  type UploadObjectOptions,
 } from './index.js';
 
+/**
+ * Operations captured by the mock client
+ */
+export type S3OperationType =
+  | 'put'
+  | 'putBuffer'
+  | 'putStream'
+  | 'upload'
+  | 'get'
+  | 'getBuffer'
+  | 'getStream'
+  | 'getMetadata'
+  | 'getAge'
+  | 'exists'
+  | 'list'
+  | 'delete'
+  | 'deleteMany'
+  | 'deletePrefix'
+  | 'copy'
+  | 'move'
+  | 'presignGet'
+  | 'presignPut'
+  | 'presignPost';
+
 /**
  * A captured S3 operation from the mock client
  */
 export interface CapturedS3Operation {
-  operation: 'put' | 'get' | 'getMetadata' | 'getAge' | 'exists';
+  operation: S3OperationType;
   key: string;
   params?: unknown;
   timestamp: number;
@@ -23,7 +63,7 @@ export interface CapturedS3Operation {
  * Stored object in the mock S3 client
  */
 interface StoredObject {
-  body: string;
+  body: Buffer;
   contentType?: string;
   metadata?: Record<string, string>;
   lastModified: Date;
@@ -40,6 +80,9 @@ export class MockS3Client {
   private putShouldFail: Error | null = null;
   private getShouldFail: Error | null = null;
   private getMetadataShouldFail: Error | null = null;
+  private deleteShouldFail: Error | null = null;
+  private copyShouldFail: Error | null = null;
+  private deleteKeyErrors: Map<string, { code: string; message: string }> = new Map();
 
   constructor(config: S3ClientWrapperConfig) {
     this.bucketName = config.bucketName;
@@ -64,7 +107,7 @@ export class MockS3Client {
    */
   async putObject(
     key: string,
-    body: string,
+    body: string | Uint8Array,
     contentType?: string,
     metadata?: Record<string, string>
   ): Promise<void> {
@@ -80,13 +123,142 @@ export class MockS3Client {
     });
 
     this.objects.set(key, {
-      body,
+      body: Buffer.from(body),
       contentType,
       metadata,
       lastModified: new Date(),
     });
   }
 
+  /**
+   * Mock putObjectBuffer that stores objects in memory
+   */
+  async putObjectBuffer(
+    key: string,
+    body: Buffer | Uint8Array,
+    contentType?: string,
+    metadata?: Record<string, string>
+  ): Promise<void> {
+    if (this.putShouldFail) {
+      throw this.putShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'putBuffer',
+      key,
+      params: { body, contentType, metadata },
+      timestamp: Date.now(),
+    });
+
+    this.objects.set(key, {
+      body: Buffer.from(body),
+      contentType,
+      metadata,
+      lastModified: new Date(),
+    });
+  }
+
+  /**
+   * Mock putObjectStream that reads the stream into memory
+   * Fails like S3 does when the stream's length doesn't match contentLength
+   */
+  async putObjectStream(
+    key: string,
+    body: Readable,
+    contentLength: number,
+    contentType?: string,
+    metadata?: Record<string, string>
+  ): Promise<void> {
+    if (this.putShouldFail) {
+      throw this.putShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'putStream',
+      key,
+      params: { contentLength, contentType, metadata },
+      timestamp: Date.now(),
+    });
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of body) {
+      chunks.push(Buffer.from(chunk as Buffer | string));
+    }
+    const data = Buffer.concat(chunks);
+
+    if (data.length !== contentLength) {
+      throw new Error(
+        `Stream for ${key} was ${data.length} bytes, expected ${contentLength}`
+      );
+    }
+
+    this.objects.set(key, {
+      body: data,
+      contentType,
+      metadata,
+      lastModified: new Date(),
+    });
+  }
+
+  /**
+   * Mock uploadObject that reads the body into memory
+   * Reports progress per part as a real upload would, but never fails part way
+   */
+  async uploadObject(
+    key: string,
+    body: string | Uint8Array | Readable,
+    options: UploadObjectOptions = {}
+  ): Promise<S3UploadResult> {
+    if (this.putShouldFail) {
+      throw this.putShouldFail;
+    }
+
+    const streamed = body instanceof Readable;
+    let data: Buffer;
+    if (streamed) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of body) {
+        chunks.push(Buffer.from(chunk as Buffer | string));
+      }
+      data = Buffer.concat(chunks);
+    } else {
+      data = Buffer.from(body);
+    }
+
+    const partSize = options.partSize ?? DEFAULT_PART_SIZE;
+    const multipart = data.length > (options.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD);
+    const parts = multipart ? Math.ceil(data.length / partSize) : 1;
+
+    this.operations.push({
+      operation: 'upload',
+      key,
+      params: {
+        contentType: options.contentType,
+        metadata: options.metadata,
+        multipart,
+        parts,
+      },
+      timestamp: Date.now(),
+    });
+
+    this.objects.set(key, {
+      body: data,
+      contentType: options.contentType,
+      metadata: options.metadata,
+      lastModified: new Date(),
+    });
+
+    for (let part = 1; part <= parts; part++) {
+      options.onProgress?.({
+        loadedBytes: part === parts ? data.length : part * partSize,
+        totalBytes: streamed ? undefined : data.length,
+        partsUploaded: part,
+      });
+    }
+
+    return { key, sizeBytes: data.length, multipart, parts, eTag: undefined };
+  }
+
   /**
    * Mock getObject that retrieves objects from memory
    */
@@ -107,15 +279,58 @@ export class MockS3Client {
     }
 
     return {
-      body: stored.body,
-      metadata: {
-        key,
-        lastModified: stored.lastModified,
-        contentLength: stored.body.length,
-        contentType: stored.contentType,
-        metadata: stored.metadata,
-        eTag: `"${key}-etag"`,
-      },
+      body: stored.body.toString('utf-8'),
+      metadata: this.toMetadata(key, stored),
+    };
+  }
+
+  /**
+   * Mock getObjectBuffer that retrieves objects from memory
+   */
+  async getObjectBuffer(key: string): Promise<S3GetBufferResult | null> {
+    if (this.getShouldFail) {
+      throw this.getShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'getBuffer',
+      key,
+      timestamp: Date.now(),
+    });
+
+    const stored = this.objects.get(key);
+    if (!stored) {
+      return null;
+    }
+
+    return {
+      body: Buffer.from(stored.body),
+      metadata: this.toMetadata(key, stored),
+    };
+  }
+
+  /**
+   * Mock getObjectStream that streams objects from memory
+   */
+  async getObjectStream(key: string): Promise<S3GetStreamResult | null> {
+    if (this.getShouldFail) {
+      throw this.getShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'getStream',
+      key,
+      timestamp: Date.now(),
+    });
+
+    const stored = this.objects.get(key);
+    if (!stored) {
+      return null;
+    }
+
+    return {
+      body: Readable.from([Buffer.from(stored.body)]),
+      metadata: this.toMetadata(key, stored),
     };
   }
 
@@ -138,14 +353,7 @@ export class MockS3Client {
       return null;
     }
 
-    return {
-      key,
-      lastModified: stored.lastModified,
-      contentLength: stored.body.length,
-      contentType: stored.contentType,
-      metadata: stored.metadata,
-      eTag: `"${key}-etag"`,
-    };
+    return this.toMetadata(key, stored);
   }
 
   /**
@@ -181,6 +389,212 @@ export class MockS3Client {
     return this.objects.has(key);
   }
 
+  /**
+   * Mock deleteObject that removes an object from memory
+   */
+  async deleteObject(key: string): Promise<void> {
+    if (this.deleteShouldFail) {
+      throw this.deleteShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'delete',
+      key,
+      timestamp: Date.now(),
+    });
+
+    this.objects.delete(key);
+  }
+
+  /**
+   * Mock deleteObjects that removes objects from memory
+   * Keys configured with setDeleteKeyError() are reported as errors and kept
+   */
+  async deleteObjects(keys: string[]): Promise<S3DeleteResult> {
+    if (this.deleteShouldFail) {
+      throw this.deleteShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'deleteMany',
+      key: keys[0] ?? '',
+      params: { keys },
+      timestamp: Date.now(),
+    });
+
+    return this.removeObjects(keys);
+  }
+
+  /**
+   * Mock deletePrefix that removes every object under a prefix from memory
+   */
+  async deletePrefix(prefix: string): Promise<S3DeleteResult> {
+    if (!prefix) {
+      throw new Error('deletePrefix needs a non-empty prefix');
+    }
+    if (this.deleteShouldFail) {
+      throw this.deleteShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'deletePrefix',
+      key: prefix,
+      timestamp: Date.now(),
+    });
+
+    return this.removeObjects(
+      [...this.objects.keys()].filter((key) => key.startsWith(prefix)).sort()
+    );
+  }
+
+  /**
+   * Mock copyObject that copies an object in memory
+   * The mock holds a single bucket, so sourceBucket is captured but not used
+   */
+  async copyObject(
+    sourceKey: string,
+    destinationKey: string,
+    options: CopyObjectOptions = {}
+  ): Promise<void> {
+    if (this.copyShouldFail) {
+      throw this.copyShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'copy',
+      key: destinationKey,
+      params: { sourceKey, ...options },
+      timestamp: Date.now(),
+    });
+
+    this.copyStoredObject(sourceKey, destinationKey, options);
+  }
+
+  /**
+   * Mock moveObject that copies an object in memory, then removes the source
+   * Moving an object onto itself keeps it, as in S3ClientWrapper
+   */
+  async moveObject(
+    sourceKey: string,
+    destinationKey: string,
+    options: CopyObjectOptions = {}
+  ): Promise<void> {
+    if (this.copyShouldFail) {
+      throw this.copyShouldFail;
+    }
+
+    this.operations.push({
+      operation: 'move',
+      key: destinationKey,
+      params: { sourceKey, ...options },
+      timestamp: Date.now(),
+    });
+
+    this.copyStoredObject(sourceKey, destinationKey, options);
+
+    if (sourceKey === destinationKey) {
+      return;
+    }
+    if (this.deleteShouldFail) {
+      throw this.deleteShouldFail;
+    }
+    this.objects.delete(sourceKey);
+  }
+
+  /**
+   * Mock getPresignedGetUrl that returns an unsigned URL marked with its expiry
+   */
+  async getPresignedGetUrl(key: string, options: PresignGetOptions = {}): Promise<string> {
+    this.operations.push({
+      operation: 'presignGet',
+      key,
+      params: options,
+      timestamp: Date.now(),
+    });
+
+    return this.presignedUrl(key, options.expiresInSeconds);
+  }
+
+  /**
+   * Mock getPresignedPutUrl that returns an unsigned URL marked with its expiry
+   */
+  async getPresignedPutUrl(key: string, options: PresignPutOptions = {}): Promise<string> {
+    this.operations.push({
+      operation: 'presignPut',
+      key,
+      params: options,
+      timestamp: Date.now(),
+    });
+
+    return this.presignedUrl(key, options.expiresInSeconds);
+  }
+
+  /**
+   * Mock createPresignedPost that returns the fields a form would send, without a policy
+   */
+  async createPresignedPost(key: string, options: PresignPostOptions): Promise<S3PresignedPost> {
+    this.operations.push({
+      operation: 'presignPost',
+      key,
+      params: options,
+      timestamp: Date.now(),
+    });
+
+    const fields: Record<string, string> = { key };
+    if (options.contentType !== undefined) {
+      fields['Content-Type'] = options.contentType;
+    }
+    for (const [name, value] of Object.entries(options.metadata ?? {})) {
+      fields[`x-amz-meta-${name}`] = value;
+    }
+
+    return {
+      url: `https://${this.bucketName}.s3.amazonaws.com/`,
+      fields,
+      expiresAt: new Date(Date.now() + (options.expiresInSeconds ?? 3600) * 1000),
+    };
+  }
+
+  /**
+   * Mock listObjects that lists stored objects in key order
+   */
+  async *listObjects(options: ListObjectsOptions = {}): AsyncGenerator<S3ListEntry> {
+    for await (const page of this.listObjectPages(options)) {
+      const entries: S3ListEntry[] = [
+        ...page.objects,
+        ...page.commonPrefixes.map((prefix) => ({ type: 'prefix' as const, prefix })),
+      ];
+
+      entries.sort((a, b) => {
+        const aKey = a.type === 'object' ? a.key : a.prefix;
+        const bKey = b.type === 'object' ? b.key : b.prefix;
+        return aKey < bKey ? -1 : aKey > bKey ? 1 : 0;
+      });
+      yield* entries;
+    }
+  }
+
+  /**
+   * Mock listObjectPages that pages through stored objects like ListObjectsV2
+   * Common prefixes count towards maxKeys, and continuation tokens are opaque
+   */
+  async *listObjectPages(options: ListObjectsOptions = {}): AsyncGenerator<S3ListPage> {
+    let continuationToken = options.continuationToken;
+
+    do {
+      this.operations.push({
+        operation: 'list',
+        key: options.prefix ?? '',
+        params: { ...options, continuationToken },
+        timestamp: Date.now(),
+      });
+
+      const page = this.listPage(options, continuationToken);
+      yield page;
+      continuationToken = page.nextContinuationToken;
+    } while (continuationToken);
+  }
+
   /**
    * Test helper: Get all captured operations
    */
@@ -191,9 +605,7 @@ export class MockS3Client {
   /**
    * Test helper: Get operations of a specific type
    */
-  getOperationsByType(
-    type: 'put' | 'get' | 'getMetadata' | 'getAge' | 'exists'
-  ): CapturedS3Operation[] {
+  getOperationsByType(type: S3OperationType): CapturedS3Operation[] {
     return this.operations.filter((op) => op.operation === type);
   }
 
@@ -223,13 +635,13 @@ export class MockS3Client {
    */
   setObject(
     key: string,
-    body: string,
+    body: string | Buffer,
     lastModified: Date,
     contentType?: string,
     metadata?: Record<string, string>
   ): void {
     this.objects.set(key, {
-      body,
+      body: Buffer.from(body),
       contentType,
       metadata,
       lastModified,
@@ -244,14 +656,14 @@ export class MockS3Client {
   }
 
   /**
-   * Test helper: Make the next putObject call fail with the given error
+   * Test helper: Make the next putObject, putObjectBuffer or putObjectStream call fail with the given error
    */
   setPutError(error: Error): void {
     this.putShouldFail = error;
   }
 
   /**
-   * Test helper: Make the next getObject call fail with the given error
+   * Test helper: Make the next getObject, getObjectBuffer or getObjectStream call fail with the given error
    */
   setGetError(error: Error): void {
     this.getShouldFail = error;
@@ -264,6 +676,27 @@ export class MockS3Client {
     this.getMetadataShouldFail = error;
   }
 
+  /**
+   * Test helper: Make the next delete call of any kind fail with the given error
+   */
+  setDeleteError(error: Error): void {
+    this.deleteShouldFail = error;
+  }
+
+  /**
+   * Test helper: Make deleteObjects and deletePrefix report an error for a key and keep it
+   */
+  setDeleteKeyError(key: string, code = 'AccessDenied', message = 'Access Denied'): void {
+    this.deleteKeyErrors.set(key, { code, message });
+  }
+
+  /**
+   * Test helper: Make the next copyObject or moveObject call fail with the given error
+   */
+  setCopyError(error: Error): void {
+    this.copyShouldFail = error;
+  }
+
   /**
    * Test helper: Clear all configured errors
    */
@@ -271,6 +704,9 @@ export class MockS3Client {
     this.putShouldFail = null;
     this.getShouldFail = null;
     this.getMetadataShouldFail = null;
+    this.deleteShouldFail = null;
+    this.copyShouldFail = null;
+    this.deleteKeyErrors.clear();
   }
 
   /**
@@ -279,6 +715,139 @@ export class MockS3Client {
   getOperationCount(): number {
     return this.operations.length;
   }
+
+  /**
+   * Helper to remove objects, reporting keys configured to fail
+   */
+  private removeObjects(keys: string[]): S3DeleteResult {
+    const result: S3DeleteResult = { deleted: [], errors: [] };
+
+    for (const key of keys) {
+      const error = this.deleteKeyErrors.get(key);
+
+      if (error) {
+        result.errors.push({ key, ...error });
+      } else {
+        this.objects.delete(key);
+        result.deleted.push(key);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Helper to copy a stored object, throwing NoSuchKey like S3 when the source is missing
+   */
+  private copyStoredObject(
+    sourceKey: string,
+    destinationKey: string,
+    options: CopyObjectOptions
+  ): void {
+    const replace =
+      (options.metadataDirective ??
+        (options.contentType || options.metadata ? 'REPLACE' : 'COPY')) === 'REPLACE';
+
+    // S3ClientWrapper skips copying an object onto itself unchanged
+    if (sourceKey === destinationKey && !replace) {
+      return;
+    }
+
+    const source = this.objects.get(sourceKey);
+
+    if (!source) {
+      throw Object.assign(new Error('The specified key does not exist.'), {
+        name: 'NoSuchKey',
+      });
+    }
+
+    this.objects.set(destinationKey, {
+      body: Buffer.from(source.body),
+      contentType: replace ? options.contentType : source.contentType,
+      metadata: replace ? options.metadata : source.metadata,
+      lastModified: new Date(),
+    });
+  }
+
+  /**
+   * Helper to build one page of a listing, resuming after the entry named in the token
+   */
+  private listPage(
+    options: ListObjectsOptions,
+    continuationToken: string | undefined
+  ): S3ListPage {
+    const prefix = options.prefix ?? '';
+    const maxKeys = options.maxKeys ?? 1000;
+    const after: { marker: string; isPrefix: boolean } = continuationToken
+      ? JSON.parse(Buffer.from(continuationToken, 'base64url').toString('utf-8'))
+      : { marker: options.startAfter ?? '', isPrefix: false };
+    const page: S3ListPage = { objects: [], commonPrefixes: [], nextContinuationToken: undefined };
+    let last = after;
+
+    const keys = [...this.objects.keys()]
+      .filter(
+        (key) =>
+          key.startsWith(prefix) &&
+          key > after.marker &&
+          !(after.isPrefix && key.startsWith(after.marker))
+      )
+      .sort();
+
+    for (const key of keys) {
+      const rest = key.slice(prefix.length);
+      const index = options.delimiter ? rest.indexOf(options.delimiter) : -1;
+      const commonPrefix =
+        index >= 0 ? prefix + rest.slice(0, index + options.delimiter!.length) : undefined;
+
+      if (commonPrefix && page.commonPrefixes.includes(commonPrefix)) {
+        continue;
+      }
+      if (page.objects.length + page.commonPrefixes.length === maxKeys) {
+        page.nextContinuationToken = Buffer.from(JSON.stringify(last)).toString('base64url');
+        break;
+      }
+
+      if (commonPrefix) {
+        page.commonPrefixes.push(commonPrefix);
+        last = { marker: commonPrefix, isPrefix: true };
+      } else {
+        const stored = this.objects.get(key)!;
+        page.objects.push({
+          type: 'object',
+          key,
+          lastModified: stored.lastModified,
+          contentLength: stored.body.length,
+          eTag: `"${key}-etag"`,
+          storageClass: 'STANDARD',
+        });
+        last = { marker: key, isPrefix: false };
+      }
+    }
+
+    return page;
+  }
+
+  /**
+   * Helper to build a URL shaped like a presigned one
+   */
+  private presignedUrl(key: string, expiresInSeconds = 3600): string {
+    const path = key.split('/').map(encodeURIComponent).join('/');
+    return `https://${this.bucketName}.s3.amazonaws.com/${path}?X-Amz-Expires=${expiresInSeconds}`;
+  }
+
+  /**
+   * Helper to build object metadata from a stored object
+   */
+  private toMetadata(key: string, stored: StoredObject): S3ObjectMetadata {
+    return {
+      key,
+      lastModified: stored.lastModified,
+      contentLength: stored.body.length,
+      contentType: stored.contentType,
+      metadata: stored.metadata,
+      eTag: `"${key}-etag"`,
+    };
+  }
 }
 
 /**